@@ -1,148 +1,1182 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { Upload, Database, FileText, Search, Trash2, Plus, Download, Cpu, HardDrive, Table as TableIcon } from 'lucide-react';
-import { initDatabase, getTables, getPrimaryKeys, getTableData, resetDatabase } from './services/dbService';
-import { buildCQF, searchCQF, insertCQF, deleteCQF, generatePKFileContent } from './services/cqfService';
-import { TableInfo, TableData } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Upload, Database, FileText, Download, Cpu, HardDrive, FileUp, Filter, Terminal, Combine, X, Table as TableIcon } from 'lucide-react';
+import { initDatabase, getTables, exportKeyFile, getExistingKeys, executeSql, resetDatabase, getRowLocator, exportDatabase, openAdditionalDatabase, closeAdditionalDatabase, importDataTable, importSqlDump } from './services/dbService';
+import { JobCancelledError, JobOptions } from './services/dbWorkerClient';
+import { buildCQFFromSource, batchCQF, setResizePolicyCQF, searchCQF, insertCQF, deleteCQF, countCQF, getCQFStats, probeCQF, exportCQF, importCQF, listCQFs, combineCQFs, compareCQFs, listMissingFingerprints, setBackend, getBackendConfig, checkBackendConnection, generateProbeKeys, getSlotWindow, getSlotLayout, locateKey, runFilterBenchmark, generateBenchmarkJson, replayJournalCQF } from './services/cqfService';
+import { CQF_FILE_EXTENSION, deserializeFilter } from './services/cqfFormat';
+import { KEY_FILE_FORMATS } from './services/keyFileFormat';
+import { generateBatchResultsCsv } from './services/batchResults';
+import { downloadBlob } from './services/downloadService';
+import { MAIN_DATABASE, defaultFilterName, describeKeySource, keySourceAffinities, keySourceColumns, readsTable, sourceDatabase, tableSource } from './services/keySource';
+import { DEFAULT_HASHING_OPTIONS, keyHashingFor, keyPartText } from './services/keyEncoding';
+import { JOURNAL_LIMIT, JournalRecord, appendJournal, batchResult, countResult, deleteResult, failedResult, generateJournalCsv, generateJournalJson, insertResult, searchResult } from './services/journal';
+import { TableInfo, CqfFilterState, BackendConfig, BackendStatus, KeySource, FilterSource, BatchOp, BatchProgress, BatchRun, SqlRunResult, SqlHistoryEntry, JoinCheckResult, ResizeEvent, ResizePolicy, SetOperation, FilterComparison, FingerprintListing, RowEdit, RowValues, WorkspaceSummary, StorageUsage, JobProgress, KeyExportOptions, KeyHashing, HashingOptions, KeyLocation, SlotLayoutStats, SlotWindow, BenchmarkOptions, BenchmarkResult, JournalEntry, JournalOrigin, JournalReplay, JournalResult, OpenDatabase, SnapshotDiffResult, ImportTablePlan } from './types';
 import { Button } from './components/Button';
 import { LoadingOverlay } from './components/LoadingOverlay';
+import { FilterOperationsPanel, CqfAction } from './components/FilterOperationsPanel';
+import { BackendSettings } from './components/BackendSettings';
+import { KeySourcePicker, defaultKeySource } from './components/KeySourcePicker';
+import { BulkOperationsPanel } from './components/BulkOperationsPanel';
+import { TableBrowser } from './components/TableBrowser';
+import { SqlConsole } from './components/SqlConsole';
+import { JoinCheckPanel } from './components/JoinCheckPanel';
+import { SetAlgebraPanel } from './components/SetAlgebraPanel';
+import { runJoinCheck, verifyJoinCheck, generateJoinCheckCsv } from './services/joinCheckService';
+import { applyRowEdit } from './services/rowEditService';
+import { runSnapshotDiff, generateSnapshotDiffCsv } from './services/snapshotDiffService';
+import { DATABASE_FILE_ACCEPT, detectDataFileFormat, importedDbFileName, readDataFile } from './services/dataImport';
+import { RowEditor } from './components/RowEditor';
+import { KeyExportDialog } from './components/KeyExportDialog';
+import { HashingPicker } from './components/HashingPicker';
+import { SlotVisualizer, SLOT_WINDOW_SLOTS, slotWindowStart } from './components/SlotVisualizer';
+import { BenchmarkPanel } from './components/BenchmarkPanel';
+import { JournalPanel } from './components/JournalPanel';
+import { SnapshotDiffPanel } from './components/SnapshotDiffPanel';
+import { ImportPreviewDialog } from './components/ImportPreviewDialog';
+import { WorkspaceList } from './components/WorkspaceList';
+import { listWorkspaces, saveWorkspace, loadWorkspace, deleteWorkspace, getStorageUsage, createWorkspaceId } from './services/workspaceStore';
 
-// --- Sub-components defined here for single-file constraint simplicity or split if needed. 
-// Given the prompt asks for a robust structure, I've split generic UI components but will keep domain-specific layout logic here 
-// to avoid too many tiny files in the XML output.
+const SQL_HISTORY_LIMIT = 50;
+// Fingerprints listed when comparing two filters
+const MISSING_FINGERPRINT_SAMPLE = 200;
+// Quiet period before the workspace is saved to IndexedDB
+const AUTOSAVE_DELAY_MS = 1000;
 
 function App() {
   const [isDbLoaded, setIsDbLoaded] = useState(false);
+  const [dbFileName, setDbFileName] = useState('database.db');
   const [tables, setTables] = useState<TableInfo[]>([]);
+  const [otherDatabases, setOtherDatabases] = useState<OpenDatabase[]>([]); // Opened for comparison, read-only
+  const [importPlan, setImportPlan] = useState<ImportTablePlan | null>(null); // CSV or JSON file awaiting the import preview
   const [selectedTable, setSelectedTable] = useState<TableInfo | null>(null);
-  const [tableData, setTableData] = useState<TableData>({ columns: [], rows: [] });
   const [isLoading, setIsLoading] = useState(false);
+  const [toolView, setToolView] = useState<'sql' | 'algebra' | null>(null); // Replaces the table/filter view when set
+  const [sqlResult, setSqlResult] = useState<SqlRunResult | null>(null);
+  const [sqlHistory, setSqlHistory] = useState<SqlHistoryEntry[]>([]);
   const [loadingMessage, setLoadingMessage] = useState('');
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [jobController, setJobController] = useState<AbortController | null>(null); // Set while a cancellable job runs
   
   // CQF State
-  const [cqfBuiltTables, setCqfBuiltTables] = useState<Set<string>>(new Set());
+  const [cqfFilters, setCqfFilters] = useState<Record<string, CqfFilterState>>({}); // Keyed by filter name
+  const [activeFilterName, setActiveFilterName] = useState<string | null>(null);
+  const [keySource, setKeySource] = useState<KeySource | null>(null);
+  const [whereClause, setWhereClause] = useState('');
+  const [filterNameInput, setFilterNameInput] = useState('');
+  const [hashingOptions, setHashingOptions] = useState<HashingOptions>(DEFAULT_HASHING_OPTIONS);
   const [cqfConsole, setCqfConsole] = useState<string[]>([]);
-  const [searchKey, setSearchKey] = useState('');
+  const [journals, setJournals] = useState<Record<string, JournalEntry[]>>({}); // Filter name -> operation journal
+  const [journalReplay, setJournalReplay] = useState<JournalReplay | null>(null);
   const [cqfOperationLoading, setCqfOperationLoading] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [lastBatchRun, setLastBatchRun] = useState<BatchRun | null>(null);
+  const [joinProgress, setJoinProgress] = useState<BatchProgress | null>(null);
+  const [joinResult, setJoinResult] = useState<JoinCheckResult | null>(null);
+  const [filterComparison, setFilterComparison] = useState<FilterComparison | null>(null);
+  const [missingFingerprints, setMissingFingerprints] = useState<FingerprintListing | null>(null);
+  const [keyPrefill, setKeyPrefill] = useState<string[] | null>(null); // Key parts picked from the table browser
+  const [editingRow, setEditingRow] = useState<{ row: any[] | null } | null>(null); // row null: adding a row
+  const [showKeyExport, setShowKeyExport] = useState(false);
+  // Slot visualizer: only fetched while open
+  const [showSlots, setShowSlots] = useState(false);
+  const [slotFrom, setSlotFrom] = useState(0);
+  const [slotWindow, setSlotWindow] = useState<SlotWindow | null>(null);
+  const [slotLayout, setSlotLayout] = useState<SlotLayoutStats | null>(null);
+  const [locatedKey, setLocatedKey] = useState<{ key: string; location: KeyLocation } | null>(null);
+  const [benchmarkResult, setBenchmarkResult] = useState<BenchmarkResult | null>(null);
+  const [snapshotDiff, setSnapshotDiff] = useState<SnapshotDiffResult | null>(null);
+  const [divergedFilters, setDivergedFilters] = useState<Record<string, string>>({}); // Filter name -> reason
 
-  // File Upload Handler
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Workspace persistence: `dbVersion` counts database changes so unchanged bytes are not re-saved
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  const [dbVersion, setDbVersion] = useState(0);
+  const savedDbVersion = useRef(-1);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const saveWaiting = useRef(false); // A save is queued and has not started, so it will pick up later changes
+  const latestSave = useRef<() => Promise<void>>(async () => {});
+  const savedFilters = useRef<Record<string, CqfFilterState>>({}); // Filter states whose files the saved workspace holds
+  const savedJournals = useRef<Record<string, JournalEntry[]>>({}); // Likewise for journals; appending replaces a journal's array
+  const [backendConfig, setBackendConfig] = useState<BackendConfig>(getBackendConfig());
+  const [backendStatus, setBackendStatus] = useState<BackendStatus>({ state: 'connected', label: 'In-browser' });
 
-    setIsLoading(true);
-    setLoadingMessage(`Parsing ${file.name}...`);
-    resetDatabase();
+  // Forgets everything tied to the main database, as when it has been closed
+  const clearSession = () => {
+    setIsDbLoaded(false);
     setTables([]);
+    setOtherDatabases([]);
+    setSnapshotDiff(null);
     setSelectedTable(null);
-    setCqfBuiltTables(new Set());
+    setActiveFilterName(null);
+    setCqfFilters({});
+    setDivergedFilters({});
+    setJournals({});
+    setJournalReplay(null);
     setCqfConsole([]);
+    setToolView(null);
+    setSqlResult(null);
+  };
+
+  // Loads a new main database, replacing everything tied to the current one; `fileName` is what Download .db saves
+  const loadMainDatabase = async (fileName: string, load: (options: JobOptions) => Promise<TableInfo[]>, failure: (error: any) => string) => {
+    setIsLoading(true);
+    setLoadingMessage(`Parsing ${fileName}...`);
+    clearSession();
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      await initDatabase(arrayBuffer);
-      const extractedTables = getTables();
+      const extractedTables = await load(startJob());
+      setDbFileName(fileName);
+      setWorkspaceId(null);
+      savedDbVersion.current = -1;
+      savedFilters.current = {};
+      savedJournals.current = {};
+      setDbVersion(v => v + 1);
       setTables(extractedTables);
       setIsDbLoaded(true);
       if (extractedTables.length > 0) {
         handleSelectTable(extractedTables[0]);
       }
     } catch (error) {
-      console.error(error);
-      alert("Failed to load database. Please ensure it is a valid SQLite file.");
+      if (!(error instanceof JobCancelledError)) {
+        console.error(error);
+        alert(failure(error));
+      }
     } finally {
+      finishJob();
       setIsLoading(false);
     }
   };
 
+  // File Upload Handler: SQLite files open as they are; CSV and JSON go through the import preview and .sql dumps are run
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again after cancelling a preview
+    if (!file) return;
+
+    const format = detectDataFileFormat(file.name);
+    if (format === 'csv' || format === 'json') {
+      try {
+        setImportPlan(readDataFile(file.name, await file.text(), format));
+      } catch (error: any) {
+        alert(`Failed to read ${file.name}: ${error.message}`);
+      }
+    } else if (format === 'sql') {
+      const sql = await file.text();
+      await loadMainDatabase(
+        importedDbFileName(file.name),
+        options => importSqlDump(sql, options),
+        error => `Failed to import ${file.name}: ${error?.message ?? error}`
+      );
+    } else {
+      const arrayBuffer = await file.arrayBuffer();
+      await loadMainDatabase(
+        file.name,
+        options => initDatabase(arrayBuffer, options),
+        () => "Failed to load database. Please ensure it is a valid SQLite file."
+      );
+    }
+  };
+
+  const handleImportTable = async (plan: ImportTablePlan) => {
+    setImportPlan(null);
+    await loadMainDatabase(
+      importedDbFileName(plan.fileName),
+      options => importDataTable(plan, options),
+      error => `Failed to import ${plan.fileName}: ${error?.message ?? error}`
+    );
+  };
+
+  // Another database, e.g. an older snapshot of the main one, opened read-only next to it
+  const handleOpenOtherDatabase = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow opening the same file again
+    if (!file) return;
+
+    // The id prefixes default filter names, so it follows the file name
+    const stem = file.name.replace(/\.[^.]*$/, '') || 'db';
+    const taken = new Set([MAIN_DATABASE, ...otherDatabases.map(db => db.id)]);
+    let id = stem;
+    for (let n = 2; taken.has(id); n++) id = `${stem}-${n}`;
+
+    setIsLoading(true);
+    setLoadingMessage(`Parsing ${file.name}...`);
+    try {
+      const extractedTables = await openAdditionalDatabase(id, await file.arrayBuffer(), startJob());
+      setOtherDatabases(prev => [...prev, { id, fileName: file.name, tables: extractedTables }]);
+      addToConsole(`[SYSTEM] Opened ${file.name} for comparison (${extractedTables.length} tables)`);
+    } catch (error: any) {
+      if (!(error instanceof JobCancelledError)) {
+        console.error(error);
+        alert(`Failed to open ${file.name}: ${error?.message ?? error}`);
+      }
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  // Filters built over the closed database stay loaded but can no longer read its keys
+  const handleCloseOtherDatabase = async (id: string) => {
+    try {
+      await closeAdditionalDatabase(id);
+    } catch (error: any) {
+      console.error(error);
+    }
+    setOtherDatabases(prev => prev.filter(db => db.id !== id));
+    if (selectedTable?.database === id) setSelectedTable(null);
+  };
+
+  // Long worker jobs report progress to the loading overlay and can be cancelled from it
+  const startJob = (): JobOptions => {
+    const controller = new AbortController();
+    setJobController(controller);
+    setJobProgress(null);
+    return { signal: controller.signal, onProgress: setJobProgress };
+  };
+
+  const finishJob = () => {
+    setJobController(null);
+    setJobProgress(null);
+  };
+
   // Table Selection Handler
   const handleSelectTable = useCallback((table: TableInfo) => {
     setSelectedTable(table);
-    // Fetch preview data
-    const data = getTableData(table.name);
-    setTableData(data);
+    setToolView(null);
+    setActiveFilterName(null);
+    setKeySource(defaultKeySource(table));
+    setWhereClause('');
+    setFilterNameInput('');
+    setKeyPrefill(null);
+    setEditingRow(null);
+    setBenchmarkResult(null);
     setCqfConsole([]); // Clear console on switch
   }, []);
 
-  // Download PKs
-  const handleDownloadPKs = () => {
-    if (!selectedTable || !selectedTable.pkColumn) return;
-    
+  const handleSelectDetachedFilter = (name: string) => {
+    setSelectedTable(null);
+    setToolView(null);
+    setActiveFilterName(name);
+    setCqfConsole([]);
+  };
+
+  const handleOpenSqlConsole = () => {
+    setSelectedTable(null);
+    setActiveFilterName(null);
+    setToolView('sql');
+  };
+
+  const handleOpenFilterAlgebra = () => {
+    setSelectedTable(null);
+    setActiveFilterName(null);
+    setToolView('algebra');
+  };
+
+  // SQL console: statements may change the schema, so the table list is re-read afterwards
+  const handleRunSql = async (sql: string) => {
+    let result: SqlRunResult;
     setIsLoading(true);
-    setLoadingMessage('Extracting Primary Keys...');
-    
-    // Defer to allow UI update
-    setTimeout(() => {
-      const keys = getPrimaryKeys(selectedTable.name, selectedTable.pkColumn!);
-      const content = generatePKFileContent(keys);
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${selectedTable.name}_pks.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+    setLoadingMessage('Running SQL...');
+    try {
+      result = await executeSql(sql);
+    } catch (error: any) {
+      alert(error.message);
+      return;
+    } finally {
       setIsLoading(false);
-    }, 100);
+    }
+    setSqlResult(result);
+    setSqlHistory(prev => [
+      { sql, ranAt: new Date().toISOString(), ok: !result.error },
+      ...prev.filter(entry => entry.sql !== sql)
+    ].slice(0, SQL_HISTORY_LIMIT));
+    if (result.statements.some(statement => !statement.readOnly)) {
+      setTables(await getTables());
+      setDbVersion(v => v + 1);
+      markDiverged(
+        Object.keys(cqfFilters).filter(name => cqfFilters[name].source.keySource),
+        'SQL console statements changed the database after the filter was built'
+      );
+    }
   };
 
-  // Build CQF
+  const handleBuildFromQuery = async (sql: string, column: string, filterName: string) => {
+    const source: FilterSource = { tableName: '', keySource: { kind: 'query', sql, column }, where: null };
+
+    setIsLoading(true);
+    setLoadingMessage(`Building CQF ${filterName}...`);
+    const started = performance.now();
+    try {
+      const response = await buildCQFFromSource(filterName, source, keyHashingFor(hashingOptions, ['none']), startJob());
+      const latencyMs = performance.now() - started;
+      if (response.success) {
+        recordBuild(filterName, 'build', await refreshStats(filterName), latencyMs);
+        clearDiverged(filterName);
+        handleSelectDetachedFilter(filterName);
+        addToConsole(`[SYSTEM] ${response.message}`);
+      }
+    } catch (error: any) {
+      if (error instanceof JobCancelledError) return;
+      reportCqfError(error, 'Failed to build CQF: ');
+      alert(`Failed to build CQF: ${error?.message ?? error}`);
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  // Tables of every open database, the main one first
+  const allTables = useMemo(() => [...tables, ...otherDatabases.flatMap(db => db.tables)], [tables, otherDatabases]);
+
+  // Key source being edited for the selected table, and the filter it would build
+  const pendingSource: FilterSource | null = selectedTable && keySource
+    ? tableSource(selectedTable, keySource, whereClause.trim() || null)
+    : null;
+  const pendingHashing: KeyHashing | null = selectedTable && keySource
+    ? keyHashingFor(hashingOptions, keySourceAffinities(keySource, selectedTable))
+    : null;
+  const pendingFilterName = filterNameInput.trim()
+    || (selectedTable && keySource ? defaultFilterName(selectedTable.name, keySource, selectedTable.database) : '');
+  const isKeySourceComplete = !!keySource && (
+    (keySource.kind === 'column' && keySource.column !== '')
+    || (keySource.kind === 'expression' && keySource.expression.trim() !== '')
+    || keySource.kind === 'primaryKey'
+    || keySource.kind === 'rowid'
+  );
+
+  // Download the keys of the pending key source in the format chosen in the export dialog
+  const handleDownloadKeys = async (exportOptions: KeyExportOptions) => {
+    if (!pendingSource || !isKeySourceComplete) return;
+
+    setShowKeyExport(false);
+    setIsLoading(true);
+    setLoadingMessage('Extracting keys...');
+    try {
+      const file = await exportKeyFile(pendingSource, exportOptions, startJob());
+      downloadBlob(file, `${pendingFilterName}_keys${KEY_FILE_FORMATS[exportOptions.format].extension}`);
+    } catch (error: any) {
+      if (error instanceof JobCancelledError) addToConsole('[SYSTEM] Key extraction cancelled');
+      else addToConsole(`[ERROR] Failed to extract keys: ${error.message}`);
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  // Build (or rebuild) the pending filter
   const handleBuildCQF = async () => {
-    if (!selectedTable || !selectedTable.pkColumn) return;
+    if (!pendingSource || !pendingHashing || !isKeySourceComplete) return;
 
     setIsLoading(true);
-    setLoadingMessage('Building CQF in Backend...');
+    setLoadingMessage(`Building CQF ${pendingFilterName}...`);
+    const started = performance.now();
 
     try {
-      const keys = getPrimaryKeys(selectedTable.name, selectedTable.pkColumn!);
-      const response = await buildCQF(selectedTable.name, keys);
-      
+      const response = await buildCQFFromSource(pendingFilterName, pendingSource, pendingHashing, startJob());
+      const latencyMs = performance.now() - started;
+
       if (response.success) {
-        setCqfBuiltTables(prev => new Set(prev).add(selectedTable.name));
+        recordBuild(pendingFilterName, 'build', await refreshStats(pendingFilterName), latencyMs);
+        clearDiverged(pendingFilterName);
+        setActiveFilterName(pendingFilterName);
         addToConsole(`[SYSTEM] ${response.message}`);
       }
     } catch (error) {
-      addToConsole(`[ERROR] Failed to build CQF: ${error}`);
+      if (error instanceof JobCancelledError) addToConsole(`[SYSTEM] Build of ${pendingFilterName} cancelled; the filter is unchanged`);
+      else reportCqfError(error, 'Failed to build CQF: ');
     } finally {
+      finishJob();
       setIsLoading(false);
     }
   };
 
+  // Benchmark the CQF against Bloom, cuckoo and Set baselines on the pending key source
+  const handleRunBenchmark = async (benchmarkOptions: BenchmarkOptions) => {
+    if (!pendingSource || !keySource || !isKeySourceComplete) return;
+
+    const label = `${pendingSource.tableName}.${describeKeySource(keySource)}${pendingSource.where ? ` WHERE ${pendingSource.where}` : ''}`;
+    setIsLoading(true);
+    setLoadingMessage('Running benchmark...');
+    try {
+      const result = await runFilterBenchmark(pendingSource, label, benchmarkOptions, startJob());
+      setBenchmarkResult(result);
+      addToConsole(`[SYSTEM] Benchmarked ${result.keyCount.toLocaleString()} keys of ${label} at a target FP rate of ${benchmarkOptions.targetFpRate}`);
+    } catch (error: any) {
+      if (error instanceof JobCancelledError) addToConsole('[SYSTEM] Benchmark cancelled');
+      else addToConsole(`[ERROR] Benchmark failed: ${error.message}`);
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownloadBenchmark = (result: BenchmarkResult) => {
+    downloadBlob(new Blob([generateBenchmarkJson(result)], { type: 'application/json' }), `${pendingFilterName || 'cqf'}_benchmark.json`);
+  };
+
+  // Export / import filters in the binary .cqf format
+  const handleDownloadFilter = async (filterName: string) => {
+    try {
+      const buffer = await exportCQF(filterName);
+      downloadBlob(new Blob([buffer], { type: 'application/octet-stream' }), `${filterName}${CQF_FILE_EXTENSION}`);
+      addToConsole(`[SYSTEM] Exported filter (${buffer.byteLength.toLocaleString()} bytes)`);
+    } catch (error: any) {
+      addToConsole(`[ERROR] Failed to export CQF: ${error.message}`);
+    }
+  };
+
+  const handleLoadFilter = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+
+    setIsLoading(true);
+    setLoadingMessage(`Loading filter ${file.name}...`);
+    try {
+      const buffer = await file.arrayBuffer();
+      const started = performance.now();
+      const response = await importCQF(buffer);
+      const latencyMs = performance.now() - started;
+      const stats = await refreshStats(response.filterName);
+      recordBuild(response.filterName, 'import', stats, latencyMs);
+      clearDiverged(response.filterName);
+      const table = allTables.find(t => readsTable(stats.source, t));
+      if (table) {
+        if (selectedTable !== table) handleSelectTable(table);
+        setActiveFilterName(response.filterName);
+      } else {
+        handleSelectDetachedFilter(response.filterName);
+      }
+      addToConsole(`[SYSTEM] ${response.message}`);
+    } catch (error: any) {
+      alert(`Failed to load filter: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Switch filter backends; filters already on the new backend show up in the UI
+  const handleApplyBackend = async (config: BackendConfig) => {
+    setBackend(config);
+    setBackendConfig(config);
+    setBackendStatus({ state: 'checking', label: config.kind === 'http' ? config.baseUrl : 'In-browser' });
+    setCqfFilters({});
+    setActiveFilterName(null);
+
+    const status = await checkBackendConnection();
+    setBackendStatus(status);
+    if (status.state !== 'connected') {
+      addToConsole(`[ERROR] Backend unavailable: ${status.error}`);
+      return;
+    }
+
+    addToConsole(`[SYSTEM] Connected to backend ${status.label}`);
+    try {
+      const names = await listCQFs();
+      const entries = await Promise.all(names.map(async name => [name, await getCQFStats(name)] as const));
+      setCqfFilters(Object.fromEntries(entries));
+    } catch (error: any) {
+      addToConsole(`[ERROR] Failed to list filters: ${error.message}`);
+    }
+  };
+
+  const refreshStats = async (filterName: string): Promise<CqfFilterState> => {
+    const stats = await getCQFStats(filterName);
+    setCqfFilters(prev => ({ ...prev, [filterName]: stats }));
+    return stats;
+  };
+
+  // FP Probe: query keys known to be absent from the filter's key source
+  const handleFpProbe = async (probeSize: number) => {
+    if (!currentFilterName || !filterStats?.source.keySource) return;
+
+    setCqfOperationLoading(true);
+    try {
+      const candidates = generateProbeKeys(probeSize);
+      const existing = await getExistingKeys(filterStats.source, candidates);
+      const absentKeys = candidates.filter(key => !existing.has(key));
+      const res = await probeCQF(currentFilterName, absentKeys);
+      await refreshStats(currentFilterName);
+      addToConsole(`FP probe: ${res.falsePositives}/${res.probes} false positives (${(res.measuredFpRate * 100).toFixed(4)}%)`);
+    } catch (error: any) {
+      addToConsole(`[ERROR] ${error.message}`);
+    } finally {
+      setCqfOperationLoading(false);
+    }
+  };
+
   // CQF Operations
   const addToConsole = (msg: string) => {
     setCqfConsole(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev]);
   };
 
-  const performCqfAction = async (action: 'search' | 'insert' | 'delete') => {
-    if (!selectedTable || !searchKey) return;
-    
+  // Operation journal: structured entries kept per filter, unlike the console they survive table switches
+  const recordJournal = (filterName: string, table: string | null, records: JournalRecord[]) => {
+    if (records.length === 0) return;
+    setJournals(prev => ({ ...prev, [filterName]: appendJournal(prev[filterName] ?? [], filterName, table, records) }));
+  };
+
+  const recordBuild = (filterName: string, origin: JournalOrigin, stats: CqfFilterState, latencyMs: number) => {
+    recordJournal(filterName, stats.source.tableName || null, [{
+      origin,
+      op: 'build',
+      key: '',
+      keyHash: false,
+      amount: 1,
+      result: { ok: true, found: true, count: stats.itemCount },
+      latencyMs
+    }]);
+  };
+
+  // Divergence: the filter no longer reflects its source table (until rebuilt)
+  const markDiverged = (filterNames: string[], reason: string) => {
+    if (filterNames.length === 0) return;
+    setDivergedFilters(prev => ({ ...prev, ...Object.fromEntries(filterNames.map(name => [name, reason])) }));
+  };
+
+  const clearDiverged = (filterName: string) => {
+    setDivergedFilters(prev => {
+      const { [filterName]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Playground and batch writes change only the filter, never the table
+  const markPlaygroundWrite = (filterName: string) => {
+    if (isDbLoaded && cqfFilters[filterName]?.source.keySource) {
+      markDiverged([filterName], 'keys were inserted or deleted in the playground, which does not change the table');
+    }
+  };
+
+  const logResize = (event: ResizeEvent) => {
+    addToConsole(`[RESIZE] Expanded 2^${event.fromQuotientBits} -> 2^${event.toQuotientBits} slots (${event.toRemainderBits}-bit remainders), load ${event.loadFactorBefore.toFixed(3)} -> ${event.loadFactorAfter.toFixed(3)}`);
+  };
+
+  const handlePolicyChange = async (policy: ResizePolicy) => {
+    if (!currentFilterName) return;
+    try {
+      const stats = await setResizePolicyCQF(currentFilterName, policy);
+      setCqfFilters(prev => ({ ...prev, [currentFilterName]: stats }));
+      addToConsole(`[SYSTEM] Resize policy: ${policy.mode} at load factor ${policy.maxLoadFactor}`);
+    } catch (error: any) {
+      reportCqfError(error, 'Failed to set resize policy: ');
+    }
+  };
+
+  // Transport failures mean the backend is gone, not that the operation was rejected
+  const reportCqfError = (error: any, prefix: string = '') => {
+    if (error?.code === 'network' || error?.code === 'timeout') {
+      setBackendStatus(prev => ({ ...prev, state: 'disconnected', error: error.message }));
+    }
+    addToConsole(`[ERROR] ${prefix}${error?.message ?? error}`);
+  };
+
+  // Filters built on the selected table; the active one defaults to the first
+  const tableFilterNames = useMemo(
+    () => selectedTable
+      ? Object.keys(cqfFilters).filter(name => readsTable(cqfFilters[name].source, selectedTable))
+      : [],
+    [cqfFilters, selectedTable]
+  );
+  const currentFilterName = selectedTable
+    ? (activeFilterName && tableFilterNames.includes(activeFilterName) ? activeFilterName : tableFilterNames[0] ?? null)
+    : activeFilterName;
+  const filterStats = currentFilterName ? cqfFilters[currentFilterName] : undefined;
+  const journalReplayBlocked = !filterStats?.source.keySource
+    ? 'Replay needs a filter built from a key source'
+    : !isDbLoaded ? 'Load the source database to replay' : null;
+
+  useEffect(() => {
+    setSlotWindow(null);
+    setSlotLayout(null);
+    setLocatedKey(null);
+    setSlotFrom(0);
+  }, [currentFilterName]);
+
+  // Reloaded whenever the filter's stats change, so inserts, deletes and expansions show up
+  useEffect(() => {
+    if (!showSlots || !currentFilterName) return;
+    let cancelled = false;
+    Promise.all([getSlotWindow(currentFilterName, slotFrom, SLOT_WINDOW_SLOTS), getSlotLayout(currentFilterName)])
+      .then(([slots, layout]) => {
+        if (cancelled) return;
+        setSlotWindow(slots);
+        setSlotLayout(layout);
+      })
+      .catch(error => { if (!cancelled) reportCqfError(error, 'Failed to read slots: '); });
+    return () => { cancelled = true; };
+  }, [showSlots, currentFilterName, filterStats, slotFrom]);
+
+  const performCqfAction = async (action: CqfAction, key: string, count: number) => {
+    if (!currentFilterName || !key) return;
+
+    const started = performance.now();
+    let recorded = false;
+    const record = (result: JournalResult) => {
+      recorded = true;
+      recordJournal(currentFilterName, filterStats?.source.tableName || null, [{
+        origin: 'playground',
+        op: action,
+        key,
+        keyHash: false,
+        amount: action === 'insert' || action === 'delete' ? count : 1,
+        result,
+        latencyMs: performance.now() - started
+      }]);
+    };
+
     setCqfOperationLoading(true);
     try {
       if (action === 'search') {
-        const res = await searchCQF(selectedTable.name, searchKey);
-        addToConsole(res.found ? `Search '${searchKey}': FOUND` : `Search '${searchKey}': NOT FOUND`);
+        const res = await searchCQF(currentFilterName, key);
+        record(searchResult(res));
+        addToConsole(res.found ? `Search '${key}': PROBABLY PRESENT` : `Search '${key}': DEFINITELY ABSENT`);
       } else if (action === 'insert') {
-        await insertCQF(selectedTable.name, searchKey);
-        addToConsole(`Insert '${searchKey}': SUCCESS`);
+        const res = await insertCQF(currentFilterName, key, count);
+        record(insertResult(res));
+        addToConsole(`Insert '${key}' x${count}: SUCCESS (count now ${res.count})`);
+        res.resizes.forEach(logResize);
       } else if (action === 'delete') {
-        const res = await deleteCQF(selectedTable.name, searchKey);
-        addToConsole(res.success ? `Delete '${searchKey}': SUCCESS` : `Delete '${searchKey}': FAILED (Not found)`);
+        const res = await deleteCQF(currentFilterName, key, count);
+        record(deleteResult(res));
+        addToConsole(res.success
+          ? `Delete '${key}' x${count}: removed ${res.removed} (count now ${res.count})`
+          : `Delete '${key}': FAILED (Not found)`);
+      } else if (action === 'count') {
+        const res = await countCQF(currentFilterName, key);
+        record(countResult(res));
+        addToConsole(`Count '${key}': ${res.count}`);
+      }
+      if (action === 'insert' || action === 'delete') {
+        await refreshStats(currentFilterName);
+        markPlaygroundWrite(currentFilterName);
+      }
+      if (showSlots) {
+        const location = await locateKey(currentFilterName, key);
+        setLocatedKey({ key, location });
+        setSlotFrom(slotWindowStart(location.quotient));
       }
     } catch (error: any) {
-      addToConsole(`[ERROR] ${error.message}`);
+      if (!recorded) record(failedResult(error));
+      reportCqfError(error);
+    } finally {
+      setCqfOperationLoading(false);
+    }
+  };
+
+  // Batch operations over an uploaded or pasted key list
+  const handleBatchRun = async (op: BatchOp, keys: string[], count: number, hashing: KeyHashing | null) => {
+    if (!currentFilterName) return;
+
+    setCqfOperationLoading(true);
+    setBatchProgress({ done: 0, total: keys.length });
+    try {
+      const run = await batchCQF(currentFilterName, op, keys, count, setBatchProgress, hashing);
+      setLastBatchRun(run);
+      // Per-key times are not measured; every key gets the run's average
+      const latencyMs = run.keys.length > 0 ? run.elapsedMs / run.keys.length : 0;
+      recordJournal(currentFilterName, filterStats?.source.tableName || null, run.keys.map((key, i): JournalRecord => ({
+        origin: 'batch',
+        op,
+        key,
+        keyHash: run.hashing !== null,
+        amount: op === 'search' ? 1 : count,
+        result: batchResult(run.results[i]),
+        latencyMs
+      })));
+      if (op !== 'search') {
+        await refreshStats(currentFilterName);
+        markPlaygroundWrite(currentFilterName);
+      }
+      addToConsole(`Batch ${op} on ${run.keys.length} keys: ${run.found} found, ${run.notFound} not found, ${run.failed} failed (${Math.round(run.elapsedMs)} ms)`);
+      run.resizes.forEach(logResize);
+    } catch (error: any) {
+      reportCqfError(error, `Batch ${op} failed: `);
+    } finally {
+      setBatchProgress(null);
+      setCqfOperationLoading(false);
+    }
+  };
+
+  const handleDownloadBatchResults = (run: BatchRun) => {
+    const content = generateBatchResultsCsv(run);
+    downloadBlob(new Blob([content], { type: 'text/csv' }), `${run.filterName}_${run.op}_results.csv`);
+  };
+
+  // Journal replay: a fresh build of the filter from its source, then the operations recorded since the last build
+  const handleReplayJournal = async () => {
+    if (!currentFilterName || !filterStats) return;
+    const journal = journals[currentFilterName] ?? [];
+
+    setIsLoading(true);
+    setLoadingMessage(`Replaying the journal of ${currentFilterName}...`);
+    try {
+      const replay = await replayJournalCQF(currentFilterName, filterStats, journal, startJob());
+      setJournalReplay(replay);
+      addToConsole(`[JOURNAL] Replayed ${replay.entries.length} entries of ${currentFilterName}: ${replay.matched} matched, ${replay.different} different, ${replay.skipped} row edits skipped`);
+    } catch (error: any) {
+      if (error instanceof JobCancelledError) addToConsole('[SYSTEM] Journal replay cancelled');
+      else addToConsole(`[ERROR] Journal replay failed: ${error.message}`);
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  const handleExportJournal = (format: 'json' | 'csv') => {
+    if (!currentFilterName) return;
+    const journal = journals[currentFilterName] ?? [];
+    if (format === 'json') {
+      downloadBlob(new Blob([generateJournalJson(currentFilterName, journal)], { type: 'application/json' }), `${currentFilterName}_journal.json`);
+    } else {
+      downloadBlob(new Blob([generateJournalCsv(journal)], { type: 'text/csv' }), `${currentFilterName}_journal.csv`);
+    }
+  };
+
+  // An imported journal replaces the current filter's, so it can be replayed against this filter's source
+  const handleImportJournal = (entries: JournalEntry[], fromFilter: string) => {
+    if (!currentFilterName) return;
+    setJournals(prev => ({
+      ...prev,
+      [currentFilterName]: entries.slice(-JOURNAL_LIMIT).map(entry => ({ ...entry, filterName: currentFilterName }))
+    }));
+    setJournalReplay(null);
+    addToConsole(`[JOURNAL] Imported ${entries.length} entries recorded for ${fromFilter || 'an unnamed filter'} into the journal of ${currentFilterName}`);
+  };
+
+  const handleClearJournal = () => {
+    if (!currentFilterName || !window.confirm(`Clear the operation journal of ${currentFilterName}?`)) return;
+    setJournals(prev => {
+      const { [currentFilterName]: _, ...rest } = prev;
+      return rest;
+    });
+    setJournalReplay(null);
+  };
+
+  // Join check: probe a column of the selected table against another filter
+  const handleJoinCheck = async (column: string, filterName: string) => {
+    if (!selectedTable) return;
+
+    setCqfOperationLoading(true);
+    setJoinProgress({ done: 0, total: 0 });
+    try {
+      const result = await runJoinCheck(selectedTable.name, column, filterName, setJoinProgress);
+      setJoinResult(result);
+      addToConsole(`Join check ${selectedTable.name}.${column} -> ${filterName}: ${result.probableMatches} probably match, ${result.definiteMisses} definitely don't`);
+    } catch (error: any) {
+      reportCqfError(error, 'Join check failed: ');
     } finally {
+      setJoinProgress(null);
       setCqfOperationLoading(false);
-      setSearchKey('');
     }
   };
 
-  const isCqfReady = selectedTable ? cqfBuiltTables.has(selectedTable.name) : false;
+  const handleVerifyJoin = async (result: JoinCheckResult) => {
+    setIsLoading(true);
+    setLoadingMessage('Verifying probable matches...');
+    try {
+      const verified = await verifyJoinCheck(result);
+      setJoinResult(verified);
+      addToConsole(`Join check verified: ${verified.verification!.trueMatches} true matches, ${verified.verification!.falsePositives} false positives`);
+    } catch (error: any) {
+      reportCqfError(error, 'Verification failed: ');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownloadJoinResults = (result: JoinCheckResult) => {
+    const content = generateJoinCheckCsv(result);
+    downloadBlob(new Blob([content], { type: 'text/csv' }), `${result.tableName}_${result.column}_join_check.csv`);
+  };
+
+  // Snapshot diff: keys of a filter's table in one database against the selected table in another
+  const handleSnapshotDiff = async (filterName: string, sampleSize: number) => {
+    if (!selectedTable || !cqfFilters[filterName]) return;
+
+    setIsLoading(true);
+    setLoadingMessage(`Diffing ${filterName} against ${databaseLabel(selectedTable.database)}...`);
+    try {
+      const result = await runSnapshotDiff(
+        filterName,
+        cqfFilters[filterName],
+        selectedTable,
+        sampleSize,
+        startJob()
+      );
+      setSnapshotDiff(result);
+      addToConsole(
+        `Snapshot diff ${databaseLabel(result.base.database)} -> ${databaseLabel(result.target.database)} (${selectedTable.name}): `
+        + `${result.added.length} added, ${result.removed.length} removed, ${result.possiblyShared.length} possibly shared`
+      );
+    } catch (error: any) {
+      if (!(error instanceof JobCancelledError)) reportCqfError(error, 'Snapshot diff failed: ');
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownloadSnapshotDiff = (result: SnapshotDiffResult) => {
+    const content = generateSnapshotDiffCsv(result);
+    downloadBlob(new Blob([content], { type: 'text/csv' }), `${result.target.tableName}_snapshot_diff.csv`);
+  };
+
+  // Filter algebra: overlap of two filters, or a new filter combined from them
+  const handleCompareFilters = async (filterA: string, filterB: string) => {
+    setCqfOperationLoading(true);
+    try {
+      setFilterComparison(await compareCQFs(filterA, filterB));
+      setMissingFingerprints(await listMissingFingerprints(filterA, filterB, MISSING_FINGERPRINT_SAMPLE));
+    } catch (error: any) {
+      setFilterComparison(null);
+      reportCqfError(error, 'Compare failed: ');
+      alert(error?.message ?? error);
+    } finally {
+      setCqfOperationLoading(false);
+    }
+  };
+
+  const handleCombineFilters = async (filterA: string, filterB: string, op: SetOperation, targetName: string) => {
+    setIsLoading(true);
+    setLoadingMessage(`Building CQF ${targetName}...`);
+    const started = performance.now();
+    try {
+      const response = await combineCQFs(filterA, filterB, op, targetName);
+      const latencyMs = performance.now() - started;
+      const stats = await getCQFStats(targetName);
+      setCqfFilters(prev => ({ ...prev, [targetName]: stats }));
+      recordBuild(targetName, 'combine', stats, latencyMs);
+      // Open the new filter where the sidebar lists it
+      const table = allTables.find(t => readsTable(stats.source, t));
+      if (table) {
+        handleSelectTable(table);
+        setActiveFilterName(targetName);
+      } else {
+        handleSelectDetachedFilter(targetName);
+      }
+      addToConsole(`[SYSTEM] ${response.message}`);
+    } catch (error: any) {
+      reportCqfError(error, `Failed to build ${targetName}: `);
+      alert(`Failed to build ${targetName}: ${error?.message ?? error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Row editing: the database and every filter on the table change together
+  const runRowEdit = async (edit: RowEdit, description: string) => {
+    if (!selectedTable) return;
+    setIsLoading(true);
+    setLoadingMessage(`${description}...`);
+    try {
+      const result = await applyRowEdit(selectedTable, edit, cqfFilters);
+      const updatedTables = await getTables();
+      setTables(updatedTables);
+      setSelectedTable(updatedTables.find(t => t.name === selectedTable.name) ?? null);
+      setEditingRow(null);
+      setDbVersion(v => v + 1);
+      addToConsole(`[ROW] ${description}`);
+      for (const update of result.filters) {
+        await refreshStats(update.filterName);
+        const changes = [
+          ...update.removedKeys.map(key => `-'${key}'`),
+          ...update.insertedKeys.map(key => `+'${key}'`)
+        ];
+        addToConsole(`[ROW] ${update.filterName}: ${changes.length > 0 ? changes.join(' ') : 'no key change'}`);
+        recordJournal(update.filterName, selectedTable.name, [
+          ...update.removedKeys.map((key): JournalRecord => ({
+            origin: 'row-edit',
+            op: 'delete',
+            key,
+            keyHash: false,
+            amount: 1,
+            result: { ok: true, found: !update.missingKeys.includes(key), count: null },
+            latencyMs: null
+          })),
+          ...update.insertedKeys.map((key): JournalRecord => ({
+            origin: 'row-edit',
+            op: 'insert',
+            key,
+            keyHash: false,
+            amount: 1,
+            result: { ok: true, found: true, count: null },
+            latencyMs: null
+          }))
+        ]);
+        update.resizes.forEach(logResize);
+        if (update.missingKeys.length > 0) {
+          markDiverged([update.filterName], `it did not hold key '${update.missingKeys[0]}' of the edited row`);
+        }
+      }
+      markDiverged(result.unmaintained, `its query reads ${selectedTable.name}, which was edited`);
+    } catch (error: any) {
+      reportCqfError(error, `${description} failed: `);
+      alert(`${description} failed: ${error?.message ?? error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveRow = async (values: RowValues) => {
+    if (!selectedTable || !editingRow) return;
+    if (editingRow.row === null) {
+      await runRowEdit({ kind: 'insert', values }, `Insert row into ${selectedTable.name}`);
+      return;
+    }
+    if (Object.keys(values).length === 0) {
+      setEditingRow(null);
+      return;
+    }
+    try {
+      const locator = await getRowLocator(selectedTable, editingRow.row);
+      await runRowEdit({ kind: 'update', locator, values }, `Update row ${JSON.stringify(locator)} of ${selectedTable.name}`);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleDeleteRow = async (row: any[]) => {
+    if (!selectedTable) return;
+    try {
+      const locator = await getRowLocator(selectedTable, row);
+      if (!window.confirm(`Delete row ${JSON.stringify(locator)} from ${selectedTable.name}?`)) return;
+      await runRowEdit({ kind: 'delete', locator }, `Delete row ${JSON.stringify(locator)} from ${selectedTable.name}`);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleDownloadDatabase = async () => {
+    try {
+      downloadBlob(new Blob([await exportDatabase()], { type: 'application/vnd.sqlite3' }), dbFileName);
+    } catch (error: any) {
+      alert(`Failed to export database: ${error.message}`);
+    }
+  };
+
+  // Workspaces: the current database, filters and logs are saved to IndexedDB as they change
+  const refreshWorkspaces = async () => {
+    try {
+      setWorkspaces(await listWorkspaces());
+      setStorageUsage(await getStorageUsage());
+    } catch (error: any) {
+      setWorkspaceError(error.message);
+    }
+  };
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, []);
+
+  // Writes the state and the files that changed since the last save: every filter operation replaces the filter's stats
+  const saveCurrentWorkspace = async () => {
+    const filterStates = cqfFilters;
+    const filterNames = Object.keys(filterStates);
+    const changedFilters = filterNames.filter(name => savedFilters.current[name] !== filterStates[name]);
+    const journalStates = journals;
+    const changedJournals = Object.fromEntries(Object.keys(journalStates)
+      .map(name => [name, savedJournals.current[name] === journalStates[name] ? null : journalStates[name]] as const));
+    const id = workspaceId ?? createWorkspaceId();
+    const version = dbVersion;
+    try {
+      // Requested first, so the worker exports it before any edit started later
+      const database = savedDbVersion.current === version ? undefined : isDbLoaded ? (await exportDatabase()).slice().buffer : null;
+      const filters = Object.fromEntries(await Promise.all(changedFilters.map(async name => [name, await exportCQF(name)] as const)));
+      await saveWorkspace({
+        id,
+        name: isDbLoaded ? dbFileName : `Filters: ${filterNames.join(', ')}`,
+        savedAt: new Date().toISOString(),
+        dbFileName: isDbLoaded ? dbFileName : null,
+        filters: filterNames.map(name => ({ name, policy: cqfFilters[name].resizePolicy })),
+        console: cqfConsole,
+        sqlHistory,
+        divergedFilters
+      }, { database, filters, journals: changedJournals });
+      savedDbVersion.current = version;
+      savedFilters.current = filterStates;
+      savedJournals.current = journalStates;
+      setWorkspaceId(id);
+      setWorkspaceError(null);
+      await refreshWorkspaces();
+    } catch (error: any) {
+      // Not logged to the operation console: that would trigger another save
+      setWorkspaceError(`Auto-save failed: ${error?.message ?? error}`);
+      // The stored files may not match what was last saved; the next save writes them all
+      savedFilters.current = {};
+      savedJournals.current = {};
+    }
+  };
+
+  latestSave.current = saveCurrentWorkspace;
+
+  // Debounced: saves once changes pause, and changes made while a save is waiting join that save
+  useEffect(() => {
+    if (isLoading || cqfOperationLoading) return;
+    if (!isDbLoaded && Object.keys(cqfFilters).length === 0) return;
+    const timer = setTimeout(() => {
+      if (saveWaiting.current) return;
+      saveWaiting.current = true;
+      saveQueue.current = saveQueue.current.then(() => {
+        saveWaiting.current = false;
+        return latestSave.current();
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [cqfFilters, cqfConsole, sqlHistory, divergedFilters, journals, dbVersion, isDbLoaded, isLoading, cqfOperationLoading]);
+
+  /**
+   * Replaces the session with a saved workspace. Its filter files are checked
+   * before anything is closed; if the restore still fails part way, the page
+   * is left as after closing the database, with the filters restored so far.
+   */
+  const handleOpenWorkspace = async (id: string) => {
+    setIsLoading(true);
+    setLoadingMessage('Restoring workspace...');
+    const job = startJob();
+    let closed = false;
+    const restoredFilters: Record<string, CqfFilterState> = {};
+    try {
+      await saveQueue.current;
+      const { state, files } = await loadWorkspace(id);
+      for (const saved of state.filters) {
+        try {
+          deserializeFilter(files.filters[saved.name]);
+        } catch (error: any) {
+          throw new Error(`Filter '${saved.name}' cannot be read: ${error?.message ?? error}`);
+        }
+      }
+
+      closed = true;
+      await resetDatabase();
+      const restoredTables = files.database ? await initDatabase(files.database, job) : [];
+      for (const [i, saved] of state.filters.entries()) {
+        if (job.signal?.aborted) throw new JobCancelledError();
+        job.onProgress?.({ label: 'Filters restored', done: i, total: state.filters.length });
+        const response = await importCQF(files.filters[saved.name]);
+        restoredFilters[response.filterName] = await setResizePolicyCQF(response.filterName, saved.policy);
+      }
+
+      setIsDbLoaded(!!files.database);
+      setDbFileName(state.dbFileName ?? 'database.db');
+      setTables(restoredTables);
+      setOtherDatabases([]);
+      setSnapshotDiff(null);
+      setSelectedTable(null);
+      setActiveFilterName(null);
+      setToolView(null);
+      setSqlResult(null);
+      setCqfFilters(restoredFilters);
+      setDivergedFilters(state.divergedFilters);
+      setJournals(files.journals);
+      setJournalReplay(null);
+      setSqlHistory(state.sqlHistory);
+      if (restoredTables.length > 0) handleSelectTable(restoredTables[0]);
+      else if (state.filters.length > 0) handleSelectDetachedFilter(state.filters[0].name);
+      // After the selection, which clears the console
+      setCqfConsole([`[${new Date().toLocaleTimeString()}] [SYSTEM] Restored workspace '${state.name}' saved ${new Date(state.savedAt).toLocaleString()}`, ...state.console]);
+
+      setWorkspaceId(state.id);
+      savedFilters.current = restoredFilters;
+      savedJournals.current = files.journals;
+      const version = dbVersion + 1;
+      savedDbVersion.current = version;
+      setDbVersion(version);
+    } catch (error: any) {
+      if (closed) {
+        clearSession();
+        setCqfFilters(restoredFilters);
+        setWorkspaceId(null);
+        savedDbVersion.current = -1;
+        savedFilters.current = {};
+        savedJournals.current = {};
+      }
+      if (!(error instanceof JobCancelledError)) alert(`Failed to restore workspace: ${error?.message ?? error}`);
+    } finally {
+      finishJob();
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!window.confirm(`Delete saved workspace '${workspace?.name ?? id}'? The current session is not affected.`)) return;
+    try {
+      await saveQueue.current;
+      await deleteWorkspace(id);
+      if (id === workspaceId) {
+        // The session keeps running; its next change starts a new saved workspace
+        setWorkspaceId(null);
+        savedDbVersion.current = -1;
+        savedFilters.current = {};
+        savedJournals.current = {};
+      }
+      await refreshWorkspaces();
+    } catch (error: any) {
+      setWorkspaceError(error.message);
+    }
+  };
+
+  // Use the clicked row's key as the playground key: the filter's own key
+  // columns when they are plain columns, otherwise the primary key
+  const handlePkCellClick = (row: any[]) => {
+    if (!selectedTable || !filterStats) return;
+    const filterColumns = keySourceColumns(filterStats.source.keySource);
+    const columns = filterColumns.length > 0 && filterColumns.every(col => selectedTable.columns.includes(col))
+      ? filterColumns
+      : selectedTable.pkColumns;
+    setKeyPrefill(columns.map(col => keyPartText(row[selectedTable.columns.indexOf(col)])));
+  };
+
+  const hasPk = !!selectedTable && selectedTable.pkColumns.length > 0;
+  const isTableEditable = !!selectedTable && selectedTable.type === 'table' && selectedTable.database === MAIN_DATABASE;
+  const isCqfReady = !!filterStats;
+  const isPendingBuilt = pendingFilterName !== '' && !!cqfFilters[pendingFilterName];
+  // Composite-key filters cannot be probed with single column values; join checks run in the main database
+  const joinFilterNames = useMemo(
+    () => Object.keys(cqfFilters).filter(name =>
+      keySourceColumns(cqfFilters[name].source.keySource).length <= 1 && sourceDatabase(cqfFilters[name].source) === MAIN_DATABASE),
+    [cqfFilters]
+  );
+  const detachedFilterNames = useMemo(
+    () => Object.keys(cqfFilters).filter(name => !allTables.some(t => readsTable(cqfFilters[name].source, t))),
+    [cqfFilters, allTables]
+  );
+  // Base filters for a snapshot diff of the selected table: built over a table in another database, same-named tables first
+  const snapshotFilterNames = useMemo(() => {
+    if (!selectedTable) return [];
+    const candidates = Object.keys(cqfFilters).filter(name => {
+      const { source } = cqfFilters[name];
+      return !!source.keySource && source.keySource.kind !== 'query' && sourceDatabase(source) !== selectedTable.database;
+    });
+    const sameTable = (name: string) => cqfFilters[name].source.tableName === selectedTable.name;
+    return [...candidates.filter(sameTable), ...candidates.filter(name => !sameTable(name))];
+  }, [cqfFilters, selectedTable]);
+  const renderTableItem = (table: TableInfo) => (
+    <li key={table.name}>
+      <button
+        onClick={() => handleSelectTable(table)}
+        className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors ${
+          selectedTable?.name === table.name && selectedTable.database === table.database
+            ? 'bg-blue-600 text-white shadow-md' 
+            : 'hover:bg-slate-800 hover:text-white'
+        }`}
+      >
+        <TableIcon className="w-4 h-4 opacity-70" />
+        <span className="truncate flex-1 text-left">{table.name}</span>
+        {Object.keys(cqfFilters).some(name => readsTable(cqfFilters[name].source, table)) && (
+          <div className="w-2 h-2 rounded-full bg-green-400 shadow-[0_0_8px_rgba(74,222,128,0.5)]" title="CQF Active"></div>
+        )}
+      </button>
+    </li>
+  );
+  const databaseLabel = (database: string) =>
+    database === MAIN_DATABASE ? dbFileName : otherDatabases.find(db => db.id === database)?.fileName ?? database;
 
   return (
     <div className="flex h-screen bg-slate-100 overflow-hidden">
-      {isLoading && <LoadingOverlay message={loadingMessage} />}
-
       {/* Sidebar */}
       <aside className="w-72 bg-slate-900 text-slate-300 flex flex-col shadow-xl z-20">
         <div className="p-6 border-b border-slate-700">
@@ -158,23 +1192,103 @@ function App() {
           <div className="relative">
             <input 
               type="file" 
-              accept=".db,.sqlite,.sqlite3" 
+              accept={DATABASE_FILE_ACCEPT} 
               onChange={handleFileUpload} 
+              disabled={isLoading}
               className="hidden" 
               id="db-upload"
             />
             <label 
               htmlFor="db-upload" 
-              className="flex items-center justify-center w-full px-4 py-3 border-2 border-dashed border-slate-600 rounded-lg cursor-pointer hover:border-blue-500 hover:text-blue-400 transition-colors"
+              className={`flex items-center justify-center w-full px-4 py-3 border-2 border-dashed border-slate-600 rounded-lg cursor-pointer hover:border-blue-500 hover:text-blue-400 transition-colors ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}
             >
               <div className="flex flex-col items-center gap-1">
                 <Upload className="w-5 h-5" />
                 <span className="text-xs font-medium">Upload .db file</span>
+                <span className="text-[10px] text-slate-500">or import .csv, .json, .sql</span>
               </div>
             </label>
           </div>
+          <input 
+            type="file" 
+            accept={CQF_FILE_EXTENSION} 
+            onChange={handleLoadFilter} 
+            disabled={isLoading || cqfOperationLoading}
+            className="hidden" 
+            id="cqf-upload-sidebar"
+          />
+          <label 
+            htmlFor="cqf-upload-sidebar" 
+            className={`mt-2 flex items-center justify-center gap-2 w-full px-4 py-2 border border-slate-700 rounded-lg cursor-pointer text-xs font-medium hover:border-blue-500 hover:text-blue-400 transition-colors ${isLoading || cqfOperationLoading ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            <FileUp className="w-4 h-4" />
+            Load {CQF_FILE_EXTENSION} filter
+          </label>
+          {isDbLoaded && (
+            <button
+              onClick={handleOpenSqlConsole}
+              className={`mt-2 flex items-center justify-center gap-2 w-full px-4 py-2 rounded-lg text-xs font-medium transition-colors ${
+                toolView === 'sql' ? 'bg-blue-600 text-white' : 'border border-slate-700 hover:border-blue-500 hover:text-blue-400'
+              }`}
+            >
+              <Terminal className="w-4 h-4" />
+              SQL Console
+            </button>
+          )}
+          {isDbLoaded && (
+            <button
+              onClick={handleDownloadDatabase}
+              disabled={isLoading}
+              className="mt-2 flex items-center justify-center gap-2 w-full px-4 py-2 border border-slate-700 rounded-lg text-xs font-medium hover:border-blue-500 hover:text-blue-400 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Download .db
+            </button>
+          )}
+          {isDbLoaded && (
+            <>
+              <input
+                type="file"
+                accept=".db,.sqlite,.sqlite3"
+                onChange={handleOpenOtherDatabase}
+                disabled={isLoading}
+                className="hidden"
+                id="db-upload-other"
+              />
+              <label
+                htmlFor="db-upload-other"
+                className={`mt-2 flex items-center justify-center gap-2 w-full px-4 py-2 border border-slate-700 rounded-lg cursor-pointer text-xs font-medium hover:border-blue-500 hover:text-blue-400 transition-colors ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                <Database className="w-4 h-4" />
+                Open another .db to compare
+              </label>
+            </>
+          )}
+          {Object.keys(cqfFilters).length > 0 && (
+            <button
+              onClick={handleOpenFilterAlgebra}
+              className={`mt-2 flex items-center justify-center gap-2 w-full px-4 py-2 rounded-lg text-xs font-medium transition-colors ${
+                toolView === 'algebra' ? 'bg-blue-600 text-white' : 'border border-slate-700 hover:border-blue-500 hover:text-blue-400'
+              }`}
+            >
+              <Combine className="w-4 h-4" />
+              Filter Algebra
+            </button>
+          )}
         </div>
 
+        <WorkspaceList
+          workspaces={workspaces}
+          activeId={workspaceId}
+          storage={storageUsage}
+          error={workspaceError}
+          isBusy={isLoading}
+          onOpen={handleOpenWorkspace}
+          onDelete={handleDeleteWorkspace}
+        />
+
+        <BackendSettings config={backendConfig} status={backendStatus} onApply={handleApplyBackend} />
+
         <div className="flex-1 overflow-y-auto p-4">
           <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">
             Tables Found {tables.length > 0 && `(${tables.length})`}
@@ -184,26 +1298,49 @@ function App() {
               No tables loaded
             </div>
           ) : (
-            <ul className="space-y-1">
-              {tables.map(table => (
-                <li key={table.name}>
-                  <button
-                    onClick={() => handleSelectTable(table)}
-                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors ${
-                      selectedTable?.name === table.name 
-                        ? 'bg-blue-600 text-white shadow-md' 
-                        : 'hover:bg-slate-800 hover:text-white'
-                    }`}
-                  >
-                    <TableIcon className="w-4 h-4 opacity-70" />
-                    <span className="truncate flex-1 text-left">{table.name}</span>
-                    {cqfBuiltTables.has(table.name) && (
-                      <div className="w-2 h-2 rounded-full bg-green-400 shadow-[0_0_8px_rgba(74,222,128,0.5)]" title="CQF Active"></div>
-                    )}
-                  </button>
-                </li>
-              ))}
-            </ul>
+            <ul className="space-y-1">{tables.map(renderTableItem)}</ul>
+          )}
+
+          {otherDatabases.map(db => (
+            <div key={db.id}>
+              <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-3 flex items-center gap-2">
+                <span className="truncate flex-1" title={db.fileName}>{db.fileName} ({db.tables.length})</span>
+                <button
+                  onClick={() => handleCloseOtherDatabase(db.id)}
+                  disabled={isLoading}
+                  className="hover:text-white disabled:opacity-50"
+                  title={`Close ${db.fileName}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </h2>
+              <ul className="space-y-1">{db.tables.map(renderTableItem)}</ul>
+            </div>
+          ))}
+
+          {detachedFilterNames.length > 0 && (
+            <>
+              <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-3">
+                Other Filters ({detachedFilterNames.length})
+              </h2>
+              <ul className="space-y-1">
+                {detachedFilterNames.map(name => (
+                  <li key={name}>
+                    <button
+                      onClick={() => handleSelectDetachedFilter(name)}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors ${
+                        !selectedTable && activeFilterName === name 
+                          ? 'bg-blue-600 text-white shadow-md' 
+                          : 'hover:bg-slate-800 hover:text-white'
+                      }`}
+                    >
+                      <Filter className="w-4 h-4 opacity-70" />
+                      <span className="truncate flex-1 text-left">{name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
           )}
         </div>
         
@@ -213,8 +1350,118 @@ function App() {
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 flex flex-col min-w-0 overflow-hidden bg-slate-50">
-        {!selectedTable ? (
+      <main className="relative flex-1 flex flex-col min-w-0 overflow-hidden bg-slate-50">
+        {/* Covers only the main view, so the sidebar stays usable during long jobs */}
+        {isLoading && (
+          <LoadingOverlay
+            message={loadingMessage}
+            progress={jobProgress}
+            onCancel={jobController ? () => jobController.abort() : undefined}
+          />
+        )}
+        {importPlan && (
+          <ImportPreviewDialog
+            plan={importPlan}
+            isBusy={isLoading}
+            onImport={handleImportTable}
+            onCancel={() => setImportPlan(null)}
+          />
+        )}
+        {toolView === 'algebra' ? (
+          <div className="flex-1 overflow-y-auto p-8">
+            <div className="max-w-7xl mx-auto">
+              <SetAlgebraPanel
+                filterNames={Object.keys(cqfFilters)}
+                isBusy={cqfOperationLoading || isLoading}
+                comparison={filterComparison}
+                missing={missingFingerprints}
+                onCompare={handleCompareFilters}
+                onCombine={handleCombineFilters}
+              />
+            </div>
+          </div>
+        ) : toolView === 'sql' ? (
+          <div className="flex-1 overflow-y-auto p-8">
+            <div className="max-w-7xl mx-auto">
+              <SqlConsole
+                result={sqlResult}
+                history={sqlHistory}
+                isBusy={isLoading}
+                onRun={handleRunSql}
+                onBuildFilter={handleBuildFromQuery}
+              />
+            </div>
+          </div>
+        ) : !selectedTable && activeFilterName && filterStats ? (
+          <div className="flex-1 overflow-y-auto p-8">
+            <div className="max-w-7xl mx-auto space-y-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold text-slate-900">{activeFilterName}</h1>
+                  <div className="flex items-center gap-4 mt-2 text-sm text-slate-500">
+                    <span className="flex items-center gap-1 bg-amber-100 text-amber-700 px-2 py-1 rounded">
+                      <Filter className="w-3 h-3" />
+                      {filterStats.source.derivedFrom
+                        ? `${filterStats.source.derivedFrom.op} of ${filterStats.source.derivedFrom.filters.join(' and ')}`
+                        : filterStats.source.keySource?.kind === 'query' ? 'Built from a SQL query' : 'Loaded filter, no matching table'}
+                    </span>
+                    <span className="flex items-center gap-1 bg-slate-200 px-2 py-1 rounded" title={filterStats.source.keySource?.kind === 'query' ? filterStats.source.keySource.sql : undefined}>
+                      <HardDrive className="w-3 h-3" />
+                      Key: {filterStats.source.tableName || (filterStats.source.derivedFrom ? 'combined filters' : 'SQL query')} [{describeKeySource(filterStats.source.keySource)}]
+                    </span>
+                  </div>
+                </div>
+                <Button 
+                  onClick={() => handleDownloadFilter(activeFilterName)} 
+                  variant="secondary"
+                  icon={<Download className="w-4 h-4" />}
+                >
+                  Download filter
+                </Button>
+              </div>
+              <FilterOperationsPanel
+                key={activeFilterName}
+                stats={filterStats}
+                backendStatus={backendStatus}
+                keyColumns={keySourceColumns(filterStats.source.keySource)}
+                consoleLines={cqfConsole}
+                isBusy={cqfOperationLoading}
+                onAction={performCqfAction}
+                onPolicyChange={handlePolicyChange}
+                onProbe={isDbLoaded && filterStats.source.keySource?.kind === 'query' ? handleFpProbe : undefined}
+                divergence={divergedFilters[activeFilterName]}
+              />
+              <BulkOperationsPanel
+                isBusy={cqfOperationLoading}
+                progress={batchProgress}
+                lastRun={lastBatchRun}
+                onRun={handleBatchRun}
+                onDownloadResults={handleDownloadBatchResults}
+              />
+              <SlotVisualizer
+                isOpen={showSlots}
+                window={slotWindow}
+                layout={slotLayout}
+                located={locatedKey}
+                loadFactor={filterStats.loadFactor}
+                isBusy={cqfOperationLoading}
+                onToggle={() => setShowSlots(open => !open)}
+                onShow={setSlotFrom}
+              />
+              <JournalPanel
+                filterName={activeFilterName}
+                entries={journals[activeFilterName] ?? []}
+                replay={journalReplay?.filterName === activeFilterName ? journalReplay : null}
+                replayBlocked={journalReplayBlocked}
+                isBusy={isLoading || cqfOperationLoading}
+                onReplay={handleReplayJournal}
+                onExport={handleExportJournal}
+                onImport={handleImportJournal}
+                onClear={handleClearJournal}
+              />
+            </div>
+          </div>
+        ) : !selectedTable ? (
           <div className="flex-1 flex flex-col items-center justify-center text-slate-400">
             <div className="w-24 h-24 bg-slate-200 rounded-full flex items-center justify-center mb-6">
               <Database className="w-12 h-12 text-slate-400" />
@@ -237,14 +1484,46 @@ function App() {
                       <Database className="w-3 h-3" />
                       {selectedTable.rowCount.toLocaleString()} rows
                     </span>
-                    <span className={`flex items-center gap-1 px-2 py-1 rounded ${selectedTable.pkColumn ? 'bg-blue-100 text-blue-700' : 'bg-red-100 text-red-700'}`}>
+                    {selectedTable.database !== MAIN_DATABASE && (
+                      <span className="flex items-center gap-1 bg-violet-100 text-violet-700 px-2 py-1 rounded" title="Opened for comparison; read-only">
+                        <Database className="w-3 h-3" />
+                        {databaseLabel(selectedTable.database)}
+                      </span>
+                    )}
+                    {selectedTable.type === 'view' && (
+                      <span className="flex items-center gap-1 bg-amber-100 text-amber-700 px-2 py-1 rounded">
+                        <TableIcon className="w-3 h-3" />
+                        View
+                      </span>
+                    )}
+                    <span className={`flex items-center gap-1 px-2 py-1 rounded ${hasPk ? 'bg-blue-100 text-blue-700' : 'bg-red-100 text-red-700'}`}>
                       <HardDrive className="w-3 h-3" />
-                      PK: {selectedTable.pkColumn || "None detected"}
+                      PK: {hasPk ? selectedTable.pkColumns.join(', ') : "None detected"}
+                      {selectedTable.pkColumns.length > 1 && <span className="opacity-75">(composite)</span>}
                     </span>
                   </div>
                 </div>
               </div>
 
+              {/* Key Source */}
+              {keySource && (
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                    <HardDrive className="w-5 h-5 text-indigo-500" />
+                    Key Source
+                  </h3>
+                  <KeySourcePicker
+                    table={selectedTable}
+                    keySource={keySource}
+                    where={whereClause}
+                    filterName={filterNameInput}
+                    onKeySourceChange={setKeySource}
+                    onWhereChange={setWhereClause}
+                    onFilterNameChange={setFilterNameInput}
+                  />
+                </div>
+              )}
+
               {/* Action Cards Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 
@@ -255,16 +1534,19 @@ function App() {
                     Key Extraction
                   </h3>
                   <p className="text-sm text-slate-600 mb-6 flex-1">
-                    Extract all values from the primary key column (<b>{selectedTable.pkColumn || 'N/A'}</b>) into a plain text file.
+                    Extract all values of <b>{keySource ? describeKeySource(keySource) : 'N/A'}</b>
+                    {pendingSource?.where && <> for rows matching <code className="text-xs">{pendingSource.where}</code></>} into a
+                    text, CSV, JSON or NDJSON file, or a file of their fingerprints. Rows with a NULL key are skipped.
+                    {keySource?.kind === 'primaryKey' && keySource.columns.length > 1 && " In text and CSV files composite keys are written as '|'-separated values, with '\\' and '|' escaped by a backslash."}
                   </p>
                   <Button 
-                    onClick={handleDownloadPKs} 
-                    disabled={!selectedTable.pkColumn}
+                    onClick={() => setShowKeyExport(true)} 
+                    disabled={!isKeySourceComplete}
                     variant="secondary"
                     icon={<Download className="w-4 h-4" />}
                     className="w-full justify-center"
                   >
-                    Download .txt
+                    Export keys...
                   </Button>
                 </div>
 
@@ -276,127 +1558,188 @@ function App() {
                   </h3>
                   <div className="flex-1">
                     <p className="text-sm text-slate-600 mb-2">
-                      Build an approximate membership query filter using the backend engine.
+                      Build an approximate membership query filter (Counting Quotient Filter) named <b>{pendingFilterName}</b> over the selected key source.
                     </p>
-                    <div className="flex items-center gap-2 text-xs font-medium">
-                      Status: 
-                      {isCqfReady ? (
-                         <span className="text-green-600 bg-green-50 px-2 py-0.5 rounded-full border border-green-200">Active</span>
-                      ) : (
+                    <div className="flex flex-wrap items-center gap-2 text-xs font-medium">
+                      Filters: 
+                      {tableFilterNames.length === 0 && (
                          <span className="text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">Not Built</span>
                       )}
+                      {tableFilterNames.map(name => (
+                        <button
+                          key={name}
+                          onClick={() => setActiveFilterName(name)}
+                          title={describeKeySource(cqfFilters[name].source.keySource)}
+                          className={`px-2 py-0.5 rounded-full border ${
+                            name === currentFilterName
+                              ? 'text-green-600 bg-green-50 border-green-200'
+                              : 'text-slate-600 bg-white border-slate-200 hover:bg-slate-50'
+                          }`}
+                        >
+                          {name}
+                        </button>
+                      ))}
                     </div>
+                    <HashingPicker value={hashingOptions} onChange={setHashingOptions} />
                   </div>
                   <Button 
                     onClick={handleBuildCQF} 
-                    disabled={!selectedTable.pkColumn || isCqfReady}
+                    disabled={!isKeySourceComplete}
                     variant="primary"
                     className="w-full justify-center mt-4"
                   >
-                    {isCqfReady ? 'Filter Ready' : 'Build Filter'}
+                    {isPendingBuilt ? 'Rebuild Filter' : 'Build Filter'}
                   </Button>
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <Button 
+                      onClick={() => currentFilterName && handleDownloadFilter(currentFilterName)} 
+                      disabled={!isCqfReady}
+                      variant="secondary"
+                      className="text-xs"
+                      icon={<Download className="w-3 h-3" />}
+                    >
+                      Download filter
+                    </Button>
+                    <input 
+                      type="file" 
+                      accept={CQF_FILE_EXTENSION} 
+                      onChange={handleLoadFilter} 
+                      disabled={isLoading || cqfOperationLoading}
+                      className="hidden" 
+                      id="cqf-upload"
+                    />
+                    <label 
+                      htmlFor="cqf-upload" 
+                      className={`flex items-center justify-center px-4 py-2 rounded-md font-medium text-xs transition-all duration-200 bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 shadow-sm cursor-pointer ${isLoading || cqfOperationLoading ? 'opacity-50 pointer-events-none' : ''}`}
+                    >
+                      <FileUp className="w-3 h-3 mr-2 -ml-1" />
+                      Load filter
+                    </label>
+                  </div>
                 </div>
               </div>
 
               {/* CQF Operations Playground */}
-              {isCqfReady && (
-                <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden ring-1 ring-slate-900/5">
-                  <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
-                    <h3 className="font-semibold text-slate-800">Filter Operations</h3>
-                    <span className="text-xs font-mono text-slate-500">Backend: Connected</span>
-                  </div>
-                  <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
-                    <div className="lg:col-span-1 space-y-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium text-slate-700">Primary Key Value</label>
-                        <input 
-                          type="text" 
-                          value={searchKey}
-                          onChange={(e) => setSearchKey(e.target.value)}
-                          placeholder="Enter key..."
-                          className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                        />
-                      </div>
-                      <div className="grid grid-cols-3 gap-2">
-                        <Button 
-                          onClick={() => performCqfAction('search')} 
-                          disabled={!searchKey || cqfOperationLoading} 
-                          variant="secondary"
-                          className="text-xs"
-                          icon={<Search className="w-3 h-3" />}
-                        >
-                          Search
-                        </Button>
-                        <Button 
-                          onClick={() => performCqfAction('insert')} 
-                          disabled={!searchKey || cqfOperationLoading} 
-                          variant="secondary"
-                          className="text-xs"
-                          icon={<Plus className="w-3 h-3" />}
-                        >
-                          Insert
-                        </Button>
-                        <Button 
-                          onClick={() => performCqfAction('delete')} 
-                          disabled={!searchKey || cqfOperationLoading} 
-                          variant="secondary"
-                          className="text-xs text-red-600 hover:bg-red-50 border-red-200"
-                          icon={<Trash2 className="w-3 h-3" />}
-                        >
-                          Delete
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="lg:col-span-2 bg-slate-900 rounded-lg p-4 font-mono text-xs text-green-400 overflow-y-auto max-h-48 shadow-inner">
-                      {cqfConsole.length === 0 && <span className="text-slate-600 select-none">Waiting for operations...</span>}
-                      {cqfConsole.map((log, i) => (
-                        <div key={i} className="mb-1">{log}</div>
-                      ))}
-                    </div>
-                  </div>
-                </div>
+              {filterStats && (
+                <FilterOperationsPanel
+                  key={currentFilterName}
+                  stats={filterStats}
+                  backendStatus={backendStatus}
+                  keyColumns={keySourceColumns(filterStats.source.keySource)}
+                  keyPrefill={keyPrefill}
+                  consoleLines={cqfConsole}
+                  isBusy={cqfOperationLoading}
+                  onAction={performCqfAction}
+                  onPolicyChange={handlePolicyChange}
+                  onProbe={filterStats.source.keySource ? handleFpProbe : undefined}
+                  divergence={currentFilterName ? divergedFilters[currentFilterName] : null}
+                />
+              )}
+              {filterStats && (
+                <BulkOperationsPanel
+                  isBusy={cqfOperationLoading}
+                  progress={batchProgress}
+                  lastRun={lastBatchRun}
+                  onRun={handleBatchRun}
+                  onDownloadResults={handleDownloadBatchResults}
+                />
+              )}
+              {filterStats && (
+                <SlotVisualizer
+                  isOpen={showSlots}
+                  window={slotWindow}
+                  layout={slotLayout}
+                  located={locatedKey}
+                  loadFactor={filterStats.loadFactor}
+                  isBusy={cqfOperationLoading}
+                  onToggle={() => setShowSlots(open => !open)}
+                  onShow={setSlotFrom}
+                />
+              )}
+              {filterStats && currentFilterName && (
+                <JournalPanel
+                  filterName={currentFilterName}
+                  entries={journals[currentFilterName] ?? []}
+                  replay={journalReplay?.filterName === currentFilterName ? journalReplay : null}
+                  replayBlocked={journalReplayBlocked}
+                  isBusy={isLoading || cqfOperationLoading}
+                  onReplay={handleReplayJournal}
+                  onExport={handleExportJournal}
+                  onImport={handleImportJournal}
+                  onClear={handleClearJournal}
+                />
+              )}
+              {keySource && (
+                <BenchmarkPanel
+                  keyLabel={describeKeySource(keySource)}
+                  isReady={isKeySourceComplete}
+                  isBusy={isLoading}
+                  result={benchmarkResult}
+                  onRun={handleRunBenchmark}
+                  onDownload={handleDownloadBenchmark}
+                />
               )}
 
-              {/* Data Table View */}
-              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-                <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center bg-slate-50/50">
-                  <h3 className="font-semibold text-slate-800">Table Contents</h3>
-                  <span className="text-xs text-slate-500">Showing first 100 rows</span>
-                </div>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left text-sm whitespace-nowrap">
-                    <thead className="bg-slate-100 border-b border-slate-200">
-                      <tr>
-                        {tableData.columns.map((col, idx) => (
-                          <th key={idx} className={`px-6 py-3 font-semibold text-slate-700 ${col === selectedTable.pkColumn ? 'bg-blue-50 text-blue-700' : ''}`}>
-                            {col}
-                            {col === selectedTable.pkColumn && <span className="ml-1 text-[10px] uppercase tracking-wide opacity-75">(PK)</span>}
-                          </th>
-                        ))}
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-200">
-                      {tableData.rows.length === 0 ? (
-                        <tr>
-                          <td colSpan={tableData.columns.length} className="px-6 py-8 text-center text-slate-500 italic">
-                            No data available
-                          </td>
-                        </tr>
-                      ) : (
-                        tableData.rows.map((row, rIdx) => (
-                          <tr key={rIdx} className="hover:bg-slate-50 transition-colors">
-                            {row.map((cell, cIdx) => (
-                              <td key={cIdx} className={`px-6 py-3 text-slate-600 ${tableData.columns[cIdx] === selectedTable.pkColumn ? 'font-medium text-slate-900 bg-blue-50/30' : ''}`}>
-                                {cell === null ? <span className="text-slate-400 italic">NULL</span> : String(cell)}
-                              </td>
-                            ))}
-                          </tr>
-                        ))
-                      )}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
+              {selectedTable.database === MAIN_DATABASE && (
+                <JoinCheckPanel
+                  key={selectedTable.name}
+                  table={selectedTable}
+                  filterNames={joinFilterNames}
+                  isBusy={cqfOperationLoading}
+                  progress={joinProgress}
+                  result={joinResult}
+                  onRun={handleJoinCheck}
+                  onVerify={handleVerifyJoin}
+                  onDownload={handleDownloadJoinResults}
+                />
+              )}
+              {otherDatabases.length > 0 && (
+                <SnapshotDiffPanel
+                  key={`${selectedTable.database}/${selectedTable.name}`}
+                  table={selectedTable}
+                  filterNames={snapshotFilterNames}
+                  databaseLabel={databaseLabel}
+                  isBusy={isLoading}
+                  result={snapshotDiff}
+                  onRun={handleSnapshotDiff}
+                  onDownload={handleDownloadSnapshotDiff}
+                />
+              )}
+
+              {/* Data Table View; only the main database is edited */}
+              <TableBrowser
+                key={`${selectedTable.database}/${selectedTable.name}`}
+                table={selectedTable}
+                onPkCellClick={filterStats ? handlePkCellClick : undefined}
+                onAddRow={isTableEditable ? () => setEditingRow({ row: null }) : undefined}
+                onEditRow={isTableEditable ? (row) => setEditingRow({ row }) : undefined}
+                onDeleteRow={isTableEditable ? handleDeleteRow : undefined}
+              />
+              {editingRow && (
+                <RowEditor
+                  table={selectedTable}
+                  row={editingRow.row}
+                  isBusy={isLoading}
+                  onSave={handleSaveRow}
+                  onCancel={() => setEditingRow(null)}
+                />
+              )}
+              {showKeyExport && keySource && pendingHashing && (
+                <KeyExportDialog
+                  keyLabel={describeKeySource(keySource)}
+                  columns={selectedTable.columns}
+                  hashingChoices={[
+                    { label: `Builder settings (${pendingFilterName})`, hashing: pendingHashing },
+                    ...tableFilterNames
+                      // Fingerprints only mean something to filters over the same key source
+                      .filter(name => describeKeySource(cqfFilters[name].source.keySource) === describeKeySource(keySource))
+                      .map(name => ({ label: `Filter ${name}`, hashing: cqfFilters[name].hashing }))
+                  ]}
+                  isBusy={isLoading}
+                  onExport={handleDownloadKeys}
+                  onCancel={() => setShowKeyExport(false)}
+                />
+              )}
 
             </div>
           </div>
@@ -0,0 +1,120 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { main } from './cqf';
+
+let dir = '';
+const file = (name: string) => path.join(dir, name);
+
+// Runs the CLI and collects what it prints; JSON output is parsed
+const run = async (...argv: string[]) => {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  const exitCode = await main(argv);
+  const printed = log.mock.calls.map(args => args.join(' ')).join('\n');
+  const written = stdout.mock.calls.map(([chunk]) => Buffer.from(chunk as Uint8Array).toString()).join('');
+  const errors = error.mock.calls.map(args => args.join(' '));
+  return {
+    exitCode,
+    output: printed.startsWith('{') ? JSON.parse(printed) : printed,
+    written,
+    error: errors.length > 0 ? JSON.parse(errors[0]).error : null
+  };
+};
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'cqf-cli-'));
+  const require = createRequire(import.meta.url);
+  const sqlDir = path.dirname(require.resolve('sql.js/dist/sql-wasm.js'));
+  const SQL = await require(path.join(sqlDir, 'sql-wasm.js'))({ wasmBinary: await readFile(path.join(sqlDir, 'sql-wasm.wasm')) });
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE orders(id INTEGER PRIMARY KEY, email TEXT);
+    INSERT INTO orders VALUES (1, 'a@x.com'), (2, 'b@x.com'), (3, 'c@x.com');
+    CREATE VIEW emails AS SELECT email FROM orders;
+  `);
+  await writeFile(file('orders.db'), db.export());
+  db.close();
+  await writeFile(file('probe.txt'), '1\n2\n9\n');
+  await writeFile(file('not.db'), 'plain text, not SQLite');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('cqf CLI', () => {
+  it('lists tables and views', async () => {
+    const { exitCode, output } = await run('tables', file('orders.db'));
+    expect(exitCode).toBe(0);
+    expect(output.tables.map((t: any) => [t.name, t.type, t.pkColumns])).toEqual([['orders', 'table', ['id']], ['emails', 'view', []]]);
+  });
+
+  it('writes keys to stdout', async () => {
+    const { exitCode, written } = await run('keys', file('orders.db'), '--table', 'orders', '--key', 'column:email');
+    expect(exitCode).toBe(0);
+    expect(written).toBe('a@x.com\nb@x.com\nc@x.com');
+  });
+
+  it('builds a filter, searches it and reports its stats', async () => {
+    const built = await run('build', file('orders.db'), '--table', 'orders', '--out', file('orders.cqf'));
+    expect(built.exitCode).toBe(0);
+    expect(built.output).toMatchObject({ out: file('orders.cqf'), stats: { itemCount: 3 } });
+
+    const searched = await run('batch', file('orders.cqf'), '--op', 'search', '--keys', file('probe.txt'), '--results', file('results.csv'));
+    expect(searched.exitCode).toBe(0);
+    expect(searched.output).toMatchObject({ filterName: 'orders.pk', op: 'search', keys: 3, failed: 0, firstError: null });
+    expect(searched.output.found).toBeGreaterThanOrEqual(2);
+    expect((await readFile(file('results.csv'), 'utf8')).split('\n').slice(0, 3)).toEqual(['key,result,count,error', '1,probably_present,1,', '2,probably_present,1,']);
+
+    const stats = await run('stats', file('orders.cqf'));
+    expect(stats.exitCode).toBe(0);
+    expect(stats.output).toMatchObject({ isBuilt: true, itemCount: 3 });
+  });
+
+  it('exits with 3 when some keys of a batch fail', async () => {
+    await run('build', file('orders.db'), '--table', 'orders', '--out', file('full.cqf'));
+    const { exitCode, output } = await run('batch', file('full.cqf'), '--op', 'insert', '--keys', file('probe.txt'), '--resize', 'reject', '--max-load', '0.01');
+    expect(exitCode).toBe(3);
+    expect(output.failed).toBe(3);
+    expect(output.firstError).toMatch(/load/i);
+  });
+
+  it('exits with 2 on usage errors', async () => {
+    const cases: [string[], RegExp][] = [
+      [['frobnicate', file('orders.db')], /Unknown command 'frobnicate'/],
+      [['build', file('orders.db'), '--table', 'orders'], /--out is required/],
+      [['keys', file('orders.db'), '--table', 'nope'], /No table or view named 'nope'/],
+      [['keys', file('orders.db'), '--table', 'orders', '--key', 'column:nope'], /has no column 'nope'/],
+      [['keys', file('orders.db'), '--table', 'emails'], /is a view; name its key/],
+      [['keys', file('orders.db'), '--query', 'SELECT id, email FROM orders'], /must return a single key column/],
+      [['build', file('orders.db'), '--table', 'orders', '--seed=-1', '--out', file('x.cqf')], /--seed must be an integer/],
+      [['tables', file('orders.db'), '--bogus'], /bogus/],
+      [['tables'], /takes one file argument/]
+    ];
+    for (const [argv, message] of cases) {
+      const { exitCode, error } = await run(...argv);
+      expect({ argv, exitCode, code: error.code }).toEqual({ argv, exitCode: 2, code: 'usage' });
+      expect(error.message).toMatch(message);
+    }
+    expect((await run()).exitCode).toBe(2);
+    expect((await run('--help')).exitCode).toBe(0);
+  });
+
+  it('exits with 1 when a command fails', async () => {
+    const notSqlite = await run('tables', file('not.db'));
+    expect(notSqlite.exitCode).toBe(1);
+    expect(notSqlite.error).toMatchObject({ code: 'failed', message: expect.stringMatching(/is not a SQLite database/) });
+
+    const missing = await run('stats', file('missing.cqf'));
+    expect(missing.exitCode).toBe(1);
+    expect(missing.error.code).toBe('failed');
+  });
+});
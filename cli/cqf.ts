@@ -0,0 +1,380 @@
+/**
+ * Command-line tool for building, querying and exporting filters from SQLite
+ * files without a browser, e.g. in cron jobs and data pipelines. It runs the
+ * same SQLite engine and in-memory filter backend as the database worker, so
+ * its keys, filters and .cqf files match the UI's.
+ *
+ *   npm run cli -- tables orders.db
+ *   npm run cli -- keys orders.db --table orders --format csv --out keys.csv
+ *   npm run cli -- build orders.db --table orders --key column:email --trim --out orders.cqf
+ *   npm run cli -- batch orders.cqf --op search --keys keys.csv --results results.csv
+ *   npm run cli -- stats orders.cqf
+ *
+ * Every command prints one JSON document to stdout, except `keys` without
+ * --out, which writes the key file there. Errors are printed to stderr as
+ * {"error": {"code", "message"}}. Exit codes: 0 success, 1 failure, 2 usage
+ * error, 3 a batch ran but some keys failed.
+ *
+ * Tests import `main` and pass it the arguments instead.
+ *
+ * sql.js is loaded from node_modules, the same build the app bundles; set
+ * CQF_SQL_JS to a directory holding sql-wasm.js and sql-wasm.wasm to use
+ * another build.
+ */
+import { readFile, writeFile, appendFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import * as sqlite from '../services/sqliteEngine';
+import { createLocalBackend, LocalBackend } from '../services/localBackend';
+import { createKeyFileWriter, detectKeyFileFormat, KEY_FILE_FORMATS, parseKeyFile, supportsExtraColumns } from '../services/keyFileFormat';
+import { DEFAULT_HASHING_OPTIONS, keyHashingFor } from '../services/keyEncoding';
+import { defaultFilterName, keySourceAffinities, tableSource } from '../services/keySource';
+import { generateBatchResultsCsv } from '../services/batchResults';
+import { BatchOp, BatchRun, FilterSource, HashFunction, KeyFileFormat, KeySource, ResizePolicy, TableInfo } from '../types';
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_PARTIAL = 3;
+
+const USAGE = `Usage: cqf <command> [options]
+
+Commands:
+  tables <db>                       Tables and views with their columns and primary keys
+  keys <db> [key source]            Extract keys to a key file (stdout unless --out)
+      --format text|csv|json|ndjson|fingerprints   (default: from --out, else text)
+      --header                      CSV: write a header line
+      --extra <col,col>             CSV and JSON formats: columns written after each key
+      --out <file>
+  build <db> [key source] --out <file.cqf>
+      --name <filter>               (default: <table>.<key>, as in the UI)
+      --capacity <n>                Size the filter for at least n keys
+  batch <file.cqf> --op search|insert|delete --keys <key file>
+      --format <format>             Key file format (default: from the extension)
+      --header                      CSV: the first line is a header
+      --count <n>                   Copies inserted or deleted per key (default 1)
+      --resize grow|reject          Resize policy for inserts (default grow)
+      --max-load <f>                Load factor that triggers it (default 0.9)
+      --results <file.csv>          Per-key results
+      --out <file.cqf>              Save the filter after the batch
+  stats <file.cqf>                  Parameters and statistics of a saved filter
+
+Key source (keys, build):
+  --table <name>                    Table or view to read
+  --key pk|rowid|column:<name>|expr:<sql>   (default: pk, else rowid; required for views)
+  --where <condition>               Only rows matching the SQL condition
+  --query <sql> [--query-column <name>]     Keys from a single-column query instead of a table;
+                                    --query-column, if given, must name that column
+  --hash murmur3|xxhash64  --seed <n>  --trim  --case-fold   Key hashing (build, fingerprints)`;
+
+class UsageError extends Error {}
+
+// --- Loading sql.js ---
+
+const loadSqlJs = async (): Promise<any> => {
+  const require = createRequire(import.meta.url);
+  const dir = process.env.CQF_SQL_JS ?? path.dirname(require.resolve('sql.js/dist/sql-wasm.js'));
+  const initSqlJs = require(path.join(path.resolve(dir), 'sql-wasm.js'));
+  return initSqlJs({ wasmBinary: await readFile(path.join(dir, 'sql-wasm.wasm')) });
+};
+
+const openDatabase = async (file: string) => {
+  const buffer = await readFile(file);
+  sqlite.openDatabase(await loadSqlJs(), buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+  try {
+    sqlite.listTables();
+  } catch (error: any) {
+    throw new Error(`${file} is not a SQLite database: ${error.message}`);
+  }
+};
+
+// --- Options ---
+
+type Values = Record<string, string | boolean | undefined>;
+
+const KEY_SOURCE_OPTIONS = {
+  table: { type: 'string' },
+  key: { type: 'string' },
+  where: { type: 'string' },
+  query: { type: 'string' },
+  'query-column': { type: 'string' },
+  hash: { type: 'string' },
+  seed: { type: 'string' },
+  trim: { type: 'boolean' },
+  'case-fold': { type: 'boolean' }
+} as const;
+
+const COMMAND_OPTIONS = {
+  tables: {},
+  keys: { ...KEY_SOURCE_OPTIONS, format: { type: 'string' }, header: { type: 'boolean' }, extra: { type: 'string' }, out: { type: 'string' } },
+  build: { ...KEY_SOURCE_OPTIONS, name: { type: 'string' }, capacity: { type: 'string' }, out: { type: 'string' } },
+  batch: {
+    op: { type: 'string' },
+    keys: { type: 'string' },
+    format: { type: 'string' },
+    header: { type: 'boolean' },
+    count: { type: 'string' },
+    resize: { type: 'string' },
+    'max-load': { type: 'string' },
+    results: { type: 'string' },
+    out: { type: 'string' }
+  },
+  stats: {}
+} as const;
+
+type Command = keyof typeof COMMAND_OPTIONS;
+
+const str = (values: Values, name: string): string | undefined => values[name] as string | undefined;
+
+const required = (values: Values, name: string): string => {
+  const value = str(values, name);
+  if (value === undefined) throw new UsageError(`--${name} is required`);
+  return value;
+};
+
+const integerOption = (values: Values, name: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number | undefined => {
+  const value = str(values, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) throw new UsageError(`--${name} must be an integer from ${min} to ${max}`);
+  return n;
+};
+
+const oneOf = <T extends string>(values: Values, name: string, choices: readonly T[], fallback: T): T => {
+  const value = str(values, name) ?? fallback;
+  if (!choices.includes(value as T)) throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  return value as T;
+};
+
+const findTable = (name: string): TableInfo => {
+  const table = sqlite.getTables().find(t => t.name === name);
+  if (!table) throw new UsageError(`No table or view named '${name}'`);
+  return table;
+};
+
+// A query source, like the SQL console's: the query must return a single column, recorded by its name
+const querySource = (sql: string, queryColumn: string | undefined): KeySource => {
+  let columns: string[];
+  try {
+    columns = sqlite.queryColumns(sql);
+  } catch (error: any) {
+    throw new Error(`--query failed: ${error.message}`);
+  }
+  if (columns.length !== 1) {
+    throw new UsageError(`--query must return a single key column; it returns ${columns.length === 0 ? 'none' : columns.join(', ')}`);
+  }
+  if (queryColumn !== undefined && queryColumn !== columns[0]) {
+    throw new UsageError(`--query-column '${queryColumn}' is not the query's column '${columns[0]}'`);
+  }
+  return { kind: 'query', sql, column: columns[0] };
+};
+
+// The key source the UI's picker would produce for the same choices
+const keySourceFor = (values: Values, table: TableInfo | null): KeySource => {
+  const query = str(values, 'query');
+  if (query !== undefined) return querySource(query, str(values, 'query-column'));
+  // Views have neither a primary key nor a rowid, so their key column must be named
+  if (table!.type === 'view' && str(values, 'key') === undefined) {
+    throw new UsageError(`${table!.name} is a view; name its key with --key column:<name> or expr:<sql>`);
+  }
+  const spec = str(values, 'key') ?? (table!.pkColumns.length > 0 ? 'pk' : 'rowid');
+  if (spec === 'pk') {
+    if (table!.pkColumns.length === 0) throw new UsageError(`${table!.name} has no primary key; use --key rowid, column:<name> or expr:<sql>`);
+    return { kind: 'primaryKey', columns: table!.pkColumns };
+  }
+  if (spec === 'rowid') {
+    if (table!.type === 'view') throw new UsageError(`${table!.name} is a view and has no rowid; use --key column:<name> or expr:<sql>`);
+    return { kind: 'rowid' };
+  }
+  if (spec.startsWith('column:')) {
+    const column = spec.slice('column:'.length);
+    if (!table!.columns.includes(column)) throw new UsageError(`${table!.name} has no column '${column}'`);
+    return { kind: 'column', column };
+  }
+  if (spec.startsWith('expr:') && spec.length > 'expr:'.length) return { kind: 'expression', expression: spec.slice('expr:'.length) };
+  throw new UsageError("--key must be pk, rowid, column:<name> or expr:<sql>");
+};
+
+const resolveSource = (values: Values): { source: FilterSource; table: TableInfo | null; keySource: KeySource } => {
+  const tableName = str(values, 'table');
+  if (str(values, 'query') !== undefined) {
+    if (str(values, 'key') !== undefined || str(values, 'where') !== undefined) throw new UsageError('--query cannot be combined with --key or --where');
+    const table = tableName === undefined ? null : findTable(tableName);
+    const keySource = keySourceFor(values, table);
+    return { source: { tableName: tableName ?? '', keySource, where: null }, table, keySource };
+  }
+  if (tableName === undefined) throw new UsageError('--table or --query is required');
+  const table = findTable(tableName);
+  const keySource = keySourceFor(values, table);
+  return { source: tableSource(table, keySource, str(values, 'where')?.trim() || null), table, keySource };
+};
+
+const HASH_FUNCTIONS: HashFunction[] = ['murmur3', 'xxhash64'];
+
+const hashingFor = (values: Values, keySource: KeySource, table: TableInfo | null) => keyHashingFor({
+  hash: oneOf(values, 'hash', HASH_FUNCTIONS, DEFAULT_HASHING_OPTIONS.hash),
+  seed: integerOption(values, 'seed', 0, 0xffffffff) ?? DEFAULT_HASHING_OPTIONS.seed,
+  trim: !!values.trim,
+  caseFold: !!values['case-fold']
+}, keySourceAffinities(keySource, table));
+
+async function* keyChunks(source: FilterSource): AsyncGenerator<string[]> {
+  for (const rows of sqlite.scanKeyRows(source)) yield sqlite.encodeKeyRows(rows);
+}
+
+const loadFilter = async (backend: LocalBackend, file: string): Promise<string> => {
+  const buffer = await readFile(file);
+  const { filterName } = await backend.importFilter(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+  return filterName;
+};
+
+const saveFilter = async (backend: LocalBackend, name: string, file: string) => {
+  await writeFile(file, Buffer.from(await backend.exportFilter(name)));
+};
+
+const blobBytes = async (parts: BlobPart[]): Promise<Buffer> => Buffer.from(await new Blob(parts).arrayBuffer());
+
+// --- Commands ---
+
+const commands: Record<Command, (values: Values, args: string[]) => Promise<{ output?: unknown; exitCode?: number }>> = {
+  tables: async (_values, [db]) => {
+    await openDatabase(db);
+    return { output: { database: db, tables: sqlite.getTables() } };
+  },
+
+  keys: async (values, [db]) => {
+    await openDatabase(db);
+    const { source, table, keySource } = resolveSource(values);
+    const out = str(values, 'out');
+    const format = oneOf(values, 'format', Object.keys(KEY_FILE_FORMATS) as KeyFileFormat[], out ? detectKeyFileFormat(out) : 'text');
+    const extraColumns = str(values, 'extra')?.split(',').map(col => col.trim()).filter(Boolean) ?? [];
+    if (extraColumns.length > 0 && (!supportsExtraColumns(format) || !table || keySource.kind === 'query')) {
+      throw new UsageError('--extra needs a table key source and the csv, json or ndjson format');
+    }
+    const missing = extraColumns.filter(col => !table!.columns.includes(col));
+    if (missing.length > 0) throw new UsageError(`${table!.name} has no column ${missing.join(', ')}`);
+
+    const writer = createKeyFileWriter({
+      format,
+      header: format === 'csv' && !!values.header,
+      extraColumns,
+      hashing: format === 'fingerprints' ? hashingFor(values, keySource, table) : null
+    });
+    // Written a chunk at a time, as the worker grows its export
+    const write = async (parts: BlobPart[]) => {
+      const bytes = await blobBytes(parts);
+      if (out) await appendFile(out, bytes);
+      else process.stdout.write(bytes);
+    };
+    if (out) await writeFile(out, '');
+    await write(writer.start());
+    let rows = 0;
+    for (const chunk of sqlite.scanKeyRows(source, extraColumns)) {
+      await write(writer.rows(chunk));
+      rows += chunk.length;
+    }
+    await write(writer.end());
+    return { output: out ? { out, format, rows } : undefined };
+  },
+
+  build: async (values, [db]) => {
+    const out = required(values, 'out');
+    const capacity = integerOption(values, 'capacity', 1);
+    await openDatabase(db);
+    const { source, table, keySource } = resolveSource(values);
+    const hashing = hashingFor(values, keySource, table);
+    const name = str(values, 'name') ?? defaultFilterName(source.tableName, keySource);
+
+    const backend = createLocalBackend();
+    const started = performance.now();
+    const rows = sqlite.countKeyRows(source);
+    const { message } = await backend.buildFromChunks(name, source, hashing, Math.max(rows, capacity ?? 0), keyChunks(source));
+    const elapsedMs = performance.now() - started;
+    await saveFilter(backend, name, out);
+    return { output: { message, out, elapsedMs, stats: await backend.stats(name) } };
+  },
+
+  batch: async (values, [file]) => {
+    const op = oneOf<BatchOp>(values, 'op', ['search', 'insert', 'delete'], 'search');
+    const keysFile = required(values, 'keys');
+    const count = integerOption(values, 'count', 1) ?? 1;
+    const policy: ResizePolicy = {
+      mode: oneOf(values, 'resize', ['grow', 'reject'] as const, 'grow'),
+      maxLoadFactor: str(values, 'max-load') === undefined ? 0.9 : Number(str(values, 'max-load'))
+    };
+    if (!(policy.maxLoadFactor > 0 && policy.maxLoadFactor <= 1)) throw new UsageError('--max-load must be a number in (0, 1]');
+    const format = oneOf(values, 'format', Object.keys(KEY_FILE_FORMATS) as KeyFileFormat[], detectKeyFileFormat(keysFile));
+
+    const backend = createLocalBackend();
+    const filterName = await loadFilter(backend, file);
+    await backend.setResizePolicy(filterName, policy);
+    const keyBuffer = await readFile(keysFile);
+    const { keys, hashing } = parseKeyFile(
+      keyBuffer.buffer.slice(keyBuffer.byteOffset, keyBuffer.byteOffset + keyBuffer.byteLength) as ArrayBuffer,
+      format,
+      !!values.header
+    );
+
+    const started = performance.now();
+    const { results, resizes } = await backend.batch(filterName, op, keys, count, hashing);
+    const failed = results.filter(r => !r.ok).length;
+    const found = results.filter(r => r.ok && r.found).length;
+    const run: BatchRun = {
+      filterName, op, keys, hashing, results, resizes, found, notFound: results.length - found - failed, failed,
+      elapsedMs: performance.now() - started
+    };
+
+    const resultsFile = str(values, 'results');
+    if (resultsFile) await writeFile(resultsFile, generateBatchResultsCsv(run));
+    const out = str(values, 'out');
+    if (out) await saveFilter(backend, filterName, out);
+    const firstError = results.find(r => !r.ok)?.error ?? null;
+    return {
+      output: {
+        filterName, op, keys: keys.length, found, notFound: run.notFound, failed, firstError,
+        resizes, elapsedMs: run.elapsedMs, results: resultsFile ?? null, out: out ?? null,
+        stats: await backend.stats(filterName)
+      },
+      exitCode: failed > 0 ? EXIT_PARTIAL : 0
+    };
+  },
+
+  stats: async (_values, [file]) => {
+    const backend = createLocalBackend();
+    return { output: await backend.stats(await loadFilter(backend, file)) };
+  }
+};
+
+// Runs one command and returns its exit code; output goes to stdout and stderr
+export const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    console.log(USAGE);
+    return command ? 0 : EXIT_USAGE;
+  }
+  try {
+    if (!(command in COMMAND_OPTIONS)) throw new UsageError(`Unknown command '${command}'`);
+    let parsed: { values: Values; positionals: string[] };
+    try {
+      parsed = parseArgs({ args: rest, options: COMMAND_OPTIONS[command as Command], allowPositionals: true }) as typeof parsed;
+    } catch (error: any) {
+      throw new UsageError(error.message);
+    }
+    if (parsed.positionals.length !== 1) throw new UsageError(`${command} takes one file argument`);
+    const { output, exitCode = 0 } = await commands[command as Command](parsed.values, parsed.positionals);
+    if (output !== undefined) console.log(JSON.stringify(output, null, 2));
+    return exitCode;
+  } catch (error: any) {
+    const usage = error instanceof UsageError;
+    console.error(JSON.stringify({ error: { code: usage ? 'usage' : 'failed', message: error?.message ?? String(error) } }));
+    if (usage) console.error(`Run 'cqf --help' for usage.`);
+    return usage ? EXIT_USAGE : EXIT_FAILURE;
+  } finally {
+    sqlite.closeDatabase();
+  }
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  process.exitCode = await main(process.argv.slice(2));
+}
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Server, RefreshCw } from 'lucide-react';
+import { BackendConfig, BackendStatus } from '../types';
+import { DEFAULT_BACKEND_URL, DEFAULT_BACKEND_TIMEOUT_MS } from '../services/httpBackend';
+
+interface BackendSettingsProps {
+  config: BackendConfig;
+  status: BackendStatus;
+  onApply: (config: BackendConfig) => void;
+}
+
+const statusColors: Record<BackendStatus['state'], string> = {
+  connected: 'bg-green-400',
+  checking: 'bg-amber-400 animate-pulse',
+  disconnected: 'bg-red-500'
+};
+
+export const BackendSettings: React.FC<BackendSettingsProps> = ({ config, status, onApply }) => {
+  const [kind, setKind] = useState<BackendConfig['kind']>(config.kind);
+  const [baseUrl, setBaseUrl] = useState(config.kind === 'http' ? config.baseUrl : DEFAULT_BACKEND_URL);
+  const [timeoutMs, setTimeoutMs] = useState(config.kind === 'http' ? config.timeoutMs : DEFAULT_BACKEND_TIMEOUT_MS);
+
+  const apply = () => {
+    onApply(kind === 'local' ? { kind: 'local' } : { kind: 'http', baseUrl: baseUrl.trim(), timeoutMs });
+  };
+
+  return (
+    <div className="p-4 border-b border-slate-800 space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium text-slate-400">
+        <Server className="w-4 h-4" />
+        Filter Backend
+      </label>
+      <select
+        value={kind}
+        onChange={(e) => setKind(e.target.value as BackendConfig['kind'])}
+        className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-blue-500"
+      >
+        <option value="local">In-browser engine</option>
+        <option value="http">HTTP server</option>
+      </select>
+      {kind === 'http' && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder={DEFAULT_BACKEND_URL}
+            className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-200 font-mono outline-none focus:border-blue-500"
+          />
+          <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+            Timeout (ms)
+            <input
+              type="number"
+              min={100}
+              step={100}
+              value={timeoutMs}
+              onChange={(e) => setTimeoutMs(Math.max(100, Math.floor(Number(e.target.value)) || DEFAULT_BACKEND_TIMEOUT_MS))}
+              className="w-24 bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500"
+            />
+          </label>
+        </div>
+      )}
+      <button
+        onClick={apply}
+        disabled={status.state === 'checking'}
+        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 disabled:opacity-50"
+      >
+        <RefreshCw className={`w-3 h-3 ${status.state === 'checking' ? 'animate-spin' : ''}`} />
+        {kind === config.kind ? 'Reconnect' : 'Connect'}
+      </button>
+      <div className="flex items-center gap-2 text-xs" title={status.error}>
+        <div className={`w-2 h-2 rounded-full ${statusColors[status.state]}`}></div>
+        <span className="truncate">
+          {status.state === 'connected' && `Connected: ${status.label}`}
+          {status.state === 'checking' && `Connecting to ${status.label}...`}
+          {status.state === 'disconnected' && `Disconnected: ${status.error || status.label}`}
+        </span>
+      </div>
+    </div>
+  );
+};
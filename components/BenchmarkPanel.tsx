@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Gauge, Play, Download } from 'lucide-react';
+import { BenchmarkMeasurement, BenchmarkOptions, BenchmarkResult } from '../types';
+import { Button } from './Button';
+
+interface BenchmarkPanelProps {
+  keyLabel: string; // The key source the benchmark reads
+  isReady: boolean; // False until the key source is complete
+  isBusy: boolean;
+  result: BenchmarkResult | null;
+  onRun: (options: BenchmarkOptions) => Promise<void>;
+  onDownload: (result: BenchmarkResult) => void;
+}
+
+const FP_RATES = [0.1, 0.01, 0.001, 0.0001];
+
+const inputClass = "border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const formatRate = (value: number) => `${(value * 100).toFixed(value < 0.001 ? 4 : 2)}%`;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatOps = (perSec: number) => perSec >= 1e6 ? `${(perSec / 1e6).toFixed(2)}M/s` : `${Math.round(perSec / 1000).toLocaleString()}k/s`;
+
+// One chart per metric; `value` null means the structure does not support it
+const CHARTS: { title: string; note: string; value: (m: BenchmarkMeasurement) => number | null; format: (v: number) => string }[] = [
+  { title: 'Memory', note: 'bits per key, lower is better', value: m => m.bitsPerKey, format: v => v.toFixed(1) },
+  { title: 'Inserts', note: 'per second', value: m => m.insertsPerSec, format: formatOps },
+  { title: 'Lookups', note: 'per second, present and absent keys', value: m => m.lookupsPerSec, format: formatOps },
+  { title: 'Deletes', note: 'per second', value: m => m.deletesPerSec, format: formatOps },
+  { title: 'False positives', note: 'measured rate', value: m => m.measuredFpRate, format: formatRate }
+];
+
+const BAR_COLORS: Record<BenchmarkMeasurement['structure'], string> = {
+  cqf: 'bg-indigo-500',
+  bloom: 'bg-sky-500',
+  cuckoo: 'bg-amber-500',
+  set: 'bg-slate-400'
+};
+
+export const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ keyLabel, isReady, isBusy, result, onRun, onDownload }) => {
+  const [targetFpRate, setTargetFpRate] = useState(0.01);
+  const [probeCount, setProbeCount] = useState(100000);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-indigo-500" />
+          Benchmark
+        </h3>
+        <span className="text-xs text-slate-500">CQF vs Bloom filter vs cuckoo filter vs exact Set</span>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <p className="text-sm text-slate-600 flex-1 min-w-[16rem]">
+            Builds each structure from the distinct keys of <b>{keyLabel}</b>, sized for the same false-positive
+            rate, then times inserts, lookups and deletes and measures false positives on keys known to be absent.
+            Every distinct key is held in memory for the run, so very large key sources may not fit.
+          </p>
+          <label className="space-y-1 text-xs font-medium text-slate-700">
+            <span className="block">Target FP rate</span>
+            <select value={targetFpRate} onChange={(e) => setTargetFpRate(Number(e.target.value))} className={inputClass}>
+              {FP_RATES.map(rate => <option key={rate} value={rate}>{formatRate(rate)}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs font-medium text-slate-700">
+            <span className="block">Absent probes</span>
+            <input
+              type="number"
+              min={1000}
+              step={1000}
+              value={probeCount}
+              onChange={(e) => setProbeCount(Math.max(1000, Math.floor(Number(e.target.value)) || 1000))}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <Button
+            onClick={() => onRun({ targetFpRate, probeCount })}
+            disabled={!isReady || isBusy}
+            icon={<Play className="w-4 h-4" />}
+          >
+            Run benchmark
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="flex justify-between items-center text-xs text-slate-500">
+              <span>
+                {result.keyCount.toLocaleString()} keys of {result.source}, target FP {formatRate(result.options.targetFpRate)},{' '}
+                {result.options.probeCount.toLocaleString()} absent probes ({new Date(result.startedAt).toLocaleString()})
+              </span>
+              <Button onClick={() => onDownload(result)} variant="secondary" className="text-xs" icon={<Download className="w-3 h-3" />}>
+                Export JSON
+              </Button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wide text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4">Structure</th>
+                    <th className="py-2 pr-4">Memory</th>
+                    <th className="py-2 pr-4">Bits / key</th>
+                    <th className="py-2 pr-4">Build</th>
+                    <th className="py-2 pr-4">Inserts</th>
+                    <th className="py-2 pr-4">Lookups</th>
+                    <th className="py-2 pr-4">Deletes</th>
+                    <th className="py-2 pr-4">Measured FP</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-xs">
+                  {result.measurements.map(m => (
+                    <tr key={m.structure} className="border-b border-slate-100 align-top">
+                      <td className="py-2 pr-4 font-sans">
+                        <p className="text-sm font-medium text-slate-800">{m.label}</p>
+                        <p className="text-[11px] text-slate-500">{m.parameters}</p>
+                        {(m.failedInserts > 0 || m.falseNegatives > 0) && (
+                          <p className="text-[11px] text-red-600">
+                            {m.failedInserts.toLocaleString()} inserts refused, {m.falseNegatives.toLocaleString()} keys lost
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4" title={m.memoryEstimated ? 'Estimated: a JS Set cannot be measured from inside the page' : undefined}>
+                        {m.memoryEstimated && '≈ '}{formatBytes(m.bytes)}
+                      </td>
+                      <td className="py-2 pr-4">{m.bitsPerKey.toFixed(1)}</td>
+                      <td className="py-2 pr-4">{m.buildMs.toFixed(0)} ms</td>
+                      <td className="py-2 pr-4">{formatOps(m.insertsPerSec)}</td>
+                      <td className="py-2 pr-4">{formatOps(m.lookupsPerSec)}</td>
+                      <td className="py-2 pr-4">{m.deletesPerSec === null ? 'not supported' : formatOps(m.deletesPerSec)}</td>
+                      <td className="py-2 pr-4">{formatRate(m.measuredFpRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {CHARTS.map(chart => {
+                const values = result.measurements.map(chart.value);
+                const max = Math.max(0, ...values.map(v => v ?? 0));
+                return (
+                  <div key={chart.title} className="space-y-2">
+                    <p className="text-xs font-medium text-slate-700">{chart.title} <span className="font-normal text-slate-400">({chart.note})</span></p>
+                    {result.measurements.map((m, i) => {
+                      const value = values[i];
+                      return (
+                        <div key={m.structure} className="flex items-center gap-2 text-[11px]">
+                          <span className="w-20 shrink-0 text-slate-500 truncate" title={m.label}>{m.label.split(' ')[0]}</span>
+                          <div className="flex-1 h-3 bg-slate-100 rounded">
+                            {value !== null && (
+                              <div className={`h-full rounded ${BAR_COLORS[m.structure]}`} style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }}></div>
+                            )}
+                          </div>
+                          <span className="w-20 shrink-0 text-right font-mono text-slate-600">{value === null ? 'n/a' : chart.format(value)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
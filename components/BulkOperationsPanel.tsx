@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, FileUp, Play, Download, X } from 'lucide-react';
+import { BatchOp, BatchProgress, BatchRun, KeyFile, KeyFileFormat, KeyHashing } from '../types';
+import { Button } from './Button';
+import { KEY_FILE_FORMATS, detectKeyFileFormat, parseKeyFile, parseKeyLines } from '../services/keyFileFormat';
+import { describeKeyHashing } from '../services/keyEncoding';
+
+interface BulkOperationsPanelProps {
+  isBusy: boolean;
+  progress: BatchProgress | null; // Set while a batch is running
+  lastRun: BatchRun | null;
+  onRun: (op: BatchOp, keys: string[], count: number, hashing: KeyHashing | null) => Promise<void>; // hashing: keys are key hashes
+  onDownloadResults: (run: BatchRun) => void;
+}
+
+const outcomeLabels: Record<BatchOp, [string, string]> = {
+  search: ['Probably present', 'Definitely absent'],
+  insert: ['Inserted', 'Skipped'],
+  delete: ['Removed', 'Not found']
+};
+
+const KEY_FILE_ACCEPT = ['.txt', '.csv', '.json', '.ndjson', '.jsonl', '.cqfk', 'text/plain'].join(',');
+
+// A key file other than plain text, kept so CSV can be re-read when the header option changes
+interface LoadedKeyFile {
+  name: string;
+  format: KeyFileFormat;
+  buffer: ArrayBuffer;
+}
+
+export const BulkOperationsPanel: React.FC<BulkOperationsPanelProps> = ({
+  isBusy,
+  progress,
+  lastRun,
+  onRun,
+  onDownloadResults
+}) => {
+  const [keyText, setKeyText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [loadedFile, setLoadedFile] = useState<LoadedKeyFile | null>(null);
+  const [csvHeader, setCsvHeader] = useState(true);
+  const [op, setOp] = useState<BatchOp>('search');
+  const [opCount, setOpCount] = useState(1);
+
+  const parsed = useMemo((): { file: KeyFile; error: string | null } => {
+    if (!loadedFile) return { file: { format: 'text', keys: parseKeyLines(keyText), hashing: null }, error: null };
+    try {
+      return { file: parseKeyFile(loadedFile.buffer, loadedFile.format, csvHeader), error: null };
+    } catch (error: any) {
+      return { file: { format: loadedFile.format, keys: [], hashing: null }, error: `${loadedFile.name}: ${error.message}` };
+    }
+  }, [keyText, loadedFile, csvHeader]);
+  const { keys, hashing } = parsed.file;
+
+  const handleKeyFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const format = detectKeyFileFormat(file.name);
+    if (format === 'text') {
+      setKeyText(await file.text());
+      setFileName(file.name);
+      setLoadedFile(null);
+    } else {
+      setLoadedFile({ name: file.name, format, buffer: await file.arrayBuffer() });
+      setKeyText('');
+      setFileName(null);
+    }
+  };
+
+  const throughput = lastRun && lastRun.elapsedMs > 0
+    ? Math.round(lastRun.keys.length / (lastRun.elapsedMs / 1000))
+    : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Layers className="w-4 h-4 text-indigo-500" />
+          Bulk Operations
+        </h3>
+        <span className="text-xs text-slate-500">Any key file written by Key Extraction</span>
+      </div>
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <textarea
+            value={keyText}
+            onChange={(e) => { setKeyText(e.target.value); setFileName(null); setLoadedFile(null); }}
+            placeholder={loadedFile ? `Keys are read from ${loadedFile.name}; type here to use pasted keys instead` : "Paste keys here, one per line, or upload a key file..."}
+            rows={6}
+            className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+          {loadedFile && (
+            <div className="flex items-center justify-between text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-md px-3 py-2">
+              <span>{KEY_FILE_FORMATS[loadedFile.format].label}: {loadedFile.name}</span>
+              <div className="flex items-center gap-3">
+                {loadedFile.format === 'csv' && (
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={csvHeader} onChange={(e) => setCsvHeader(e.target.checked)} />
+                    Skip header line
+                  </label>
+                )}
+                <button onClick={() => setLoadedFile(null)} className="text-slate-400 hover:text-slate-600" title="Remove file">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          )}
+          {parsed.error && <p className="text-xs text-red-600">{parsed.error}</p>}
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>
+              {keys.length.toLocaleString()} {hashing === null ? 'keys' : 'key hashes'}
+              {(fileName || loadedFile) && ` from ${fileName ?? loadedFile?.name}`}
+              {hashing && <span className="block">{describeKeyHashing(hashing)}</span>}
+            </span>
+            <input type="file" accept={KEY_FILE_ACCEPT} onChange={handleKeyFile} className="hidden" id="bulk-key-upload" />
+            <label htmlFor="bulk-key-upload" className="flex items-center gap-1 cursor-pointer font-medium text-blue-600 hover:text-blue-700">
+              <FileUp className="w-3 h-3" />
+              Upload key file
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={op}
+              onChange={(e) => setOp(e.target.value as BatchOp)}
+              className="flex-1 border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              <option value="search">Search</option>
+              <option value="insert">Insert</option>
+              <option value="delete">Delete</option>
+            </select>
+            {op !== 'search' && (
+              <input
+                type="number"
+                min={1}
+                value={opCount}
+                onChange={(e) => setOpCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                title="Count per key"
+                className="w-20 border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            )}
+            <Button
+              onClick={() => onRun(op, keys, opCount, hashing)}
+              disabled={keys.length === 0 || isBusy}
+              isLoading={!!progress}
+              icon={<Play className="w-4 h-4" />}
+            >
+              Run
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {progress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-slate-500">
+                <span>Processing...</span>
+                <span>{progress.done.toLocaleString()} / {progress.total.toLocaleString()}</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+          {!progress && !lastRun && (
+            <div className="h-full flex items-center justify-center text-sm text-slate-400 italic">
+              No batch run yet
+            </div>
+          )}
+          {!progress && lastRun && (
+            <>
+              <p className="text-xs text-slate-500">
+                Last run: <span className="font-medium text-slate-700">{lastRun.op}</span> on {lastRun.filterName},{' '}
+                {lastRun.keys.length.toLocaleString()} keys in {(lastRun.elapsedMs / 1000).toFixed(2)} s
+                {throughput !== null && ` (${throughput.toLocaleString()} keys/s)`}
+              </p>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                  <p className="text-xs text-green-700">{outcomeLabels[lastRun.op][0]}</p>
+                  <p className="text-lg font-semibold text-green-800">{lastRun.found.toLocaleString()}</p>
+                </div>
+                <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                  <p className="text-xs text-slate-600">{outcomeLabels[lastRun.op][1]}</p>
+                  <p className="text-lg font-semibold text-slate-800">{lastRun.notFound.toLocaleString()}</p>
+                </div>
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-xs text-red-700">Failed</p>
+                  <p className="text-lg font-semibold text-red-800">{lastRun.failed.toLocaleString()}</p>
+                </div>
+              </div>
+              <Button
+                onClick={() => onDownloadResults(lastRun)}
+                variant="secondary"
+                className="w-full text-xs"
+                icon={<Download className="w-3 h-3" />}
+              >
+                Download results (.csv)
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
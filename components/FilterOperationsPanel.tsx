@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { Search, Trash2, Plus, Hash, FlaskConical, Maximize2, AlertTriangle } from 'lucide-react';
+import { CqfFilterState, BackendStatus, ResizePolicy } from '../types';
+import { Button } from './Button';
+import { FilterStats } from './FilterStats';
+import { encodeCompositeKey } from '../services/dbService';
+
+export type CqfAction = 'search' | 'insert' | 'delete' | 'count';
+
+interface FilterOperationsPanelProps {
+  stats: CqfFilterState;
+  backendStatus: BackendStatus;
+  keyColumns: string[]; // One input per column; composite keys are encoded before use
+  keyPrefill?: string[] | null; // Replaces the key inputs whenever a new array is passed
+  consoleLines: string[];
+  isBusy: boolean;
+  onAction: (action: CqfAction, key: string, count: number) => Promise<void>;
+  // FP probes need the source table, so detached filters omit this
+  onProbe?: (probeSize: number) => Promise<void>;
+  onPolicyChange: (policy: ResizePolicy) => Promise<void>;
+  divergence?: string | null; // Why the filter may no longer match its table
+}
+
+export const FilterOperationsPanel: React.FC<FilterOperationsPanelProps> = ({
+  stats,
+  backendStatus,
+  keyColumns,
+  keyPrefill,
+  consoleLines,
+  isBusy,
+  onAction,
+  onProbe,
+  onPolicyChange,
+  divergence
+}) => {
+  const [keyParts, setKeyParts] = useState<string[]>([]);
+  const [opCount, setOpCount] = useState(1);
+  const [probeSize, setProbeSize] = useState(10000);
+  const [policyMode, setPolicyMode] = useState(stats.resizePolicy.mode);
+  const [maxLoad, setMaxLoad] = useState(stats.resizePolicy.maxLoadFactor);
+  const policyChanged = policyMode !== stats.resizePolicy.mode || maxLoad !== stats.resizePolicy.maxLoadFactor;
+
+  useEffect(() => {
+    if (keyPrefill) setKeyParts(keyPrefill);
+  }, [keyPrefill]);
+
+  const inputColumns = keyColumns.length > 0 ? keyColumns : ['Key Value'];
+  const parts = inputColumns.map((_, i) => keyParts[i] ?? '');
+  const searchKey = parts.some(part => part !== '') ? encodeCompositeKey(parts) : '';
+
+  const setKeyPart = (index: number, value: string) => {
+    setKeyParts(prev => {
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const runAction = async (action: CqfAction) => {
+    if (!searchKey) return;
+    await onAction(action, searchKey, opCount);
+    setKeyParts([]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden ring-1 ring-slate-900/5">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800">Filter Operations</h3>
+        <span
+          className={`text-xs font-mono ${backendStatus.state === 'disconnected' ? 'text-red-600' : 'text-slate-500'}`}
+          title={backendStatus.error}
+        >
+          Backend: {backendStatus.label} ({backendStatus.state}
+          {backendStatus.latencyMs !== undefined && backendStatus.state === 'connected' && `, ${Math.round(backendStatus.latencyMs)} ms`})
+        </span>
+      </div>
+      {divergence && (
+        <div className="mx-6 mt-6 bg-amber-50 border border-amber-200 rounded-md p-3 text-sm text-amber-800 flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>Filter and table have diverged: {divergence}. Rebuild the filter to resync it.</span>
+        </div>
+      )}
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-4">
+          {inputColumns.map((column, i) => (
+            <div key={column} className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">{column}</label>
+              <input
+                type="text"
+                value={parts[i]}
+                onChange={(e) => setKeyPart(i, e.target.value)}
+                placeholder="Enter key..."
+                className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </div>
+          ))}
+          {inputColumns.length > 1 && searchKey && (
+            <p className="text-xs text-slate-500 font-mono break-all">Encoded key: {searchKey}</p>
+          )}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-700">Count</label>
+            <input
+              type="number"
+              min={1}
+              value={opCount}
+              onChange={(e) => setOpCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+            <p className="text-xs text-slate-500">Applied to Insert and Delete.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              onClick={() => runAction('search')}
+              disabled={!searchKey || isBusy}
+              variant="secondary"
+              className="text-xs"
+              icon={<Search className="w-3 h-3" />}
+            >
+              Search
+            </Button>
+            <Button
+              onClick={() => runAction('count')}
+              disabled={!searchKey || isBusy}
+              variant="secondary"
+              className="text-xs"
+              icon={<Hash className="w-3 h-3" />}
+            >
+              Count
+            </Button>
+            <Button
+              onClick={() => runAction('insert')}
+              disabled={!searchKey || isBusy}
+              variant="secondary"
+              className="text-xs"
+              icon={<Plus className="w-3 h-3" />}
+            >
+              Insert
+            </Button>
+            <Button
+              onClick={() => runAction('delete')}
+              disabled={!searchKey || isBusy}
+              variant="secondary"
+              className="text-xs text-red-600 hover:bg-red-50 border-red-200"
+              icon={<Trash2 className="w-3 h-3" />}
+            >
+              Delete
+            </Button>
+          </div>
+          {onProbe && (
+            <div className="pt-4 border-t border-slate-200 space-y-2">
+              <label className="text-sm font-medium text-slate-700">FP Probe (absent keys)</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={probeSize}
+                  onChange={(e) => setProbeSize(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                  className="w-28 border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                />
+                <Button
+                  onClick={() => onProbe(probeSize)}
+                  disabled={isBusy}
+                  variant="secondary"
+                  className="text-xs flex-1"
+                  icon={<FlaskConical className="w-3 h-3" />}
+                >
+                  Run Probe
+                </Button>
+              </div>
+            </div>
+          )}
+          <div className="pt-4 border-t border-slate-200 space-y-2">
+            <label className="text-sm font-medium text-slate-700">Resize policy</label>
+            <div className="flex gap-2">
+              <select
+                value={policyMode}
+                onChange={(e) => setPolicyMode(e.target.value as ResizePolicy['mode'])}
+                className="flex-1 border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="grow">Grow</option>
+                <option value="reject">Reject inserts</option>
+              </select>
+              <input
+                type="number"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={maxLoad}
+                onChange={(e) => setMaxLoad(Math.min(1, Math.max(0.05, Number(e.target.value) || 0.9)))}
+                title="Max load factor"
+                className="w-20 border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+              <Button
+                onClick={() => onPolicyChange({ mode: policyMode, maxLoadFactor: maxLoad })}
+                disabled={!policyChanged || isBusy}
+                variant="secondary"
+                className="text-xs"
+                icon={<Maximize2 className="w-3 h-3" />}
+              >
+                Apply
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+              {policyMode === 'grow'
+                ? `Doubles the slots past a load factor of ${maxLoad}${stats.resizeCount > 0 ? ` (resized ${stats.resizeCount}x)` : ''}.`
+                : `Refuses inserts past a load factor of ${maxLoad}.`}
+            </p>
+          </div>
+        </div>
+        <div className="lg:col-span-2 bg-slate-900 rounded-lg p-4 font-mono text-xs text-green-400 overflow-y-auto max-h-48 shadow-inner">
+          {consoleLines.length === 0 && <span className="text-slate-600 select-none">Waiting for operations...</span>}
+          {consoleLines.map((log, i) => (
+            <div key={i} className="mb-1">{log}</div>
+          ))}
+        </div>
+      </div>
+      <div className="px-6 pb-6 -mt-2">
+        <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Filter Statistics</h4>
+        <FilterStats stats={stats} />
+      </div>
+    </div>
+  );
+};
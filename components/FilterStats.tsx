@@ -0,0 +1,53 @@
+import React from 'react';
+import { CqfFilterState } from '../types';
+import { HASH_FUNCTION_LABELS } from '../services/keyEncoding';
+
+interface FilterStatsProps {
+  stats: CqfFilterState;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value < 0.001 ? 4 : 2)}%`;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const keyEncodingHint = ({ hashing: { encoding } }: CqfFilterState) => {
+  if (!encoding) return 'key text';
+  return ['typed', encoding.trim && 'trimmed', encoding.caseFold && 'no case'].filter(Boolean).join(', ');
+};
+
+export const FilterStats: React.FC<FilterStatsProps> = ({ stats }) => {
+  const items: { label: string; value: string; hint?: string }[] = [
+    { label: 'Items', value: stats.itemCount.toLocaleString(), hint: `${stats.distinctCount.toLocaleString()} distinct` },
+    { label: 'Capacity', value: stats.capacity.toLocaleString(), hint: `q=${stats.quotientBits}, r=${stats.remainderBits}` },
+    { label: 'Occupied Slots', value: stats.occupiedSlots.toLocaleString() },
+    { label: 'Load Factor', value: formatPercent(stats.loadFactor) },
+    { label: 'Bits / Element', value: stats.bitsPerElement.toFixed(2), hint: formatBytes(stats.sizeInBytes) },
+    { label: 'Theoretical FP', value: formatPercent(stats.theoreticalFpRate) },
+    {
+      label: 'Measured FP',
+      value: stats.measuredFpRate === null ? '—' : formatPercent(stats.measuredFpRate),
+      hint: stats.probeCount > 0 ? `${stats.probeCount.toLocaleString()} probes` : 'Run an FP probe'
+    },
+    {
+      label: 'Hashing',
+      value: HASH_FUNCTION_LABELS[stats.hashing.hash].split(' ')[0],
+      hint: `seed ${stats.hashing.seed}, ${keyEncodingHint(stats)}`
+    }
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4">
+      {items.map(item => (
+        <div key={item.label} className="bg-slate-50 border border-slate-200 rounded-md px-3 py-2">
+          <dt className="text-[10px] uppercase tracking-wide text-slate-500">{item.label}</dt>
+          <dd className="text-sm font-semibold text-slate-800 font-mono">{item.value}</dd>
+          {item.hint && <dd className="text-[10px] text-slate-400">{item.hint}</dd>}
+        </div>
+      ))}
+    </dl>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { HashFunction, HashingOptions } from '../types';
+import { HASH_FUNCTION_LABELS } from '../services/keyEncoding';
+
+interface HashingPickerProps {
+  value: HashingOptions;
+  onChange: (value: HashingOptions) => void;
+}
+
+const inputClass = "w-full border border-slate-300 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+export const HashingPicker: React.FC<HashingPickerProps> = ({ value, onChange }) => (
+  <div className="space-y-2 mt-4 text-xs text-slate-600">
+    <div className="grid grid-cols-3 gap-2">
+      <label className="col-span-2 space-y-1">
+        <span className="font-medium text-slate-700">Hash function</span>
+        <select
+          value={value.hash}
+          onChange={(e) => onChange({ ...value, hash: e.target.value as HashFunction })}
+          className={inputClass}
+        >
+          {(Object.keys(HASH_FUNCTION_LABELS) as HashFunction[]).map(hash => (
+            <option key={hash} value={hash}>{HASH_FUNCTION_LABELS[hash]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="font-medium text-slate-700">Seed</span>
+        <input
+          type="number"
+          min={0}
+          value={value.seed}
+          onChange={(e) => onChange({ ...value, seed: Math.min(0xffffffff, Math.max(0, Math.floor(Number(e.target.value)) || 0)) })}
+          className={inputClass}
+        />
+      </label>
+    </div>
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      <label className="flex items-center gap-1" title="Text keys that differ only in leading or trailing whitespace are the same key">
+        <input type="checkbox" checked={value.trim} onChange={(e) => onChange({ ...value, trim: e.target.checked })} />
+        Trim text keys
+      </label>
+      <label className="flex items-center gap-1" title="Text keys that differ only in letter case are the same key">
+        <input type="checkbox" checked={value.caseFold} onChange={(e) => onChange({ ...value, caseFold: e.target.checked })} />
+        Ignore case
+      </label>
+    </div>
+  </div>
+);
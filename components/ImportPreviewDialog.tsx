@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { ImportColumnType, ImportTablePlan } from '../types';
+import { Button } from './Button';
+import { IMPORT_COLUMN_TYPES, primaryKeyProblem } from '../services/dataImport';
+import { bytesToHex } from '../services/keyEncoding';
+
+interface ImportPreviewDialogProps {
+  plan: ImportTablePlan; // As read from the file, with inferred types and a suggested primary key
+  isBusy: boolean;
+  onImport: (plan: ImportTablePlan) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 10;
+
+const selectClass = "border border-slate-300 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+export const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ plan, isBusy, onImport, onCancel }) => {
+  const [tableName, setTableName] = useState(plan.tableName);
+  const [types, setTypes] = useState<ImportColumnType[]>(plan.columns.map(col => col.type));
+  const [primaryKey, setPrimaryKey] = useState(plan.primaryKey ?? '');
+
+  const columns = useMemo(() => plan.columns.map((col, i) => ({ ...col, type: types[i] })), [plan, types]);
+  const edited: ImportTablePlan = { ...plan, tableName: tableName.trim(), columns, primaryKey: primaryKey || null };
+  // Checks every row, so only when the key or the types change
+  const keyProblem = useMemo(
+    () => primaryKey ? primaryKeyProblem({ ...plan, columns }, primaryKey) : null,
+    [plan, columns, primaryKey]
+  );
+  const problem = !edited.tableName ? 'Name the table'
+    : edited.tableName.toLowerCase().startsWith('sqlite_') ? "Table names starting with 'sqlite_' are reserved"
+      : keyProblem;
+
+  const setType = (index: number, type: ImportColumnType) => setTypes(prev => prev.map((t, i) => i === index ? type : t));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-40 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full mx-4 overflow-hidden">
+        <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-800">Import {plan.fileName} · {plan.rows.length.toLocaleString()} rows</h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="flex flex-wrap gap-4 items-end">
+            <label className="space-y-1 text-sm font-medium text-slate-700">
+              <span className="block">Table name</span>
+              <input
+                type="text"
+                value={tableName}
+                onChange={(e) => setTableName(e.target.value)}
+                className="border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </label>
+            <label className="space-y-1 text-sm font-medium text-slate-700">
+              <span className="block">Primary key</span>
+              <select
+                value={primaryKey}
+                onChange={(e) => setPrimaryKey(e.target.value)}
+                className="border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="">None (rowid)</option>
+                {plan.columns.map(col => <option key={col.name} value={col.name}>{col.name}</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-slate-500">
+            Types are inferred from every value: integers, then numbers, else text. Values keeping leading zeros stay text.
+            The new database replaces the one loaded now.
+          </p>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-md">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr className="text-left text-slate-600">
+                  {plan.columns.map(col => (
+                    <th key={col.name} className="px-2 py-1.5 font-semibold whitespace-nowrap">
+                      {col.name}{col.name === primaryKey && <span className="ml-1 text-blue-600">PK</span>}
+                    </th>
+                  ))}
+                </tr>
+                <tr>
+                  {plan.columns.map((col, i) => (
+                    <th key={col.name} className="px-2 pb-1.5 font-normal">
+                      <select
+                        value={types[i]}
+                        onChange={(e) => setType(i, e.target.value as ImportColumnType)}
+                        className={selectClass}
+                        title={`Inferred ${col.inferredType}`}
+                      >
+                        {IMPORT_COLUMN_TYPES.map(type => (
+                          <option key={type} value={type}>{type}{type === col.inferredType ? ' (inferred)' : ''}</option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {plan.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r} className="border-t border-slate-100">
+                    {row.map((value, c) => (
+                      <td key={c} className="px-2 py-1 max-w-[12rem] truncate text-slate-700">
+                        {value === null ? <span className="font-sans italic text-slate-400">NULL</span> : value instanceof Uint8Array ? `x'${bytesToHex(value)}'` : String(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {problem && <p className="text-xs text-red-600">{problem}</p>}
+        </div>
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <Button onClick={onCancel} variant="secondary">Cancel</Button>
+          <Button onClick={() => onImport(edited)} disabled={isBusy || !!problem} isLoading={isBusy} icon={<FileUp className="w-4 h-4" />}>
+            Import
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
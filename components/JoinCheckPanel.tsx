@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { GitMerge, Play, ShieldCheck, Download } from 'lucide-react';
+import { TableInfo, BatchProgress, JoinCheckResult } from '../types';
+import { Button } from './Button';
+
+interface JoinCheckPanelProps {
+  table: TableInfo;
+  filterNames: string[]; // Filters with single-value keys, built on any key set
+  isBusy: boolean;
+  progress: BatchProgress | null;
+  result: JoinCheckResult | null; // Only shown if it belongs to `table`
+  onRun: (column: string, filterName: string) => Promise<void>;
+  onVerify: (result: JoinCheckResult) => Promise<void>;
+  onDownload: (result: JoinCheckResult) => void;
+}
+
+const SAMPLE_SIZE = 20;
+
+const formatMs = (ms: number) => ms < 1000 ? `${ms.toFixed(1)} ms` : `${(ms / 1000).toFixed(2)} s`;
+
+export const JoinCheckPanel: React.FC<JoinCheckPanelProps> = ({
+  table,
+  filterNames,
+  isBusy,
+  progress,
+  result,
+  onRun,
+  onVerify,
+  onDownload
+}) => {
+  const [column, setColumn] = useState(table.columns[0] ?? '');
+  const [filterName, setFilterName] = useState('');
+  const chosenFilter = filterNames.includes(filterName) ? filterName : filterNames[0] ?? '';
+
+  const shown = result && result.tableName === table.name ? result : null;
+  const missSamples = shown ? shown.values.filter((_, i) => !shown.probablyMatches[i]).slice(0, SAMPLE_SIZE) : [];
+  const verification = shown?.verification;
+  const fpSamples = shown && verification
+    ? shown.values.filter((_, i) => shown.probablyMatches[i] && !verification.verified[i]).slice(0, SAMPLE_SIZE)
+    : [];
+  const filterPathMs = verification && shown ? shown.probeMs + verification.verifyMs : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <GitMerge className="w-4 h-4 text-indigo-500" />
+          Join Check
+        </h3>
+        <span className="text-xs text-slate-500">Probe a column of {table.name} against another filter</span>
+      </div>
+      <div className="p-6 space-y-4">
+        {filterNames.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Build a single-column filter on another table first.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2 items-end">
+            <label className="space-y-1 text-sm font-medium text-slate-700">
+              <span className="block">Column of {table.name}</span>
+              <select
+                value={column}
+                onChange={(e) => setColumn(e.target.value)}
+                className="border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                {table.columns.map(col => <option key={col} value={col}>{col}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm font-medium text-slate-700">
+              <span className="block">Against filter</span>
+              <select
+                value={chosenFilter}
+                onChange={(e) => setFilterName(e.target.value)}
+                className="border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                {filterNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <Button
+              onClick={() => onRun(column, chosenFilter)}
+              disabled={!column || !chosenFilter || isBusy}
+              isLoading={!!progress}
+              icon={<Play className="w-4 h-4" />}
+            >
+              Probe
+            </Button>
+          </div>
+        )}
+
+        {progress && (
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            ></div>
+          </div>
+        )}
+
+        {shown && !progress && (
+          <div className="space-y-4">
+            <p className="text-xs text-slate-500">
+              {shown.column} → {shown.filterName}: {shown.values.length.toLocaleString()} non-NULL values probed in {formatMs(shown.probeMs)}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                <p className="text-xs text-green-700">Probably match</p>
+                <p className="text-lg font-semibold text-green-800">{shown.probableMatches.toLocaleString()}</p>
+              </div>
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-xs text-red-700">Definitely don't</p>
+                <p className="text-lg font-semibold text-red-800">{shown.definiteMisses.toLocaleString()}</p>
+              </div>
+              {verification && (
+                <>
+                  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                    <p className="text-xs text-slate-600">True matches</p>
+                    <p className="text-lg font-semibold text-slate-800">{verification.trueMatches.toLocaleString()}</p>
+                  </div>
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    <p className="text-xs text-amber-700">False positives</p>
+                    <p className="text-lg font-semibold text-amber-800">{verification.falsePositives.toLocaleString()}</p>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {verification && (
+              <p className="text-sm text-slate-600">
+                Filter probe + exact check of candidates: <b>{formatMs(filterPathMs)}</b> · plain SQL semi-join: <b>{formatMs(verification.sqlJoinMs)}</b>{' '}
+                ({verification.sqlJoinMatches.toLocaleString()} matching rows) ·{' '}
+                {filterPathMs <= verification.sqlJoinMs
+                  ? <span className="text-green-700">saved {formatMs(verification.sqlJoinMs - filterPathMs)}</span>
+                  : <span className="text-amber-700">slower by {formatMs(filterPathMs - verification.sqlJoinMs)}</span>}
+              </p>
+            )}
+
+            {missSamples.length > 0 && (
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Orphaned values (sample)</h4>
+                <p className="text-xs font-mono text-slate-600 break-all">{missSamples.join(', ')}</p>
+              </div>
+            )}
+            {fpSamples.length > 0 && (
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">False positives (sample)</h4>
+                <p className="text-xs font-mono text-slate-600 break-all">{fpSamples.join(', ')}</p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                onClick={() => onVerify(shown)}
+                disabled={isBusy || !!verification}
+                variant="secondary"
+                className="text-xs"
+                icon={<ShieldCheck className="w-3 h-3" />}
+              >
+                Verify exactly
+              </Button>
+              <Button
+                onClick={() => onDownload(shown)}
+                variant="secondary"
+                className="text-xs"
+                icon={<Download className="w-3 h-3" />}
+              >
+                Download per-row results (.csv)
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollText, Play, Download, FileUp, Trash2 } from 'lucide-react';
+import { JournalEntry, JournalOp, JournalOrigin, JournalReplay, JournalReplayEntry, JournalResult } from '../types';
+import { parseJournal } from '../services/journal';
+import { Button } from './Button';
+
+interface JournalPanelProps {
+  filterName: string;
+  entries: JournalEntry[]; // Oldest first
+  replay: JournalReplay | null; // Latest replay of this filter's journal
+  replayBlocked: string | null; // Why the filter cannot be rebuilt for a replay
+  isBusy: boolean;
+  onReplay: () => Promise<void>;
+  onExport: (format: 'json' | 'csv') => void;
+  onImport: (entries: JournalEntry[], fromFilter: string) => void;
+  onClear: () => void;
+}
+
+// Rows drawn at once; the rest are still searched, exported and replayed
+const MAX_ROWS = 500;
+
+const OP_OPTIONS: JournalOp[] = ['build', 'search', 'insert', 'delete', 'count'];
+const ORIGIN_OPTIONS: JournalOrigin[] = ['build', 'import', 'combine', 'playground', 'batch', 'row-edit'];
+
+const selectClass = "border border-slate-300 rounded-md px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const describeResult = (op: JournalOp, result: JournalResult): string => {
+  if (!result.ok) return `failed: ${result.error ?? 'unknown error'}`;
+  const count = result.count === null ? '' : ` (count ${result.count})`;
+  switch (op) {
+    case 'build': return `${result.count ?? 0} keys`;
+    case 'search': return (result.found ? 'probably present' : 'definitely absent') + count;
+    case 'insert': return `inserted${count}`;
+    case 'delete': return (result.found ? 'removed' : 'not found') + count;
+    case 'count': return `count ${result.count ?? 0}`;
+  }
+};
+
+export const JournalPanel: React.FC<JournalPanelProps> = ({
+  filterName,
+  entries,
+  replay,
+  replayBlocked,
+  isBusy,
+  onReplay,
+  onExport,
+  onImport,
+  onClear
+}) => {
+  const [search, setSearch] = useState('');
+  const [opFilter, setOpFilter] = useState<JournalOp | ''>('');
+  const [originFilter, setOriginFilter] = useState<JournalOrigin | ''>('');
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const replayed = useMemo(() => {
+    const bySeq = new Map<number, JournalReplayEntry>();
+    replay?.entries.forEach(entry => bySeq.set(entry.seq, entry));
+    return bySeq;
+  }, [replay]);
+
+  // Newest first, as in the operation console
+  const shown = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return entries.filter(entry =>
+      (!needle || entry.key.toLowerCase().includes(needle) || (entry.result.error ?? '').toLowerCase().includes(needle))
+      && (!opFilter || entry.op === opFilter)
+      && (!originFilter || entry.origin === originFilter)
+      && (!differencesOnly || replayed.get(entry.seq)?.matches === false)
+    ).reverse();
+  }, [entries, search, opFilter, originFilter, differencesOnly, replayed]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const journal = parseJournal(await file.text());
+      setImportError(null);
+      onImport(journal.entries, journal.filterName);
+    } catch (error: any) {
+      setImportError(`${file.name}: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <ScrollText className="w-4 h-4 text-indigo-500" />
+          Operation Journal
+        </h3>
+        <span className="text-xs text-slate-500">{entries.length.toLocaleString()} entries for {filterName}</span>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search keys and errors..."
+            className={`${selectClass} flex-1 min-w-[12rem]`}
+          />
+          <select value={opFilter} onChange={(e) => setOpFilter(e.target.value as JournalOp | '')} className={selectClass}>
+            <option value="">All operations</option>
+            {OP_OPTIONS.map(op => <option key={op} value={op}>{op}</option>)}
+          </select>
+          <select value={originFilter} onChange={(e) => setOriginFilter(e.target.value as JournalOrigin | '')} className={selectClass}>
+            <option value="">All origins</option>
+            {ORIGIN_OPTIONS.map(origin => <option key={origin} value={origin}>{origin}</option>)}
+          </select>
+          {replay && (
+            <label className="flex items-center gap-1 text-xs text-slate-600">
+              <input type="checkbox" checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />
+              Differences only
+            </label>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            onClick={onReplay}
+            disabled={isBusy || !!replayBlocked || entries.length === 0}
+            title={replayBlocked ?? 'Rebuild the filter from its source and replay the operations recorded since its last build'}
+            className="text-xs"
+            icon={<Play className="w-3 h-3" />}
+          >
+            Replay
+          </Button>
+          <Button onClick={() => onExport('json')} disabled={entries.length === 0} variant="secondary" className="text-xs" icon={<Download className="w-3 h-3" />}>
+            JSON
+          </Button>
+          <Button onClick={() => onExport('csv')} disabled={entries.length === 0} variant="secondary" className="text-xs" icon={<Download className="w-3 h-3" />}>
+            CSV
+          </Button>
+          <input type="file" accept=".json" onChange={handleImport} className="hidden" id="journal-upload" />
+          <label
+            htmlFor="journal-upload"
+            className="flex items-center justify-center px-4 py-2 rounded-md font-medium text-xs transition-all duration-200 bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 shadow-sm cursor-pointer"
+          >
+            <FileUp className="w-3 h-3 mr-2 -ml-1" />
+            Import
+          </label>
+          <Button onClick={onClear} disabled={entries.length === 0} variant="ghost" className="text-xs" icon={<Trash2 className="w-3 h-3" />}>
+            Clear
+          </Button>
+          {replayBlocked && <span className="text-xs text-slate-400">{replayBlocked}</span>}
+        </div>
+        {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+        {replay && (
+          <p className={`text-xs ${replay.different > 0 ? 'text-red-600' : 'text-green-700'}`}>
+            Replayed {replay.entries.length.toLocaleString()} entries from #{replay.fromSeq} against a fresh build:{' '}
+            {replay.matched.toLocaleString()} matched, {replay.different.toLocaleString()} different,{' '}
+            {replay.skipped.toLocaleString()} row edits skipped ({Math.round(replay.elapsedMs)} ms)
+          </p>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">
+            No operations recorded yet. Builds, playground and batch operations and row edits on this filter are recorded here.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-auto border border-slate-200 rounded-md">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-left text-slate-500">
+                  <th className="px-2 py-1.5">#</th>
+                  <th className="px-2 py-1.5">Time</th>
+                  <th className="px-2 py-1.5">Origin</th>
+                  <th className="px-2 py-1.5">Op</th>
+                  <th className="px-2 py-1.5">Key</th>
+                  <th className="px-2 py-1.5">Result</th>
+                  <th className="px-2 py-1.5 text-right">Latency</th>
+                  {replay && <th className="px-2 py-1.5">Replay</th>}
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {shown.slice(0, MAX_ROWS).map(entry => {
+                  const again = replayed.get(entry.seq);
+                  return (
+                    <tr key={entry.seq} className={`border-t border-slate-100 ${again && !again.matches ? 'bg-red-50' : ''}`}>
+                      <td className="px-2 py-1 text-slate-400">{entry.seq}</td>
+                      <td className="px-2 py-1 text-slate-500" title={entry.timestamp}>{new Date(entry.timestamp).toLocaleTimeString()}</td>
+                      <td className="px-2 py-1 font-sans text-slate-500">{entry.origin}</td>
+                      <td className="px-2 py-1">{entry.op}{entry.amount > 1 && ` x${entry.amount}`}</td>
+                      <td className="px-2 py-1 max-w-[14rem] truncate" title={entry.key}>
+                        {entry.keyHash && <span className="font-sans text-slate-400">hash </span>}{entry.key}
+                      </td>
+                      <td className={`px-2 py-1 ${entry.result.ok ? 'text-slate-700' : 'text-red-600'}`}>{describeResult(entry.op, entry.result)}</td>
+                      <td className="px-2 py-1 text-right text-slate-500">{entry.latencyMs === null ? '' : `${entry.latencyMs.toFixed(2)} ms`}</td>
+                      {replay && (
+                        <td className={`px-2 py-1 ${again && !again.matches ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>
+                          {!again ? '' : again.result === null ? 'skipped' : again.matches ? 'same' : describeResult(entry.op, again.result)}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {shown.length > MAX_ROWS && (
+              <p className="px-2 py-1.5 text-xs text-slate-400 border-t border-slate-100">
+                Showing the latest {MAX_ROWS} of {shown.length.toLocaleString()} matching entries
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
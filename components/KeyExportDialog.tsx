@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { KeyExportOptions, KeyFileFormat, KeyHashing } from '../types';
+import { Button } from './Button';
+import { KEY_FILE_FORMATS, supportsExtraColumns } from '../services/keyFileFormat';
+import { describeKeyHashing } from '../services/keyEncoding';
+
+interface KeyExportDialogProps {
+  keyLabel: string; // The key source being exported
+  columns: string[]; // Table columns that can be written next to each key; empty for query sources
+  hashingChoices: { label: string; hashing: KeyHashing }[]; // Hashings a fingerprint file can be written for
+  isBusy: boolean;
+  onExport: (options: KeyExportOptions) => Promise<void>;
+  onCancel: () => void;
+}
+
+const formatNotes: Record<KeyFileFormat, string> = {
+  text: "One key per line. Keys containing line breaks cannot be read back.",
+  csv: "RFC 4180 quoting, so any key round-trips. Composite keys are one '|'-encoded field.",
+  json: "Keys keep their SQLite type; composite keys are arrays and blobs are {\"$blob\": hex}.",
+  ndjson: "One {\"key\": ...} object per line, typed as in JSON. Suited to streaming tools.",
+  fingerprints: "Each key's 64-bit hash under the filters' hash function. Keys cannot be recovered; the file only applies to filters with the same hashing."
+};
+
+export const KeyExportDialog: React.FC<KeyExportDialogProps> = ({ keyLabel, columns, hashingChoices, isBusy, onExport, onCancel }) => {
+  const [format, setFormat] = useState<KeyFileFormat>('csv');
+  const [header, setHeader] = useState(true);
+  const [extraColumns, setExtraColumns] = useState<string[]>([]);
+  const [hashingIndex, setHashingIndex] = useState(0);
+  const hashing = hashingChoices[hashingIndex]?.hashing ?? null;
+
+  const toggleColumn = (col: string) => {
+    // Kept in table order
+    setExtraColumns(prev => prev.includes(col) ? prev.filter(c => c !== col) : columns.filter(c => c === col || prev.includes(c)));
+  };
+
+  const handleExport = () => onExport({
+    format,
+    header: format === 'csv' && header,
+    extraColumns: supportsExtraColumns(format) ? extraColumns : [],
+    hashing: format === 'fingerprints' ? hashing : null
+  });
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-40 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full mx-4 overflow-hidden">
+        <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-800">Export keys · {keyLabel}</h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-slate-700">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as KeyFileFormat)}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              {(Object.keys(KEY_FILE_FORMATS) as KeyFileFormat[]).map(f => (
+                <option key={f} value={f}>{KEY_FILE_FORMATS[f].label} ({KEY_FILE_FORMATS[f].extension})</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500">{formatNotes[format]}</p>
+          </div>
+
+          {format === 'csv' && (
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={header} onChange={(e) => setHeader(e.target.checked)} />
+              Header line with column names
+            </label>
+          )}
+
+          {format === 'fingerprints' && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-slate-700">Hash keys as</label>
+              <select
+                value={hashingIndex}
+                onChange={(e) => setHashingIndex(Number(e.target.value))}
+                className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                {hashingChoices.map((choice, i) => <option key={i} value={i}>{choice.label}</option>)}
+              </select>
+              {hashing && <p className="text-xs text-slate-500">{describeKeyHashing(hashing)}</p>}
+            </div>
+          )}
+
+          {supportsExtraColumns(format) && columns.length > 0 && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-slate-700">Extra columns</label>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {columns.map(col => (
+                  <label key={col} className="flex items-center gap-1 text-sm text-slate-600">
+                    <input type="checkbox" checked={extraColumns.includes(col)} onChange={() => toggleColumn(col)} />
+                    {col}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <Button onClick={onCancel} variant="secondary">Cancel</Button>
+          <Button onClick={handleExport} disabled={isBusy || (format === 'fingerprints' && !hashing)} isLoading={isBusy} icon={<Download className="w-4 h-4" />}>
+            Export {KEY_FILE_FORMATS[format].extension}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { TableInfo, KeySource } from '../types';
+import { defaultFilterName } from '../services/keySource';
+
+interface KeySourcePickerProps {
+  table: TableInfo;
+  keySource: KeySource;
+  where: string;
+  filterName: string; // Empty means the default name for the key source
+  onKeySourceChange: (keySource: KeySource) => void;
+  onWhereChange: (where: string) => void;
+  onFilterNameChange: (name: string) => void;
+}
+
+// Primary key if the table has one, otherwise its first column
+export const defaultKeySource = (table: TableInfo): KeySource => {
+  if (table.pkColumns.length > 0) return { kind: 'primaryKey', columns: table.pkColumns };
+  return { kind: 'column', column: table.columns[0] ?? '' };
+};
+
+const inputClass = "w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+export const KeySourcePicker: React.FC<KeySourcePickerProps> = ({
+  table,
+  keySource,
+  where,
+  filterName,
+  onKeySourceChange,
+  onWhereChange,
+  onFilterNameChange
+}) => {
+  const hasPk = table.pkColumns.length > 0;
+
+  const selectKind = (kind: KeySource['kind']) => {
+    switch (kind) {
+      case 'primaryKey': return onKeySourceChange({ kind, columns: table.pkColumns });
+      case 'column': return onKeySourceChange({ kind, column: table.columns[0] ?? '' });
+      case 'rowid': return onKeySourceChange({ kind });
+      case 'expression': return onKeySourceChange({ kind, expression: '' });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-700">Key source</label>
+        <select
+          value={keySource.kind}
+          onChange={(e) => selectKind(e.target.value as KeySource['kind'])}
+          className={inputClass}
+        >
+          {hasPk && <option value="primaryKey">Primary key ({table.pkColumns.join(', ')})</option>}
+          <option value="column">Column</option>
+          {/* Views have no rowid */}
+          {table.type === 'table' && <option value="rowid">rowid</option>}
+          <option value="expression">SQL expression</option>
+        </select>
+      </div>
+      <div className="space-y-2">
+        {keySource.kind === 'column' && (
+          <>
+            <label className="text-sm font-medium text-slate-700">Column</label>
+            <select
+              value={keySource.column}
+              onChange={(e) => onKeySourceChange({ kind: 'column', column: e.target.value })}
+              className={inputClass}
+            >
+              {table.columns.map(col => <option key={col} value={col}>{col}</option>)}
+            </select>
+          </>
+        )}
+        {keySource.kind === 'expression' && (
+          <>
+            <label className="text-sm font-medium text-slate-700">Expression</label>
+            <input
+              type="text"
+              value={keySource.expression}
+              onChange={(e) => onKeySourceChange({ kind: 'expression', expression: e.target.value })}
+              placeholder="e.g. lower(email)"
+              className={`${inputClass} font-mono`}
+            />
+          </>
+        )}
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-700">WHERE (optional)</label>
+        <input
+          type="text"
+          value={where}
+          onChange={(e) => onWhereChange(e.target.value)}
+          placeholder="e.g. status = 'active'"
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-700">Filter name</label>
+        <input
+          type="text"
+          value={filterName}
+          onChange={(e) => onFilterNameChange(e.target.value)}
+          placeholder={defaultFilterName(table.name, keySource, table.database)}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
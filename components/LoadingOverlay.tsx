@@ -1,16 +1,42 @@
 import React from 'react';
+import { X } from 'lucide-react';
+import { JobProgress } from '../types';
+import { Button } from './Button';
 
 interface LoadingOverlayProps {
   message: string;
+  progress?: JobProgress | null; // Shown as a bar; indeterminate while the total is unknown
+  onCancel?: () => void; // Cancel button shown when given
 }
 
-export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ message }) => {
+export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ message, progress, onCancel }) => {
+  const percent = progress?.total ? Math.min(100, (progress.done / progress.total) * 100) : null;
+
   return (
-    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-50 flex flex-col items-center justify-center text-white">
+    <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm z-50 flex flex-col items-center justify-center text-white">
       <div className="bg-white text-slate-900 p-8 rounded-xl shadow-2xl flex flex-col items-center max-w-sm w-full mx-4">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
         <p className="text-lg font-medium animate-pulse">{message}</p>
+        {progress && (
+          <div className="w-full mt-4">
+            <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full bg-blue-600 transition-all ${percent === null ? 'w-full animate-pulse' : ''}`}
+                style={percent === null ? undefined : { width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-xs text-slate-500 mt-1 text-center">
+              {progress.label}: {progress.done.toLocaleString()}
+              {progress.total !== null && ` of ${progress.total.toLocaleString()}`}
+            </p>
+          </div>
+        )}
+        {onCancel && (
+          <Button onClick={onCancel} variant="secondary" className="mt-4" icon={<X className="w-4 h-4" />}>
+            Cancel
+          </Button>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
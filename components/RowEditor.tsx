@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { TableInfo, RowValues } from '../types';
+import { Button } from './Button';
+
+interface RowEditorProps {
+  table: TableInfo;
+  row: any[] | null; // null to insert a new row
+  isBusy: boolean;
+  onSave: (values: RowValues) => Promise<void>; // Only the columns to write
+  onCancel: () => void;
+}
+
+interface FieldState {
+  text: string;
+  isNull: boolean;
+}
+
+const isBlob = (value: unknown): value is Uint8Array => value instanceof Uint8Array;
+
+export const RowEditor: React.FC<RowEditorProps> = ({ table, row, isBusy, onSave, onCancel }) => {
+  const [fields, setFields] = useState<FieldState[]>(() => table.columns.map((_, i) => {
+    const cell = row?.[i];
+    return { text: cell === null || cell === undefined || isBlob(cell) ? '' : String(cell), isNull: row !== null && cell === null };
+  }));
+
+  const setField = (index: number, change: Partial<FieldState>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...change } : field));
+  };
+
+  // Inserts send filled-in columns (blank ones get their defaults); updates send changed columns.
+  // Text is stored as typed and SQLite's column affinity converts numbers.
+  const changedValues = (): RowValues => {
+    const values: RowValues = {};
+    table.columns.forEach((col, i) => {
+      const field = fields[i];
+      const value = field.isNull ? null : field.text;
+      if (row === null) {
+        if (field.isNull || field.text !== '') values[col] = value;
+      } else if (!isBlob(row[i]) && (field.isNull !== (row[i] === null) || (!field.isNull && field.text !== String(row[i])))) {
+        values[col] = value;
+      }
+    });
+    return values;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-40 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full mx-4 overflow-hidden">
+        <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-800">{row ? 'Edit row' : 'Add row'} · {table.name}</h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+          {table.columns.map((col, i) => (
+            <div key={col} className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-slate-700">
+                  {col}{table.pkColumns.includes(col) && <span className="ml-1 text-[10px] uppercase tracking-wide text-blue-600">(PK)</span>}
+                </label>
+                <label className="flex items-center gap-1 text-xs text-slate-500">
+                  <input
+                    type="checkbox"
+                    checked={fields[i].isNull}
+                    onChange={(e) => setField(i, { isNull: e.target.checked })}
+                    disabled={!!row && isBlob(row[i])}
+                  />
+                  NULL
+                </label>
+              </div>
+              {row && isBlob(row[i]) ? (
+                <p className="text-xs text-slate-400 italic">BLOB ({row[i].length} bytes), not editable here</p>
+              ) : (
+                <input
+                  type="text"
+                  value={fields[i].text}
+                  onChange={(e) => setField(i, { text: e.target.value })}
+                  disabled={fields[i].isNull}
+                  placeholder={row ? '' : 'Default'}
+                  className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none disabled:bg-slate-100"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <Button onClick={onCancel} variant="secondary">Cancel</Button>
+          <Button onClick={() => onSave(changedValues())} disabled={isBusy} isLoading={isBusy} icon={<Save className="w-4 h-4" />}>
+            {row ? 'Save changes' : 'Insert row'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
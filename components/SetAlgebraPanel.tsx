@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Combine, Scale, Save } from 'lucide-react';
+import { FilterComparison, FingerprintListing, SetOperation } from '../types';
+import { Button } from './Button';
+
+interface SetAlgebraPanelProps {
+  filterNames: string[];
+  isBusy: boolean;
+  comparison: FilterComparison | null;
+  missing: FingerprintListing | null; // Fingerprints of comparison.filterA absent from filterB
+  onCompare: (filterA: string, filterB: string) => Promise<void>;
+  onCombine: (filterA: string, filterB: string, op: SetOperation, targetName: string) => Promise<void>;
+}
+
+const operationLabels: Record<SetOperation, string> = {
+  union: 'Union (A + B, counts summed)',
+  intersection: 'Intersection (smaller count)',
+  difference: 'Difference (A − B counts)'
+};
+
+const operationSymbols: Record<SetOperation, string> = { union: 'or', intersection: 'and', difference: 'minus' };
+
+const selectClass = 'border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+export const SetAlgebraPanel: React.FC<SetAlgebraPanelProps> = ({
+  filterNames,
+  isBusy,
+  comparison,
+  missing,
+  onCompare,
+  onCombine
+}) => {
+  const [filterA, setFilterA] = useState('');
+  const [filterB, setFilterB] = useState('');
+  const [op, setOp] = useState<SetOperation>('union');
+  const [targetName, setTargetName] = useState('');
+
+  const chosenA = filterNames.includes(filterA) ? filterA : filterNames[0] ?? '';
+  const chosenB = filterNames.includes(filterB) ? filterB : filterNames[1] ?? chosenA;
+  const defaultTarget = `${chosenA}.${operationSymbols[op]}.${chosenB}`;
+  const shown = comparison && comparison.filterA === chosenA && comparison.filterB === chosenB ? comparison : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Combine className="w-4 h-4 text-indigo-500" />
+          Filter Algebra
+        </h3>
+        <span className="text-xs text-slate-500">Filters must share a hash seed; longer fingerprints are truncated</span>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap gap-2 items-end">
+          <label className="space-y-1 text-sm font-medium text-slate-700">
+            <span className="block">Filter A</span>
+            <select value={chosenA} onChange={(e) => setFilterA(e.target.value)} className={selectClass}>
+              {filterNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm font-medium text-slate-700">
+            <span className="block">Filter B</span>
+            <select value={chosenB} onChange={(e) => setFilterB(e.target.value)} className={selectClass}>
+              {filterNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+          <Button
+            onClick={() => onCompare(chosenA, chosenB)}
+            disabled={!chosenA || !chosenB || isBusy}
+            variant="secondary"
+            icon={<Scale className="w-4 h-4" />}
+          >
+            Compare
+          </Button>
+        </div>
+
+        {shown && (
+          <div className="space-y-4">
+            <p className="text-xs text-slate-500">
+              {shown.fingerprintBits}-bit fingerprints · A has {shown.distinctA.toLocaleString()}, B has {shown.distinctB.toLocaleString()} distinct
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                <p className="text-xs text-green-700">Shared fingerprints</p>
+                <p className="text-lg font-semibold text-green-800">{shown.sharedFingerprints.toLocaleString()}</p>
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <p className="text-xs text-slate-600">Only in A / only in B</p>
+                <p className="text-lg font-semibold text-slate-800">{shown.onlyInA.toLocaleString()} / {shown.onlyInB.toLocaleString()}</p>
+              </div>
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="text-xs text-blue-700">Est. |A ∩ B|</p>
+                <p className="text-lg font-semibold text-blue-800">~{shown.estimatedIntersection.toLocaleString()}</p>
+              </div>
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="text-xs text-blue-700">Est. |A − B|</p>
+                <p className="text-lg font-semibold text-blue-800">~{shown.estimatedDifference.toLocaleString()}</p>
+              </div>
+            </div>
+
+            {missing && (
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">
+                  Fingerprints in A absent from B ({missing.fingerprints.length < missing.total ? `first ${missing.fingerprints.length} of ` : ''}{missing.total.toLocaleString()})
+                </h4>
+                {missing.total === 0 ? (
+                  <p className="text-sm text-slate-400 italic">B stores every fingerprint of A</p>
+                ) : (
+                  <p className="text-xs font-mono text-slate-600 break-all max-h-40 overflow-y-auto">
+                    {missing.fingerprints.map(f => f.count > 1 ? `${f.fingerprint}×${f.count}` : f.fingerprint).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="border-t border-slate-200 pt-4 flex flex-wrap gap-2 items-end">
+          <label className="space-y-1 text-sm font-medium text-slate-700">
+            <span className="block">Operation</span>
+            <select value={op} onChange={(e) => setOp(e.target.value as SetOperation)} className={selectClass}>
+              {(Object.keys(operationLabels) as SetOperation[]).map(key => <option key={key} value={key}>{operationLabels[key]}</option>)}
+            </select>
+          </label>
+          <label className="flex-1 min-w-[12rem] space-y-1 text-sm font-medium text-slate-700">
+            <span className="block">Save as</span>
+            <input
+              type="text"
+              value={targetName}
+              onChange={(e) => setTargetName(e.target.value)}
+              placeholder={defaultTarget}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </label>
+          <Button
+            onClick={() => onCombine(chosenA, chosenB, op, targetName.trim() || defaultTarget)}
+            disabled={!chosenA || !chosenB || isBusy}
+            icon={<Save className="w-4 h-4" />}
+          >
+            Save filter
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
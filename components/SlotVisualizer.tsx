@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { LayoutGrid, ChevronLeft, ChevronRight } from 'lucide-react';
+import { KeyLocation, SlotInfo, SlotLayoutStats, SlotWindow } from '../types';
+import { Button } from './Button';
+
+// Slots per row of the grid; two rows make one 64-slot metadata block
+export const SLOT_ROW = 32;
+export const SLOT_WINDOW_SLOTS = SLOT_ROW * 4;
+
+// Histogram lengths past this are drawn as one bar
+const HISTOGRAM_BARS = 32;
+
+interface SlotVisualizerProps {
+  isOpen: boolean;
+  window: SlotWindow | null;
+  layout: SlotLayoutStats | null;
+  located: { key: string; location: KeyLocation } | null; // Key of the latest playground operation
+  loadFactor: number;
+  isBusy: boolean;
+  onToggle: () => void;
+  onShow: (from: number) => void; // Moves the window to start at `from`
+}
+
+// Window start that shows `slot` in its second row, aligned to a row
+export const slotWindowStart = (slot: number) => Math.max(0, (Math.floor(slot / SLOT_ROW) - 1) * SLOT_ROW);
+
+const within = (range: [number, number] | null, slot: number) => !!range && slot >= range[0] && slot <= range[1];
+
+const describeSlot = (index: number, slot: SlotInfo): string => {
+  const bits = `occupied=${slot.occupied ? 1 : 0}, runend=${slot.runend ? 1 : 0}`;
+  if (slot.kind === 'empty') return `Slot ${index}: empty (${bits})`;
+  const shift = index - slot.quotient!;
+  if (slot.kind === 'counter') return `Slot ${index}: counter digit ${slot.value} of a remainder from home slot ${slot.quotient} (${bits})`;
+  return `Slot ${index}: remainder ${slot.value} x${slot.count}, home slot ${slot.quotient}${shift > 0 ? `, shifted ${shift}` : ''} (${bits})`;
+};
+
+const Histogram: React.FC<{ title: string; counts: number[]; unit: string }> = ({ title, counts, unit }) => {
+  const bars = counts.slice(1, HISTOGRAM_BARS);
+  if (counts.length > HISTOGRAM_BARS) bars.push(counts.slice(HISTOGRAM_BARS).reduce((a, b) => a + b, 0));
+  const max = Math.max(1, ...bars);
+  const total = bars.reduce((a, b) => a + b, 0);
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-slate-700">{title} <span className="font-normal text-slate-400">({total.toLocaleString()} {unit})</span></p>
+      <div className="flex items-end gap-px h-20 border-b border-slate-200">
+        {bars.map((count, i) => (
+          <div
+            key={i}
+            title={`${i + 1}${i + 1 === HISTOGRAM_BARS ? '+' : ''} slots: ${count.toLocaleString()}`}
+            className="flex-1 bg-indigo-400 hover:bg-indigo-600"
+            style={{ height: `${(count / max) * 100}%` }}
+          ></div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-slate-400">
+        <span>1</span>
+        <span>{bars.length}{counts.length > HISTOGRAM_BARS ? '+' : ''} slots</span>
+      </div>
+    </div>
+  );
+};
+
+export const SlotVisualizer: React.FC<SlotVisualizerProps> = ({
+  isOpen,
+  window: slotWindow,
+  layout,
+  located,
+  loadFactor,
+  isBusy,
+  onToggle,
+  onShow
+}) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [target, setTarget] = useState('');
+  const location = located?.location ?? null;
+
+  // Alternate shading per cluster, so adjacent clusters stay apart
+  const clusterShade: boolean[] = [];
+  if (slotWindow) {
+    let shade = false;
+    slotWindow.slots.forEach((slot, i) => {
+      const previous = slotWindow.slots[i - 1];
+      if (slot.kind !== 'empty' && (!previous || previous.kind === 'empty')) shade = !shade;
+      clusterShade.push(shade);
+    });
+  }
+
+  const cellClass = (index: number, slot: SlotInfo, shaded: boolean) => {
+    const classes = ['relative h-7 flex items-center justify-center text-[9px] font-mono border-r border-b border-slate-200'];
+    if (slot.kind === 'remainder') classes.push(shaded ? 'bg-indigo-100 text-indigo-900' : 'bg-sky-100 text-sky-900');
+    else if (slot.kind === 'counter') classes.push('bg-amber-100 text-amber-900');
+    else classes.push(index >= slotWindow!.homeSlots ? 'bg-slate-100 text-slate-300' : 'bg-white text-slate-300');
+    if (slot.runend) classes.push('border-r-2 border-r-slate-700');
+    if (location && within(location.slots, index)) classes.push('ring-2 ring-inset ring-orange-500');
+    else if (location && index === location.quotient) classes.push('ring-2 ring-inset ring-blue-500');
+    return classes.join(' ');
+  };
+
+  const from = slotWindow?.from ?? 0;
+  const hoveredSlot = slotWindow && hovered !== null ? slotWindow.slots[hovered - from] : undefined;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <LayoutGrid className="w-4 h-4 text-indigo-500" />
+          Slot Layout
+        </h3>
+        <button onClick={onToggle} className="text-xs font-medium text-blue-600 hover:text-blue-700">
+          {isOpen ? 'Hide' : 'Show slots'}
+        </button>
+      </div>
+      {isOpen && (!slotWindow || !layout) && (
+        <div className="p-6 text-sm text-slate-400 italic">Loading slot layout...</div>
+      )}
+      {isOpen && slotWindow && layout && (
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
+            <span>
+              Slots {from.toLocaleString()}–{(from + slotWindow.slots.length - 1).toLocaleString()} of {slotWindow.totalSlots.toLocaleString()}
+              {' '}({slotWindow.homeSlots.toLocaleString()} home slots, the rest is overflow)
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => onShow(Math.max(0, from - SLOT_WINDOW_SLOTS))}
+                disabled={isBusy || from === 0}
+                variant="secondary"
+                className="text-xs px-2 py-1"
+                icon={<ChevronLeft className="w-3 h-3" />}
+              >
+                Prev
+              </Button>
+              <input
+                type="number"
+                min={0}
+                max={slotWindow.totalSlots - 1}
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && target !== '') onShow(slotWindowStart(Math.min(Number(target), slotWindow.totalSlots - 1))); }}
+                placeholder="Go to slot"
+                className="w-24 border border-slate-300 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+              <Button
+                onClick={() => onShow(from + SLOT_WINDOW_SLOTS)}
+                disabled={isBusy || from + SLOT_WINDOW_SLOTS >= slotWindow.totalSlots}
+                variant="secondary"
+                className="text-xs px-2 py-1"
+                icon={<ChevronRight className="w-3 h-3" />}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <div className="grid border-l border-t border-slate-200" style={{ gridTemplateColumns: `repeat(${SLOT_ROW}, minmax(0, 1fr))` }}>
+              {slotWindow.slots.map((slot, i) => {
+                const index = from + i;
+                return (
+                  <div
+                    key={index}
+                    className={cellClass(index, slot, clusterShade[i])}
+                    title={describeSlot(index, slot)}
+                    onMouseEnter={() => setHovered(index)}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    {slot.occupied && <span className="absolute top-0.5 left-0.5 w-1 h-1 rounded-full bg-slate-700"></span>}
+                    {slot.kind !== 'empty' && slot.value}
+                    {slot.kind === 'remainder' && slot.quotient! < index && <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-rose-400"></span>}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-600 font-mono mt-2 h-4">
+              {hoveredSlot && hovered !== null ? describeSlot(hovered, hoveredSlot) : ''}
+            </p>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-500 mt-1">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 bg-indigo-100 border border-slate-200"></span>/<span className="w-3 h-3 bg-sky-100 border border-slate-200"></span>remainder (shaded per cluster)</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 bg-amber-100 border border-slate-200"></span>counter digit</span>
+              <span className="flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-slate-700"></span>occupied bit</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 border-r-2 border-r-slate-700 border border-slate-200"></span>runend bit</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-rose-400"></span>shifted from home slot</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 ring-2 ring-inset ring-blue-500"></span>home slot</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 ring-2 ring-inset ring-orange-500"></span>stored fingerprint</span>
+            </div>
+          </div>
+
+          {located && location && (
+            <div className="bg-slate-50 border border-slate-200 rounded-md p-3 text-xs text-slate-700 space-y-1">
+              <p>
+                Key <span className="font-mono">{located.key}</span>: home slot{' '}
+                <button onClick={() => onShow(slotWindowStart(location.quotient))} className="font-mono text-blue-600 hover:underline">{location.quotient}</button>,
+                remainder <span className="font-mono">{location.remainder}</span>.
+              </p>
+              <p>
+                {location.run
+                  ? `Its run occupies slots ${location.run[0]}–${location.run[1]}, shifted ${location.run[0] - location.quotient} from the home slot.`
+                  : 'No stored key has this home slot, so a lookup stops at the occupieds bit.'}
+                {location.slots
+                  ? ` The fingerprint is stored in slots ${location.slots[0]}–${location.slots[1]} with count ${location.count}.`
+                  : location.run ? ' The remainder is not in the run.' : ''}
+              </p>
+              <p>
+                {location.cluster
+                  ? `An insert or delete here rewrites its cluster, slots ${location.cluster[0]}–${location.cluster[1]} (${location.cluster[1] - location.cluster[0] + 1} slots).`
+                  : 'The home slot is free: an insert writes one slot.'}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {[
+              { label: 'Load Factor', value: `${(loadFactor * 100).toFixed(1)}%` },
+              { label: 'Mean Shift', value: layout.meanShift.toFixed(2), hint: 'slots from home to run start' },
+              { label: 'Max Shift', value: layout.maxShift.toLocaleString() },
+              { label: 'Mean Insert Span', value: layout.meanInsertSpan.toFixed(1), hint: 'slots rewritten per insert' },
+              { label: 'Counter Slots', value: layout.counterSlots.toLocaleString() }
+            ].map(item => (
+              <div key={item.label} className="bg-slate-50 border border-slate-200 rounded-md px-3 py-2">
+                <p className="text-[10px] uppercase tracking-wide text-slate-500">{item.label}</p>
+                <p className="text-sm font-semibold text-slate-800 font-mono">{item.value}</p>
+                {item.hint && <p className="text-[10px] text-slate-400">{item.hint}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Histogram title="Run lengths" counts={layout.runLengths} unit="runs" />
+            <Histogram title="Cluster lengths" counts={layout.clusterLengths} unit="clusters" />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Remainders of one home slot form a sorted run; runs that touch form a cluster. An insert or delete
+            shifts every slot after its position up to the end of the cluster, and a lookup scans from the run's
+            start. A random home slot lands in a cluster of length L with probability proportional to L, so the
+            work per operation grows with the square of cluster lengths: clusters stay short at low load but
+            merge quickly past about 75%, which is why the filter slows down as it fills.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { GitCompare, Play, Download } from 'lucide-react';
+import { TableInfo, SnapshotDiffResult, SnapshotDiffSample } from '../types';
+import { DEFAULT_DIFF_SAMPLE_SIZE } from '../services/snapshotDiffService';
+import { Button } from './Button';
+
+interface SnapshotDiffPanelProps {
+  table: TableInfo; // The target: the selected table
+  filterNames: string[]; // Filters over a table in another open database, same-named tables first
+  databaseLabel: (database: string) => string;
+  isBusy: boolean;
+  result: SnapshotDiffResult | null; // Only shown if its target is `table`
+  onRun: (filterName: string, sampleSize: number) => Promise<void>;
+  onDownload: (result: SnapshotDiffResult) => void;
+}
+
+const SAMPLE_SIZE = 20;
+
+const formatMs = (ms: number) => ms < 1000 ? `${ms.toFixed(1)} ms` : `${(ms / 1000).toFixed(2)} s`;
+
+const describeSample = ({ size, confirmed }: SnapshotDiffSample, side: string): string => size === 0
+  ? `no possibly shared keys to check in ${side}`
+  : `${confirmed.toLocaleString()} of ${size.toLocaleString()} sampled possibly shared keys found in ${side} (${((1 - confirmed / size) * 100).toFixed(2)}% false positives)`;
+
+export const SnapshotDiffPanel: React.FC<SnapshotDiffPanelProps> = ({
+  table,
+  filterNames,
+  databaseLabel,
+  isBusy,
+  result,
+  onRun,
+  onDownload
+}) => {
+  const [filterName, setFilterName] = useState('');
+  const [sampleSize, setSampleSize] = useState(DEFAULT_DIFF_SAMPLE_SIZE);
+  const chosenFilter = filterNames.includes(filterName) ? filterName : filterNames[0] ?? '';
+
+  const shown = result && result.target.database === table.database && result.target.tableName === table.name ? result : null;
+  const baseLabel = shown ? `${databaseLabel(shown.base.database)} / ${shown.base.tableName}` : '';
+  const targetLabel = shown ? `${databaseLabel(shown.target.database)} / ${shown.target.tableName}` : '';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-indigo-500" />
+          Snapshot Diff
+        </h3>
+        <span className="text-xs text-slate-500">Keys added and removed in {table.name} of {databaseLabel(table.database)}</span>
+      </div>
+      <div className="p-6 space-y-4">
+        {filterNames.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Build a filter over a table in another open database first.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2 items-end">
+            <label className="space-y-1 text-sm font-medium text-slate-700">
+              <span className="block">Base filter</span>
+              <select
+                value={chosenFilter}
+                onChange={(e) => setFilterName(e.target.value)}
+                className="border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                {filterNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm font-medium text-slate-700">
+              <span className="block">Exact check sample</span>
+              <input
+                type="number"
+                min={0}
+                value={sampleSize}
+                onChange={(e) => setSampleSize(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                className="w-28 border border-slate-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </label>
+            <Button
+              onClick={() => onRun(chosenFilter, sampleSize)}
+              disabled={!chosenFilter || isBusy}
+              icon={<Play className="w-4 h-4" />}
+            >
+              Diff
+            </Button>
+          </div>
+        )}
+
+        {shown && (
+          <div className="space-y-4">
+            <p className="text-xs text-slate-500">
+              {baseLabel} ({shown.base.keyCount.toLocaleString()} keys) → {targetLabel} ({shown.target.keyCount.toLocaleString()} keys)
+              {' '}with {shown.filterName} in {formatMs(shown.elapsedMs)}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                <p className="text-xs text-green-700">Added</p>
+                <p className="text-lg font-semibold text-green-800">{shown.added.length.toLocaleString()}</p>
+                <p className="text-xs text-green-700">~{shown.estimatedAdded.toLocaleString()} estimated</p>
+              </div>
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-xs text-red-700">Removed</p>
+                <p className="text-lg font-semibold text-red-800">{shown.removed.length.toLocaleString()}</p>
+                <p className="text-xs text-red-700">~{shown.estimatedRemoved.toLocaleString()} estimated</p>
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <p className="text-xs text-slate-600">Possibly shared</p>
+                <p className="text-lg font-semibold text-slate-800">{shown.possiblyShared.length.toLocaleString()}</p>
+                <p className="text-xs text-slate-600">~{shown.estimatedShared.toLocaleString()} estimated</p>
+              </div>
+            </div>
+
+            <div className="text-xs text-slate-600 space-y-1">
+              <p>Target: {describeSample(shown.targetSample, baseLabel)}</p>
+              <p>Base: {describeSample(shown.baseSample, targetLabel)}</p>
+              <p className="text-slate-400">
+                Added and removed keys are certain; estimates also count the possibly shared keys the samples suggest are false positives.
+              </p>
+            </div>
+
+            {shown.added.length > 0 && (
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Added keys (first {Math.min(SAMPLE_SIZE, shown.added.length)})</h4>
+                <p className="text-xs font-mono text-slate-600 break-all">{shown.added.slice(0, SAMPLE_SIZE).join(', ')}</p>
+              </div>
+            )}
+            {shown.removed.length > 0 && (
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Removed keys (first {Math.min(SAMPLE_SIZE, shown.removed.length)})</h4>
+                <p className="text-xs font-mono text-slate-600 break-all">{shown.removed.slice(0, SAMPLE_SIZE).join(', ')}</p>
+              </div>
+            )}
+
+            <Button
+              onClick={() => onDownload(shown)}
+              variant="secondary"
+              className="text-xs"
+              icon={<Download className="w-3 h-3" />}
+            >
+              Download diff (.csv)
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
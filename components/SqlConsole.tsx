@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Play, History, Cpu, AlertCircle, Terminal } from 'lucide-react';
+import { SqlRunResult, SqlHistoryEntry } from '../types';
+import { Button } from './Button';
+import { MAX_RESULT_ROWS, isQueryStatement } from '../services/dbService';
+
+interface SqlConsoleProps {
+  result: SqlRunResult | null;
+  history: SqlHistoryEntry[];
+  isBusy: boolean;
+  onRun: (sql: string) => void;
+  // Builds a filter over every row of a single-column statement
+  onBuildFilter: (sql: string, column: string, filterName: string) => Promise<void>;
+}
+
+// Rows rendered per result grid; the full result is still used for filter builds
+const DISPLAY_ROWS = 500;
+
+export const SqlConsole: React.FC<SqlConsoleProps> = ({ result, history, isBusy, onRun, onBuildFilter }) => {
+  const [sql, setSql] = useState(history[0]?.sql ?? '');
+  const [selectedStatement, setSelectedStatement] = useState(0);
+  const [filterName, setFilterName] = useState('');
+
+  const run = () => {
+    if (!sql.trim()) return;
+    setSelectedStatement(0);
+    onRun(sql);
+  };
+
+  const statement = result?.statements[Math.min(selectedStatement, result.statements.length - 1)];
+  const canBuild = !!statement && statement.columns.length === 1 && isQueryStatement(statement);
+  const errorLine = result?.error ? sql.split('\n')[result.error.line - 1] : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 border-b border-slate-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Terminal className="w-4 h-4 text-indigo-500" />
+            SQL Console
+          </h3>
+          <span className="text-xs text-slate-500">Ctrl+Enter to run · statements separated by ';'</span>
+        </div>
+        <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-3">
+            <textarea
+              value={sql}
+              onChange={(e) => setSql(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                  e.preventDefault();
+                  run();
+                }
+              }}
+              rows={8}
+              spellCheck={false}
+              placeholder="SELECT customer_id FROM orders WHERE order_date >= '2025-01-01';"
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-500">
+                {result && `${result.statements.length} statement${result.statements.length === 1 ? '' : 's'} in ${result.elapsedMs.toFixed(1)} ms`}
+              </span>
+              <Button onClick={run} disabled={!sql.trim() || isBusy} icon={<Play className="w-4 h-4" />}>
+                Run
+              </Button>
+            </div>
+            {result?.error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700 space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertCircle className="w-4 h-4" />
+                  Statement {result.error.statementIndex + 1}, line {result.error.line}, column {result.error.column}: {result.error.message}
+                </p>
+                {errorLine !== undefined && (
+                  <pre className="font-mono text-xs text-red-800 overflow-x-auto">{errorLine}{'\n'}{' '.repeat(result.error.column - 1)}^</pre>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1">
+              <History className="w-3 h-3" />
+              History
+            </h4>
+            {history.length === 0 && <p className="text-sm text-slate-400 italic">No queries yet</p>}
+            <ul className="space-y-1 max-h-56 overflow-y-auto">
+              {history.map((entry, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => setSql(entry.sql)}
+                    title={`${new Date(entry.ranAt).toLocaleString()}${entry.ok ? '' : ' (failed)'}`}
+                    className={`w-full text-left px-2 py-1 rounded text-xs font-mono truncate hover:bg-slate-100 ${entry.ok ? 'text-slate-700' : 'text-red-600'}`}
+                  >
+                    {entry.sql}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      {result && result.statements.length > 0 && statement && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-3 border-b border-slate-200 flex flex-wrap gap-2 items-center bg-slate-50/50">
+            {result.statements.map((s, i) => (
+              <button
+                key={i}
+                onClick={() => setSelectedStatement(i)}
+                title={s.sql}
+                className={`px-3 py-1 rounded-md text-xs font-medium ${s === statement ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                Result {i + 1}
+              </button>
+            ))}
+          </div>
+
+          {statement.columns.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-slate-600">
+              Statement executed. {statement.rowsModified.toLocaleString()} row{statement.rowsModified === 1 ? '' : 's'} modified.
+            </p>
+          ) : (
+            <>
+              <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+                <table className="w-full text-left text-sm whitespace-nowrap">
+                  <thead className="bg-slate-100 border-b border-slate-200 sticky top-0">
+                    <tr>
+                      {statement.columns.map((col, idx) => (
+                        <th key={idx} className="px-6 py-3 font-semibold text-slate-700">{col}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {statement.rows.slice(0, DISPLAY_ROWS).map((row, rIdx) => (
+                      <tr key={rIdx} className="hover:bg-slate-50 transition-colors">
+                        {row.map((cell, cIdx) => (
+                          <td key={cIdx} className="px-6 py-2 text-slate-600">
+                            {cell === null ? <span className="text-slate-400 italic">NULL</span>
+                              : cell instanceof Uint8Array ? <span className="text-slate-400 italic">BLOB ({cell.length} bytes)</span>
+                              : String(cell)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="px-6 py-3 border-t border-slate-200 flex flex-wrap gap-3 items-center justify-between bg-slate-50/50">
+                <span className="text-xs text-slate-500">
+                  {statement.rows.length > DISPLAY_ROWS ? `Showing ${DISPLAY_ROWS} of ` : ''}
+                  {statement.rows.length.toLocaleString()}{statement.truncated && '+'} rows
+                  {statement.truncated && ` (capped at ${MAX_RESULT_ROWS.toLocaleString()})`}
+                </span>
+                <div className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={filterName}
+                    onChange={(e) => setFilterName(e.target.value)}
+                    placeholder={`query.${statement.columns[0]}`}
+                    disabled={!canBuild}
+                    className="w-48 border border-slate-300 rounded-md px-3 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none disabled:opacity-50"
+                  />
+                  <Button
+                    onClick={() => onBuildFilter(statement.sql, statement.columns[0], filterName.trim() || `query.${statement.columns[0]}`)}
+                    disabled={!canBuild || isBusy}
+                    title={canBuild ? undefined : 'Filters can only be built from read-only SELECT, WITH or VALUES statements returning one column'}
+                    className="text-xs"
+                    icon={<Cpu className="w-3 h-3" />}
+                  >
+                    Build CQF from result
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
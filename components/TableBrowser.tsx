@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowUp, ArrowDown, Pencil, Trash2, Plus } from 'lucide-react';
+import { TableInfo, TableSort } from '../types';
+import { countTableRows, getTableRows } from '../services/dbService';
+
+interface TableBrowserProps {
+  table: TableInfo;
+  // Called with the clicked row when a PK cell is clicked
+  onPkCellClick?: (row: any[]) => void;
+  // Row editing; the grid shows edit controls only when these are given
+  onAddRow?: () => void;
+  onEditRow?: (row: any[]) => void;
+  onDeleteRow?: (row: any[]) => void;
+}
+
+const ROW_HEIGHT = 36;
+const COLUMN_WIDTH = 180;
+const ACTIONS_WIDTH = 64;
+const VIEWPORT_HEIGHT = 480;
+const PAGE_SIZE = 200;
+// Browsers cap element heights (~17M px in Firefox); taller tables scroll proportionally
+const MAX_SCROLL_HEIGHT = 10_000_000;
+const FILTER_DEBOUNCE_MS = 300;
+
+export const TableBrowser: React.FC<TableBrowserProps> = ({ table, onPkCellClick, onAddRow, onEditRow, onDeleteRow }) => {
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [totalRows, setTotalRows] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [, setPagesVersion] = useState(0);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const pages = useRef<Map<number, any[][]>>(new Map());
+  const requested = useRef<Set<number>>(new Set()); // Pages being fetched for the current query
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  // Apply filter inputs once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(filterInputs), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filterInputs]);
+
+  // A new query invalidates cached pages and the row count
+  useEffect(() => {
+    let stale = false;
+    pages.current = new Map();
+    requested.current = new Set();
+    setFetchError(null);
+    setScrollTop(0);
+    if (bodyRef.current) bodyRef.current.scrollTop = 0;
+    setPagesVersion(v => v + 1);
+    countTableRows(table, filters)
+      .then(count => { if (!stale) setTotalRows(count); })
+      .catch(error => console.error("Error counting table rows", error));
+    return () => { stale = true; };
+  }, [table, sort, filters]);
+
+  const fullHeight = totalRows * ROW_HEIGHT;
+  const scrollHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  const scale = scrollHeight > VIEWPORT_HEIGHT ? (fullHeight - VIEWPORT_HEIGHT) / (scrollHeight - VIEWPORT_HEIGHT) : 1;
+  const virtualTop = scrollTop * scale;
+  const firstRow = Math.floor(virtualTop / ROW_HEIGHT);
+  const visibleCount = Math.min(Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + 1, Math.max(0, totalRows - firstRow));
+  const rowsTop = scrollTop - (virtualTop - firstRow * ROW_HEIGHT);
+
+  // Fetch any page the visible window touches; replies for an outdated query are dropped.
+  // A failed page is not cached, so scrolling or Retry fetches it again
+  useEffect(() => {
+    if (visibleCount === 0) return;
+    const firstPage = Math.floor(firstRow / PAGE_SIZE);
+    const lastPage = Math.floor((firstRow + visibleCount - 1) / PAGE_SIZE);
+    const cache = pages.current;
+    for (let page = firstPage; page <= lastPage; page++) {
+      if (cache.has(page) || requested.current.has(page)) continue;
+      requested.current.add(page);
+      getTableRows(table, { sort, filters, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+        .then(rows => {
+          if (pages.current !== cache) return;
+          cache.set(page, rows);
+          setPagesVersion(v => v + 1);
+        })
+        .catch(error => {
+          console.error("Error fetching table data", error);
+          if (pages.current !== cache) return;
+          requested.current.delete(page);
+          setFetchError(error?.message ?? String(error));
+        });
+    }
+  }, [table, sort, filters, firstRow, visibleCount, retryCount]);
+
+  const rowAt = (index: number): any[] | undefined => pages.current.get(Math.floor(index / PAGE_SIZE))?.[index % PAGE_SIZE];
+
+  // Click cycles ascending -> descending -> unsorted
+  const toggleSort = (column: string) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const isEditable = !!onEditRow || !!onDeleteRow;
+  const gridTemplate = {
+    gridTemplateColumns: `${isEditable ? `${ACTIONS_WIDTH}px ` : ''}repeat(${table.columns.length}, ${COLUMN_WIDTH}px)`
+  };
+  const isPk = (column: string) => table.pkColumns.includes(column);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center bg-slate-50/50">
+        <h3 className="font-semibold text-slate-800">Table Contents</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-500">
+            {totalRows.toLocaleString()} rows{Object.values(filters).some(v => v) && ` matching (of ${table.rowCount.toLocaleString()})`}
+            {onPkCellClick && table.pkColumns.length > 0 && ' · click a PK cell to use it as the filter key'}
+          </span>
+          {onAddRow && (
+            <button onClick={onAddRow} className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700">
+              <Plus className="w-3 h-3" />
+              Add row
+            </button>
+          )}
+        </div>
+      </div>
+      {fetchError && (
+        <div className="px-6 py-2 border-b border-red-200 bg-red-50 flex justify-between items-center text-xs text-red-700">
+          <span>Could not load rows: {fetchError}</span>
+          <button
+            onClick={() => { setFetchError(null); setRetryCount(n => n + 1); }}
+            className="font-medium hover:text-red-800"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+      <div className="overflow-x-auto">
+        <div style={{ width: table.columns.length * COLUMN_WIDTH + (isEditable ? ACTIONS_WIDTH : 0) }} className="text-sm">
+          <div className="grid bg-slate-100 border-b border-slate-200" style={gridTemplate}>
+            {isEditable && <div></div>}
+            {table.columns.map(col => (
+              <button
+                key={col}
+                onClick={() => toggleSort(col)}
+                className={`px-4 py-3 text-left font-semibold truncate flex items-center gap-1 ${isPk(col) ? 'bg-blue-50 text-blue-700' : 'text-slate-700'}`}
+                title={`Sort by ${col}`}
+              >
+                <span className="truncate">{col}</span>
+                {isPk(col) && <span className="text-[10px] uppercase tracking-wide opacity-75">(PK)</span>}
+                {sort?.column === col && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3 shrink-0" /> : <ArrowDown className="w-3 h-3 shrink-0" />)}
+              </button>
+            ))}
+          </div>
+          <div className="grid border-b border-slate-200 bg-slate-50" style={gridTemplate}>
+            {isEditable && <div></div>}
+            {table.columns.map(col => (
+              <div key={col} className="px-2 py-1.5">
+                <input
+                  type="text"
+                  value={filterInputs[col] ?? ''}
+                  onChange={(e) => setFilterInputs(prev => ({ ...prev, [col]: e.target.value }))}
+                  placeholder="Filter..."
+                  className="w-full border border-slate-300 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                />
+              </div>
+            ))}
+          </div>
+          <div
+            ref={bodyRef}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            className="overflow-y-auto overflow-x-hidden"
+            style={{ height: Math.min(VIEWPORT_HEIGHT, Math.max(fullHeight, ROW_HEIGHT * 2)) }}
+          >
+            {totalRows === 0 ? (
+              <div className="px-6 py-8 text-center text-slate-500 italic">No data available</div>
+            ) : (
+              <div className="relative" style={{ height: scrollHeight }}>
+                <div className="absolute left-0 right-0" style={{ top: rowsTop }}>
+                  {Array.from({ length: visibleCount }, (_, i) => {
+                    const row = rowAt(firstRow + i);
+                    return (
+                      <div key={firstRow + i} className="grid border-b border-slate-200 hover:bg-slate-50" style={{ ...gridTemplate, height: ROW_HEIGHT }}>
+                        {isEditable && (
+                          <div className="flex items-center justify-center gap-2 text-slate-400">
+                            {row && onEditRow && (
+                              <button onClick={() => onEditRow(row)} className="hover:text-blue-600" title="Edit row">
+                                <Pencil className="w-3 h-3" />
+                              </button>
+                            )}
+                            {row && onDeleteRow && (
+                              <button onClick={() => onDeleteRow(row)} className="hover:text-red-600" title="Delete row">
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {table.columns.map((col, cIdx) => {
+                          const cell = row?.[cIdx];
+                          const clickable = !!row && isPk(col) && !!onPkCellClick;
+                          return (
+                            <div
+                              key={col}
+                              onClick={clickable ? () => onPkCellClick!(row!) : undefined}
+                              className={`px-4 flex items-center truncate text-slate-600 ${isPk(col) ? 'font-medium text-slate-900 bg-blue-50/30' : ''} ${clickable ? 'cursor-pointer hover:underline' : ''}`}
+                            >
+                              {!row ? '' : cell === null ? <span className="text-slate-400 italic">NULL</span>
+                                : cell instanceof Uint8Array ? <span className="text-slate-400 italic">BLOB ({cell.length} bytes)</span>
+                                : <span className="truncate">{String(cell)}</span>}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
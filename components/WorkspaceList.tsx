@@ -0,0 +1,74 @@
+import React from 'react';
+import { History, Trash2, Database, Filter } from 'lucide-react';
+import { StorageUsage, WorkspaceSummary } from '../types';
+
+interface WorkspaceListProps {
+  workspaces: WorkspaceSummary[];
+  activeId: string | null; // The workspace being auto-saved
+  storage: StorageUsage | null;
+  error: string | null; // Last storage failure, e.g. IndexedDB unavailable or quota exceeded
+  isBusy: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+};
+
+export const WorkspaceList: React.FC<WorkspaceListProps> = ({ workspaces, activeId, storage, error, isBusy, onOpen, onDelete }) => {
+  const totalBytes = workspaces.reduce((sum, w) => sum + w.sizeBytes, 0);
+
+  return (
+    <div className="p-4 border-b border-slate-800">
+      <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Recent Workspaces
+      </h2>
+      {workspaces.length === 0 ? (
+        <p className="text-xs text-slate-600 italic">Workspaces are saved automatically once a database or filter is loaded.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {workspaces.map(workspace => (
+            <li key={workspace.id} className="flex items-center gap-1">
+              <button
+                onClick={() => onOpen(workspace.id)}
+                disabled={isBusy || workspace.id === activeId}
+                title={`Saved ${new Date(workspace.savedAt).toLocaleString()}`}
+                className={`flex-1 min-w-0 text-left px-2 py-1.5 rounded-md text-xs transition-colors ${
+                  workspace.id === activeId ? 'bg-slate-800 text-white' : 'hover:bg-slate-800 hover:text-white'
+                }`}
+              >
+                <span className="block truncate font-medium">{workspace.name}</span>
+                <span className="flex items-center gap-2 text-[10px] text-slate-500">
+                  {workspace.hasDatabase && <Database className="w-3 h-3" />}
+                  <span className="flex items-center gap-0.5"><Filter className="w-3 h-3" />{workspace.filterCount}</span>
+                  {formatBytes(workspace.sizeBytes)}
+                  {workspace.id === activeId && ' · current'}
+                </span>
+              </button>
+              <button
+                onClick={() => onDelete(workspace.id)}
+                disabled={isBusy}
+                className="p-1.5 text-slate-600 hover:text-red-400 disabled:opacity-50"
+                title="Delete saved workspace"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="mt-2 text-[10px] text-red-400">{error}</p>}
+      {(workspaces.length > 0 || storage) && (
+        <p className="mt-2 text-[10px] text-slate-500">
+          Workspaces: {formatBytes(totalBytes)}
+          {storage && ` · browser storage ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)}`}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createReferenceServer } from './referenceServer';
+import { createHttpBackend } from '../services/httpBackend';
+import { FilterSource } from '../types';
+
+const server = createReferenceServer({ maxBodyBytes: 1024 });
+const source: FilterSource = { tableName: 'users', keySource: { kind: 'column', column: 'id' }, where: null };
+
+let baseUrl = '';
+beforeAll(() => new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => {
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  resolve();
+})));
+afterAll(() => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+}));
+
+describe('reference server', () => {
+  it('builds, searches and reports stats through the HTTP backend', async () => {
+    const backend = createHttpBackend({ baseUrl, timeoutMs: 5000 });
+    await backend.build('users.id', ['1', '2', '3'], source);
+    expect(await backend.listFilters()).toEqual(['users.id']);
+    expect(await backend.search('users.id', '2')).toEqual({ found: true });
+    const stats = await backend.stats('users.id');
+    expect(stats).toMatchObject({ isBuilt: true, itemCount: 3, distinctCount: 3 });
+  });
+
+  it('answers an oversized body with 413 instead of dropping the connection', async () => {
+    const keys = Array.from({ length: 1000 }, (_, i) => `key-${i}`);
+    const response = await fetch(`${baseUrl}/api/filters/big/build`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ keys, source })
+    });
+    expect(response.status).toBe(413);
+    expect(response.headers.get('connection')).toBe('close');
+    expect((await response.json()).error.code).toBe('payload_too_large');
+
+    const backend = createHttpBackend({ baseUrl, timeoutMs: 5000 });
+    await expect(backend.importFilter(new ArrayBuffer(300 * 1024))).rejects.toMatchObject({ code: 'http', status: 413 });
+    await expect(backend.build('big', keys, source)).rejects.toMatchObject({ code: 'http', status: 413 });
+  });
+});
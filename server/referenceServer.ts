@@ -0,0 +1,325 @@
+/**
+ * Reference implementation of the CQF REST API, for running the UI in HTTP
+ * mode locally. It wraps the same in-memory backend the browser uses, so both
+ * modes give identical answers.
+ *
+ *   npm run server            # listens on CQF_SERVER_PORT (default 8787)
+ *
+ * Tests start their own instance through createReferenceServer.
+ */
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { CqfBackend } from '../services/cqfBackend';
+import { createLocalBackend } from '../services/localBackend';
+import { BatchOp, FilterSource, HashFunction, KeyHashing, ResizePolicy, SetOperation } from '../types';
+
+const PORT = Number(process.env.CQF_SERVER_PORT) || 8787;
+const MAX_BODY_BYTES = Number(process.env.CQF_SERVER_MAX_BODY) || 512 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+// A body over the limit is drained unread, so the client can still read the 413 sent in reply
+const readBody = (req: http.IncomingMessage, maxBodyBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBodyBytes) {
+      req.removeAllListeners('data');
+      req.resume();
+      reject(new HttpError(413, 'payload_too_large', `Request body exceeds ${maxBodyBytes} bytes`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readJson = async (req: http.IncomingMessage, maxBodyBytes: number): Promise<any> => {
+  const body = await readBody(req, maxBodyBytes);
+  try {
+    return JSON.parse(body.toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'bad_request', 'Request body is not valid JSON');
+  }
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new HttpError(400, 'bad_request', `'${field}' must be a string`);
+  return value;
+};
+
+const optionalCount = (value: unknown): number => {
+  if (value === undefined) return 1;
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new HttpError(400, 'bad_request', "'count' must be a positive integer");
+  }
+  return value as number;
+};
+
+// Keys a build will grow to through later inserts, so the filter is sized for them up front
+const optionalExpectedKeys = (value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new HttpError(400, 'bad_request', "'expectedKeys' must be a non-negative integer");
+  }
+  return value as number;
+};
+
+const HASH_FUNCTIONS: HashFunction[] = ['murmur3', 'xxhash64'];
+const KEY_AFFINITIES = ['numeric', 'text', 'none'];
+
+// Hash function, seed and key encoding of a build, or of the key hashes in a fingerprint-file batch
+const optionalHashing = (value: unknown): KeyHashing | null => {
+  if (value === undefined || value === null) return null;
+  const { hash, seed, encoding } = value as KeyHashing;
+  if (!HASH_FUNCTIONS.includes(hash)) {
+    throw new HttpError(400, 'bad_request', `'hashing.hash' must be one of: ${HASH_FUNCTIONS.join(', ')}`);
+  }
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    throw new HttpError(400, 'bad_request', "'hashing.seed' must be an unsigned 32-bit integer");
+  }
+  if (encoding != null && (
+    typeof encoding !== 'object' ||
+    !Array.isArray(encoding.affinities) || encoding.affinities.some(a => !KEY_AFFINITIES.includes(a)) ||
+    typeof encoding.trim !== 'boolean' || typeof encoding.caseFold !== 'boolean'
+  )) {
+    throw new HttpError(400, 'bad_request', "'hashing.encoding' must be null or { affinities, trim, caseFold }");
+  }
+  return { hash, seed, encoding: encoding == null ? null : { affinities: encoding.affinities, trim: encoding.trim, caseFold: encoding.caseFold } };
+};
+
+const requireStrings = (value: unknown, field: string): string[] => {
+  if (!Array.isArray(value) || value.some(k => typeof k !== 'string')) {
+    throw new HttpError(400, 'bad_request', `'${field}' must be an array of strings`);
+  }
+  return value;
+};
+
+// SQL with string literals, quoted identifiers and comments blanked out, so its own ';' can be found
+const sqlOutsideQuotes = (sql: string): string =>
+  sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`(?:[^`]|``)*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g, ' ');
+
+// SQL a client will run when it rebuilds the filter from its source: a single expression, condition or query
+const requireSql = (value: unknown, field: string, kind: 'expression' | 'query'): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, 'bad_request', `'${field}' must be a non-empty string`);
+  const code = sqlOutsideQuotes(value).trim();
+  if (kind === 'query') {
+    if (!/^(SELECT|WITH)\b/i.test(code) || code.replace(/;\s*$/, '').includes(';')) {
+      throw new HttpError(400, 'bad_request', `'${field}' must be a single SELECT statement`);
+    }
+  } else if (code.includes(';')) {
+    throw new HttpError(400, 'bad_request', `'${field}' must be a single SQL expression`);
+  }
+  return value;
+};
+
+const requireName = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, 'bad_request', `'${field}' must be a non-empty string`);
+  return value;
+};
+
+const requireKeySource = (value: unknown): FilterSource['keySource'] => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object') throw new HttpError(400, 'bad_request', "'source.keySource' must be an object or null");
+  const keySource = value as Record<string, unknown>;
+  switch (keySource.kind) {
+    case 'primaryKey': {
+      const columns = requireStrings(keySource.columns, 'source.keySource.columns');
+      if (columns.length === 0 || columns.some(col => !col)) {
+        throw new HttpError(400, 'bad_request', "'source.keySource.columns' must list at least one column name");
+      }
+      return { kind: 'primaryKey', columns };
+    }
+    case 'column': return { kind: 'column', column: requireName(keySource.column, 'source.keySource.column') };
+    case 'rowid': return { kind: 'rowid' };
+    case 'expression': return { kind: 'expression', expression: requireSql(keySource.expression, 'source.keySource.expression', 'expression') };
+    case 'query': return {
+      kind: 'query',
+      sql: requireSql(keySource.sql, 'source.keySource.sql', 'query'),
+      column: requireName(keySource.column, 'source.keySource.column')
+    };
+    default:
+      throw new HttpError(400, 'bad_request', "'source.keySource.kind' must be one of primaryKey, column, rowid, expression, query");
+  }
+};
+
+// Provenance only; defaults to "keys supplied directly" for the named filter
+const optionalSource = (value: unknown, name: string): FilterSource => {
+  if (value === undefined) return { tableName: name, keySource: null, where: null };
+  if (typeof value !== 'object' || value === null) throw new HttpError(400, 'bad_request', "'source' must be an object");
+  const source = value as Record<string, unknown>;
+  const tableName = requireString(source.tableName, 'source.tableName');
+  const keySource = requireKeySource(source.keySource);
+  const where = source.where === undefined || source.where === null || source.where === '' ? null : requireSql(source.where, 'source.where', 'expression');
+  if (source.database === undefined) return { tableName, keySource, where };
+  return { database: requireName(source.database, 'source.database'), tableName, keySource, where };
+};
+
+const BATCH_OPS: BatchOp[] = ['search', 'insert', 'delete'];
+
+const requireBatchOp = (value: unknown): BatchOp => {
+  if (!BATCH_OPS.includes(value as BatchOp)) {
+    throw new HttpError(400, 'bad_request', `'op' must be one of ${BATCH_OPS.join(', ')}`);
+  }
+  return value as BatchOp;
+};
+
+const SET_OPERATIONS: SetOperation[] = ['union', 'intersection', 'difference'];
+
+const requireSetOperation = (value: unknown): SetOperation => {
+  if (!SET_OPERATIONS.includes(value as SetOperation)) {
+    throw new HttpError(400, 'bad_request', `'op' must be one of ${SET_OPERATIONS.join(', ')}`);
+  }
+  return value as SetOperation;
+};
+
+const optionalLimit = (value: unknown): number => {
+  if (value === undefined) return 1000;
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new HttpError(400, 'bad_request', "'limit' must be a non-negative integer");
+  }
+  return value as number;
+};
+
+// Largest slot window one request may ask for
+const MAX_SLOT_WINDOW = 4096;
+
+const requireSlotWindow = (body: any): [number, number] => {
+  if (!Number.isInteger(body.from) || body.from < 0) {
+    throw new HttpError(400, 'bad_request', "'from' must be a non-negative integer");
+  }
+  if (!Number.isInteger(body.count) || body.count < 1 || body.count > MAX_SLOT_WINDOW) {
+    throw new HttpError(400, 'bad_request', `'count' must be an integer from 1 to ${MAX_SLOT_WINDOW}`);
+  }
+  return [body.from, body.count];
+};
+
+const requirePolicy = (body: any): ResizePolicy => {
+  if (body.mode !== 'grow' && body.mode !== 'reject') {
+    throw new HttpError(400, 'bad_request', "'mode' must be one of grow, reject");
+  }
+  if (typeof body.maxLoadFactor !== 'number' || !(body.maxLoadFactor > 0 && body.maxLoadFactor <= 1)) {
+    throw new HttpError(400, 'bad_request', "'maxLoadFactor' must be a number in (0, 1]");
+  }
+  return { mode: body.mode, maxLoadFactor: body.maxLoadFactor };
+};
+
+const send = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const handle = async (backend: CqfBackend, maxBodyBytes: number, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const method = req.method ?? 'GET';
+
+  if (method === 'GET' && url.pathname === '/api/health') {
+    return send(res, 200, { status: 'ok' });
+  }
+  if (method === 'GET' && url.pathname === '/api/filters') {
+    return send(res, 200, { filters: await backend.listFilters() });
+  }
+  if (method === 'PUT' && url.pathname === '/api/filters/import') {
+    const body = await readBody(req, maxBodyBytes);
+    const buffer = body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer;
+    try {
+      return send(res, 200, await backend.importFilter(buffer));
+    } catch (error: any) {
+      throw new HttpError(400, 'bad_request', error.message);
+    }
+  }
+
+  const match = url.pathname.match(/^\/api\/filters\/([^/]+)\/([a-z]+)$/);
+  if (!match) throw new HttpError(404, 'not_found', `No route for ${method} ${url.pathname}`);
+  const name = decodeURIComponent(match[1]);
+  const op = match[2];
+
+  if (op === 'build' && method === 'POST') {
+    const body = await readJson(req, maxBodyBytes);
+    const source = optionalSource(body.source, name);
+    const hashing = optionalHashing(body.hashing) ?? undefined;
+    const keys = requireStrings(body.keys, 'keys');
+    return send(res, 200, await backend.build(name, keys, source, hashing, optionalExpectedKeys(body.expectedKeys)));
+  }
+
+  if (!(await backend.listFilters()).includes(name)) {
+    throw new HttpError(404, 'not_found', `Filter '${name}' does not exist`);
+  }
+
+  if (method === 'GET' && op === 'stats') return send(res, 200, await backend.stats(name));
+  if (method === 'GET' && op === 'layout') return send(res, 200, await backend.slotLayout(name));
+  if (method === 'GET' && op === 'export') {
+    const buffer = await backend.exportFilter(name);
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': buffer.byteLength });
+    res.end(Buffer.from(buffer));
+    return;
+  }
+  if (method !== 'POST') throw new HttpError(405, 'method_not_allowed', `${method} not allowed for '${op}'`);
+
+  const body = await readJson(req, maxBodyBytes);
+  const requireOther = async (): Promise<string> => {
+    const other = requireString(body.other, 'other');
+    if (!(await backend.listFilters()).includes(other)) {
+      throw new HttpError(404, 'not_found', `Filter '${other}' does not exist`);
+    }
+    return other;
+  };
+  switch (op) {
+    case 'search': return send(res, 200, await backend.search(name, requireString(body.key, 'key')));
+    case 'insert': return send(res, 200, await backend.insert(name, requireString(body.key, 'key'), optionalCount(body.count)));
+    case 'delete': return send(res, 200, await backend.remove(name, requireString(body.key, 'key'), optionalCount(body.count)));
+    case 'count': return send(res, 200, await backend.count(name, requireString(body.key, 'key')));
+    case 'batch': return send(res, 200, await backend.batch(
+      name, requireBatchOp(body.op), requireStrings(body.keys, 'keys'), optionalCount(body.count), optionalHashing(body.hashing)
+    ));
+    case 'policy': return send(res, 200, await backend.setResizePolicy(name, requirePolicy(body)));
+    case 'probe': return send(res, 200, await backend.probe(name, requireStrings(body.keys, 'keys')));
+    case 'combine': return send(res, 200, await backend.combine(name, await requireOther(), requireSetOperation(body.op), requireString(body.target, 'target')));
+    case 'compare': return send(res, 200, await backend.compare(name, await requireOther()));
+    case 'missing': return send(res, 200, await backend.missing(name, await requireOther(), optionalLimit(body.limit)));
+    case 'slots': return send(res, 200, await backend.slotWindow(name, ...requireSlotWindow(body)));
+    case 'locate': return send(res, 200, await backend.locate(name, requireString(body.key, 'key')));
+    default: throw new HttpError(404, 'not_found', `Unknown operation '${op}'`);
+  }
+};
+
+export interface ReferenceServerOptions {
+  backend?: CqfBackend;
+  maxBodyBytes?: number;
+}
+
+// A server over its own in-memory backend unless one is given; it is not listening yet
+export const createReferenceServer = ({ backend = createLocalBackend(), maxBodyBytes = MAX_BODY_BYTES }: ReferenceServerOptions = {}) => http.createServer(async (req, res) => {
+  // The UI is served from a different origin (Vite dev server)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    await handle(backend, maxBodyBytes, req, res);
+  } catch (error: any) {
+    // Anything else was thrown by the filter itself (e.g. "CQF is full")
+    const status = error instanceof HttpError ? error.status : 422;
+    const code = error instanceof HttpError ? error.code : 'operation_failed';
+    // The rest of an oversized body is not read; the connection closes once the reply is written
+    const headers = status === 413 ? { Connection: 'close' } : {};
+    if (!res.headersSent) send(res, status, { error: { code, message: error.message } }, headers);
+  }
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createReferenceServer().listen(PORT, () => {
+    console.log(`CQF reference server listening on http://localhost:${PORT}`);
+  });
+}
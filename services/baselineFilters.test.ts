@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { BloomFilter } from './bloomFilter';
+import { CuckooFilter } from './cuckooFilter';
+
+const keys = Array.from({ length: 2000 }, (_, i) => `key-${i}`);
+const absent = Array.from({ length: 5000 }, (_, i) => `absent-${i}`);
+const fpRate = (contains: (key: string) => boolean) => absent.filter(contains).length / absent.length;
+
+describe('BloomFilter', () => {
+  it('has no false negatives and about the requested FP rate', () => {
+    const filter = BloomFilter.forCapacity(keys.length, 0.01);
+    keys.forEach(key => filter.insert(key));
+    expect(keys.every(key => filter.contains(key))).toBe(true);
+    expect(fpRate(key => filter.contains(key))).toBeLessThan(0.03);
+  });
+});
+
+describe('CuckooFilter', () => {
+  it('has no false negatives and about the requested FP rate', () => {
+    const filter = CuckooFilter.forCapacity(keys.length, 0.01);
+    expect(keys.every(key => filter.insert(key))).toBe(true);
+    expect(keys.every(key => filter.contains(key))).toBe(true);
+    expect(fpRate(key => filter.contains(key))).toBeLessThan(0.03);
+  });
+
+  it('removes one copy of a key', () => {
+    const filter = CuckooFilter.forCapacity(100, 0.01);
+    filter.insert('a');
+    filter.insert('a');
+    expect(filter.remove('a')).toBe(true);
+    expect(filter.contains('a')).toBe(true);
+    expect(filter.remove('a')).toBe(true);
+    expect(filter.remove('a')).toBe(false);
+    expect(filter.size).toBe(0);
+  });
+});
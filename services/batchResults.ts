@@ -0,0 +1,24 @@
+/**
+ * Per-key results of a batch run as CSV, saved from Bulk Operations and by
+ * the CLI's --results. Nothing here talks to a backend, so the CLI can use it
+ * without the page's worker client.
+ */
+import { csvField } from './keyFileFormat';
+import { BatchOp, BatchRun } from '../types';
+
+const batchOutcome = (op: BatchOp, found: boolean): string => {
+  if (op === 'search') return found ? 'probably_present' : 'definitely_absent';
+  if (op === 'insert') return 'inserted';
+  return found ? 'removed' : 'not_found';
+};
+
+// One CSV row per key: key (or key hash), outcome, count after the operation, error
+export const generateBatchResultsCsv = (run: BatchRun): string => {
+  const lines = [`${run.hashing === null ? 'key' : 'key_hash'},result,count,error`];
+  run.keys.forEach((key, i) => {
+    const result = run.results[i];
+    const outcome = result.ok ? batchOutcome(run.op, result.found) : 'failed';
+    lines.push([csvField(key), outcome, result.ok ? String(result.count) : '', csvField(result.error ?? '')].join(','));
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,199 @@
+/**
+ * Benchmark of the CQF against the usual alternatives on one key set: a Bloom
+ * filter, a cuckoo filter and an exact Set, the filters sized for the same
+ * target false-positive rate. Each structure is built by inserting every key
+ * one at a time, then probed with all keys plus `probeCount` keys known to be
+ * absent, then emptied by deleting every key. Timers cover only the
+ * operations: the pauses that let a cancel through are left out.
+ */
+import { CountingQuotientFilter, MIN_REMAINDER_BITS } from './cqfEngine';
+import { BloomFilter } from './bloomFilter';
+import { CuckooFilter } from './cuckooFilter';
+import { BenchmarkMeasurement, BenchmarkOptions, BenchmarkResult, BenchmarkStructure, JobProgress } from '../types';
+
+// Operations between two pauses
+const CHUNK_OPS = 20000;
+// Assumed per-entry overhead of a JS Set of strings: string header plus hash-table slot
+const SET_ENTRY_OVERHEAD_BYTES = 32;
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = { targetFpRate: 0.01, probeCount: 100000 };
+
+export const BENCHMARK_LABELS: Record<BenchmarkStructure, string> = {
+  cqf: 'Counting quotient filter',
+  bloom: 'Bloom filter',
+  cuckoo: 'Cuckoo filter',
+  set: 'Exact Set'
+};
+
+interface BenchmarkSubject {
+  parameters: string;
+  insert(key: string): boolean;
+  contains(key: string): boolean;
+  remove: ((key: string) => void) | null;
+  bytes(): number;
+  memoryEstimated: boolean;
+}
+
+export interface BenchmarkHooks {
+  progress(progress: JobProgress): void;
+  checkpoint(): Promise<void>; // Called between chunks of operations; may throw to cancel
+}
+
+// Quotient bits as the app sizes filters, remainder bits so that n / 2^(q+r) stays under the target rate
+const createCqf = (keyCount: number, fpRate: number): BenchmarkSubject => {
+  const qbits = CountingQuotientFilter.quotientBitsFor(keyCount);
+  const rbits = Math.min(32, Math.max(MIN_REMAINDER_BITS, Math.ceil(Math.log2(keyCount / (fpRate * 2 ** qbits)))));
+  const filter = new CountingQuotientFilter({ qbits, rbits });
+  return {
+    parameters: `q=${qbits}, r=${rbits}`,
+    insert: key => (filter.insert(key), true),
+    contains: key => filter.contains(key),
+    remove: key => { filter.remove(key); },
+    bytes: () => filter.sizeInBytes,
+    memoryEstimated: false
+  };
+};
+
+const createBloom = (keyCount: number, fpRate: number): BenchmarkSubject => {
+  const filter = BloomFilter.forCapacity(keyCount, fpRate);
+  return {
+    parameters: `m=${filter.bitCount.toLocaleString()} bits, k=${filter.hashCount}`,
+    insert: key => (filter.insert(key), true),
+    contains: key => filter.contains(key),
+    remove: null,
+    bytes: () => filter.sizeInBytes,
+    memoryEstimated: false
+  };
+};
+
+const createCuckoo = (keyCount: number, fpRate: number): BenchmarkSubject => {
+  const filter = CuckooFilter.forCapacity(keyCount, fpRate);
+  return {
+    parameters: `${filter.bucketCount.toLocaleString()} buckets x 4, f=${filter.fingerprintBits}`,
+    insert: key => filter.insert(key),
+    contains: key => filter.contains(key),
+    remove: key => { filter.remove(key); },
+    bytes: () => filter.sizeInBytes,
+    memoryEstimated: false
+  };
+};
+
+const createSet = (): BenchmarkSubject => {
+  const set = new Set<string>();
+  let stringBytes = 0;
+  return {
+    parameters: 'exact, no false positives',
+    insert: key => {
+      if (!set.has(key)) stringBytes += key.length * 2;
+      set.add(key);
+      return true;
+    },
+    contains: key => set.has(key),
+    remove: key => { set.delete(key); },
+    // Measured before deletes empty it; UTF-16 code units plus SET_ENTRY_OVERHEAD_BYTES per key
+    bytes: () => stringBytes + set.size * SET_ENTRY_OVERHEAD_BYTES,
+    memoryEstimated: true
+  };
+};
+
+const SUBJECTS: Record<BenchmarkStructure, (keyCount: number, fpRate: number) => BenchmarkSubject> = {
+  cqf: createCqf,
+  bloom: createBloom,
+  cuckoo: createCuckoo,
+  set: createSet
+};
+
+// Keys guaranteed not to be in `present`
+const absentKeys = (present: Set<string>, count: number): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; keys.length < count; i++) {
+    const key = `__benchmark_absent_${i}`;
+    if (!present.has(key)) keys.push(key);
+  }
+  return keys;
+};
+
+/** Runs `op` over `items` in chunks, pausing between them; returns the time spent in `op` only. */
+const timed = async (
+  items: string[],
+  op: (item: string) => void,
+  label: string,
+  hooks: BenchmarkHooks
+): Promise<number> => {
+  let elapsed = 0;
+  for (let start = 0; start < items.length; start += CHUNK_OPS) {
+    const end = Math.min(items.length, start + CHUNK_OPS);
+    const started = performance.now();
+    for (let i = start; i < end; i++) op(items[i]);
+    elapsed += performance.now() - started;
+    hooks.progress({ label, done: end, total: items.length });
+    await hooks.checkpoint();
+  }
+  return elapsed;
+};
+
+const perSecond = (ops: number, ms: number) => (ms > 0 ? (ops / ms) * 1000 : 0);
+
+const measure = async (
+  structure: BenchmarkStructure,
+  keys: string[],
+  probes: string[],
+  options: BenchmarkOptions,
+  hooks: BenchmarkHooks
+): Promise<BenchmarkMeasurement> => {
+  const label = BENCHMARK_LABELS[structure];
+  const created = performance.now();
+  const subject = SUBJECTS[structure](keys.length, options.targetFpRate);
+  const createMs = performance.now() - created;
+
+  let failedInserts = 0;
+  const insertMs = await timed(keys, key => { if (!subject.insert(key)) failedInserts++; }, `${label}: inserting keys`, hooks);
+  const bytes = subject.bytes();
+
+  let falseNegatives = 0;
+  let falsePositives = 0;
+  const presentMs = await timed(keys, key => { if (!subject.contains(key)) falseNegatives++; }, `${label}: looking up keys`, hooks);
+  const absentMs = await timed(probes, key => { if (subject.contains(key)) falsePositives++; }, `${label}: looking up absent keys`, hooks);
+
+  const { remove } = subject;
+  const deleteMs = remove ? await timed(keys, remove, `${label}: deleting keys`, hooks) : null;
+
+  return {
+    structure,
+    label,
+    parameters: subject.parameters,
+    bytes,
+    memoryEstimated: subject.memoryEstimated,
+    bitsPerKey: keys.length > 0 ? (bytes * 8) / keys.length : 0,
+    buildMs: createMs + insertMs,
+    insertsPerSec: perSecond(keys.length, insertMs),
+    lookupsPerSec: perSecond(keys.length + probes.length, presentMs + absentMs),
+    deletesPerSec: deleteMs === null ? null : perSecond(keys.length, deleteMs),
+    measuredFpRate: probes.length > 0 ? falsePositives / probes.length : 0,
+    failedInserts,
+    falseNegatives
+  };
+};
+
+/** Benchmarks every structure on the distinct keys of `keys`. */
+export const runBenchmark = async (
+  source: string,
+  keys: string[],
+  options: BenchmarkOptions,
+  hooks: BenchmarkHooks
+): Promise<BenchmarkResult> => {
+  if (!(options.targetFpRate > 0 && options.targetFpRate < 1)) {
+    throw new Error(`Invalid target FP rate: ${options.targetFpRate} (expected 0-1)`);
+  }
+  const present = new Set(keys);
+  if (present.size === 0) throw new Error('The key source has no keys to benchmark');
+  const distinct = Array.from(present);
+  const probes = absentKeys(present, options.probeCount);
+
+  const startedAt = new Date().toISOString();
+  const measurements: BenchmarkMeasurement[] = [];
+  for (const structure of Object.keys(SUBJECTS) as BenchmarkStructure[]) {
+    measurements.push(await measure(structure, distinct, probes, options, hooks));
+  }
+  return { source, keyCount: distinct.length, options, startedAt, measurements };
+};
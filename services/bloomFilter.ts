@@ -0,0 +1,55 @@
+import { hash64, encodeUtf8 } from './hash';
+
+/**
+ * Standard Bloom filter, the baseline the benchmark compares the CQF with.
+ * Bit positions come from one 64-bit MurmurHash3 per key by double hashing
+ * (Kirsch and Mitzenmacher): position i is h1 + i * h2 modulo the bit count.
+ * Keys cannot be removed.
+ */
+export class BloomFilter {
+  readonly bitCount: number;
+  readonly hashCount: number;
+  private bits: Uint32Array;
+
+  constructor(bitCount: number, hashCount: number) {
+    if (!Number.isInteger(bitCount) || bitCount < 1) throw new Error(`Invalid Bloom filter size: ${bitCount} bits`);
+    if (!Number.isInteger(hashCount) || hashCount < 1) throw new Error(`Invalid Bloom filter hash count: ${hashCount}`);
+    this.bitCount = bitCount;
+    this.hashCount = hashCount;
+    this.bits = new Uint32Array(Math.ceil(bitCount / 32));
+  }
+
+  /** Optimal size for `expectedItems` at `fpRate`: m = -n ln p / (ln 2)^2 bits, k = (m / n) ln 2 hashes. */
+  static forCapacity(expectedItems: number, fpRate: number): BloomFilter {
+    const n = Math.max(1, expectedItems);
+    const bitCount = Math.ceil(-n * Math.log(fpRate) / (Math.LN2 * Math.LN2));
+    const hashCount = Math.max(1, Math.round((bitCount / n) * Math.LN2));
+    return new BloomFilter(bitCount, hashCount);
+  }
+
+  insert(key: string): void {
+    const { hi, lo } = hash64(encodeUtf8(key), 0);
+    for (let i = 0; i < this.hashCount; i++) {
+      const bit = this.position(lo, hi, i);
+      this.bits[bit >>> 5] |= 1 << (bit & 31);
+    }
+  }
+
+  contains(key: string): boolean {
+    const { hi, lo } = hash64(encodeUtf8(key), 0);
+    for (let i = 0; i < this.hashCount; i++) {
+      const bit = this.position(lo, hi, i);
+      if (((this.bits[bit >>> 5] >>> (bit & 31)) & 1) === 0) return false;
+    }
+    return true;
+  }
+
+  get sizeInBytes(): number {
+    return this.bits.byteLength;
+  }
+
+  // h2 is forced odd so the probe sequence does not collapse when it shares a factor with the size
+  private position(h1: number, h2: number, i: number): number {
+    return (h1 + i * ((h2 | 1) >>> 0)) % this.bitCount;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CountingQuotientFilter } from './cqfEngine';
+import { combineFilters, compareFilters, missingFingerprints } from './cqfAlgebra';
+
+const filterOf = (counts: Record<string, number>, rbits = 24, seed = 0) => {
+  const filter = new CountingQuotientFilter({ qbits: 8, rbits, seed });
+  for (const [key, count] of Object.entries(counts)) filter.insert(key, count);
+  return filter;
+};
+
+const a = filterOf({ x: 3, y: 1, z: 2 });
+const b = filterOf({ y: 4, z: 1, w: 5 });
+
+describe('filter algebra', () => {
+  it('sums counts in a union', () => {
+    const union = combineFilters('a', a, 'b', b, 'union');
+    expect(['x', 'y', 'z', 'w'].map(key => union.count(key))).toEqual([3, 5, 3, 5]);
+  });
+
+  it('keeps the smaller count in an intersection', () => {
+    const intersection = combineFilters('a', a, 'b', b, 'intersection');
+    expect(['x', 'y', 'z', 'w'].map(key => intersection.count(key))).toEqual([0, 1, 1, 0]);
+  });
+
+  it("subtracts B's counts in a difference", () => {
+    const difference = combineFilters('a', a, 'b', b, 'difference');
+    expect(['x', 'y', 'z', 'w'].map(key => difference.count(key))).toEqual([3, 0, 1, 0]);
+  });
+
+  it('truncates to the shorter fingerprint', () => {
+    const short = filterOf({ y: 1, v: 1 }, 8);
+    const union = combineFilters('a', a, 'short', short, 'union');
+    expect(union.fingerprintBits).toBe(16);
+    expect(union.count('y')).toBe(2);
+  });
+
+  it('rejects filters with different seeds', () => {
+    expect(() => combineFilters('a', a, 'c', filterOf({ x: 1 }, 24, 9), 'union')).toThrow(/different hash seeds/);
+  });
+
+  it('compares fingerprints and lists those only in A', () => {
+    const comparison = compareFilters('a', a, 'b', b);
+    expect(comparison).toMatchObject({ sharedFingerprints: 2, onlyInA: 1, onlyInB: 1, estimatedIntersection: 2 });
+    const missing = missingFingerprints('a', a, 'b', b, 10);
+    expect(missing.total).toBe(1);
+    expect(missing.fingerprints[0].count).toBe(3);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Set operations between two filters. Filters are comparable when they hash
+ * keys with the same function and seed: a fingerprint is the low quotient+remainder bits of
+ * the hash, so fingerprints of different lengths are reconciled by truncating
+ * the longer ones, at the cost of the shorter filter's false-positive rate.
+ * All operations walk the stored fingerprints, so no keys are needed.
+ */
+import { CountingQuotientFilter, CqfFullError, FingerprintEntry, MIN_REMAINDER_BITS } from './cqfEngine';
+import { FilterComparison, FingerprintListing, SetOperation } from '../types';
+
+interface PairedFingerprint {
+  quotient: number;
+  remainder: number;
+  countA: number; // 0 when only B stores the fingerprint
+  countB: number;
+}
+
+export const assertCompatible = (nameA: string, a: CountingQuotientFilter, nameB: string, b: CountingQuotientFilter) => {
+  if (a.hash !== b.hash) {
+    throw new Error(`Filters '${nameA}' and '${nameB}' are incompatible: different hash functions (${a.hash} vs ${b.hash}).`);
+  }
+  if (a.seed !== b.seed) {
+    throw new Error(`Filters '${nameA}' and '${nameB}' are incompatible: different hash seeds (${a.seed} vs ${b.seed}).`);
+  }
+};
+
+// Layout both filters are compared in: the shorter fingerprint, split with at least `minQbits` quotient bits
+const commonLayout = (a: CountingQuotientFilter, b: CountingQuotientFilter, minQbits: number) => {
+  const fingerprintBits = Math.min(a.fingerprintBits, b.fingerprintBits);
+  const qbits = Math.min(Math.max(a.qbits, b.qbits, minQbits), fingerprintBits - MIN_REMAINDER_BITS);
+  return { qbits, rbits: fingerprintBits - qbits };
+};
+
+/**
+ * The filter's fingerprints truncated to qbits + rbits and split accordingly,
+ * sorted, with counts of fingerprints that became equal summed.
+ */
+const relayout = (filter: CountingQuotientFilter, qbits: number, rbits: number): FingerprintEntry[] => {
+  if (qbits + rbits === filter.fingerprintBits && qbits >= filter.qbits) return Array.from(filter.entriesAt(qbits));
+
+  // Split arithmetic keeps every intermediate below 2^53 for fingerprints up to 64 bits
+  const quotientSpace = 2 ** qbits;
+  const moved = rbits - filter.rbits; // Bits moving from quotient to remainder (negative: the other way)
+  const convert = ({ quotient, remainder, count }: FingerprintEntry): FingerprintEntry => {
+    if (moved >= 0) {
+      const scale = 2 ** moved;
+      return { quotient: Math.floor(quotient / scale) % quotientSpace, remainder: (quotient % scale) * 2 ** filter.rbits + remainder, count };
+    }
+    const scale = 2 ** -moved;
+    const high = Math.floor(remainder / 2 ** rbits);
+    const kept = qbits > -moved ? (quotient % 2 ** (qbits + moved)) * scale : 0;
+    return { quotient: (kept + high) % quotientSpace, remainder: remainder % 2 ** rbits, count };
+  };
+
+  const converted = Array.from(filter.entries(), convert);
+  converted.sort((x, y) => x.quotient - y.quotient || x.remainder - y.remainder);
+  const merged: FingerprintEntry[] = [];
+  for (const entry of converted) {
+    const last = merged[merged.length - 1];
+    if (last && last.quotient === entry.quotient && last.remainder === entry.remainder) last.count += entry.count;
+    else merged.push(entry);
+  }
+  return merged;
+};
+
+// Merge-walk of both filters' fingerprints in a common layout
+function* pairFingerprints(a: FingerprintEntry[], b: FingerprintEntry[]): Generator<PairedFingerprint> {
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const ea = a[i];
+    const eb = b[j];
+    const order = !ea ? 1 : !eb ? -1 : ea.quotient - eb.quotient || ea.remainder - eb.remainder;
+    if (order < 0) {
+      yield { quotient: ea.quotient, remainder: ea.remainder, countA: ea.count, countB: 0 };
+      i++;
+    } else if (order > 0) {
+      yield { quotient: eb.quotient, remainder: eb.remainder, countA: 0, countB: eb.count };
+      j++;
+    } else {
+      yield { quotient: ea.quotient, remainder: ea.remainder, countA: ea.count, countB: eb.count };
+      i++;
+      j++;
+    }
+  }
+}
+
+const pairedLayout = (a: CountingQuotientFilter, b: CountingQuotientFilter, qbits: number, rbits: number) =>
+  pairFingerprints(relayout(a, qbits, rbits), relayout(b, qbits, rbits));
+
+const combinedCount = (op: SetOperation, { countA, countB }: PairedFingerprint): number => {
+  if (op === 'union') return countA + countB;
+  if (op === 'intersection') return Math.min(countA, countB);
+  return Math.max(0, countA - countB);
+};
+
+/**
+ * A new filter holding `op` of the two filters' multisets. A union gets
+ * enough home slots for both inputs, as far as the fingerprint length allows;
+ * past that it throws CqfFullError.
+ */
+export const combineFilters = (
+  nameA: string,
+  a: CountingQuotientFilter,
+  nameB: string,
+  b: CountingQuotientFilter,
+  op: SetOperation
+): CountingQuotientFilter => {
+  assertCompatible(nameA, a, nameB, b);
+  const minQbits = op === 'union' ? CountingQuotientFilter.quotientBitsFor(a.distinct + b.distinct) : 0;
+  const { qbits, rbits } = commonLayout(a, b, minQbits);
+
+  const fingerprints: FingerprintEntry[] = [];
+  for (const pair of pairedLayout(a, b, qbits, rbits)) {
+    const count = combinedCount(op, pair);
+    if (count > 0) fingerprints.push({ quotient: pair.quotient, remainder: pair.remainder, count });
+  }
+  try {
+    return CountingQuotientFilter.fromEntries({ qbits, rbits, hash: a.hash, seed: a.seed }, fingerprints);
+  } catch (error) {
+    if (!(error instanceof CqfFullError)) throw error;
+    throw new CqfFullError(`Cannot ${op} '${nameA}' and '${nameB}': ${fingerprints.length} fingerprints of ${qbits + rbits} bits (the shorter filter's length) do not fit in 2^${qbits} slots`);
+  }
+};
+
+/**
+ * Counts shared and one-sided fingerprints, and estimates key-level overlap.
+ * A key of A that B lacks still matches one of B's fingerprints with
+ * probability distinctB / 2^bits, so shared = I + (distinctA - I) * p.
+ */
+export const compareFilters = (
+  nameA: string,
+  a: CountingQuotientFilter,
+  nameB: string,
+  b: CountingQuotientFilter
+): FilterComparison => {
+  assertCompatible(nameA, a, nameB, b);
+  const { qbits, rbits } = commonLayout(a, b, 0);
+  let shared = 0;
+  let onlyInA = 0;
+  let onlyInB = 0;
+  for (const { countA, countB } of pairedLayout(a, b, qbits, rbits)) {
+    if (countA > 0 && countB > 0) shared++;
+    else if (countA > 0) onlyInA++;
+    else onlyInB++;
+  }
+
+  const fingerprintBits = qbits + rbits;
+  const distinctA = shared + onlyInA;
+  const distinctB = shared + onlyInB;
+  const collision = distinctB / 2 ** fingerprintBits;
+  const raw = collision < 1 ? (shared - distinctA * collision) / (1 - collision) : shared;
+  const estimatedIntersection = Math.round(Math.min(Math.max(raw, 0), distinctA, distinctB));
+
+  return {
+    filterA: nameA,
+    filterB: nameB,
+    fingerprintBits,
+    distinctA,
+    distinctB,
+    sharedFingerprints: shared,
+    onlyInA,
+    onlyInB,
+    estimatedIntersection,
+    estimatedDifference: distinctA - estimatedIntersection
+  };
+};
+
+const fingerprintHex = (quotient: number, remainder: number, qbits: number, rbits: number): string =>
+  ((BigInt(quotient) << BigInt(rbits)) | BigInt(remainder)).toString(16).padStart(Math.ceil((qbits + rbits) / 4), '0');
+
+/** Fingerprints stored in A but not in B, with A's counts; lists at most `limit`. */
+export const missingFingerprints = (
+  nameA: string,
+  a: CountingQuotientFilter,
+  nameB: string,
+  b: CountingQuotientFilter,
+  limit: number
+): FingerprintListing => {
+  assertCompatible(nameA, a, nameB, b);
+  const { qbits, rbits } = commonLayout(a, b, 0);
+  const fingerprints: FingerprintListing['fingerprints'] = [];
+  let total = 0;
+  for (const { quotient, remainder, countA, countB } of pairedLayout(a, b, qbits, rbits)) {
+    if (countA === 0 || countB > 0) continue;
+    total++;
+    if (fingerprints.length < limit) fingerprints.push({ fingerprint: fingerprintHex(quotient, remainder, qbits, rbits), count: countA });
+  }
+  return { fingerprints, total };
+};
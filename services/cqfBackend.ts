@@ -0,0 +1,68 @@
+import {
+  BatchKeyResult, BatchOp, CqfFilterState, FilterComparison, FilterSource, FingerprintListing, FpProbeResult, KeyHashing,
+  KeyLocation, ResizeEvent, ResizePolicy, SetOperation, SlotLayoutStats, SlotWindow
+} from '../types';
+
+/**
+ * Transport-agnostic contract for filter operations. `localBackend.ts` runs
+ * the CQF engine in the page; `httpBackend.ts` talks to a server exposing the
+ * REST API documented in the README (see server/referenceServer.ts).
+ */
+
+export interface BuildResult {
+  success: boolean;
+  message: string;
+}
+
+export interface InsertResult {
+  success: boolean;
+  count: number;
+  resizes: ResizeEvent[]; // Expansions triggered by this insert
+}
+
+export interface BatchResult {
+  results: BatchKeyResult[];
+  resizes: ResizeEvent[];
+}
+
+export interface DeleteResult {
+  success: boolean;
+  removed: number;
+  count: number;
+}
+
+export interface ImportResult {
+  filterName: string;
+  tableName: string;
+  message: string;
+}
+
+export interface CqfBackend {
+  readonly kind: 'local' | 'http';
+  readonly label: string;
+  ping(): Promise<void>;
+  listFilters(): Promise<string[]>;
+  // `hashing` defaults to keyEncoding.TEXT_KEY_HASHING; `expectedKeys` sizes the filter for keys inserted after the build
+  build(name: string, keys: string[], source: FilterSource, hashing?: KeyHashing, expectedKeys?: number): Promise<BuildResult>;
+  search(name: string, key: string): Promise<{ found: boolean }>;
+  insert(name: string, key: string, count: number): Promise<InsertResult>;
+  remove(name: string, key: string, count: number): Promise<DeleteResult>;
+  count(name: string, key: string): Promise<{ count: number }>;
+  // Applies `op` to every key; a key that fails does not stop the rest. With
+  // `hashing`, keys are key hashes from a fingerprint file (16 hex digits, see
+  // keyFileFormat.ts) and the filter must hash keys the same way.
+  batch(name: string, op: BatchOp, keys: string[], count: number, hashing?: KeyHashing | null): Promise<BatchResult>;
+  setResizePolicy(name: string, policy: ResizePolicy): Promise<CqfFilterState>;
+  stats(name: string): Promise<CqfFilterState>;
+  probe(name: string, absentKeys: string[]): Promise<FpProbeResult>;
+  // Set algebra between two filters; incompatible parameters are rejected
+  combine(name: string, other: string, op: SetOperation, target: string): Promise<BuildResult>;
+  compare(name: string, other: string): Promise<FilterComparison>;
+  missing(name: string, other: string, limit: number): Promise<FingerprintListing>;
+  // Internal layout, for the slot visualizer
+  slotWindow(name: string, from: number, count: number): Promise<SlotWindow>;
+  locate(name: string, key: string): Promise<KeyLocation>;
+  slotLayout(name: string): Promise<SlotLayoutStats>;
+  exportFilter(name: string): Promise<ArrayBuffer>;
+  importFilter(buffer: ArrayBuffer): Promise<ImportResult>;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { CountingQuotientFilter, CqfFullError } from './cqfEngine';
+
+// Deterministic keys and counts, so failures reproduce
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) >>> 0;
+  return seed / 2 ** 32;
+};
+
+// 32-bit fingerprints make collisions between a few hundred keys vanishingly unlikely, so counts are exact
+const exactFilter = (qbits = 8) => new CountingQuotientFilter({ qbits, rbits: 24 });
+
+// A key whose fingerprint is (quotient, remainder) in a filter with 8 remainder bits
+const at = (quotient: number, remainder: number) => ({ hi: 0, lo: (quotient << 8) | remainder });
+
+const expectMatches = (filter: CountingQuotientFilter, reference: Map<string, number>) => {
+  for (const [key, count] of reference) expect(filter.count(key), key).toBe(count);
+  const total = [...reference.values()].reduce((n, c) => n + c, 0);
+  expect(filter.size).toBe(total);
+  expect(filter.distinct).toBe([...reference.values()].filter(c => c > 0).length);
+};
+
+describe('CountingQuotientFilter', () => {
+  it('counts inserts and deletes like a multiset', () => {
+    const next = random(1);
+    const filter = exactFilter();
+    const reference = new Map<string, number>();
+    const keys = Array.from({ length: 150 }, (_, i) => `key-${i}`);
+
+    for (let step = 0; step < 2000; step++) {
+      const key = keys[Math.floor(next() * keys.length)];
+      const count = 1 + Math.floor(next() * 5);
+      const stored = reference.get(key) ?? 0;
+      if (next() < 0.6) {
+        filter.insert(key, count);
+        reference.set(key, stored + count);
+      } else {
+        expect(filter.remove(key, count)).toBe(Math.min(stored, count));
+        reference.set(key, Math.max(0, stored - count));
+      }
+    }
+    expectMatches(filter, reference);
+  });
+
+  it('stores large counts in counter digits', () => {
+    const filter = new CountingQuotientFilter({ qbits: 6, rbits: 4 });
+    const counts: [string, number][] = [['a', 1], ['b', 2], ['c', 300], ['d', 65_537], ['e', 2 ** 31]];
+    for (const [key, count] of counts) filter.insert(key, count);
+    for (const [key, count] of counts) expect(filter.count(key)).toBeGreaterThanOrEqual(count);
+    expect(filter.remove('d', 65_536)).toBe(65_536);
+    expect(filter.count('d')).toBeGreaterThanOrEqual(1);
+  });
+
+  it('answers no for keys never inserted, up to false positives', () => {
+    const filter = exactFilter();
+    for (let i = 0; i < 100; i++) filter.insert(`present-${i}`);
+    const falsePositives = Array.from({ length: 1000 }, (_, i) => `absent-${i}`).filter(key => filter.contains(key));
+    expect(falsePositives.length).toBeLessThan(5);
+    expect(filter.remove('absent-0')).toBe(0);
+  });
+
+  it('bulk loads the same fingerprints as single inserts', () => {
+    const keys = Array.from({ length: 200 }, (_, i) => `k${i % 170}`);
+    const loaded = exactFilter();
+    loaded.load(keys);
+    const inserted = exactFilter();
+    for (const key of keys) inserted.insert(key);
+    expect([...loaded.entries()]).toEqual([...inserted.entries()]);
+    expect(loaded.usedSlots).toBe(inserted.usedSlots);
+  });
+
+  it('keeps every count when expanded', () => {
+    const next = random(2);
+    const filter = exactFilter(7);
+    const reference = new Map<string, number>();
+    for (let i = 0; i < 40; i++) {
+      const count = 1 + Math.floor(next() * 40);
+      filter.insert(`row-${i}`, count);
+      reference.set(`row-${i}`, count);
+    }
+    const expanded = filter.expanded();
+    expect(expanded.qbits).toBe(8);
+    expect(expanded.rbits).toBe(23);
+    expect(expanded.loadFactor).toBeLessThan(filter.loadFactor);
+    expectMatches(expanded, reference);
+  });
+
+  it('throws CqfFullError when the slot array overflows', () => {
+    const filter = new CountingQuotientFilter({ qbits: 6, rbits: 8 });
+    expect(() => {
+      for (let i = 0; i < 1000; i++) filter.insert(`overflow-${i}`);
+    }).toThrow(CqfFullError);
+  });
+
+  it('refuses to expand past the smallest remainder', () => {
+    const filter = new CountingQuotientFilter({ qbits: 6, rbits: 2 });
+    expect(filter.canExpand).toBe(false);
+    expect(() => filter.expanded()).toThrow(/Cannot expand/);
+  });
+
+  it('restores a snapshot with the same contents', () => {
+    const filter = exactFilter();
+    for (let i = 0; i < 50; i++) filter.insert(`s${i}`, i + 1);
+    const copy = CountingQuotientFilter.fromSnapshot(filter.snapshot());
+    expect([...copy.entries()]).toEqual([...filter.entries()]);
+    expect(copy.size).toBe(filter.size);
+  });
+});
+
+describe('CountingQuotientFilter slot layout', () => {
+  // Run 10 fills slots 10-13 ([1, 5, 5, 9]: 5 is stored twice), which pushes
+  // the runs of quotients 11 and 12 to slots 14 and 15; quotient 40 stands alone
+  const shiftedFilter = () => {
+    const filter = new CountingQuotientFilter({ qbits: 6, rbits: 8 });
+    filter.insert(at(10, 5));
+    filter.insert(at(10, 9));
+    filter.insert(at(11, 3));
+    filter.insert(at(12, 7));
+    filter.insert(at(10, 1));
+    filter.insert(at(10, 5));
+    filter.insert(at(40, 2));
+    return filter;
+  };
+
+  it('shows each slot with the run and counter it belongs to', () => {
+    const { from, slots, homeSlots } = shiftedFilter().slotWindow(9, 8);
+    expect(from).toBe(9);
+    expect(homeSlots).toBe(64);
+    expect(slots.map(({ kind, quotient, value, count }) => [kind, quotient, value, count])).toEqual([
+      ['empty', null, 0, null],
+      ['remainder', 10, 1, 1],
+      ['remainder', 10, 5, 2],
+      ['counter', 10, 5, null],
+      ['remainder', 10, 9, 1],
+      ['remainder', 11, 3, 1],
+      ['remainder', 12, 7, 1],
+      ['empty', null, 0, null]
+    ]);
+    // occupieds marks home slots, runends the slots the runs ended up in
+    expect(slots.map(({ occupied }) => occupied)).toEqual([false, true, true, true, false, false, false, false]);
+    expect(slots.map(({ runend }) => runend)).toEqual([false, false, false, false, true, true, true, false]);
+  });
+
+  it('clips windows to the slot array and labels runs that start before the window', () => {
+    const filter = shiftedFilter();
+    expect(filter.slotWindow(12, 2).slots.map(({ kind, quotient }) => [kind, quotient])).toEqual([['counter', 10], ['remainder', 10]]);
+    const { from, slots } = filter.slotWindow(filter.xnslots - 2, 10);
+    expect(from).toBe(filter.xnslots - 2);
+    expect(slots).toHaveLength(2);
+  });
+
+  it('locates stored, missing and shifted fingerprints', () => {
+    const filter = shiftedFilter();
+    expect(filter.locate(at(10, 5))).toEqual({ quotient: 10, remainder: 5, run: [10, 13], cluster: [10, 15], slots: [11, 12], count: 2 });
+    expect(filter.locate(at(12, 7))).toEqual({ quotient: 12, remainder: 7, run: [15, 15], cluster: [10, 15], slots: [15, 15], count: 1 });
+    // Not stored, but its run exists
+    expect(filter.locate(at(11, 4))).toMatchObject({ run: [14, 14], cluster: [10, 15], slots: null, count: 0 });
+    // A home slot taken by another quotient's run: no run, but an insert would rewrite the cluster
+    expect(filter.locate(at(13, 0))).toMatchObject({ run: null, cluster: [10, 15], slots: null });
+    expect(filter.locate(at(20, 0))).toMatchObject({ run: null, cluster: null, slots: null, count: 0 });
+  });
+
+  it('measures runs, clusters and shifts', () => {
+    const filter = shiftedFilter();
+    expect(filter.slotLayout()).toEqual({
+      runLengths: [0, 3, 0, 0, 1],
+      clusterLengths: [0, 1, 0, 0, 0, 0, 1],
+      meanShift: (0 + 3 + 3 + 0) / 4,
+      maxShift: 3,
+      meanInsertSpan: (6 * 6 + 1 * 1) / 64,
+      counterSlots: 1
+    });
+
+    // Removing from run 10 shifts the later runs back one slot
+    expect(filter.remove(at(10, 1))).toBe(1);
+    expect(filter.locate(at(12, 7)).slots).toEqual([14, 14]);
+    expect(filter.slotLayout()).toMatchObject({
+      runLengths: [0, 3, 0, 1],
+      clusterLengths: [0, 1, 0, 0, 0, 1],
+      meanShift: (0 + 2 + 2 + 0) / 4,
+      maxShift: 2
+    });
+  });
+});
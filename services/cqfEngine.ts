@@ -0,0 +1,840 @@
+import { Hash64, hashBits, hashKeyBytes, encodeUtf8 } from './hash';
+import { HashFunction, KeyLocation, SlotInfo, SlotLayoutStats, SlotWindow } from '../types';
+
+/**
+ * In-memory Counting Quotient Filter (Pandey et al., SIGMOD '17).
+ *
+ * Each key is hashed to a (qbits + rbits)-bit fingerprint. The high qbits pick
+ * the home slot (quotient), the low rbits are stored in the slot (remainder).
+ * Remainders sharing a quotient form a sorted run; runs are located with the
+ * rank-and-select layout: an `occupieds` bit per quotient, a `runends` bit per
+ * slot and a per-64-slot-block offset. Duplicate remainders are compressed with
+ * the CQF counter encoding, so a run is a sequence of (remainder, count) pairs.
+ *
+ * The slot array is not circular: `xnslots` adds overflow slots past the last
+ * home slot, and an insert that would run off the end fails.
+ */
+
+const BLOCK_SLOTS = 64;
+const MAX_QBITS = 32;
+// Smallest remainder a filter may have, including after expansions
+export const MIN_REMAINDER_BITS = 2;
+const MAX_RBITS = 32;
+
+// A key, or its 64-bit hash computed with the filter's hash function and seed (see keyFileFormat.ts)
+export type KeyInput = string | Uint8Array | Hash64;
+
+export interface CqfParams {
+  qbits: number;
+  rbits: number;
+  hash?: HashFunction; // Default murmur3
+  seed?: number;
+}
+
+/** Raw filter state, as written to and read from filter files. */
+export interface CqfSnapshot {
+  qbits: number;
+  rbits: number;
+  hash: HashFunction;
+  seed: number;
+  nelts: number;
+  ndistinct: number;
+  nusedSlots: number;
+  slots: Uint8Array | Uint16Array | Uint32Array;
+  occupieds: Uint32Array;
+  runends: Uint32Array;
+  offsets: Uint32Array;
+}
+
+/** One stored fingerprint and its multiplicity. */
+export interface FingerprintEntry {
+  quotient: number;
+  remainder: number;
+  count: number;
+}
+
+interface Run {
+  quotient: number;
+  values: number[];
+}
+
+interface RunEntry {
+  remainder: number;
+  count: number;
+}
+
+// A run entry and the slots its remainder and counter take
+interface PlacedEntry extends RunEntry {
+  slot: number;
+  width: number;
+}
+
+interface RunBounds {
+  quotient: number;
+  start: number;
+  end: number;
+}
+
+interface Layout {
+  starts: number[];
+  end: number;
+}
+
+// --- Bit vector helpers (Uint32Array, bit i lives in word i >> 5) ---
+
+const getBit = (bits: Uint32Array, i: number) => (bits[i >>> 5] >>> (i & 31)) & 1;
+const setBit = (bits: Uint32Array, i: number) => { bits[i >>> 5] |= 1 << (i & 31); };
+const clearBit = (bits: Uint32Array, i: number) => { bits[i >>> 5] &= ~(1 << (i & 31)); };
+
+const popcount = (x: number) => {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+};
+
+const lowestBit = (x: number) => 31 - Math.clz32(x & -x);
+
+/** Number of set bits in [from, to], both inclusive. */
+const rank = (bits: Uint32Array, from: number, to: number) => {
+  if (to < from) return 0;
+  const first = from >>> 5;
+  const last = to >>> 5;
+  let count = 0;
+  for (let w = first; w <= last; w++) {
+    let word = bits[w];
+    if (w === first) word &= 0xffffffff << (from & 31);
+    if (w === last) word &= 0xffffffff >>> (31 - (to & 31));
+    count += popcount(word);
+  }
+  return count;
+};
+
+/** Position of the `nth` (1-based) set bit at or after `from`, or -1. */
+const select = (bits: Uint32Array, from: number, nth: number) => {
+  for (let w = from >>> 5; w < bits.length; w++) {
+    let word = bits[w];
+    if (w === from >>> 5) word &= 0xffffffff << (from & 31);
+    const count = popcount(word);
+    if (count < nth) {
+      nth -= count;
+      continue;
+    }
+    while (--nth > 0) word &= word - 1;
+    return (w << 5) + lowestBit(word);
+  }
+  return -1;
+};
+
+/** First set bit in [from, limit), or -1. */
+const nextSetBit = (bits: Uint32Array, from: number, limit: number) => {
+  if (from >= limit) return -1;
+  for (let w = from >>> 5; w << 5 < limit; w++) {
+    let word = bits[w];
+    if (w === from >>> 5) word &= 0xffffffff << (from & 31);
+    if (word !== 0) {
+      const pos = (w << 5) + lowestBit(word);
+      return pos < limit ? pos : -1;
+    }
+  }
+  return -1;
+};
+
+/** Last set bit in [0, from], or -1. */
+const prevSetBit = (bits: Uint32Array, from: number) => {
+  if (from < 0) return -1;
+  for (let w = from >>> 5; w >= 0; w--) {
+    let word = bits[w];
+    if (w === from >>> 5) word &= 0xffffffff >>> (31 - (from & 31));
+    if (word !== 0) return (w << 5) + 31 - Math.clz32(word);
+  }
+  return -1;
+};
+
+// --- Counter encoding (same scheme as the reference gqf implementation) ---
+
+const encodeCounter = (remainder: number, count: number, rbits: number): number[] => {
+  if (count <= 0) return [];
+  if (count === 1) return [remainder];
+  if (count === 2) return [remainder, remainder];
+  if (count === 3) return remainder === 0 ? [0, 0, 0] : [remainder, 0, remainder];
+
+  // Digits may not be 0 (nor equal to a non-zero remainder), so the base
+  // shrinks accordingly and every digit is shifted past the reserved values.
+  const base = 2 ** rbits - (remainder === 0 ? 1 : 2);
+  let rest = remainder === 0 ? count - 4 : count - 3;
+  const digits: number[] = [];
+  let digit = 0;
+  do {
+    digit = (rest % base) + 1;
+    if (remainder !== 0 && digit >= remainder) digit++;
+    digits.push(digit);
+    rest = Math.floor(rest / base);
+  } while (rest > 0);
+
+  const out = [remainder];
+  // A counter must open with a value smaller than its remainder, otherwise it
+  // would read as the next (larger) remainder of the run.
+  if (remainder !== 0 && digit >= remainder) out.push(0);
+  for (let i = digits.length - 1; i >= 0; i--) out.push(digits[i]);
+  if (remainder === 0) out.push(0, 0);
+  else out.push(remainder);
+  return out;
+};
+
+const decodeRun = (values: number[], rbits: number): RunEntry[] => {
+  const entries: RunEntry[] = [];
+  const last = values.length - 1;
+  let i = 0;
+
+  while (i <= last) {
+    const rem = values[i];
+    if (i === last) {
+      entries.push({ remainder: rem, count: 1 });
+      break;
+    }
+
+    const next = values[i + 1];
+    if (i + 1 === last || (rem > 0 && next >= rem)) {
+      const isPair = next === rem;
+      entries.push({ remainder: rem, count: isPair ? 2 : 1 });
+      i += isPair ? 2 : 1;
+      continue;
+    }
+    if (rem > 0 && next === 0 && values[i + 2] === rem) {
+      entries.push({ remainder: rem, count: 3 });
+      i += 3;
+      continue;
+    }
+    if (rem === 0 && next === 0) {
+      const isTriple = values[i + 2] === 0;
+      entries.push({ remainder: 0, count: isTriple ? 3 : 2 });
+      i += isTriple ? 3 : 2;
+      continue;
+    }
+
+    const base = 2 ** rbits - (rem === 0 ? 1 : 2);
+    let count = 0;
+    let end = i + 1;
+    let digit = next;
+    while (digit !== rem && end < last) {
+      if (digit > rem) digit--;
+      if (digit > 0 && rem > 0) digit--;
+      count = count * base + digit;
+      end++;
+      digit = values[end];
+    }
+
+    if (rem > 0) {
+      entries.push({ remainder: rem, count: count + 3 });
+      i = end + 1;
+    } else if (end === last || values[end + 1] !== 0) {
+      // A lone zero followed by ordinary (non-zero) remainders.
+      entries.push({ remainder: 0, count: 1 });
+      i += 1;
+    } else {
+      entries.push({ remainder: 0, count: count + 4 });
+      i = end + 2;
+    }
+  }
+
+  return entries;
+};
+
+const encodeRun = (entries: RunEntry[], rbits: number): number[] => {
+  const values: number[] = [];
+  for (const entry of entries) {
+    for (const v of encodeCounter(entry.remainder, entry.count, rbits)) values.push(v);
+  }
+  return values;
+};
+
+/** Thrown when a fingerprint does not fit in the slot array. */
+export class CqfFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CqfFullError';
+  }
+}
+
+const copySection = (name: string, source: ArrayLike<number>, target: Uint8Array | Uint16Array | Uint32Array) => {
+  if (source.length !== target.length) {
+    throw new Error(`Corrupt filter: ${name} has ${source.length} entries, expected ${target.length}`);
+  }
+  target.set(source);
+};
+
+export class CountingQuotientFilter {
+  readonly qbits: number;
+  readonly rbits: number;
+  readonly hash: HashFunction;
+  readonly seed: number;
+  readonly nslots: number;
+  readonly xnslots: number;
+
+  private slots: Uint8Array | Uint16Array | Uint32Array;
+  private occupieds: Uint32Array;
+  private runends: Uint32Array;
+  private offsets: Uint32Array;
+
+  private nelts = 0;
+  private ndistinct = 0;
+  private nusedSlots = 0;
+
+  constructor({ qbits, rbits, hash = 'murmur3', seed = 0 }: CqfParams) {
+    if (!Number.isInteger(qbits) || qbits < 1 || qbits > MAX_QBITS) {
+      throw new Error(`Invalid quotient bits: ${qbits} (expected 1-${MAX_QBITS})`);
+    }
+    if (!Number.isInteger(rbits) || rbits < MIN_REMAINDER_BITS || rbits > MAX_RBITS) {
+      throw new Error(`Invalid remainder bits: ${rbits} (expected ${MIN_REMAINDER_BITS}-${MAX_RBITS})`);
+    }
+
+    this.qbits = qbits;
+    this.rbits = rbits;
+    this.hash = hash;
+    this.seed = seed >>> 0;
+    this.nslots = 2 ** qbits;
+
+    this.xnslots = CountingQuotientFilter.totalSlotsFor(qbits);
+
+    const slotBytes = CountingQuotientFilter.slotBytesFor(rbits);
+    this.slots = slotBytes === 1
+      ? new Uint8Array(this.xnslots)
+      : slotBytes === 2 ? new Uint16Array(this.xnslots) : new Uint32Array(this.xnslots);
+    this.occupieds = new Uint32Array(this.xnslots / 32);
+    this.runends = new Uint32Array(this.xnslots / 32);
+    this.offsets = new Uint32Array(this.xnslots / BLOCK_SLOTS);
+  }
+
+  /** Home slots plus the overflow area, as in the reference implementation. */
+  static totalSlotsFor(qbits: number): number {
+    const nslots = 2 ** qbits;
+    const extra = Math.ceil(10 * Math.sqrt(nslots));
+    return Math.ceil((nslots + extra) / BLOCK_SLOTS) * BLOCK_SLOTS;
+  }
+
+  static slotBytesFor(rbits: number): 1 | 2 | 4 {
+    return rbits <= 8 ? 1 : rbits <= 16 ? 2 : 4;
+  }
+
+  /** Smallest quotient size that keeps `expectedItems` under `maxLoad`. */
+  static quotientBitsFor(expectedItems: number, maxLoad: number = 0.8): number {
+    const needed = Math.max(BLOCK_SLOTS, Math.ceil(expectedItems / maxLoad));
+    return Math.ceil(Math.log2(needed));
+  }
+
+  /** Rebuilds a filter from a snapshot, copying its arrays. */
+  static fromSnapshot(snapshot: CqfSnapshot): CountingQuotientFilter {
+    const filter = new CountingQuotientFilter(snapshot);
+    copySection('slots', snapshot.slots, filter.slots);
+    copySection('occupieds', snapshot.occupieds, filter.occupieds);
+    copySection('runends', snapshot.runends, filter.runends);
+    copySection('offsets', snapshot.offsets, filter.offsets);
+    filter.nelts = snapshot.nelts;
+    filter.ndistinct = snapshot.ndistinct;
+    filter.nusedSlots = snapshot.nusedSlots;
+    return filter;
+  }
+
+  /** Current state; the arrays are live views and must not be modified. */
+  snapshot(): CqfSnapshot {
+    return {
+      qbits: this.qbits,
+      rbits: this.rbits,
+      hash: this.hash,
+      seed: this.seed,
+      nelts: this.nelts,
+      ndistinct: this.ndistinct,
+      nusedSlots: this.nusedSlots,
+      slots: this.slots,
+      occupieds: this.occupieds,
+      runends: this.runends,
+      offsets: this.offsets
+    };
+  }
+
+  // --- Public operations ---
+
+  insert(key: KeyInput, count: number = 1): void {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid insert count: ${count}`);
+    }
+    const { quotient, remainder } = this.fingerprint(key);
+    this.update(quotient, remainder, count);
+  }
+
+  /** Removes up to `count` copies of `key`; returns how many were removed. */
+  remove(key: KeyInput, count: number = 1): number {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid delete count: ${count}`);
+    }
+    const { quotient, remainder } = this.fingerprint(key);
+    // 0 - x rather than -x, so removing nothing returns 0, not -0
+    return 0 - this.update(quotient, remainder, -count);
+  }
+
+  count(key: KeyInput): number {
+    const { quotient, remainder } = this.fingerprint(key);
+    if (!getBit(this.occupieds, quotient)) return 0;
+
+    const start = this.runStart(quotient);
+    const end = this.rankSelect(quotient);
+    const entry = decodeRun(Array.from(this.slots.subarray(start, end + 1)), this.rbits)
+      .find(e => e.remainder === remainder);
+    return entry ? entry.count : 0;
+  }
+
+  contains(key: KeyInput): boolean {
+    return this.count(key) > 0;
+  }
+
+  /**
+   * Fills an empty filter from a list of keys in one pass: fingerprints are
+   * sorted and written run by run, avoiding per-key shifting.
+   */
+  load(keys: Iterable<KeyInput>): void {
+    if (this.nelts > 0) throw new Error('Bulk load requires an empty filter');
+
+    const quotients: number[] = [];
+    const remainders: number[] = [];
+    for (const key of keys) {
+      const { quotient, remainder } = this.fingerprint(key);
+      quotients.push(quotient);
+      remainders.push(remainder);
+    }
+
+    const order = quotients.map((_, i) => i);
+    order.sort((a, b) => quotients[a] - quotients[b] || remainders[a] - remainders[b]);
+
+    const fingerprints: FingerprintEntry[] = [];
+    for (const i of order) {
+      const last = fingerprints[fingerprints.length - 1];
+      if (last && last.quotient === quotients[i] && last.remainder === remainders[i]) last.count++;
+      else fingerprints.push({ quotient: quotients[i], remainder: remainders[i], count: 1 });
+    }
+    this.loadFingerprints(fingerprints);
+  }
+
+  /** Stored fingerprints in (quotient, remainder) order. */
+  *entries(): Generator<FingerprintEntry> {
+    for (const { quotient, start, end } of this.runsFrom(0)) {
+      for (const { remainder, count } of decodeRun(Array.from(this.slots.subarray(start, end + 1)), this.rbits)) {
+        yield { quotient, remainder, count };
+      }
+    }
+  }
+
+  // --- Layout inspection (slot visualizer) ---
+
+  /** Slots [from, from + count), clipped to the slot array, with the run and counter each belongs to. */
+  slotWindow(from: number, count: number): SlotWindow {
+    const first = Math.min(Math.max(0, Math.floor(from)), this.xnslots);
+    const last = Math.min(this.xnslots, first + Math.max(0, Math.floor(count)));
+    const slots: SlotInfo[] = [];
+    for (let i = first; i < last; i++) {
+      slots.push({
+        occupied: getBit(this.occupieds, i) === 1,
+        runend: getBit(this.runends, i) === 1,
+        value: this.slots[i],
+        kind: 'empty',
+        quotient: null,
+        count: null
+      });
+    }
+
+    for (const run of this.runsFrom(this.spanStart(first))) {
+      if (run.start >= last) break;
+      for (const entry of this.placedEntries(run)) {
+        for (let i = 0; i < entry.width; i++) {
+          const info = slots[entry.slot + i - first];
+          if (!info) continue;
+          info.kind = i === 0 ? 'remainder' : 'counter';
+          info.quotient = run.quotient;
+          info.count = i === 0 ? entry.count : null;
+        }
+      }
+    }
+    return { from: first, slots, homeSlots: this.nslots, totalSlots: this.xnslots };
+  }
+
+  /** Where `key` is or would be stored. */
+  locate(key: KeyInput): KeyLocation {
+    const { quotient, remainder } = this.fingerprint(key);
+    const location: KeyLocation = { quotient, remainder, run: null, cluster: null, slots: null, count: 0 };
+    if (this.inUse(quotient)) {
+      const start = this.spanStart(quotient);
+      location.cluster = [start, this.readSpan(start).end];
+    }
+    if (getBit(this.occupieds, quotient)) {
+      const run = { quotient, start: this.runStart(quotient), end: this.rankSelect(quotient) };
+      location.run = [run.start, run.end];
+      const entry = this.placedEntries(run).find(e => e.remainder === remainder);
+      if (entry) {
+        location.slots = [entry.slot, entry.slot + entry.width - 1];
+        location.count = entry.count;
+      }
+    }
+    return location;
+  }
+
+  /**
+   * Run and cluster length histograms over the whole slot array. An update
+   * rewrites the cluster holding its home slot, so `meanInsertSpan` (the
+   * cluster length seen from a uniformly random home slot) is what grows as
+   * the filter fills up.
+   */
+  slotLayout(): SlotLayoutStats {
+    const runLengths = [0];
+    const clusterLengths = [0];
+    const bump = (histogram: number[], length: number) => {
+      while (histogram.length <= length) histogram.push(0);
+      histogram[length]++;
+    };
+
+    let runs = 0;
+    let shiftSum = 0;
+    let maxShift = 0;
+    let counterSlots = 0;
+    let squaredClusterSlots = 0;
+    let clusterStart = -1;
+    let clusterEnd = -2;
+    const closeCluster = () => {
+      if (clusterStart < 0) return;
+      const length = clusterEnd - clusterStart + 1;
+      bump(clusterLengths, length);
+      squaredClusterSlots += length * length;
+    };
+
+    for (const { quotient, start, end } of this.runsFrom(0)) {
+      const length = end - start + 1;
+      bump(runLengths, length);
+      runs++;
+      shiftSum += start - quotient;
+      maxShift = Math.max(maxShift, start - quotient);
+      counterSlots += length - decodeRun(Array.from(this.slots.subarray(start, end + 1)), this.rbits).length;
+      if (start !== clusterEnd + 1) {
+        closeCluster();
+        clusterStart = start;
+      }
+      clusterEnd = end;
+    }
+    closeCluster();
+
+    return {
+      runLengths,
+      clusterLengths,
+      meanShift: runs > 0 ? shiftSum / runs : 0,
+      maxShift,
+      meanInsertSpan: squaredClusterSlots / this.nslots,
+      counterSlots
+    };
+  }
+
+  /**
+   * Returns a filter with twice the home slots holding the same fingerprints.
+   * The fingerprint length stays q + r: the top remainder bit becomes the low
+   * quotient bit, so no keys are needed and lookups keep their answers.
+   */
+  get canExpand(): boolean {
+    return this.rbits > MIN_REMAINDER_BITS && this.qbits < MAX_QBITS;
+  }
+
+  expanded(): CountingQuotientFilter {
+    if (this.rbits <= MIN_REMAINDER_BITS) throw new Error(`Cannot expand: remainders are already ${this.rbits} bits`);
+    if (this.qbits >= MAX_QBITS) throw new Error(`Cannot expand: quotients are already ${this.qbits} bits`);
+
+    const qbits = this.qbits + 1;
+    return CountingQuotientFilter.fromEntries(
+      { qbits, rbits: this.rbits - 1, hash: this.hash, seed: this.seed },
+      Array.from(this.entriesAt(qbits))
+    );
+  }
+
+  /** Total fingerprint length; filters with equal length, hash function and seed are comparable. */
+  get fingerprintBits(): number {
+    return this.qbits + this.rbits;
+  }
+
+  /**
+   * Stored fingerprints re-split for a wider quotient, as a filter with
+   * `qbits` quotient bits and the same fingerprint length would hold them.
+   * Order is preserved.
+   */
+  *entriesAt(qbits: number): Generator<FingerprintEntry> {
+    const shift = this.fingerprintBits - qbits;
+    if (qbits < this.qbits || shift < MIN_REMAINDER_BITS) {
+      throw new Error(`Cannot re-split ${this.qbits}/${this.rbits}-bit fingerprints with ${qbits} quotient bits`);
+    }
+    const scale = 2 ** (qbits - this.qbits);
+    const mask = 2 ** shift - 1;
+    for (const { quotient, remainder, count } of this.entries()) {
+      // remainder < 2^32, so the unsigned shift is exact; mask < 2^31 keeps the AND non-negative
+      yield { quotient: quotient * scale + (remainder >>> shift), remainder: remainder & mask, count };
+    }
+  }
+
+  /** Builds a filter from fingerprints sorted by (quotient, remainder), each listed once. */
+  static fromEntries(params: CqfParams, fingerprints: FingerprintEntry[]): CountingQuotientFilter {
+    const filter = new CountingQuotientFilter(params);
+    filter.loadFingerprints(fingerprints);
+    return filter;
+  }
+
+  get size(): number {
+    return this.nelts;
+  }
+
+  get distinct(): number {
+    return this.ndistinct;
+  }
+
+  get usedSlots(): number {
+    return this.nusedSlots;
+  }
+
+  /** Bytes held by the slot array and metadata bit vectors. */
+  get sizeInBytes(): number {
+    return this.slots.byteLength + this.occupieds.byteLength + this.runends.byteLength + this.offsets.byteLength;
+  }
+
+  /** Fraction of home slots holding a remainder or counter digit. */
+  get loadFactor(): number {
+    return this.nusedSlots / this.nslots;
+  }
+
+  /**
+   * Probability that an absent key matches a stored fingerprint:
+   * 1 - e^(-n / 2^(q+r)) for n distinct fingerprints.
+   */
+  get theoreticalFpRate(): number {
+    return -Math.expm1(-this.ndistinct / 2 ** (this.qbits + this.rbits));
+  }
+
+  /** Writes sorted, distinct fingerprints into an empty filter. */
+  private loadFingerprints(fingerprints: FingerprintEntry[]): void {
+    const runs: Run[] = [];
+    let entries: RunEntry[] = [];
+    let nelts = 0;
+    fingerprints.forEach((fp, i) => {
+      entries.push({ remainder: fp.remainder, count: fp.count });
+      nelts += fp.count;
+      if (i === fingerprints.length - 1 || fingerprints[i + 1].quotient !== fp.quotient) {
+        runs.push({ quotient: fp.quotient, values: encodeRun(entries, this.rbits) });
+        entries = [];
+      }
+    });
+
+    const layout = this.layout(0, runs);
+    if (layout.end >= this.xnslots) {
+      throw new CqfFullError(`CQF is full: ${nelts} keys do not fit in 2^${this.qbits} slots`);
+    }
+    this.write(0, this.xnslots - 1, runs, layout);
+    this.nelts = nelts;
+    this.ndistinct = fingerprints.length;
+    this.nusedSlots = runs.reduce((n, run) => n + run.values.length, 0);
+  }
+
+  // --- Hashing ---
+
+  private fingerprint(key: KeyInput) {
+    const hash: Hash64 = typeof key === 'string' ? hashKeyBytes(encodeUtf8(key), this.hash, this.seed)
+      : key instanceof Uint8Array ? hashKeyBytes(key, this.hash, this.seed) : key;
+    return {
+      quotient: hashBits(hash, this.rbits, this.qbits),
+      remainder: hashBits(hash, 0, this.rbits)
+    };
+  }
+
+  // --- Rank and select ---
+
+  /**
+   * Position of the runend of the last occupied quotient <= x. A result
+   * below x means no run covers slot x.
+   */
+  private rankSelect(x: number): number {
+    const block = Math.floor(x / BLOCK_SLOTS);
+    const blockStart = block * BLOCK_SLOTS;
+    const base = blockStart + this.offsets[block];
+    const occupiedInBlock = rank(this.occupieds, blockStart, x);
+    if (occupiedInBlock === 0) return base - 1;
+    return select(this.runends, base, occupiedInBlock);
+  }
+
+  /**
+   * Runs in slot order from `from` on, which must not fall inside a cluster
+   * (see spanStart). Runs are laid out in quotient order, each at or after its
+   * home slot.
+   */
+  private *runsFrom(from: number): Generator<RunBounds> {
+    let pos = from;
+    let quotient = nextSetBit(this.occupieds, from, this.nslots);
+    while (quotient !== -1) {
+      const start = Math.max(quotient, pos);
+      const end = nextSetBit(this.runends, start, this.xnslots);
+      yield { quotient, start, end };
+      pos = end + 1;
+      quotient = nextSetBit(this.occupieds, quotient + 1, this.nslots);
+    }
+  }
+
+  /** Entries of a run with their positions; the counter encoding is canonical, so widths follow from the counts. */
+  private placedEntries({ start, end }: RunBounds): PlacedEntry[] {
+    let slot = start;
+    return decodeRun(Array.from(this.slots.subarray(start, end + 1)), this.rbits).map(entry => {
+      const width = encodeCounter(entry.remainder, entry.count, this.rbits).length;
+      const placed = { ...entry, slot, width };
+      slot += width;
+      return placed;
+    });
+  }
+
+  private runStart(quotient: number): number {
+    if (quotient === 0) return 0;
+    return Math.max(quotient, this.rankSelect(quotient - 1) + 1);
+  }
+
+  private inUse(slot: number): boolean {
+    return getBit(this.occupieds, slot) === 1 || this.rankSelect(slot) >= slot;
+  }
+
+  /** First slot of the contiguous run of used slots containing `slot`. */
+  private spanStart(slot: number): number {
+    let i = slot;
+    while (i > 0 && this.inUse(i - 1)) {
+      // Every slot between a quotient and its runend is in use, so we can
+      // jump straight to the quotient that owns slot i - 1.
+      i = prevSetBit(this.occupieds, i - 1);
+    }
+    return i;
+  }
+
+  /** Reads the runs of the span beginning at `start`. */
+  private readSpan(start: number): { runs: Run[]; end: number } {
+    const runs: Run[] = [];
+    let pos = start;
+    let quotient = nextSetBit(this.occupieds, start, this.nslots);
+    while (quotient !== -1 && quotient <= pos) {
+      const end = nextSetBit(this.runends, pos, this.xnslots);
+      runs.push({ quotient, values: Array.from(this.slots.subarray(pos, end + 1)) });
+      pos = end + 1;
+      quotient = nextSetBit(this.occupieds, quotient + 1, this.nslots);
+    }
+    return { runs, end: pos - 1 };
+  }
+
+  // --- Mutation ---
+
+  /**
+   * Adds `delta` (possibly negative) to the count of one fingerprint and
+   * rewrites the affected span. Returns the change actually applied.
+   */
+  private update(quotient: number, remainder: number, delta: number): number {
+    const start = this.inUse(quotient) ? this.spanStart(quotient) : quotient;
+    const span = this.readSpan(start);
+    const runs = span.runs;
+    let oldEnd = span.end;
+    let oldUsed = runs.reduce((n, run) => n + run.values.length, 0);
+
+    let index = runs.findIndex(run => run.quotient >= quotient);
+    if (index === -1) index = runs.length;
+    const existing = runs[index]?.quotient === quotient ? runs[index] : null;
+    const entries = existing ? decodeRun(existing.values, this.rbits) : [];
+
+    let entryIndex = entries.findIndex(e => e.remainder >= remainder);
+    if (entryIndex === -1) entryIndex = entries.length;
+    const entry = entries[entryIndex]?.remainder === remainder ? entries[entryIndex] : null;
+
+    let applied: number;
+    let distinctChange = 0;
+    if (delta > 0) {
+      if (entry) {
+        entry.count += delta;
+      } else {
+        entries.splice(entryIndex, 0, { remainder, count: delta });
+        distinctChange = 1;
+      }
+      applied = delta;
+    } else {
+      if (!entry) return 0;
+      applied = -Math.min(entry.count, -delta);
+      entry.count += applied;
+      if (entry.count === 0) {
+        entries.splice(entryIndex, 1);
+        distinctChange = -1;
+      }
+    }
+
+    if (entries.length === 0) {
+      if (existing) runs.splice(index, 1);
+    } else if (existing) {
+      existing.values = encodeRun(entries, this.rbits);
+    } else {
+      runs.splice(index, 0, { quotient, values: encodeRun(entries, this.rbits) });
+    }
+
+    let layout = this.layout(start, runs);
+    // A growing span can run into the next one; absorb it so its runs shift too.
+    let next = nextSetBit(this.occupieds, oldEnd + 1, this.nslots);
+    while (next !== -1 && next <= layout.end) {
+      const following = this.readSpan(next);
+      for (const run of following.runs) {
+        runs.push(run);
+        oldUsed += run.values.length;
+      }
+      oldEnd = following.end;
+      layout = this.layout(start, runs);
+      next = nextSetBit(this.occupieds, oldEnd + 1, this.nslots);
+    }
+
+    if (layout.end >= this.xnslots) {
+      throw new CqfFullError(`CQF is full: no free slot after position ${start}`);
+    }
+
+    if (entries.length === 0) clearBit(this.occupieds, quotient);
+    this.write(start, Math.max(oldEnd, layout.end), runs, layout);
+
+    this.nusedSlots += runs.reduce((n, run) => n + run.values.length, 0) - oldUsed;
+    this.nelts += applied;
+    this.ndistinct += distinctChange;
+    return applied;
+  }
+
+  private layout(start: number, runs: Run[]): Layout {
+    const starts: number[] = [];
+    let cursor = start;
+    for (const run of runs) {
+      const runStart = Math.max(run.quotient, cursor);
+      starts.push(runStart);
+      cursor = runStart + run.values.length;
+    }
+    return { starts, end: cursor - 1 };
+  }
+
+  /** Clears [start, clearEnd], writes `runs` there and fixes block offsets. */
+  private write(start: number, clearEnd: number, runs: Run[], layout: Layout): void {
+    this.slots.fill(0, start, clearEnd + 1);
+    for (let i = start; i <= clearEnd; i++) clearBit(this.runends, i);
+
+    runs.forEach((run, i) => {
+      const runStart = layout.starts[i];
+      this.slots.set(run.values, runStart);
+      setBit(this.runends, runStart + run.values.length - 1);
+      setBit(this.occupieds, run.quotient);
+    });
+
+    // Offset of a block = how far runs of earlier quotients spill into it.
+    let runIndex = -1;
+    const firstBlock = Math.floor(start / BLOCK_SLOTS) + 1;
+    const lastBlock = Math.min(Math.floor((clearEnd + 1) / BLOCK_SLOTS), this.offsets.length - 1);
+    for (let block = firstBlock; block <= lastBlock; block++) {
+      const blockStart = block * BLOCK_SLOTS;
+      while (runIndex + 1 < runs.length && runs[runIndex + 1].quotient < blockStart) runIndex++;
+      if (runIndex === -1) {
+        this.offsets[block] = 0;
+        continue;
+      }
+      const runEnd = layout.starts[runIndex] + runs[runIndex].values.length - 1;
+      this.offsets[block] = Math.max(0, runEnd + 1 - blockStart);
+    }
+  }
+}
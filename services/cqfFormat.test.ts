@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { CountingQuotientFilter } from './cqfEngine';
+import { deserializeFilter, serializeFilter } from './cqfFormat';
+import { FilterProvenance } from '../types';
+
+const provenance: FilterProvenance = {
+  filterName: 'users',
+  tableName: 'users',
+  keySource: { kind: 'primaryKey', columns: ['id'] },
+  where: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  keyEncoding: { affinities: ['numeric'], trim: false, caseFold: false }
+};
+
+const filled = (params: ConstructorParameters<typeof CountingQuotientFilter>[0]) => {
+  const filter = new CountingQuotientFilter(params);
+  for (let i = 0; i < 100; i++) filter.insert(`user-${i}`, 1 + (i % 7));
+  return filter;
+};
+
+describe('.cqf format', () => {
+  it.each([
+    { qbits: 8, rbits: 8 },
+    { qbits: 9, rbits: 12, hash: 'xxhash64' as const, seed: 42 },
+    { qbits: 8, rbits: 20, seed: 0xffffffff }
+  ])('round-trips a filter with %o', params => {
+    const filter = filled(params);
+    const read = deserializeFilter(serializeFilter(filter, provenance));
+    expect(read.provenance).toEqual(provenance);
+    expect(read.filter.snapshot()).toEqual(filter.snapshot());
+    expect([...read.filter.entries()]).toEqual([...filter.entries()]);
+    expect(read.filter.count('user-6')).toBe(filter.count('user-6'));
+  });
+
+  it('rejects files that are not filters', () => {
+    const buffer = serializeFilter(filled({ qbits: 8, rbits: 8 }), provenance);
+    new Uint8Array(buffer)[0] = 0x58;
+    expect(() => deserializeFilter(buffer)).toThrow(/bad magic/);
+    expect(() => deserializeFilter(new ArrayBuffer(10))).toThrow(/too short/);
+  });
+
+  it('rejects other format versions', () => {
+    const buffer = serializeFilter(filled({ qbits: 8, rbits: 8 }), provenance);
+    new DataView(buffer).setUint16(4, 99, true);
+    expect(() => deserializeFilter(buffer)).toThrow(/version 99/);
+  });
+});
@@ -0,0 +1,167 @@
+import { CountingQuotientFilter } from './cqfEngine';
+import { FilterProvenance, HashFunction } from '../types';
+
+/**
+ * Binary filter file format (version 1). All integers are little-endian.
+ *
+ *   offset  size  field
+ *   0       4     magic "CQFF"
+ *   4       2     format version
+ *   6       1     hash function id (1 = MurmurHash3_x86_128, low 64 bits; 2 = xxHash64)
+ *   7       1     bytes per slot (1, 2 or 4)
+ *   8       1     quotient bits
+ *   9       1     remainder bits
+ *   10      2     reserved (0)
+ *   12      4     hash seed
+ *   16      8     total count (u64)
+ *   24      8     distinct fingerprints (u64)
+ *   32      8     used slots (u64)
+ *   40      4     xnslots (total slots, including overflow)
+ *   44      4     provenance length in bytes
+ *   48      n     provenance, UTF-8 JSON
+ *   ...           zero padding to a multiple of 8
+ *                 slots      xnslots * bytes per slot
+ *                 occupieds  xnslots / 8 bytes
+ *                 runends    xnslots / 8 bytes
+ *                 offsets    xnslots / 64 * 4 bytes (u32 per 64-slot block)
+ */
+
+export const CQF_FILE_EXTENSION = '.cqf';
+export const CQF_FORMAT_VERSION = 1;
+
+const MAGIC = 'CQFF';
+const HEADER_BYTES = 48;
+// Hash function ids, shared with the fingerprint key file format
+export const HASH_FUNCTION_IDS: Record<HashFunction, number> = { murmur3: 1, xxhash64: 2 };
+
+export const hashFunctionForId = (id: number): HashFunction => {
+  const hash = (Object.keys(HASH_FUNCTION_IDS) as HashFunction[]).find(fn => HASH_FUNCTION_IDS[fn] === id);
+  if (!hash) throw new Error(`Unsupported hash function id ${id}`);
+  return hash;
+};
+
+const align8 = (n: number) => Math.ceil(n / 8) * 8;
+
+const writeArray = (view: DataView, offset: number, values: ArrayLike<number>, width: number): number => {
+  for (let i = 0; i < values.length; i++) {
+    const at = offset + i * width;
+    if (width === 1) view.setUint8(at, values[i]);
+    else if (width === 2) view.setUint16(at, values[i], true);
+    else view.setUint32(at, values[i], true);
+  }
+  return offset + values.length * width;
+};
+
+const readArray = <T extends Uint8Array | Uint16Array | Uint32Array>(
+  view: DataView, offset: number, target: T, width: number
+): T => {
+  if (offset + target.length * width > view.byteLength) {
+    throw new Error('Corrupt filter file: unexpected end of data');
+  }
+  for (let i = 0; i < target.length; i++) {
+    const at = offset + i * width;
+    target[i] = width === 1 ? view.getUint8(at) : width === 2 ? view.getUint16(at, true) : view.getUint32(at, true);
+  }
+  return target;
+};
+
+const slotArray = (length: number, width: number) =>
+  width === 1 ? new Uint8Array(length) : width === 2 ? new Uint16Array(length) : new Uint32Array(length);
+
+export const serializeFilter = (filter: CountingQuotientFilter, provenance: FilterProvenance): ArrayBuffer => {
+  const snapshot = filter.snapshot();
+  const slotBytes = snapshot.slots.BYTES_PER_ELEMENT;
+  const provenanceBytes = new TextEncoder().encode(JSON.stringify(provenance));
+  const dataStart = align8(HEADER_BYTES + provenanceBytes.length);
+  const totalBytes = dataStart
+    + filter.xnslots * slotBytes
+    + snapshot.occupieds.byteLength
+    + snapshot.runends.byteLength
+    + snapshot.offsets.byteLength;
+
+  const buffer = new ArrayBuffer(totalBytes);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint16(4, CQF_FORMAT_VERSION, true);
+  view.setUint8(6, HASH_FUNCTION_IDS[snapshot.hash]);
+  view.setUint8(7, slotBytes);
+  view.setUint8(8, snapshot.qbits);
+  view.setUint8(9, snapshot.rbits);
+  view.setUint32(12, snapshot.seed, true);
+  view.setBigUint64(16, BigInt(snapshot.nelts), true);
+  view.setBigUint64(24, BigInt(snapshot.ndistinct), true);
+  view.setBigUint64(32, BigInt(snapshot.nusedSlots), true);
+  view.setUint32(40, filter.xnslots, true);
+  view.setUint32(44, provenanceBytes.length, true);
+  new Uint8Array(buffer, HEADER_BYTES, provenanceBytes.length).set(provenanceBytes);
+
+  let offset = writeArray(view, dataStart, snapshot.slots, slotBytes);
+  offset = writeArray(view, offset, snapshot.occupieds, 4);
+  offset = writeArray(view, offset, snapshot.runends, 4);
+  writeArray(view, offset, snapshot.offsets, 4);
+
+  return buffer;
+};
+
+// Files written before key sources existed record only the key columns of the PK
+const readProvenance = (raw: any): FilterProvenance => {
+  if (raw.keySource !== undefined) return raw;
+  const columns: string[] = raw.columns ?? [];
+  return {
+    filterName: raw.tableName,
+    tableName: raw.tableName,
+    keySource: columns.length > 0 ? { kind: 'primaryKey', columns } : null,
+    where: null,
+    createdAt: raw.createdAt
+  };
+};
+
+export const deserializeFilter = (buffer: ArrayBuffer): { filter: CountingQuotientFilter; provenance: FilterProvenance } => {
+  if (buffer.byteLength < HEADER_BYTES) throw new Error('Not a CQF filter file: too short');
+  const view = new DataView(buffer);
+
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (magic !== MAGIC) throw new Error('Not a CQF filter file: bad magic');
+
+  const version = view.getUint16(4, true);
+  if (version !== CQF_FORMAT_VERSION) {
+    throw new Error(`Unsupported CQF format version ${version} (expected ${CQF_FORMAT_VERSION})`);
+  }
+  const hash = hashFunctionForId(view.getUint8(6));
+
+  const slotBytes = view.getUint8(7);
+  const qbits = view.getUint8(8);
+  const rbits = view.getUint8(9);
+  const seed = view.getUint32(12, true);
+  const nelts = Number(view.getBigUint64(16, true));
+  const ndistinct = Number(view.getBigUint64(24, true));
+  const nusedSlots = Number(view.getBigUint64(32, true));
+  const xnslots = view.getUint32(40, true);
+  const provenanceLength = view.getUint32(44, true);
+
+  if (HEADER_BYTES + provenanceLength > buffer.byteLength) {
+    throw new Error('Corrupt filter file: unexpected end of data');
+  }
+  const provenance = readProvenance(
+    JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, provenanceLength)))
+  );
+
+  if (xnslots !== CountingQuotientFilter.totalSlotsFor(qbits) || slotBytes !== CountingQuotientFilter.slotBytesFor(rbits)) {
+    throw new Error('Corrupt filter file: slot layout does not match q/r bits');
+  }
+
+  let offset = align8(HEADER_BYTES + provenanceLength);
+  const slots = readArray(view, offset, slotArray(xnslots, slotBytes), slotBytes);
+  offset += xnslots * slotBytes;
+  const occupieds = readArray(view, offset, new Uint32Array(xnslots / 32), 4);
+  offset += occupieds.byteLength;
+  const runends = readArray(view, offset, new Uint32Array(xnslots / 32), 4);
+  offset += runends.byteLength;
+  const offsets = readArray(view, offset, new Uint32Array(xnslots / 64), 4);
+
+  const filter = CountingQuotientFilter.fromSnapshot({
+    qbits, rbits, hash, seed, nelts, ndistinct, nusedSlots, slots, occupieds, runends, offsets
+  });
+  return { filter, provenance };
+};
@@ -1,52 +1,244 @@
 /**
- * This service simulates the backend CQF builder and operations.
- * In a real scenario, these functions would make fetch() calls to the backend API.
+ * Entry point for filter operations used by the UI. Calls are forwarded to the
+ * active backend: the in-browser engine (default) or a remote server speaking
+ * the REST API in httpBackend.ts. Switching backends does not move filters.
  */
+import { CqfBackend, BuildResult, InsertResult, DeleteResult, ImportResult } from './cqfBackend';
+import { createWorkerBackend } from './workerBackend';
+import { createHttpBackend } from './httpBackend';
+import { callWorker, JobOptions } from './dbWorkerClient';
+import { countKeys, streamKeys } from './dbService';
+import {
+  BackendConfig, BackendStatus, BatchOp, BenchmarkOptions, BenchmarkResult, BatchProgress, BatchRun, CqfFilterState, FilterComparison, FilterSource, FingerprintListing,
+  FpProbeResult, JournalEntry, JournalReplay, KeyHashing, KeyLocation, ResizePolicy, SetOperation, SlotLayoutStats, SlotWindow
+} from '../types';
 
-// Simulating a backend store map: tableName -> Set<string>
-const mockBackendStore: Map<string, Set<string>> = new Map();
+// Kept across switches so in-browser filters survive a round trip to HTTP mode
+const localBackend = createWorkerBackend();
+let backend: CqfBackend = localBackend;
+let backendConfig: BackendConfig = { kind: 'local' };
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export const getBackendConfig = (): BackendConfig => backendConfig;
 
-export const buildCQF = async (tableName: string, keys: string[]): Promise<{ success: boolean; message: string }> => {
-  await delay(1500); // Simulate network latency
-  
-  // Initialize the "filter" in our mock backend
-  mockBackendStore.set(tableName, new Set(keys));
-  
+export const setBackend = (config: BackendConfig) => {
+  backendConfig = config;
+  backend = config.kind === 'local'
+    ? localBackend
+    : createHttpBackend({ baseUrl: config.baseUrl, timeoutMs: config.timeoutMs });
+};
+
+export const checkBackendConnection = async (): Promise<BackendStatus> => {
+  const started = performance.now();
+  try {
+    await backend.ping();
+    return { state: 'connected', label: backend.label, latencyMs: performance.now() - started };
+  } catch (error: any) {
+    return { state: 'disconnected', label: backend.label, error: error.message };
+  }
+};
+
+export const listCQFs = (): Promise<string[]> => backend.listFilters();
+
+/**
+ * Builds (or rebuilds) the filter `filterName` from `keys`. A table can hold
+ * several filters, so the name is independent of `source.tableName`.
+ */
+export const buildCQF = async (filterName: string, keys: string[], source: FilterSource, hashing: KeyHashing): Promise<BuildResult> => {
+  return backend.build(filterName, keys, source, hashing);
+};
+
+/**
+ * Builds (or rebuilds) `filterName` from the keys of `source` in the loaded
+ * database. The in-browser backend builds inside the database worker, so the
+ * keys never reach the page. Other backends are sent the keys a chunk at a
+ * time: the first chunk as a build sized for every row, the rest as batch
+ * inserts. A server's filter is therefore replaced by the first chunk, and a
+ * build cancelled or failing after it leaves the keys sent so far.
+ */
+export const buildCQFFromSource = async (
+  filterName: string,
+  source: FilterSource,
+  hashing: KeyHashing,
+  options: JobOptions = {}
+): Promise<BuildResult> => {
+  if (backend === localBackend) return callWorker('buildFilter', [filterName, source, hashing], options);
+  const expectedKeys = await countKeys(source);
+  let keyCount = 0;
+  for await (const keys of streamKeys(source, 'Rows scanned and sent', options)) {
+    if (keyCount === 0) await backend.build(filterName, keys, source, hashing, expectedKeys);
+    else {
+      const { results } = await backend.batch(filterName, 'insert', keys, 1);
+      const failed = results.find(r => !r.ok);
+      if (failed) throw new Error(`Failed to insert keys after the first ${keyCount}: ${failed.error}`);
+    }
+    keyCount += keys.length;
+  }
+  if (keyCount === 0) return backend.build(filterName, [], source, hashing);
+  const stats = await backend.stats(filterName);
   return {
     success: true,
-    message: `CQF built successfully for ${tableName} with ${keys.length} keys.`
+    message: `CQF built successfully for ${filterName} with ${keyCount} keys (2^${stats.quotientBits} slots, ${stats.remainderBits}-bit remainders).`
   };
 };
 
-export const searchCQF = async (tableName: string, key: string): Promise<{ found: boolean }> => {
-  await delay(300); // Fast lookup
-  const set = mockBackendStore.get(tableName);
-  if (!set) throw new Error("Filter not built for this table");
-  
-  return { found: set.has(key) };
+// Benchmarks are run in the worker, next to the keys, whichever backend holds the filters
+export const runFilterBenchmark = async (
+  source: FilterSource,
+  label: string,
+  benchmarkOptions: BenchmarkOptions,
+  options: JobOptions = {}
+): Promise<BenchmarkResult> => {
+  return callWorker('benchmarkFilters', [source, label, benchmarkOptions], options);
+};
+
+/**
+ * Rebuilds `filter` from its source in the worker, apart from the filters in
+ * use, and replays the entries of `journal` recorded since its last build
+ * (see journal.ts). Needs the filter's source database to be loaded.
+ */
+export const replayJournalCQF = async (
+  filterName: string,
+  filter: CqfFilterState,
+  journal: JournalEntry[],
+  options: JobOptions = {}
+): Promise<JournalReplay> => {
+  if (!filter.source.keySource) throw new Error(`Filter '${filterName}' has no key source to rebuild it from`);
+  return callWorker('replayJournal', [filterName, filter.source, filter.hashing, filter.resizePolicy, journal], options);
 };
 
-export const insertCQF = async (tableName: string, key: string): Promise<{ success: boolean }> => {
-  await delay(500);
-  const set = mockBackendStore.get(tableName);
-  if (!set) throw new Error("Filter not built for this table");
-  
-  set.add(key);
-  return { success: true };
+export const searchCQF = async (filterName: string, key: string): Promise<{ found: boolean }> => {
+  return backend.search(filterName, key);
+};
+
+export const insertCQF = async (filterName: string, key: string, count: number = 1): Promise<InsertResult> => {
+  return backend.insert(filterName, key, count);
+};
+
+// Decrements the key's multiplicity; the key disappears once it reaches zero.
+export const deleteCQF = async (filterName: string, key: string, count: number = 1): Promise<DeleteResult> => {
+  return backend.remove(filterName, key, count);
+};
+
+// Estimated multiplicity: never below the true count, above it only on a fingerprint collision.
+export const countCQF = async (filterName: string, key: string): Promise<{ count: number }> => {
+  return backend.count(filterName, key);
+};
+
+// Keys per backend call; keeps HTTP bodies bounded and lets the UI repaint between chunks
+const BATCH_CHUNK_SIZE = 5000;
+
+/**
+ * Runs `op` over all keys in chunks, reporting progress after each one.
+ * Per-key failures (e.g. "CQF is full") are recorded in the results; a failed
+ * request (unreachable backend, unknown filter, seed mismatch) rejects the
+ * whole run. `hashing` marks the keys as key hashes from a fingerprint file.
+ */
+export const batchCQF = async (
+  filterName: string,
+  op: BatchOp,
+  keys: string[],
+  count: number = 1,
+  onProgress?: (progress: BatchProgress) => void,
+  hashing: KeyHashing | null = null
+): Promise<BatchRun> => {
+  const started = performance.now();
+  const results: BatchRun['results'] = [];
+  const resizes: BatchRun['resizes'] = [];
+  for (let i = 0; i < keys.length; i += BATCH_CHUNK_SIZE) {
+    const chunk = await backend.batch(filterName, op, keys.slice(i, i + BATCH_CHUNK_SIZE), count, hashing);
+    results.push(...chunk.results);
+    resizes.push(...chunk.resizes);
+    onProgress?.({ done: results.length, total: keys.length });
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const failed = results.filter(r => !r.ok).length;
+  const found = results.filter(r => r.ok && r.found).length;
+  return {
+    filterName,
+    op,
+    keys,
+    hashing,
+    results,
+    resizes,
+    found,
+    notFound: results.length - found - failed,
+    failed,
+    elapsedMs: performance.now() - started
+  };
+};
+
+// Takes effect from the next insert; returns the updated stats
+export const setResizePolicyCQF = async (filterName: string, policy: ResizePolicy): Promise<CqfFilterState> => {
+  return backend.setResizePolicy(filterName, policy);
+};
+
+export const getCQFStats = async (filterName: string): Promise<CqfFilterState> => {
+  return backend.stats(filterName);
+};
+
+/**
+ * Queries keys the caller has verified to be absent from the source table and
+ * records the fraction the filter reports as present.
+ */
+export const probeCQF = async (filterName: string, absentKeys: string[]): Promise<FpProbeResult> => {
+  return backend.probe(filterName, absentKeys);
+};
+
+/**
+ * Saves `op` of filters `filterA` and `filterB` as `targetName`, replacing any
+ * filter of that name. Both must share a hash seed; when their fingerprint
+ * lengths differ the longer fingerprints are truncated to the shorter, so the
+ * result has the shorter filter's length and its false-positive rate, about
+ * n / 2^fingerprintBits for n distinct fingerprints.
+ */
+export const combineCQFs = async (filterA: string, filterB: string, op: SetOperation, targetName: string): Promise<BuildResult> => {
+  return backend.combine(filterA, filterB, op, targetName);
+};
+
+// Exact fingerprint overlap plus collision-corrected estimates of the key overlap
+export const compareCQFs = async (filterA: string, filterB: string): Promise<FilterComparison> => {
+  return backend.compare(filterA, filterB);
+};
+
+// Fingerprints stored in `filterA` but not `filterB`; keys cannot be recovered from them
+export const listMissingFingerprints = async (filterA: string, filterB: string, limit: number): Promise<FingerprintListing> => {
+  return backend.missing(filterA, filterB, limit);
+};
+
+// Slots [from, from + count) of a filter's slot array, for the slot visualizer
+export const getSlotWindow = async (filterName: string, from: number, count: number): Promise<SlotWindow> => {
+  return backend.slotWindow(filterName, from, count);
+};
+
+// Home slot, run and cluster of `key`, and the slots holding it if it is stored
+export const locateKey = async (filterName: string, key: string): Promise<KeyLocation> => {
+  return backend.locate(filterName, key);
+};
+
+// Run and cluster length histograms of a filter
+export const getSlotLayout = async (filterName: string): Promise<SlotLayoutStats> => {
+  return backend.slotLayout(filterName);
+};
+
+// Serializes a built filter into the binary .cqf format (see cqfFormat.ts)
+export const exportCQF = async (filterName: string): Promise<ArrayBuffer> => {
+  return backend.exportFilter(filterName);
+};
+
+/**
+ * Loads a .cqf file and registers it under the filter name it was saved with,
+ * replacing any filter already held for that name. No database is needed.
+ */
+export const importCQF = async (buffer: ArrayBuffer): Promise<ImportResult> => {
+  return backend.importFilter(buffer);
 };
 
-export const deleteCQF = async (tableName: string, key: string): Promise<{ success: boolean }> => {
-  await delay(500);
-  const set = mockBackendStore.get(tableName);
-  if (!set) throw new Error("Filter not built for this table");
-  
-  const deleted = set.delete(key);
-  return { success: deleted };
+// Random keys for FP probes; callers still have to drop any that exist in the table.
+export const generateProbeKeys = (count: number): string[] => {
+  const prefix = `fp-probe-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return Array.from({ length: count }, (_, i) => `${prefix}-${i}`);
 };
 
-// Helper to generate text file content
-export const generatePKFileContent = (keys: string[]): string => {
-  return keys.join('\n');
-};
\ No newline at end of file
+// The whole benchmark result, options and measurements included
+export const generateBenchmarkJson = (result: BenchmarkResult): string => JSON.stringify(result, null, 2);
@@ -0,0 +1,143 @@
+import { hash64, encodeUtf8 } from './hash';
+
+/**
+ * Cuckoo filter (Fan et al., CoNEXT '14) with 4-entry buckets and partial-key
+ * cuckoo hashing: a key's fingerprint may sit in bucket i1 = h(key) or
+ * i2 = i1 xor h(fingerprint), so either bucket can be found from the other
+ * when an entry is kicked out. Fingerprints are never 0, which marks an empty
+ * entry. An insert that finds no room after MAX_KICKS relocations keeps the
+ * last displaced fingerprint as a victim and leaves the filter full.
+ */
+
+const BUCKET_ENTRIES = 4;
+const MAX_KICKS = 500;
+// Load a filter is sized for; cuckoo filters with 4-entry buckets fill to about 95%
+const TARGET_LOAD = 0.95;
+
+export class CuckooFilter {
+  readonly bucketCount: number;
+  readonly fingerprintBits: number;
+  private entries: Uint8Array | Uint16Array | Uint32Array;
+  private victim: { bucket: number; fingerprint: number } | null = null;
+  private count = 0;
+
+  constructor(bucketCount: number, fingerprintBits: number) {
+    if (!Number.isInteger(Math.log2(bucketCount))) throw new Error(`Cuckoo bucket count must be a power of two: ${bucketCount}`);
+    if (!Number.isInteger(fingerprintBits) || fingerprintBits < 1 || fingerprintBits > 32) {
+      throw new Error(`Invalid cuckoo fingerprint bits: ${fingerprintBits} (expected 1-32)`);
+    }
+    this.bucketCount = bucketCount;
+    this.fingerprintBits = fingerprintBits;
+    const size = bucketCount * BUCKET_ENTRIES;
+    this.entries = fingerprintBits <= 8 ? new Uint8Array(size) : fingerprintBits <= 16 ? new Uint16Array(size) : new Uint32Array(size);
+  }
+
+  /** Smallest filter holding `expectedItems` at TARGET_LOAD, with f = log2(2b / p) fingerprint bits for `fpRate`. */
+  static forCapacity(expectedItems: number, fpRate: number): CuckooFilter {
+    const buckets = Math.max(1, Math.ceil(expectedItems / (BUCKET_ENTRIES * TARGET_LOAD)));
+    const fingerprintBits = Math.min(32, Math.max(1, Math.ceil(Math.log2((2 * BUCKET_ENTRIES) / fpRate))));
+    return new CuckooFilter(2 ** Math.ceil(Math.log2(buckets)), fingerprintBits);
+  }
+
+  /** False if the filter is full; the key is then not stored. */
+  insert(key: string): boolean {
+    if (this.victim) return false;
+    const { fingerprint, bucket } = this.locate(key);
+    if (this.place(bucket, fingerprint) || this.place(this.altBucket(bucket, fingerprint), fingerprint)) {
+      this.count++;
+      return true;
+    }
+
+    let current = Math.random() < 0.5 ? bucket : this.altBucket(bucket, fingerprint);
+    let displaced = fingerprint;
+    for (let kick = 0; kick < MAX_KICKS; kick++) {
+      const slot = current * BUCKET_ENTRIES + Math.floor(Math.random() * BUCKET_ENTRIES);
+      const evicted = this.entries[slot];
+      this.entries[slot] = displaced;
+      displaced = evicted;
+      current = this.altBucket(current, displaced);
+      if (this.place(current, displaced)) {
+        this.count++;
+        return true;
+      }
+    }
+    // The new key is stored; the fingerprint left over is kept aside so no stored key is lost
+    this.victim = { bucket: current, fingerprint: displaced };
+    this.count++;
+    return true;
+  }
+
+  contains(key: string): boolean {
+    const { fingerprint, bucket } = this.locate(key);
+    const alt = this.altBucket(bucket, fingerprint);
+    if (this.victim && this.victim.fingerprint === fingerprint && (this.victim.bucket === bucket || this.victim.bucket === alt)) {
+      return true;
+    }
+    return this.find(bucket, fingerprint) !== -1 || this.find(alt, fingerprint) !== -1;
+  }
+
+  /** Removes one copy of the key's fingerprint; false if there is none. */
+  remove(key: string): boolean {
+    const { fingerprint, bucket } = this.locate(key);
+    const alt = this.altBucket(bucket, fingerprint);
+    if (this.victim && this.victim.fingerprint === fingerprint && (this.victim.bucket === bucket || this.victim.bucket === alt)) {
+      this.victim = null;
+      this.count--;
+      return true;
+    }
+    for (const b of [bucket, alt]) {
+      const slot = this.find(b, fingerprint);
+      if (slot === -1) continue;
+      this.entries[slot] = 0;
+      this.count--;
+      // A freed entry makes room for the victim again
+      if (this.victim) {
+        const { bucket: victimBucket, fingerprint: victimFingerprint } = this.victim;
+        if (this.place(victimBucket, victimFingerprint) || this.place(this.altBucket(victimBucket, victimFingerprint), victimFingerprint)) {
+          this.victim = null;
+        }
+      }
+      return true;
+    }
+    return false;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get sizeInBytes(): number {
+    return this.entries.byteLength;
+  }
+
+  private locate(key: string) {
+    const { hi, lo } = hash64(encodeUtf8(key), 0);
+    const mask = this.fingerprintBits === 32 ? 0xffffffff : 2 ** this.fingerprintBits - 1;
+    // High bits for the fingerprint, low bits for the bucket, so the two are independent
+    const fingerprint = (hi & mask) >>> 0 || 1;
+    return { fingerprint, bucket: lo & (this.bucketCount - 1) };
+  }
+
+  private altBucket(bucket: number, fingerprint: number): number {
+    return (bucket ^ Math.imul(fingerprint, 0x5bd1e995)) & (this.bucketCount - 1);
+  }
+
+  private place(bucket: number, fingerprint: number): boolean {
+    const start = bucket * BUCKET_ENTRIES;
+    for (let slot = start; slot < start + BUCKET_ENTRIES; slot++) {
+      if (this.entries[slot] === 0) {
+        this.entries[slot] = fingerprint;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private find(bucket: number, fingerprint: number): number {
+    const start = bucket * BUCKET_ENTRIES;
+    for (let slot = start; slot < start + BUCKET_ENTRIES; slot++) {
+      if (this.entries[slot] === fingerprint) return slot;
+    }
+    return -1;
+  }
+}
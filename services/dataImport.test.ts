@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { inferColumnType, primaryKeyProblem, readDataFile } from './dataImport';
+import { ImportColumnType, ImportTablePlan } from '../types';
+
+const plan = (type: ImportColumnType, values: unknown[]): ImportTablePlan => ({
+  fileName: 'keys.csv',
+  format: 'csv',
+  tableName: 'keys',
+  columns: [{ name: 'k', type, inferredType: type }],
+  primaryKey: null,
+  rows: values.map(value => [value])
+});
+
+describe('column types', () => {
+  it('infers the narrowest type every value fits', () => {
+    expect(inferColumnType(['1', '-2', null, 3])).toBe('INTEGER');
+    expect(inferColumnType(['1', '2.5', '1e3', 4.25])).toBe('REAL');
+    expect(inferColumnType(['1', 'two'])).toBe('TEXT');
+    expect(inferColumnType([new Uint8Array([1]), null])).toBe('BLOB');
+    expect(inferColumnType([new Uint8Array([1]), '1'])).toBe('TEXT');
+    expect(inferColumnType([null, null])).toBe('TEXT');
+  });
+
+  it('keeps values with leading zeros as text', () => {
+    expect(inferColumnType(['007', '1'])).toBe('TEXT');
+    expect(inferColumnType(['01.5'])).toBe('TEXT');
+    expect(inferColumnType(['0', '0.5'])).toBe('REAL');
+  });
+
+  it('reads integers beyond 2^53 as REAL', () => {
+    expect(inferColumnType(['9007199254740993'])).toBe('REAL');
+  });
+});
+
+describe('primary key rules', () => {
+  it('rejects missing and repeated values', () => {
+    expect(primaryKeyProblem(plan('TEXT', ['a', null]), 'k')).toBe('Row 2 has no k');
+    expect(primaryKeyProblem(plan('TEXT', ['a', 'b', 'a']), 'k')).toBe("Row 3 repeats k 'a'");
+    expect(primaryKeyProblem(plan('TEXT', ['a']), 'x')).toBe('No column x');
+  });
+
+  it('compares numbers as the column stores them', () => {
+    expect(primaryKeyProblem(plan('REAL', ['1', '1.0']), 'k')).toBe("Row 2 repeats k '1.0'");
+    expect(primaryKeyProblem(plan('INTEGER', ['1', 1]), 'k')).toBe("Row 2 repeats k '1'");
+    expect(primaryKeyProblem(plan('TEXT', ['1', '1.0']), 'k')).toBeNull();
+  });
+
+  it('requires integers in an INTEGER primary key', () => {
+    expect(primaryKeyProblem(plan('INTEGER', ['1', '2.5']), 'k')).toBe("Row 2: k '2.5' is not an integer");
+  });
+});
+
+describe('reading data files', () => {
+  it('pads short CSV rows with NULLs and rejects long ones', () => {
+    const read = readDataFile('users.csv', '\uFEFFid,zip,name\n1,02134,Ann\n2,10001\n3,,Cy', 'csv');
+    expect(read.rows).toEqual([['1', '02134', 'Ann'], ['2', '10001', null], ['3', null, 'Cy']]);
+    expect(read.columns.map(col => col.type)).toEqual(['INTEGER', 'TEXT', 'TEXT']);
+    expect(read).toMatchObject({ tableName: 'users', primaryKey: 'id' });
+    expect(() => readDataFile('users.csv', 'id\n1,2', 'csv')).toThrow('CSV row 1 has 2 fields; the header names 1');
+  });
+
+  it('names blank and repeated CSV columns', () => {
+    expect(readDataFile('t.csv', 'a,,A\n1,2,3', 'csv').columns.map(col => col.name)).toEqual(['a', 'column_2', 'A_2']);
+  });
+
+  it('reads {"$blob": hex} as blobs and other JSON values as SQLite values', () => {
+    const read = readDataFile('files.json', JSON.stringify([
+      { hash: { $blob: '0aff' }, ok: true, meta: { size: 1 } },
+      { hash: { $blob: '01' }, ok: false, tags: ['x'] }
+    ]), 'json');
+    expect(read.columns.map(col => [col.name, col.type])).toEqual([['hash', 'BLOB'], ['ok', 'INTEGER'], ['meta', 'TEXT'], ['tags', 'TEXT']]);
+    expect(read.rows).toEqual([
+      [new Uint8Array([10, 255]), 1, '{"size":1}', null],
+      [new Uint8Array([1]), 0, null, '["x"]']
+    ]);
+    // Blobs are never suggested as the primary key
+    expect(read.primaryKey).toBe('ok');
+  });
+
+  it('reads arrays of arrays and of values, and rejects mixed rows', () => {
+    expect(readDataFile('a.json', '[[1, "x"], [2]]', 'json').rows).toEqual([[1, 'x'], [2, null]]);
+    expect(readDataFile('v.json', '["a", {"$blob": "00"}]', 'json').columns.map(col => col.name)).toEqual(['value']);
+    expect(() => readDataFile('m.json', '[{"a": 1}, [1]]', 'json')).toThrow('Item 1: rows must all be objects, all arrays or all single values');
+    expect(() => readDataFile('e.json', '[]', 'json')).toThrow('JSON array is empty');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Data files the database upload accepts besides SQLite images:
+ *
+ *   csv   RFC 4180, first line naming the columns
+ *   json  array of objects (columns are the union of their fields, in order
+ *         of first appearance), of arrays (columns by position) or of values
+ *   sql   a dump such as `sqlite3 .dump` writes, run in an empty database
+ *
+ * CSV and JSON files are read here into an ImportTablePlan: one table named
+ * after the file, with a type inferred for each column and a suggested
+ * primary key, which the import preview lets the user change before the
+ * worker creates the table. Either way the result is an in-memory database
+ * that replaces the main one, so its tables are described, browsed and
+ * filtered like those of an uploaded .db file.
+ */
+import { DataFileFormat, ImportColumn, ImportColumnType, ImportTablePlan } from '../types';
+import { parseCsvRecords } from './keyFileFormat';
+import { hexToBytes } from './keyEncoding';
+
+export const IMPORT_COLUMN_TYPES: ImportColumnType[] = ['INTEGER', 'REAL', 'TEXT', 'BLOB'];
+
+// File types the database upload accepts
+export const DATABASE_FILE_ACCEPT = '.db,.sqlite,.sqlite3,.csv,.json,.sql';
+
+// Leading zeros make a value text (zip codes, padded ids); SQLite would drop them
+const INTEGER_PATTERN = /^[+-]?(0|[1-9]\d*)$/;
+const REAL_PATTERN = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Picks the format from the file extension; null for anything read as a SQLite image
+export const detectDataFileFormat = (fileName: string): DataFileFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.sql')) return 'sql';
+  return null;
+};
+
+// The file name without its extension, as an identifier-friendly table name
+export const importTableName = (fileName: string): string => {
+  const stem = fileName.replace(/\.[^.]*$/, '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!stem) return 'imported';
+  return /^\d/.test(stem) ? `_${stem}` : stem;
+};
+
+// What Download .db saves an imported database as
+export const importedDbFileName = (fileName: string): string => `${fileName.replace(/\.[^.]*$/, '') || 'imported'}.db`;
+
+// Blank names are numbered and repeats suffixed; SQLite compares column names case-insensitively
+const uniqueColumnNames = (names: string[]): string[] => {
+  const taken = new Set<string>();
+  return names.map((raw, i) => {
+    const base = raw.trim() || `column_${i + 1}`;
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+    taken.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const isInteger = (value: unknown): boolean =>
+  typeof value === 'number' ? Number.isSafeInteger(value)
+    : typeof value === 'string' && INTEGER_PATTERN.test(value) && Number.isSafeInteger(Number(value));
+
+const isReal = (value: unknown): boolean =>
+  typeof value === 'number' ? Number.isFinite(value) : typeof value === 'string' && REAL_PATTERN.test(value);
+
+// The narrowest type every non-NULL value fits; columns of only NULLs are TEXT
+export const inferColumnType = (values: unknown[]): ImportColumnType => {
+  const present = values.filter(value => value !== null);
+  if (present.length === 0) return 'TEXT';
+  if (present.every(value => value instanceof Uint8Array)) return 'BLOB';
+  if (present.every(isInteger)) return 'INTEGER';
+  if (present.every(isReal)) return 'REAL';
+  return 'TEXT';
+};
+
+// How values compare once stored in a column of `type`, for spotting duplicate keys
+const storedValue = (value: unknown, type: ImportColumnType): string =>
+  (type === 'INTEGER' || type === 'REAL') && isReal(value) ? String(Number(value)) : String(value);
+
+/**
+ * Why `column` cannot be the primary key of the imported table, or null if
+ * it can: every value must be present and distinct, and an INTEGER primary
+ * key aliases the rowid, so its values must be integers.
+ */
+export const primaryKeyProblem = (plan: ImportTablePlan, column: string): string | null => {
+  const index = plan.columns.findIndex(col => col.name === column);
+  if (index < 0) return `No column ${column}`;
+  const { type } = plan.columns[index];
+  const seen = new Set<string>();
+  for (let i = 0; i < plan.rows.length; i++) {
+    const value = plan.rows[i][index];
+    if (value === null) return `Row ${i + 1} has no ${column}`;
+    if (type === 'INTEGER' && !isInteger(value)) return `Row ${i + 1}: ${column} '${String(value)}' is not an integer`;
+    const stored = storedValue(value, type);
+    if (seen.has(stored)) return `Row ${i + 1} repeats ${column} '${String(value)}'`;
+    seen.add(stored);
+  }
+  return null;
+};
+
+// A column named id, else one ending in id, else the first that could be the primary key
+const suggestPrimaryKey = (plan: ImportTablePlan): string | null => {
+  const candidates = plan.columns.filter(col => col.type !== 'BLOB' && primaryKeyProblem(plan, col.name) === null);
+  if (plan.rows.length === 0 || candidates.length === 0) return null;
+  return (candidates.find(col => col.name.toLowerCase() === 'id')
+    ?? candidates.find(col => /id$/i.test(col.name))
+    ?? candidates[0]).name;
+};
+
+const planFor = (fileName: string, format: ImportTablePlan['format'], names: string[], rows: unknown[][]): ImportTablePlan => {
+  const columns: ImportColumn[] = uniqueColumnNames(names).map((name, i) => {
+    const type = inferColumnType(rows.map(row => row[i]));
+    return { name, type, inferredType: type };
+  });
+  const plan: ImportTablePlan = { fileName, format, tableName: importTableName(fileName), columns, primaryKey: null, rows };
+  return { ...plan, primaryKey: suggestPrimaryKey(plan) };
+};
+
+const readCsv = (fileName: string, content: string): ImportTablePlan => {
+  const [header, ...records] = parseCsvRecords(content.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('CSV file is empty');
+  const rows = records.map((record, i) => {
+    if (record.length > header.length) throw new Error(`CSV row ${i + 1} has ${record.length} fields; the header names ${header.length}`);
+    // Empty fields and missing trailing fields are NULL
+    return header.map((_, c) => (record[c] ?? '') === '' ? null : record[c]);
+  });
+  return planFor(fileName, 'csv', header, rows);
+};
+
+// A JSON value as a SQLite value: booleans are 0 or 1, {"$blob": hex} a blob, other objects and arrays their JSON text
+const sqlValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  const blob = typeof (value as { $blob?: unknown }).$blob === 'string' ? hexToBytes((value as { $blob: string }).$blob) : null;
+  return blob ?? JSON.stringify(value);
+};
+
+const isRecord = (item: unknown): item is Record<string, unknown> =>
+  !!item && typeof item === 'object' && !Array.isArray(item) && !('$blob' in item);
+
+const readJson = (fileName: string, content: string): ImportTablePlan => {
+  let items: unknown;
+  try {
+    items = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(items)) throw new Error('JSON file must hold an array of rows');
+  if (items.length === 0) throw new Error('JSON array is empty');
+
+  if (items.every(isRecord)) {
+    const names: string[] = [];
+    const known = new Set<string>();
+    for (const item of items) {
+      for (const name of Object.keys(item)) {
+        if (!known.has(name)) {
+          known.add(name);
+          names.push(name);
+        }
+      }
+    }
+    return planFor(fileName, 'json', names, items.map(item => names.map(name => sqlValue(item[name]))));
+  }
+  if (items.every(Array.isArray)) {
+    const width = items.reduce((max: number, item: unknown[]) => Math.max(max, item.length), 0);
+    const names = Array.from({ length: width }, (_, i) => `column_${i + 1}`);
+    return planFor(fileName, 'json', names, items.map(item => names.map((_, i) => sqlValue(item[i]))));
+  }
+  const mixed = items.findIndex(item => isRecord(item) || Array.isArray(item));
+  if (mixed >= 0) throw new Error(`Item ${mixed + 1}: rows must all be objects, all arrays or all single values`);
+  return planFor(fileName, 'json', ['value'], items.map(item => [sqlValue(item)]));
+};
+
+/** Reads a CSV or JSON file into a plan for the import preview. Malformed input is reported with its row or item. */
+export const readDataFile = (fileName: string, content: string, format: ImportTablePlan['format']): ImportTablePlan =>
+  format === 'csv' ? readCsv(fileName, content) : readJson(fileName, content);
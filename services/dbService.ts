@@ -1,83 +1,128 @@
-import { TableInfo, TableData } from '../types';
+/**
+ * Database access for the page. sql.js runs in a Web Worker (dbWorker.ts) so
+ * large files do not freeze the UI; each call here is forwarded to it. Calls
+ * that scan whole tables accept JobOptions for progress and cancellation.
+ */
+import { TableInfo, FilterSource, TableQuery, SqlRunResult, RowLocator, RowValues, KeyExportOptions, KeyHashing, SnapshotKeyProbe, ImportTablePlan } from '../types';
+import { callWorker, JobOptions } from './dbWorkerClient';
 
-let db: any = null;
+export { MAX_RESULT_ROWS, isQueryStatement } from './sqliteEngine';
+export { encodeCompositeKey, decodeCompositeKey } from './keyEncoding';
 
-export const initDatabase = async (fileBuffer: ArrayBuffer): Promise<void> => {
-  if (!window.initSqlJs) {
-    throw new Error("SQL.js not loaded");
-  }
+// Opens the file as the main database, closing every open database, and returns its tables and views
+export const initDatabase = (fileBuffer: ArrayBuffer, options?: JobOptions): Promise<TableInfo[]> =>
+  callWorker('openDatabase', [fileBuffer], options);
 
-  const SQL = await window.initSqlJs({
-    locateFile: (file) => `https://cdnjs.cloudflare.com/ajax/libs/sql.js/1.8.0/${file}`
-  });
+// Opens another file next to the main database under `id`, e.g. a second snapshot to compare; it is only read
+export const openAdditionalDatabase = (id: string, fileBuffer: ArrayBuffer, options?: JobOptions): Promise<TableInfo[]> =>
+  callWorker('openDatabase', [fileBuffer, id], options);
 
-  db = new SQL.Database(new Uint8Array(fileBuffer));
-};
+// Imports replace the main database like initDatabase. CSV and JSON files are read on the page
+// (dataImport.ts) and the worker creates the table the preview settled on; a .sql dump runs in an empty database
+export const importDataTable = (plan: ImportTablePlan, options?: JobOptions): Promise<TableInfo[]> =>
+  callWorker('importTable', [plan], options);
 
-export const getTables = (): TableInfo[] => {
-  if (!db) return [];
-
-  const result = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'");
-  if (result.length === 0) return [];
-
-  const tables = result[0].values.map((row: any[]) => row[0]);
-  
-  return tables.map((tableName: string) => {
-    // Get Row Count
-    const countResult = db.exec(`SELECT COUNT(*) FROM "${tableName}"`);
-    const rowCount = countResult[0].values[0][0];
-
-    // Get Schema to find PK
-    const schemaResult = db.exec(`PRAGMA table_info("${tableName}")`);
-    const columns = schemaResult[0].values; // [cid, name, type, notnull, dflt_value, pk]
-    
-    // Find column where pk flag is 1
-    const pkCol = columns.find((col: any[]) => col[5] === 1);
-    const pkName = pkCol ? pkCol[1] : null;
-    const allColNames = columns.map((col: any[]) => col[1]);
-
-    return {
-      name: tableName,
-      rowCount: rowCount as number,
-      pkColumn: pkName,
-      columns: allColNames
-    };
-  });
-};
+export const importSqlDump = (sql: string, options?: JobOptions): Promise<TableInfo[]> =>
+  callWorker('importSqlDump', [sql], options);
+
+export const closeAdditionalDatabase = (id: string): Promise<void> => callWorker('closeDatabase', [id]);
+
+// Tables of the main database, or of the open database `database`
+export const getTables = (database?: string): Promise<TableInfo[]> => callWorker('getTables', [database]);
+
+export const countTableRows = (table: TableInfo, filters: TableQuery['filters']): Promise<number> =>
+  callWorker('countTableRows', [table, filters]);
 
-export const getTableData = (tableName: string, limit: number = 100): TableData => {
-  if (!db) return { columns: [], rows: [] };
+// One window of rows in `table.columns` order (see sqliteEngine.getTableRows)
+export const getTableRows = (table: TableInfo, query: TableQuery): Promise<any[][]> =>
+  callWorker('getTableRows', [table, query]);
 
+// Rows `source` reads keys from, i.e. the number of keys streamKeys yields
+export const countKeys = (source: FilterSource): Promise<number> => callWorker('countKeyRows', [source]);
+
+/**
+ * One encoded key per matching row of `source`, a chunk of rows per worker
+ * call, so callers that send or probe keys need not hold them all. Progress
+ * counts rows scanned under `label`; `options` apply to every read. The
+ * worker holds back writes and exports until the stream is read to the end
+ * or abandoned, so consumers must not wait on those while reading it.
+ */
+export async function* streamKeys(source: FilterSource, label: string, options?: JobOptions): AsyncGenerator<string[]> {
+  const id = await callWorker('openKeyStream', [source, label]);
   try {
-    const result = db.exec(`SELECT * FROM "${tableName}" LIMIT ${limit}`);
-    if (result.length === 0) return { columns: [], rows: [] };
-    
-    return {
-      columns: result[0].columns,
-      rows: result[0].values
-    };
-  } catch (e) {
-    console.error("Error fetching table data", e);
-    return { columns: [], rows: [] };
+    while (true) {
+      const chunk = await callWorker('readKeyStream', [id], options);
+      if (!chunk) return;
+      yield chunk;
+    }
+  } finally {
+    await callWorker('closeKeyStream', [id]);
   }
-};
+}
+
+// The keys of `source` as a key file in the chosen format (see keyFileFormat.ts), built without holding every key in memory
+export const exportKeyFile = (source: FilterSource, exportOptions: KeyExportOptions, options?: JobOptions): Promise<Blob> =>
+  callWorker('exportKeys', [source, exportOptions], options);
+
+// Returns the subset of (encoded) `keys` that `source` would extract from the table
+export const getExistingKeys = (source: FilterSource, keys: string[]): Promise<Set<string>> =>
+  callWorker('getExistingKeys', [source, keys]);
+
+// Like getExistingKeys, using indexed lookups for column and primary-key sources
+export const lookupKeys = (source: FilterSource, keys: string[]): Promise<Set<string>> =>
+  callWorker('lookupKeys', [source, keys]);
 
-export const getPrimaryKeys = (tableName: string, pkColumn: string): string[] => {
-  if (!db) return [];
+// Plain-SQL semi-join: rows of `tableName` whose `column` appears among the keys of `source`
+export const countSemiJoin = (tableName: string, column: string, source: FilterSource): Promise<number> =>
+  callWorker('countSemiJoin', [tableName, column, source]);
+
+// Base side of a snapshot diff (see dbWorker.probeSnapshotKeys)
+export const probeSnapshotKeys = (
+  base: FilterSource,
+  target: FilterSource,
+  hashing: KeyHashing,
+  sampleSize: number,
+  options?: JobOptions
+): Promise<SnapshotKeyProbe> => callWorker('probeSnapshotKeys', [base, target, hashing, sampleSize], options);
+
+export const getRowLocator = (table: TableInfo, row: any[]): Promise<RowLocator> =>
+  callWorker('getRowLocator', [table, row]);
+
+export const getRowKeys = (source: FilterSource, locator: RowLocator): Promise<string[]> =>
+  callWorker('getRowKeys', [source, locator]);
+
+export const insertRow = (table: TableInfo, values: RowValues): Promise<RowLocator> =>
+  callWorker('insertRow', [table, values]);
+
+export const updateRow = (table: TableInfo, locator: RowLocator, values: RowValues): Promise<RowLocator> =>
+  callWorker('updateRow', [table, locator, values]);
+
+export const deleteRow = (table: TableInfo, locator: RowLocator): Promise<void> =>
+  callWorker('deleteRow', [table, locator]);
+
+/**
+ * Runs `action` inside a savepoint: its database changes are kept only if it
+ * resolves, so an edit and the work depending on it succeed or fail together.
+ * The worker starts it once running scans finish and holds back scans,
+ * exports and other savepoints until it ends. Row edits and SQL statements
+ * sent meanwhile still run inside it, and are rolled back with the action.
+ */
+export const withSavepoint = async <T>(action: () => Promise<T>): Promise<T> => {
+  await callWorker('beginSavepoint', []);
   try {
-    const result = db.exec(`SELECT "${pkColumn}" FROM "${tableName}"`);
-    if (result.length === 0) return [];
-    // Flatten the array of arrays
-    return result[0].values.map((row: any[]) => String(row[0]));
-  } catch (e) {
-    console.error("Error extracting PKs", e);
-    return [];
+    const result = await action();
+    await callWorker('releaseSavepoint', []);
+    return result;
+  } catch (error) {
+    await callWorker('rollbackSavepoint', []);
+    throw error;
   }
 };
 
-export const resetDatabase = () => {
-  if (db) {
-    db.close();
-    db = null;
-  }
-};
\ No newline at end of file
+// The current database, including edits, as SQLite file bytes. sql.js reopens the file, so it waits for scans and savepoints to end.
+export const exportDatabase = (): Promise<Uint8Array> => callWorker('exportDatabase', []);
+
+// Runs every statement in `sql` in order and stops at the first error
+export const executeSql = (sql: string): Promise<SqlRunResult> => callWorker('executeSql', [sql]);
+
+export const resetDatabase = (): Promise<void> => callWorker('closeDatabase', []);
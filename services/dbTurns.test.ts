@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createTurnScheduler, DbAccess } from './dbTurns';
+
+// Lets every settled promise run its callbacks
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('database turns', () => {
+  it('holds writes back until running scans end, and starts them together', async () => {
+    const turns = createTurnScheduler();
+    const started: string[] = [];
+    const take = (name: string, access: DbAccess) => turns.acquire(access).then(() => { started.push(name); });
+
+    take('scan 1', 'scan');
+    take('scan 2', 'scan');
+    take('write 1', 'write');
+    take('write 2', 'write');
+    // A scan asking after the writes waits behind them, though a scan turn is running
+    take('scan 3', 'scan');
+    await settle();
+    expect(started).toEqual(['scan 1', 'scan 2']);
+
+    turns.release();
+    await settle();
+    expect(started).toEqual(['scan 1', 'scan 2']);
+    turns.release();
+    await settle();
+    expect(started).toEqual(['scan 1', 'scan 2', 'write 1', 'write 2']);
+
+    turns.release();
+    turns.release();
+    await settle();
+    expect(started.at(-1)).toBe('scan 3');
+  });
+
+  it('runs exclusive calls alone', async () => {
+    const turns = createTurnScheduler();
+    const started: string[] = [];
+    const take = (name: string, access: DbAccess) => turns.acquire(access).then(() => { started.push(name); });
+
+    take('export 1', 'exclusive');
+    take('export 2', 'exclusive');
+    take('write', 'write');
+    await settle();
+    expect(started).toEqual(['export 1']);
+    turns.release();
+    await settle();
+    expect(started).toEqual(['export 1', 'export 2']);
+    turns.release();
+    await settle();
+    expect(started).toEqual(['export 1', 'export 2', 'write']);
+  });
+
+  it('holds exports and scans back while a savepoint is open, but lets its edits in', async () => {
+    const turns = createTurnScheduler();
+    const log: string[] = [];
+    await turns.beginSavepoint(() => log.push('begin'));
+
+    const exported = turns.acquire('exclusive').then(() => { log.push('export'); });
+    turns.acquire('scan').then(() => { log.push('scan'); });
+    await turns.acquire('write');
+    log.push('edit');
+    turns.release();
+    await settle();
+    expect(log).toEqual(['begin', 'edit']);
+
+    turns.endSavepoint(() => log.push('release'));
+    await exported;
+    expect(log).toEqual(['begin', 'edit', 'release', 'export']);
+    turns.release();
+    await settle();
+    expect(log.at(-1)).toBe('scan');
+  });
+
+  it('starts a savepoint only after the previous one ends, even when ending it fails', async () => {
+    const turns = createTurnScheduler();
+    const log: string[] = [];
+    await turns.beginSavepoint(() => log.push('begin 1'));
+    const second = turns.beginSavepoint(() => log.push('begin 2'));
+    await settle();
+    expect(log).toEqual(['begin 1']);
+
+    expect(() => turns.endSavepoint(() => { throw new Error('no such savepoint'); })).toThrow('no such savepoint');
+    await second;
+    expect(log).toEqual(['begin 1', 'begin 2']);
+  });
+
+  it('gives up the turn of a savepoint that fails to begin', async () => {
+    const turns = createTurnScheduler();
+    await expect(turns.beginSavepoint(() => { throw new Error('no database'); })).rejects.toThrow('no database');
+    await turns.acquire('exclusive');
+    let began = false;
+    const next = turns.beginSavepoint(() => { began = true; });
+    await settle();
+    expect(began).toBe(false);
+    turns.release();
+    await next;
+    expect(began).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Turns the database worker's calls take on the database (see dbWorker.ts).
+ * Calls overlap whenever one awaits a checkpoint; a turn keeps calls that
+ * would disturb each other apart, in the order they asked for it.
+ */
+
+/**
+ * How a method uses the database, for the turns calls take:
+ *   scan       keeps a statement open across checkpoints; scans share a turn
+ *   write      changes rows; writes share a turn, but never one with scans
+ *   exclusive  frees every statement (exports, opening and closing databases); runs alone
+ * Reads that finish in one step take no turn: nothing runs in the middle of them.
+ */
+export type DbAccess = 'scan' | 'write' | 'exclusive';
+
+export interface TurnScheduler {
+  /**
+   * Waits for a turn of `access`, behind the calls already waiting. Writes join
+   * a running write turn at once: an open savepoint holds one, and the edits
+   * made inside it must not queue behind the calls waiting for it to end.
+   */
+  acquire(access: DbAccess): Promise<void>;
+  // Ends one holder's share of the running turn and starts the calls it was holding back
+  release(): void;
+  // Runs `begin` in a write turn held until endSavepoint; the next savepoint waits for it rather than nesting in it
+  beginSavepoint(begin: () => void): Promise<void>;
+  // Runs `end` (release or rollback) and gives up the savepoint's turn, even if `end` throws
+  endSavepoint(end: () => void): void;
+}
+
+export const createTurnScheduler = (): TurnScheduler => {
+  let turnAccess: DbAccess | null = null;
+  let turnHolders = 0;
+  const turnQueue: { access: DbAccess; start: () => void }[] = [];
+
+  const sharesTurn = (access: DbAccess): boolean => turnHolders === 0 || (access === turnAccess && access !== 'exclusive');
+
+  const takeTurn = (access: DbAccess) => {
+    turnAccess = access;
+    turnHolders++;
+  };
+
+  const acquire = async (access: DbAccess): Promise<void> => {
+    if (sharesTurn(access) && (turnQueue.length === 0 || (access === 'write' && turnHolders > 0))) {
+      takeTurn(access);
+      return;
+    }
+    await new Promise<void>(start => turnQueue.push({ access, start }));
+  };
+
+  const release = () => {
+    turnHolders--;
+    while (turnQueue.length > 0 && sharesTurn(turnQueue[0].access)) {
+      const { access, start } = turnQueue.shift()!;
+      takeTurn(access);
+      start();
+    }
+  };
+
+  // Settles when the open savepoint ends
+  let savepointEnded: Promise<void> = Promise.resolve();
+  let endSavepointTurn: (() => void) | null = null;
+
+  return {
+    acquire,
+    release,
+
+    beginSavepoint: async (begin) => {
+      const previous = savepointEnded;
+      let ended!: () => void;
+      savepointEnded = new Promise(resolve => { ended = resolve; });
+      await previous;
+      await acquire('write');
+      try {
+        begin();
+      } catch (error) {
+        release();
+        ended();
+        throw error;
+      }
+      endSavepointTurn = () => {
+        release();
+        ended();
+      };
+    },
+
+    endSavepoint: (end) => {
+      try {
+        end();
+      } finally {
+        endSavepointTurn?.();
+        endSavepointTurn = null;
+      }
+    }
+  };
+};
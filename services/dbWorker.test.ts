@@ -0,0 +1,80 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import * as sqlite from './sqliteEngine';
+import type { DbWorkerMethod, DbWorkerRequest, DbWorkerResponse } from './dbWorkerProtocol';
+import { FilterSource } from '../types';
+
+// The worker's global scope; the worker installs its message handler on import
+const scope: { onmessage: ((event: { data: DbWorkerRequest }) => void) | null; postMessage(message: DbWorkerResponse): void } = {
+  onmessage: null,
+  postMessage: message => {
+    if (message.kind === 'progress') return;
+    const call = calls.get(message.id)!;
+    calls.delete(message.id);
+    if (message.kind === 'result') call.resolve(message.value);
+    else call.reject(new Error(message.message));
+  }
+};
+vi.stubGlobal('self', scope);
+await import('./dbWorker');
+
+const calls = new Map<number, { resolve(value: unknown): void; reject(error: Error): void }>();
+let nextId = 1;
+
+const callWorker = (method: DbWorkerMethod, args: unknown[]): Promise<any> => new Promise((resolve, reject) => {
+  const id = nextId++;
+  calls.set(id, { resolve, reject });
+  scope.onmessage!({ data: { kind: 'call', id, method, args } });
+});
+
+// Resolves to whether `promise` settled within a few turns of the event loop
+const settles = async (promise: Promise<unknown>): Promise<boolean> => {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setTimeout(resolve, 0));
+  return settled;
+};
+
+const source: FilterSource = { tableName: 'n', keySource: { kind: 'column', column: 'v' }, where: null };
+
+beforeAll(async () => {
+  const require = createRequire(import.meta.url);
+  const dir = path.dirname(require.resolve('sql.js/dist/sql-wasm.js'));
+  const SQL = await require(path.join(dir, 'sql-wasm.js'))({ wasmBinary: await readFile(path.join(dir, 'sql-wasm.wasm')) });
+  sqlite.createDatabase(SQL);
+  sqlite.executeSql(`
+    CREATE TABLE n(v INTEGER);
+    WITH RECURSIVE c(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM c WHERE i < 25000) INSERT INTO n SELECT i FROM c;
+  `);
+});
+
+describe('key streams', () => {
+  it('hold exports back until a stream read in part is closed', async () => {
+    const id = await callWorker('openKeyStream', [source, 'Reading keys']);
+    expect(await callWorker('readKeyStream', [id])).toHaveLength(10000);
+
+    const exported = callWorker('exportDatabase', []);
+    expect(await settles(exported)).toBe(false);
+    await callWorker('closeKeyStream', [id]);
+    expect(await exported).toBeInstanceOf(Uint8Array);
+    await expect(callWorker('readKeyStream', [id])).rejects.toThrow(`Key stream ${id} is not open`);
+  });
+
+  it('give up their turn when a read fails', async () => {
+    const id = await callWorker('openKeyStream', [{ ...source, where: 'no_such_column > 0' }, 'Reading keys']);
+    const edited = callWorker('executeSql', ['DELETE FROM n WHERE v > 20000']);
+    expect(await settles(edited)).toBe(false);
+
+    await expect(callWorker('readKeyStream', [id])).rejects.toThrow(/no such column/);
+    expect((await edited).error).toBeNull();
+  });
+
+  it('give up their turn once read to the end', async () => {
+    const id = await callWorker('openKeyStream', [{ ...source, where: 'v <= 3' }, 'Reading keys']);
+    expect(await callWorker('readKeyStream', [id])).toEqual(['1', '2', '3']);
+    expect(await callWorker('readKeyStream', [id])).toBeNull();
+    expect(await settles(callWorker('exportDatabase', []))).toBe(true);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Database worker: owns the sql.js database and the in-browser filter backend
+ * so long scans and builds do not block the page. Methods receive a
+ * JobContext first; the ones that loop over rows report progress and stop at
+ * a checkpoint when the page cancels them. See dbWorkerProtocol.ts.
+ *
+ * Calls overlap whenever one awaits a checkpoint, so each method that needs
+ * the database to itself for a while takes a turn of the kind in DB_ACCESS
+ * (see dbTurns.ts).
+ */
+import initSqlJs from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import * as sqlite from './sqliteEngine';
+import { createLocalBackend } from './localBackend';
+import { createKeyFileWriter, KEY_FILE_FORMATS } from './keyFileFormat';
+import { runBenchmark } from './benchmark';
+import { replayJournal } from './journal';
+import { MAIN_DATABASE } from './keySource';
+import { createTurnScheduler, DbAccess } from './dbTurns';
+import type { BackendMethod, DbWorkerRequest, DbWorkerResponse, JobContext } from './dbWorkerProtocol';
+import { BenchmarkOptions, BenchmarkResult, FilterSource, ImportTablePlan, JournalEntry, JournalReplay, KeyExportOptions, KeyHashing, ResizePolicy, SnapshotKeyProbe, TableInfo } from '../types';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DbWorkerRequest>) => void) | null;
+  postMessage(message: DbWorkerResponse, transfer?: Transferable[]): void;
+};
+
+class JobCancelled extends Error {}
+
+let sqlJs: Promise<any> | null = null;
+
+// sql.js from node_modules, the build the CLI uses too; its .wasm is served with the app, so no network is needed
+const loadSqlJs = (): Promise<any> => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs({ locateFile: () => sqlWasmUrl });
+    sqlJs.catch(() => { sqlJs = null; });
+  }
+  return sqlJs;
+};
+
+const localBackend = createLocalBackend();
+
+// Rows inserted between two progress reports of an import
+const IMPORT_CHUNK = 5000;
+
+// Adapts a synchronous engine function to the worker method signature
+const sync = <A extends unknown[], R>(fn: (...args: A) => R) => (_job: JobContext, ...args: A): R => fn(...args);
+
+// Key rows of `source` one chunk at a time, reporting rows scanned after each chunk is consumed and stopping if cancelled
+async function* rowChunks(job: JobContext, source: FilterSource, extraColumns: string[], label: string): AsyncGenerator<any[][]> {
+  const total = sqlite.countKeyRows(source);
+  let rows = 0;
+  job.progress({ label, done: 0, total });
+  for (const chunk of sqlite.scanKeyRows(source, extraColumns)) {
+    yield chunk;
+    rows += chunk.length;
+    job.progress({ label, done: rows, total });
+    await job.checkpoint();
+  }
+}
+
+async function* keyChunks(job: JobContext, source: FilterSource, label: string): AsyncGenerator<string[]> {
+  for await (const rows of rowChunks(job, source, [], label)) yield sqlite.encodeKeyRows(rows);
+}
+
+// Every key at once; only the benchmark needs them all, as it runs each structure over the same keys
+const allKeys = async (job: JobContext, source: FilterSource): Promise<string[]> => {
+  const keys: string[] = [];
+  for await (const chunk of keyChunks(job, source, 'Scanning rows')) {
+    for (const key of chunk) keys.push(key);
+  }
+  return keys;
+};
+
+// Turns calls take on the database; see dbTurns.ts
+const turns = createTurnScheduler();
+
+interface KeyStream {
+  chunks: AsyncGenerator<string[]>;
+  job: JobContext | null; // The read in flight, which gets the stream's progress and cancellation
+}
+
+// Key streams the page reads a chunk per call (see dbService.streamKeys), by id; each holds a scan turn while open
+const keyStreams = new Map<number, KeyStream>();
+let nextKeyStreamId = 1;
+
+const endKeyStream = (id: number) => {
+  if (keyStreams.delete(id)) turns.release();
+};
+
+// Describes the tables of `database`, counting the rows of one table at a time
+const describeTables = async (job: JobContext, database: string): Promise<TableInfo[]> => {
+  const listed = sqlite.listTables(database);
+  const tables: TableInfo[] = [];
+  for (const { name, type } of listed) {
+    job.progress({ label: 'Counting table rows', done: tables.length, total: listed.length });
+    await job.checkpoint();
+    tables.push(sqlite.describeTable(name, type, database));
+  }
+  return tables;
+};
+
+export const dbWorkerMethods = {
+  // Opens the file as `database` and describes its tables
+  openDatabase: async (job: JobContext, fileBuffer: ArrayBuffer, database: string = MAIN_DATABASE): Promise<TableInfo[]> => {
+    sqlite.openDatabase(await loadSqlJs(), fileBuffer, database);
+    try {
+      return await describeTables(job, database);
+    } catch (error) {
+      sqlite.closeDatabase(database === MAIN_DATABASE ? undefined : database);
+      throw error;
+    }
+  },
+  // A CSV or JSON file read on the page becomes the main database: one table, filled a chunk of rows at a time
+  importTable: async (job: JobContext, plan: ImportTablePlan): Promise<TableInfo[]> => {
+    sqlite.createDatabase(await loadSqlJs());
+    try {
+      sqlite.createImportedTable(plan);
+      for (let i = 0; i < plan.rows.length; i += IMPORT_CHUNK) {
+        job.progress({ label: 'Rows imported', done: i, total: plan.rows.length });
+        await job.checkpoint();
+        sqlite.insertImportedRows(plan.tableName, plan.columns.length, plan.rows.slice(i, i + IMPORT_CHUNK), i + 1);
+      }
+      return await describeTables(job, MAIN_DATABASE);
+    } catch (error) {
+      sqlite.closeDatabase();
+      throw error;
+    }
+  },
+  // A .sql dump becomes the main database by running it in an empty one
+  importSqlDump: async (job: JobContext, sql: string): Promise<TableInfo[]> => {
+    sqlite.createDatabase(await loadSqlJs());
+    try {
+      for (const done of sqlite.runScript(sql)) {
+        job.progress({ label: 'Characters of the dump run', done, total: sql.length });
+        await job.checkpoint();
+      }
+      return await describeTables(job, MAIN_DATABASE);
+    } catch (error) {
+      sqlite.closeDatabase();
+      throw error;
+    }
+  },
+  closeDatabase: sync(sqlite.closeDatabase),
+  getTables: sync(sqlite.getTables),
+  countTableRows: sync(sqlite.countTableRows),
+  getTableRows: sync(sqlite.getTableRows),
+  countKeyRows: sync(sqlite.countKeyRows),
+
+  // Opens a scan of the keys of `source` for readKeyStream; nothing is read until then
+  openKeyStream: async (_job: JobContext, source: FilterSource, label: string): Promise<number> => {
+    await turns.acquire('scan');
+    const id = nextKeyStreamId++;
+    const stream: KeyStream = { chunks: null!, job: null };
+    stream.chunks = keyChunks({
+      progress: progress => stream.job?.progress(progress),
+      checkpoint: async () => stream.job?.checkpoint()
+    }, source, label);
+    keyStreams.set(id, stream);
+    return id;
+  },
+  // The next chunk of keys, or null once the scan is done; a failed or cancelled read ends the stream
+  readKeyStream: async (job: JobContext, id: number): Promise<string[] | null> => {
+    const stream = keyStreams.get(id);
+    if (!stream) throw new Error(`Key stream ${id} is not open`);
+    stream.job = job;
+    try {
+      const next = await stream.chunks.next();
+      if (next.done) endKeyStream(id);
+      return next.done ? null : next.value;
+    } catch (error) {
+      endKeyStream(id);
+      throw error;
+    } finally {
+      stream.job = null;
+    }
+  },
+  // Frees the statement of a stream the page stops reading early
+  closeKeyStream: async (_job: JobContext, id: number): Promise<void> => {
+    const stream = keyStreams.get(id);
+    if (!stream) return;
+    try {
+      await stream.chunks.return(undefined);
+    } finally {
+      endKeyStream(id);
+    }
+  },
+
+  // The key file, grown a chunk at a time so the browser can move it out of memory
+  exportKeys: async (job: JobContext, source: FilterSource, options: KeyExportOptions): Promise<Blob> => {
+    const { mimeType: type } = KEY_FILE_FORMATS[options.format];
+    const writer = createKeyFileWriter(options);
+    let file = new Blob(writer.start(), { type });
+    for await (const rows of rowChunks(job, source, options.extraColumns, 'Exporting keys')) {
+      file = new Blob([file, ...writer.rows(rows)], { type });
+    }
+    return new Blob([file, ...writer.end()], { type });
+  },
+  getExistingKeys: sync(sqlite.getExistingKeys),
+  lookupKeys: sync(sqlite.lookupKeys),
+  countSemiJoin: sync(sqlite.countSemiJoin),
+  getRowLocator: sync(sqlite.getRowLocator),
+  getRowKeys: sync(sqlite.getRowKeys),
+  insertRow: sync(sqlite.insertRow),
+  updateRow: sync(sqlite.updateRow),
+  deleteRow: sync(sqlite.deleteRow),
+  // A savepoint holds a write turn until it is released or rolled back, so no scan or export runs inside it
+  beginSavepoint: (_job: JobContext): Promise<void> => turns.beginSavepoint(sqlite.beginSavepoint),
+  releaseSavepoint: (_job: JobContext) => turns.endSavepoint(sqlite.releaseSavepoint),
+  rollbackSavepoint: (_job: JobContext) => turns.endSavepoint(sqlite.rollbackSavepoint),
+  exportDatabase: sync(sqlite.exportDatabase),
+  executeSql: sync(sqlite.executeSql),
+
+  // CQF against Bloom, cuckoo and Set baselines on the keys of `source`; `label` describes it in the result
+  benchmarkFilters: async (job: JobContext, source: FilterSource, label: string, options: BenchmarkOptions): Promise<BenchmarkResult> =>
+    runBenchmark(label, await allKeys(job, source), options, job),
+
+  // Builds an in-browser filter from the worker's own database, inserting each chunk of keys as it is read
+  buildFilter: (job: JobContext, name: string, source: FilterSource, hashing: KeyHashing) =>
+    localBackend.buildFromChunks(name, source, hashing, sqlite.countKeyRows(source), keyChunks(job, source, 'Rows scanned and inserted')),
+  // Replays against a filter rebuilt in a backend of its own, so the filters in use are not touched
+  replayJournal: async (
+    job: JobContext,
+    name: string,
+    source: FilterSource,
+    hashing: KeyHashing,
+    policy: ResizePolicy,
+    journal: JournalEntry[]
+  ): Promise<JournalReplay> => {
+    const scratch = createLocalBackend();
+    await scratch.buildFromChunks(name, source, hashing, sqlite.countKeyRows(source), keyChunks(job, source, 'Rebuilding the filter'));
+    await scratch.setResizePolicy(name, policy);
+    return replayJournal(scratch, name, journal, hashing, job);
+  },
+  /**
+   * Base side of a snapshot diff: builds a filter over `target` in a backend
+   * of its own, hashing keys like the filter being diffed, and probes the
+   * distinct keys of `base` against it. Keys it rules out were removed; the
+   * rest may be shared, and a random sample of them is kept for an exact check.
+   */
+  probeSnapshotKeys: async (
+    job: JobContext,
+    base: FilterSource,
+    target: FilterSource,
+    hashing: KeyHashing,
+    sampleSize: number
+  ): Promise<SnapshotKeyProbe> => {
+    const scratch = createLocalBackend();
+    await scratch.buildFromChunks('target', target, hashing, sqlite.countKeyRows(target), keyChunks(job, target, 'Target rows scanned and inserted'));
+
+    const seen = new Set<string>();
+    const removed: string[] = [];
+    const sample: string[] = [];
+    let possiblyShared = 0;
+    for await (const chunk of keyChunks(job, base, 'Base rows probed')) {
+      const fresh = chunk.filter(key => !seen.has(key) && !!seen.add(key));
+      const { results } = await scratch.batch('target', 'search', fresh, 1);
+      fresh.forEach((key, i) => {
+        if (!results[i].found) {
+          removed.push(key);
+          return;
+        }
+        // Reservoir sampling keeps every possibly shared key equally likely to be checked
+        possiblyShared++;
+        if (sample.length < sampleSize) sample.push(key);
+        else {
+          const slot = Math.floor(Math.random() * possiblyShared);
+          if (slot < sampleSize) sample[slot] = key;
+        }
+      });
+    }
+    return { keyCount: seen.size, removed, possiblyShared, sample };
+  },
+
+  backend: (_job: JobContext, method: BackendMethod, args: unknown[]): Promise<unknown> =>
+    (localBackend[method] as (...args: unknown[]) => Promise<unknown>)(...args)
+};
+
+// Turns taken around a call; streams and savepoints take theirs in the methods, as they outlast the call
+const DB_ACCESS: Partial<Record<keyof typeof dbWorkerMethods, DbAccess>> = {
+  openDatabase: 'exclusive',
+  importTable: 'exclusive',
+  importSqlDump: 'exclusive',
+  closeDatabase: 'exclusive',
+  exportDatabase: 'exclusive',
+  exportKeys: 'scan',
+  benchmarkFilters: 'scan',
+  buildFilter: 'scan',
+  replayJournal: 'scan',
+  probeSnapshotKeys: 'scan',
+  insertRow: 'write',
+  updateRow: 'write',
+  deleteRow: 'write',
+  executeSql: 'write'
+};
+
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const transferablesOf = (value: unknown): Transferable[] => {
+  if (value instanceof ArrayBuffer) return [value];
+  if (value instanceof Uint8Array) return [value.buffer];
+  return [];
+};
+
+scope.onmessage = async ({ data }) => {
+  if (data.kind === 'cancel') {
+    if (running.has(data.id)) cancelled.add(data.id);
+    return;
+  }
+
+  const { id, method, args } = data;
+  const job: JobContext = {
+    progress: progress => scope.postMessage({ kind: 'progress', id, progress }),
+    checkpoint: async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (cancelled.has(id)) throw new JobCancelled();
+    }
+  };
+
+  const access = DB_ACCESS[method];
+  running.add(id);
+  try {
+    if (access) await turns.acquire(access);
+    try {
+      const value = await (dbWorkerMethods[method] as (job: JobContext, ...args: unknown[]) => unknown)(job, ...args);
+      scope.postMessage({ kind: 'result', id, value }, transferablesOf(value));
+    } finally {
+      if (access) turns.release();
+    }
+  } catch (error: any) {
+    scope.postMessage({ kind: 'error', id, message: error?.message ?? String(error), cancelled: error instanceof JobCancelled });
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
+  }
+};
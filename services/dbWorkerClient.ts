@@ -0,0 +1,83 @@
+/**
+ * Page side of the database worker: starts it on first use and turns calls
+ * into request messages, settling each with the worker's reply.
+ */
+import { JobProgress } from '../types';
+import type { DbWorkerArgs, DbWorkerMethod, DbWorkerRequest, DbWorkerResponse, DbWorkerResult } from './dbWorkerProtocol';
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface JobOptions {
+  onProgress?: (progress: JobProgress) => void;
+  signal?: AbortSignal; // Aborting cancels the call at its next checkpoint
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextCallId = 1;
+const pending = new Map<number, PendingCall>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./dbWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<DbWorkerResponse>) => {
+      const call = pending.get(data.id);
+      if (!call) return;
+      if (data.kind === 'progress') {
+        call.onProgress?.(data.progress);
+        return;
+      }
+      pending.delete(data.id);
+      if (data.kind === 'result') call.resolve(data.value);
+      else call.reject(data.cancelled ? new JobCancelledError() : new Error(data.message));
+    };
+    // A failure outside any call (e.g. the worker script did not load) fails every call in flight
+    worker.onerror = (event) => {
+      const error = new Error(`Database worker failed: ${event.message}`);
+      for (const call of pending.values()) call.reject(error);
+      pending.clear();
+    };
+  }
+  return worker;
+};
+
+export const callWorker = <M extends DbWorkerMethod>(
+  method: M,
+  args: DbWorkerArgs<M>,
+  { onProgress, signal }: JobOptions = {}
+): Promise<DbWorkerResult<M>> => {
+  if (signal?.aborted) return Promise.reject(new JobCancelledError());
+
+  const id = nextCallId++;
+  const target = getWorker();
+  return new Promise((resolve, reject) => {
+    const cancel = () => {
+      const request: DbWorkerRequest = { kind: 'cancel', id };
+      target.postMessage(request);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    pending.set(id, {
+      resolve: value => {
+        signal?.removeEventListener('abort', cancel);
+        resolve(value as DbWorkerResult<M>);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', cancel);
+        reject(error);
+      },
+      onProgress
+    });
+    const request: DbWorkerRequest = { kind: 'call', id, method, args };
+    target.postMessage(request);
+  });
+};
@@ -0,0 +1,33 @@
+/**
+ * Messages between the page and the database worker (dbWorker.ts). The page
+ * calls a worker method by name and receives progress messages followed by
+ * exactly one result or error; a cancel message asks a running call to stop
+ * at its next checkpoint.
+ */
+import type { JobProgress } from '../types';
+import type { CqfBackend } from './cqfBackend';
+import type { dbWorkerMethods } from './dbWorker';
+
+// Passed to every worker method as its first argument
+export interface JobContext {
+  progress(progress: JobProgress): void;
+  // Lets queued messages (cancellation included) through; throws if the call was cancelled
+  checkpoint(): Promise<void>;
+}
+
+export type DbWorkerMethods = typeof dbWorkerMethods;
+export type DbWorkerMethod = keyof DbWorkerMethods;
+export type DbWorkerArgs<M extends DbWorkerMethod> = Parameters<DbWorkerMethods[M]> extends [JobContext, ...infer Args] ? Args : never;
+export type DbWorkerResult<M extends DbWorkerMethod> = Awaited<ReturnType<DbWorkerMethods[M]>>;
+
+// Filter operations served by the worker's in-browser backend
+export type BackendMethod = Exclude<keyof CqfBackend, 'kind' | 'label'>;
+
+export type DbWorkerRequest =
+  | { kind: 'call'; id: number; method: DbWorkerMethod; args: unknown[] }
+  | { kind: 'cancel'; id: number };
+
+export type DbWorkerResponse =
+  | { kind: 'progress'; id: number; progress: JobProgress }
+  | { kind: 'result'; id: number; value: unknown }
+  | { kind: 'error'; id: number; message: string; cancelled: boolean };
@@ -0,0 +1,232 @@
+/**
+ * Hash functions used to fingerprint keys before they enter a filter.
+ * MurmurHash3 keeps to 32-bit lanes (Math.imul) and xxHash64 to BigInt
+ * arithmetic masked to 64 bits, so results match the reference C
+ * implementations bit for bit.
+ */
+import { HashFunction } from '../types';
+
+export interface Hash64 {
+  hi: number; // upper 32 bits, unsigned
+  lo: number; // lower 32 bits, unsigned
+}
+
+const textEncoder = new TextEncoder();
+
+export const encodeUtf8 = (value: string): Uint8Array => textEncoder.encode(value);
+
+const rotl32 = (x: number, r: number) => (x << r) | (x >>> (32 - r));
+
+const fmix32 = (h: number) => {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h;
+};
+
+/**
+ * MurmurHash3_x86_128. Returns the four 32-bit output words (h1..h4) as
+ * unsigned integers, in the order the C version writes them.
+ */
+export const murmur3_x86_128 = (data: Uint8Array, seed: number): [number, number, number, number] => {
+  const c1 = 0x239b961b;
+  const c2 = 0xab0e9789;
+  const c3 = 0x38b34ae5;
+  const c4 = 0xa1e38b93;
+
+  let h1 = seed | 0;
+  let h2 = h1;
+  let h3 = h1;
+  let h4 = h1;
+
+  const len = data.length;
+  const nblocks = len >> 4;
+
+  const word = (o: number) => data[o] | (data[o + 1] << 8) | (data[o + 2] << 16) | (data[o + 3] << 24);
+
+  for (let i = 0; i < nblocks; i++) {
+    const o = i << 4;
+    let k1 = word(o);
+    let k2 = word(o + 4);
+    let k3 = word(o + 8);
+    let k4 = word(o + 12);
+
+    k1 = Math.imul(rotl32(Math.imul(k1, c1), 15), c2);
+    h1 ^= k1;
+    h1 = rotl32(h1, 19);
+    h1 = (h1 + h2) | 0;
+    h1 = (Math.imul(h1, 5) + 0x561ccd1b) | 0;
+
+    k2 = Math.imul(rotl32(Math.imul(k2, c2), 16), c3);
+    h2 ^= k2;
+    h2 = rotl32(h2, 17);
+    h2 = (h2 + h3) | 0;
+    h2 = (Math.imul(h2, 5) + 0x0bcaa747) | 0;
+
+    k3 = Math.imul(rotl32(Math.imul(k3, c3), 17), c4);
+    h3 ^= k3;
+    h3 = rotl32(h3, 15);
+    h3 = (h3 + h4) | 0;
+    h3 = (Math.imul(h3, 5) + 0x96cd1c35) | 0;
+
+    k4 = Math.imul(rotl32(Math.imul(k4, c4), 18), c1);
+    h4 ^= k4;
+    h4 = rotl32(h4, 13);
+    h4 = (h4 + h1) | 0;
+    h4 = (Math.imul(h4, 5) + 0x32ac3b17) | 0;
+  }
+
+  const tail = nblocks << 4;
+  let k1 = 0;
+  let k2 = 0;
+  let k3 = 0;
+  let k4 = 0;
+
+  switch (len & 15) {
+    case 15: k4 ^= data[tail + 14] << 16;
+    case 14: k4 ^= data[tail + 13] << 8;
+    case 13: k4 ^= data[tail + 12];
+      k4 = Math.imul(rotl32(Math.imul(k4, c4), 18), c1);
+      h4 ^= k4;
+    case 12: k3 ^= data[tail + 11] << 24;
+    case 11: k3 ^= data[tail + 10] << 16;
+    case 10: k3 ^= data[tail + 9] << 8;
+    case 9: k3 ^= data[tail + 8];
+      k3 = Math.imul(rotl32(Math.imul(k3, c3), 17), c4);
+      h3 ^= k3;
+    case 8: k2 ^= data[tail + 7] << 24;
+    case 7: k2 ^= data[tail + 6] << 16;
+    case 6: k2 ^= data[tail + 5] << 8;
+    case 5: k2 ^= data[tail + 4];
+      k2 = Math.imul(rotl32(Math.imul(k2, c2), 16), c3);
+      h2 ^= k2;
+    case 4: k1 ^= data[tail + 3] << 24;
+    case 3: k1 ^= data[tail + 2] << 16;
+    case 2: k1 ^= data[tail + 1] << 8;
+    case 1: k1 ^= data[tail];
+      k1 = Math.imul(rotl32(Math.imul(k1, c1), 15), c2);
+      h1 ^= k1;
+  }
+
+  h1 ^= len;
+  h2 ^= len;
+  h3 ^= len;
+  h4 ^= len;
+
+  h1 = (h1 + h2) | 0;
+  h1 = (h1 + h3) | 0;
+  h1 = (h1 + h4) | 0;
+  h2 = (h2 + h1) | 0;
+  h3 = (h3 + h1) | 0;
+  h4 = (h4 + h1) | 0;
+
+  h1 = fmix32(h1);
+  h2 = fmix32(h2);
+  h3 = fmix32(h3);
+  h4 = fmix32(h4);
+
+  h1 = (h1 + h2) | 0;
+  h1 = (h1 + h3) | 0;
+  h1 = (h1 + h4) | 0;
+  h2 = (h2 + h1) | 0;
+  h3 = (h3 + h1) | 0;
+  h4 = (h4 + h1) | 0;
+
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+/**
+ * 64-bit key hash: the first eight bytes of MurmurHash3_x86_128 read as a
+ * little-endian uint64, which is what a C/C++ backend gets from
+ * `*(uint64_t *)out`.
+ */
+export const hash64 = (data: Uint8Array, seed: number): Hash64 => {
+  const [h1, h2] = murmur3_x86_128(data, seed);
+  return { hi: h2, lo: h1 };
+};
+
+const MASK64 = (1n << 64n) - 1n;
+const XXH_PRIME64_1 = 0x9e3779b185ebca87n;
+const XXH_PRIME64_2 = 0xc2b2ae3d27d4eb4fn;
+const XXH_PRIME64_3 = 0x165667b19e3779f9n;
+const XXH_PRIME64_4 = 0x85ebca77c2b2ae63n;
+const XXH_PRIME64_5 = 0x27d4eb2f165667c5n;
+
+const rotl64 = (x: bigint, r: bigint) => ((x << r) | (x >> (64n - r))) & MASK64;
+
+const xxhRound = (acc: bigint, input: bigint) =>
+  (rotl64((acc + input * XXH_PRIME64_2) & MASK64, 31n) * XXH_PRIME64_1) & MASK64;
+
+const xxhMergeRound = (acc: bigint, val: bigint) =>
+  (((acc ^ xxhRound(0n, val)) * XXH_PRIME64_1) + XXH_PRIME64_4) & MASK64;
+
+/** XXH64 (xxHash, 64-bit variant). */
+export const xxhash64 = (data: Uint8Array, seed: number): Hash64 => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const len = data.length;
+  const s = BigInt(seed >>> 0);
+  let offset = 0;
+  let h: bigint;
+
+  if (len >= 32) {
+    let v1 = (s + XXH_PRIME64_1 + XXH_PRIME64_2) & MASK64;
+    let v2 = (s + XXH_PRIME64_2) & MASK64;
+    let v3 = s;
+    let v4 = (s - XXH_PRIME64_1) & MASK64;
+    for (; offset <= len - 32; offset += 32) {
+      v1 = xxhRound(v1, view.getBigUint64(offset, true));
+      v2 = xxhRound(v2, view.getBigUint64(offset + 8, true));
+      v3 = xxhRound(v3, view.getBigUint64(offset + 16, true));
+      v4 = xxhRound(v4, view.getBigUint64(offset + 24, true));
+    }
+    h = (rotl64(v1, 1n) + rotl64(v2, 7n) + rotl64(v3, 12n) + rotl64(v4, 18n)) & MASK64;
+    h = xxhMergeRound(h, v1);
+    h = xxhMergeRound(h, v2);
+    h = xxhMergeRound(h, v3);
+    h = xxhMergeRound(h, v4);
+  } else {
+    h = (s + XXH_PRIME64_5) & MASK64;
+  }
+  h = (h + BigInt(len)) & MASK64;
+
+  for (; offset + 8 <= len; offset += 8) {
+    h ^= xxhRound(0n, view.getBigUint64(offset, true));
+    h = (rotl64(h, 27n) * XXH_PRIME64_1 + XXH_PRIME64_4) & MASK64;
+  }
+  if (offset + 4 <= len) {
+    h ^= (BigInt(view.getUint32(offset, true)) * XXH_PRIME64_1) & MASK64;
+    h = (rotl64(h, 23n) * XXH_PRIME64_2 + XXH_PRIME64_3) & MASK64;
+    offset += 4;
+  }
+  for (; offset < len; offset++) {
+    h ^= (BigInt(data[offset]) * XXH_PRIME64_5) & MASK64;
+    h = (rotl64(h, 11n) * XXH_PRIME64_1) & MASK64;
+  }
+
+  h ^= h >> 33n;
+  h = (h * XXH_PRIME64_2) & MASK64;
+  h ^= h >> 29n;
+  h = (h * XXH_PRIME64_3) & MASK64;
+  h ^= h >> 32n;
+  return { hi: Number(h >> 32n), lo: Number(h & 0xffffffffn) };
+};
+
+/** The 64-bit hash of `data` under the given function. */
+export const hashKeyBytes = (data: Uint8Array, fn: HashFunction, seed: number): Hash64 =>
+  fn === 'xxhash64' ? xxhash64(data, seed) : hash64(data, seed);
+
+/** Extracts `len` (<= 32) bits of a 64-bit hash starting at bit `shift`. */
+export const hashBits = (hash: Hash64, shift: number, len: number): number => {
+  if (len === 0) return 0;
+  let v: number;
+  if (shift >= 32) {
+    v = hash.hi >>> (shift - 32);
+  } else if (shift === 0) {
+    v = hash.lo;
+  } else {
+    v = (hash.lo >>> shift) | (hash.hi << (32 - shift));
+  }
+  return (v & (0xffffffff >>> (32 - len))) >>> 0;
+};
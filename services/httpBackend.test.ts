@@ -0,0 +1,51 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHttpBackend } from './httpBackend';
+
+// Lists filters with a body that stalls after its headers; imports of one byte are rejected, others answered with HTML
+const server = http.createServer((req, res) => {
+  if (req.url === '/api/filters') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.write('{"filters": [');
+    return;
+  }
+  let size = 0;
+  req.on('data', (chunk: Buffer) => { size += chunk.length; });
+  req.on('end', () => {
+    if (size === 1) {
+      res.writeHead(422, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'unprocessable', message: 'Not a .cqf file' } }));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end('<html>proxy error</html>');
+    }
+  });
+});
+
+let baseUrl = '';
+beforeAll(() => new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => {
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  resolve();
+})));
+afterAll(() => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+}));
+
+describe('HTTP backend', () => {
+  it('times out a response whose body stalls', async () => {
+    const backend = createHttpBackend({ baseUrl, timeoutMs: 200 });
+    await expect(backend.listFilters()).rejects.toMatchObject({ code: 'timeout' });
+  });
+
+  it('reports an import response that is not JSON', async () => {
+    const backend = createHttpBackend({ baseUrl, timeoutMs: 2000 });
+    await expect(backend.importFilter(new ArrayBuffer(4))).rejects.toMatchObject({ code: 'protocol', status: 200 });
+  });
+
+  it('reports the server message of a rejected import', async () => {
+    const backend = createHttpBackend({ baseUrl, timeoutMs: 2000 });
+    await expect(backend.importFilter(new ArrayBuffer(1))).rejects.toMatchObject({ code: 'http', status: 422, message: 'Not a .cqf file' });
+  });
+});
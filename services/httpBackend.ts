@@ -0,0 +1,124 @@
+/**
+ * HTTP client for the CQF REST API (documented in the README). Every request
+ * is bounded by `timeoutMs`, and failures surface as BackendRequestError so the
+ * UI can tell an unreachable server from a rejected operation.
+ */
+import { CqfBackend } from './cqfBackend';
+import { DbServiceError } from '../types';
+
+export const DEFAULT_BACKEND_URL = 'http://localhost:8787';
+export const DEFAULT_BACKEND_TIMEOUT_MS = 10000;
+
+export class BackendRequestError extends Error implements DbServiceError {
+  code: DbServiceError['code'];
+  status?: number;
+
+  constructor(message: string, code: DbServiceError['code'], status?: number) {
+    super(message);
+    this.name = 'BackendRequestError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+interface HttpBackendOptions {
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+export const createHttpBackend = ({ baseUrl, timeoutMs }: HttpBackendOptions): CqfBackend => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const filterPath = (name: string, op: string) => `/api/filters/${encodeURIComponent(name)}/${op}`;
+
+  /**
+   * Sends a request and reads its body with `read`. The timeout covers the
+   * whole exchange, body included, so a server that stalls mid-response is
+   * reported like one that never answers.
+   */
+  const request = async <T>(path: string, init: RequestInit, read: (response: Response) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let status: number | undefined;
+    try {
+      const response = await fetch(`${root}${path}`, { ...init, signal: controller.signal });
+      status = response.status;
+      if (!response.ok) {
+        let message = `${response.status} ${response.statusText}`;
+        try {
+          const body = await response.json();
+          if (body?.error?.message) message = body.error.message;
+        } catch (error: any) {
+          if (error?.name === 'AbortError') throw error;
+          // Non-JSON error body; keep the status line
+        }
+        throw new BackendRequestError(message, 'http', response.status);
+      }
+      return await read(response);
+    } catch (error: any) {
+      if (error instanceof BackendRequestError) throw error;
+      if (error?.name === 'AbortError') {
+        throw new BackendRequestError(`Request to ${path} timed out after ${timeoutMs} ms`, 'timeout');
+      }
+      if (error instanceof SyntaxError) {
+        throw new BackendRequestError(`Invalid JSON in response to ${path}`, 'protocol', status);
+      }
+      throw new BackendRequestError(`Cannot reach backend at ${root}: ${error?.message ?? error}`, 'network');
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const requestJson = <T>(path: string, body?: unknown): Promise<T> => request(path, body === undefined
+    ? {}
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+  response => response.json());
+
+  return {
+    kind: 'http',
+    label: root,
+
+    ping: async () => {
+      await requestJson('/api/health');
+    },
+
+    listFilters: async () => (await requestJson<{ filters: string[] }>('/api/filters')).filters,
+
+    build: (name, keys, source, hashing, expectedKeys) => requestJson(filterPath(name, 'build'), { keys, source, hashing, expectedKeys }),
+
+    search: (name, key) => requestJson(filterPath(name, 'search'), { key }),
+
+    insert: (name, key, count) => requestJson(filterPath(name, 'insert'), { key, count }),
+
+    remove: (name, key, count) => requestJson(filterPath(name, 'delete'), { key, count }),
+
+    count: (name, key) => requestJson(filterPath(name, 'count'), { key }),
+
+    batch: (name, op, keys, count, hashing = null) => requestJson(filterPath(name, 'batch'), { op, keys, count, hashing }),
+
+    setResizePolicy: (name, policy) => requestJson(filterPath(name, 'policy'), policy),
+
+    stats: (name) => requestJson(filterPath(name, 'stats')),
+
+    probe: (name, absentKeys) => requestJson(filterPath(name, 'probe'), { keys: absentKeys }),
+
+    combine: (name, other, op, target) => requestJson(filterPath(name, 'combine'), { other, op, target }),
+
+    compare: (name, other) => requestJson(filterPath(name, 'compare'), { other }),
+
+    missing: (name, other, limit) => requestJson(filterPath(name, 'missing'), { other, limit }),
+
+    slotWindow: (name, from, count) => requestJson(filterPath(name, 'slots'), { from, count }),
+
+    locate: (name, key) => requestJson(filterPath(name, 'locate'), { key }),
+
+    slotLayout: (name) => requestJson(filterPath(name, 'layout')),
+
+    exportFilter: (name) => request(filterPath(name, 'export'), {}, response => response.arrayBuffer()),
+
+    importFilter: (buffer) => request('/api/filters/import', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: buffer
+    }, response => response.json())
+  };
+};
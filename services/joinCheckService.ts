@@ -0,0 +1,99 @@
+/**
+ * Filter-accelerated semi-joins: every value of a column in one table is
+ * probed against a filter built on another key set. Definite misses need no
+ * further work (orphaned references); only probable matches are verified
+ * exactly, which is where the filter saves time over a plain SQL join.
+ *
+ * A value is probed in every form the join could match it in (see
+ * comparableKeyTexts), so a TEXT column holding '5' still finds the key 5 of
+ * an INTEGER primary key, as SQL would. Values are read and probed a chunk at
+ * a time; the result still lists every value, for verification and the CSV.
+ */
+import { BatchProgress, JoinCheckResult, JoinVerification, KeyHashing } from '../types';
+import { streamKeys, lookupKeys, countSemiJoin } from './dbService';
+import { batchCQF, getCQFStats } from './cqfService';
+import { comparableKeyTexts } from './keyEncoding';
+import { csvField } from './keyFileFormat';
+
+// Keys to look up for one probed value; filters hashing key text, or keyed on several columns, take it as it is
+const probeKeys = (value: string, { encoding }: KeyHashing): string[] =>
+  encoding?.affinities.length === 1 ? comparableKeyTexts(value, encoding.affinities[0]) : [value];
+
+export const runJoinCheck = async (
+  tableName: string,
+  column: string,
+  filterName: string,
+  onProgress?: (progress: BatchProgress) => void
+): Promise<JoinCheckResult> => {
+  const { hashing } = await getCQFStats(filterName);
+  const values: string[] = [];
+  const probablyMatches: boolean[] = [];
+  let probeMs = 0;
+  const chunks = streamKeys({ tableName, keySource: { kind: 'column', column }, where: null }, 'Values probed', {
+    onProgress: ({ done, total }) => onProgress?.({ done, total: total ?? done })
+  });
+  for await (const chunk of chunks) {
+    const probes = chunk.map(value => probeKeys(value, hashing));
+    const started = performance.now();
+    const run = await batchCQF(filterName, 'search', probes.flat(), 1);
+    probeMs += performance.now() - started;
+    if (run.failed > 0) throw new Error(`${run.failed} probes failed: ${run.results.find(r => !r.ok)?.error}`);
+
+    let next = 0;
+    values.push(...chunk);
+    for (const keys of probes) probablyMatches.push(run.results.slice(next, next += keys.length).some(r => r.found));
+  }
+  const probableMatches = probablyMatches.filter(Boolean).length;
+  return {
+    tableName,
+    column,
+    filterName,
+    values,
+    probablyMatches,
+    probableMatches,
+    definiteMisses: values.length - probableMatches,
+    probeMs,
+    verification: null
+  };
+};
+
+/**
+ * Checks the probable matches against the filter's source data, separating
+ * true matches from false positives, and times the equivalent SQL semi-join.
+ */
+export const verifyJoinCheck = async (result: JoinCheckResult): Promise<JoinCheckResult> => {
+  const { source, hashing } = await getCQFStats(result.filterName);
+  if (!source.keySource) throw new Error(`Filter '${result.filterName}' has no key source to verify against`);
+
+  const candidates = result.values.map((value, i) => result.probablyMatches[i] ? probeKeys(value, hashing) : []);
+  const verifyStarted = performance.now();
+  const existing = await lookupKeys(source, candidates.flat());
+  const verifyMs = performance.now() - verifyStarted;
+
+  const joinStarted = performance.now();
+  const sqlJoinMatches = await countSemiJoin(result.tableName, result.column, source);
+  const sqlJoinMs = performance.now() - joinStarted;
+
+  const verified = candidates.map(keys => keys.some(key => existing.has(key)));
+  const trueMatches = verified.filter(Boolean).length;
+  const verification: JoinVerification = {
+    trueMatches,
+    falsePositives: result.probableMatches - trueMatches,
+    verified,
+    verifyMs,
+    sqlJoinMs,
+    sqlJoinMatches
+  };
+  return { ...result, verification };
+};
+
+// One CSV row per checked value; `verified` is empty unless verification ran
+export const generateJoinCheckCsv = (result: JoinCheckResult): string => {
+  const lines = ['value,filter,verified'];
+  result.values.forEach((value, i) => {
+    const verdict = result.probablyMatches[i] ? 'probably_matches' : 'definitely_missing';
+    const verified = result.verification ? String(result.verification.verified[i]) : '';
+    lines.push([csvField(value), verdict, verified].join(','));
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { appendJournal, batchResult, countResult, deleteResult, generateJournalJson, insertResult, JournalRecord, parseJournal, replayJournal, searchResult } from './journal';
+import { TEXT_KEY_HASHING } from './keyEncoding';
+import { createLocalBackend } from './localBackend';
+import { FilterSource, JournalEntry, JournalResult } from '../types';
+
+const source: FilterSource = { tableName: 'users', keySource: { kind: 'column', column: 'id' }, where: null };
+const KEYS = ['1', '2', '3'];
+
+const record = (origin: JournalRecord['origin'], op: JournalRecord['op'], key: string, result: JournalResult, amount = 1): JournalRecord =>
+  ({ origin, op, key, keyHash: false, amount, result, latencyMs: null });
+
+// A journal recorded the way the page records it: an early build, a rebuild, then direct and batch operations
+const recordJournal = async (): Promise<JournalEntry[]> => {
+  const backend = createLocalBackend();
+  await backend.build('users.id', ['9'], source);
+  let journal = appendJournal([], 'users.id', 'users', [
+    record('build', 'build', '', { ok: true, found: true, count: 1 }),
+    record('playground', 'insert', '7', insertResult(await backend.insert('users.id', '7', 1)))
+  ]);
+  await backend.build('users.id', KEYS, source);
+  journal = appendJournal(journal, 'users.id', 'users', [
+    record('build', 'build', '', { ok: true, found: true, count: KEYS.length }),
+    record('playground', 'search', '2', searchResult(await backend.search('users.id', '2'))),
+    record('playground', 'insert', '4', insertResult(await backend.insert('users.id', '4', 2)), 2),
+    record('row-edit', 'delete', '3', deleteResult(await backend.remove('users.id', '3', 1)))
+  ]);
+  const { results } = await backend.batch('users.id', 'delete', ['4', '5'], 1);
+  journal = appendJournal(journal, 'users.id', 'users', [
+    record('batch', 'delete', '4', batchResult(results[0])),
+    record('batch', 'delete', '5', batchResult(results[1]))
+  ]);
+  return appendJournal(journal, 'users.id', 'users', [record('playground', 'count', '4', countResult(await backend.count('users.id', '4')))]);
+};
+
+// Replays on a second backend that rebuilt the filter from the same keys
+const replay = async (journal: JournalEntry[]) => {
+  const backend = createLocalBackend();
+  await backend.build('users.id', KEYS, source);
+  const row = await backend.remove('users.id', '3', 1);
+  expect(row.removed).toBe(1);
+  return replayJournal(backend, 'users.id', journal, TEXT_KEY_HASHING);
+};
+
+describe('journal replay', () => {
+  it('reproduces the results recorded since the last build', async () => {
+    const journal = await recordJournal();
+    expect(journal.map(entry => entry.seq)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+    const { entries } = parseJournal(generateJournalJson('users.id', journal));
+    const result = await replay(entries);
+    expect(result.fromSeq).toBe(4);
+    expect(result).toMatchObject({ matched: 5, different: 0, skipped: 1 });
+    expect(result.entries.find(entry => entry.seq === 6)).toEqual({ seq: 6, result: null, matches: true });
+    expect(result.entries.find(entry => entry.seq === 8)?.result).toMatchObject({ ok: true, found: false });
+  });
+
+  it('counts entries whose result differs from the recorded one', async () => {
+    const journal = await recordJournal();
+    journal[4] = { ...journal[4], result: { ok: true, found: false, count: null } };
+    journal[8] = { ...journal[8], result: { ...journal[8].result, count: 5 } };
+    const result = await replay(journal);
+    expect(result).toMatchObject({ matched: 3, different: 2, skipped: 1 });
+    expect(result.entries.filter(entry => !entry.matches).map(entry => entry.seq)).toEqual([5, 9]);
+  });
+});
+
+describe('journal files', () => {
+  it('numbers appended entries after the last one and keeps the newest', () => {
+    const entries = appendJournal([], 'f', null, [record('playground', 'search', 'a', { ok: true, found: false, count: null })]);
+    expect(appendJournal(entries, 'f', null, [record('playground', 'search', 'b', { ok: true, found: false, count: null })]).map(e => e.seq)).toEqual([1, 2]);
+  });
+
+  it('reads entries back in seq order', async () => {
+    const journal = await recordJournal();
+    const parsed = parseJournal(generateJournalJson('users.id', journal.slice().reverse()));
+    expect(parsed).toEqual({ filterName: 'users.id', entries: journal });
+  });
+
+  it('rejects files that are not journals or hold malformed entries', async () => {
+    const [entry] = await recordJournal();
+    const file = (entries: unknown[], extra: object = {}) => JSON.stringify({ format: 'cqf-journal', version: 1, filterName: 'f', entries, ...extra });
+    expect(() => parseJournal('{')).toThrow(/not valid JSON/);
+    expect(() => parseJournal('{"entries": []}')).toThrow(/Not a journal file/);
+    expect(() => parseJournal(file([], { version: 2 }))).toThrow(/Unsupported journal version 2/);
+    expect(() => parseJournal(file([entry, { ...entry, op: 'merge' }]))).toThrow('Journal entry 2 is malformed');
+    expect(() => parseJournal(file([{ ...entry, amount: 0 }]))).toThrow('Journal entry 1 is malformed');
+    expect(() => parseJournal(file([{ ...entry, result: { ok: true } }]))).toThrow('Journal entry 1 is malformed');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Operation journal: every operation on a filter (builds, playground and
+ * batch operations, row edits) recorded as a structured entry, kept per
+ * filter. Journals are exported as JSON or CSV and read back from JSON.
+ *
+ * Replay rebuilds the filter from its source and applies the entries recorded
+ * since the last build in order, comparing each result with the recorded one,
+ * so a journal from a teammate reproduces what their filter answered. Row edit
+ * entries are skipped: the rebuilt filter already holds the edited rows' keys.
+ */
+import { CqfBackend, DeleteResult, InsertResult } from './cqfBackend';
+import { csvField } from './keyFileFormat';
+import { BatchKeyResult, JobProgress, JournalEntry, JournalOp, JournalOrigin, JournalReplay, JournalReplayEntry, JournalResult, KeyHashing } from '../types';
+
+// Entries kept per filter; the oldest are dropped first
+export const JOURNAL_LIMIT = 100000;
+
+const JOURNAL_FORMAT = 'cqf-journal';
+const JOURNAL_FORMAT_VERSION = 1;
+// Entries replayed between two pauses
+const REPLAY_CHUNK = 1000;
+
+const OPS: JournalOp[] = ['build', 'search', 'insert', 'delete', 'count'];
+const ORIGINS: JournalOrigin[] = ['build', 'import', 'combine', 'playground', 'batch', 'row-edit'];
+
+// An entry before it is numbered and stamped
+export type JournalRecord = Omit<JournalEntry, 'seq' | 'timestamp' | 'table' | 'filterName'>;
+
+/** Appends `records` to a filter's journal, numbered after its last entry. */
+export const appendJournal = (
+  journal: JournalEntry[],
+  filterName: string,
+  table: string | null,
+  records: JournalRecord[]
+): JournalEntry[] => {
+  const timestamp = new Date().toISOString();
+  let seq = journal.length > 0 ? journal[journal.length - 1].seq : 0;
+  const next = journal.concat(records.map(record => ({ seq: ++seq, timestamp, table, filterName, ...record })));
+  return next.length > JOURNAL_LIMIT ? next.slice(next.length - JOURNAL_LIMIT) : next;
+};
+
+// Results as the backend calls return them
+export const searchResult = ({ found }: { found: boolean }): JournalResult => ({ ok: true, found, count: null });
+export const insertResult = ({ count }: InsertResult): JournalResult => ({ ok: true, found: true, count });
+export const deleteResult = ({ removed, count }: DeleteResult): JournalResult => ({ ok: true, found: removed > 0, count });
+export const countResult = ({ count }: { count: number }): JournalResult => ({ ok: true, found: count > 0, count });
+export const failedResult = (error: any): JournalResult => ({ ok: false, found: false, count: null, error: error?.message ?? String(error) });
+export const batchResult = ({ ok, found, count, error }: BatchKeyResult): JournalResult =>
+  ok ? { ok, found, count } : { ok, found, count: null, error };
+
+export const sameJournalResult = (a: JournalResult, b: JournalResult): boolean =>
+  a.ok === b.ok && a.found === b.found && a.count === b.count && (a.error ?? null) === (b.error ?? null);
+
+// Index of the first entry a replay applies: the one after the last build
+const replayStart = (journal: JournalEntry[]): number => {
+  for (let i = journal.length - 1; i >= 0; i--) {
+    if (journal[i].op === 'build') return i + 1;
+  }
+  return 0;
+};
+
+// Batch entries are replayed as one-key batches, so key hashes and per-key failures behave as recorded
+const applyEntry = async (backend: CqfBackend, name: string, entry: JournalEntry, hashing: KeyHashing): Promise<JournalResult> => {
+  const { op, key, amount } = entry;
+  try {
+    if (entry.origin === 'batch' && op !== 'count' && op !== 'build') {
+      const { results } = await backend.batch(name, op, [key], amount, entry.keyHash ? hashing : null);
+      return batchResult(results[0]);
+    }
+    switch (op) {
+      case 'search': return searchResult(await backend.search(name, key));
+      case 'insert': return insertResult(await backend.insert(name, key, amount));
+      case 'delete': return deleteResult(await backend.remove(name, key, amount));
+      case 'count': return countResult(await backend.count(name, key));
+      case 'build': throw new Error('Builds are not replayed');
+    }
+  } catch (error: any) {
+    return failedResult(error);
+  }
+};
+
+/**
+ * Applies the entries of `journal` recorded since its last build to filter
+ * `name` of `backend`, which the caller has just rebuilt from the filter's
+ * source with `hashing`. The hooks report progress and let a cancel through.
+ */
+export const replayJournal = async (
+  backend: CqfBackend,
+  name: string,
+  journal: JournalEntry[],
+  hashing: KeyHashing,
+  hooks?: { progress(progress: JobProgress): void; checkpoint(): Promise<void> }
+): Promise<JournalReplay> => {
+  const started = performance.now();
+  const pending = journal.slice(replayStart(journal));
+  const entries: JournalReplayEntry[] = [];
+  let matched = 0;
+  let skipped = 0;
+  for (const entry of pending) {
+    if (entry.origin === 'row-edit') {
+      entries.push({ seq: entry.seq, result: null, matches: true });
+      skipped++;
+    } else {
+      const result = await applyEntry(backend, name, entry, hashing);
+      const matches = sameJournalResult(result, entry.result);
+      if (matches) matched++;
+      entries.push({ seq: entry.seq, result, matches });
+    }
+    if (entries.length % REPLAY_CHUNK === 0) {
+      hooks?.progress({ label: 'Operations replayed', done: entries.length, total: pending.length });
+      await hooks?.checkpoint();
+    }
+  }
+
+  return {
+    filterName: name,
+    replayedAt: new Date().toISOString(),
+    fromSeq: pending.length > 0 ? pending[0].seq : 0,
+    entries,
+    matched,
+    different: entries.length - matched - skipped,
+    skipped,
+    elapsedMs: performance.now() - started
+  };
+};
+
+export const generateJournalJson = (filterName: string, journal: JournalEntry[]): string =>
+  JSON.stringify({ format: JOURNAL_FORMAT, version: JOURNAL_FORMAT_VERSION, filterName, entries: journal }, null, 2);
+
+// One row per entry; the result is spread over ok, found, count and error
+export const generateJournalCsv = (journal: JournalEntry[]): string => {
+  const lines = ['seq,timestamp,table,filter,origin,op,key,key_hash,amount,ok,found,count,error,latency_ms'];
+  for (const entry of journal) {
+    const { result } = entry;
+    lines.push([
+      String(entry.seq),
+      entry.timestamp,
+      csvField(entry.table ?? ''),
+      csvField(entry.filterName),
+      entry.origin,
+      entry.op,
+      csvField(entry.key),
+      String(entry.keyHash),
+      String(entry.amount),
+      String(result.ok),
+      String(result.found),
+      result.count === null ? '' : String(result.count),
+      csvField(result.error ?? ''),
+      entry.latencyMs === null ? '' : entry.latencyMs.toFixed(3)
+    ].join(','));
+  }
+  return lines.join('\n');
+};
+
+const validEntry = (entry: any): entry is JournalEntry =>
+  !!entry && typeof entry === 'object'
+  && Number.isInteger(entry.seq)
+  && typeof entry.timestamp === 'string'
+  && (entry.table === null || typeof entry.table === 'string')
+  && typeof entry.filterName === 'string'
+  && ORIGINS.includes(entry.origin)
+  && OPS.includes(entry.op)
+  && typeof entry.key === 'string'
+  && typeof entry.keyHash === 'boolean'
+  && Number.isInteger(entry.amount) && entry.amount >= 1
+  && !!entry.result && typeof entry.result.ok === 'boolean' && typeof entry.result.found === 'boolean'
+  && (entry.result.count === null || typeof entry.result.count === 'number')
+  && (entry.latencyMs === null || typeof entry.latencyMs === 'number');
+
+/** Reads a journal written by generateJournalJson; entries come back in seq order. */
+export const parseJournal = (content: string): { filterName: string; entries: JournalEntry[] } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Journal file is not valid JSON: ${error.message}`);
+  }
+  if (parsed?.format !== JOURNAL_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error('Not a journal file: expected the JSON written by Export journal');
+  }
+  if (parsed.version !== JOURNAL_FORMAT_VERSION) {
+    throw new Error(`Unsupported journal version ${parsed.version} (expected ${JOURNAL_FORMAT_VERSION})`);
+  }
+  const invalid = parsed.entries.findIndex((entry: any) => !validEntry(entry));
+  if (invalid >= 0) throw new Error(`Journal entry ${invalid + 1} is malformed`);
+  const entries = (parsed.entries as JournalEntry[]).slice().sort((a, b) => a.seq - b.seq);
+  return { filterName: String(parsed.filterName ?? ''), entries };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex, canonicalKey, columnAffinity, comparableKeyTexts, decodeCompositeKey, encodeCompositeKey, hexToBytes, keyPartText, keyPartValue } from './keyEncoding';
+import { KeyAffinity, KeyEncoding } from '../types';
+
+const encoding = (affinities: KeyAffinity[], options: Partial<KeyEncoding> = {}): KeyEncoding =>
+  ({ affinities, trim: false, caseFold: false, ...options });
+
+const hex = (key: string, enc: KeyEncoding) => bytesToHex(canonicalKey(key, enc));
+
+describe('composite keys', () => {
+  it.each([
+    [['a|b', 'c']],
+    [['a', 'b|c']],
+    [['back\\slash', '', 'x\\|y']],
+    [['single|part']]
+  ])('round-trips %j', parts => {
+    expect(decodeCompositeKey(encodeCompositeKey(parts), parts.length)).toEqual(parts);
+  });
+
+  it('keeps parts with separators distinct', () => {
+    expect(encodeCompositeKey(['a|b', 'c'])).not.toBe(encodeCompositeKey(['a', 'b|c']));
+  });
+
+  it('returns null for the wrong number of parts', () => {
+    expect(decodeCompositeKey('a|b|c', 2)).toBeNull();
+  });
+});
+
+describe('canonical key bytes', () => {
+  it('writes integers, reals and text with their type tags', () => {
+    expect(hex('1', encoding(['numeric']))).toBe('010000000000000001');
+    expect(hex('-1', encoding(['numeric']))).toBe('01ffffffffffffffff');
+    expect(hex('0.5', encoding(['numeric']))).toBe('023fe0000000000000');
+    expect(hex('ab', encoding(['text']))).toBe('03000000026162');
+  });
+
+  it('reads numeric text as numbers under numeric affinity', () => {
+    expect(hex('1.0', encoding(['numeric']))).toBe(hex('1', encoding(['numeric'])));
+    expect(hex('1e3', encoding(['numeric']))).toBe(hex('1000', encoding(['numeric'])));
+    expect(hex('1', encoding(['text']))).not.toBe(hex('1', encoding(['numeric'])));
+  });
+
+  it('keeps storage classes apart without an affinity', () => {
+    const none = encoding(['none']);
+    const key = (value: unknown) => hex(keyPartText(value), none);
+    expect(key('1')).not.toBe(key(1));
+    expect(key('1')).toBe(hex('1', encoding(['text'])));
+    expect(key(1.0)).toBe(key(1));
+    expect(key("x'0102'")).not.toBe(key(new Uint8Array([1, 2])));
+    expect(new Set([key('1'), key(1), key("x'01'"), key(new Uint8Array([1])), key("'1'")]).size).toBe(5);
+  });
+
+  it('round-trips key text through the value it binds', () => {
+    for (const value of ['plain', '42', ' 7 ', "x'ff'", "'it''s'", "it's", new Uint8Array([0, 255])]) {
+      expect(keyPartValue(keyPartText(value))).toEqual(value);
+    }
+    expect(keyPartText('42')).toBe("'42'");
+    expect(keyPartText('plain')).toBe('plain');
+    expect(keyPartText(42)).toBe('42');
+  });
+
+  it('probes join values in the forms SQL compares them with the key column', () => {
+    const numeric = encoding(['numeric']);
+    expect(comparableKeyTexts(keyPartText('5'), 'numeric').map(key => hex(key, numeric))).toEqual([hex(keyPartText(5), numeric)]);
+    expect(comparableKeyTexts(keyPartText('5'), 'none')).toEqual(["'5'", '5']);
+    expect(comparableKeyTexts(keyPartText(5), 'none')).toEqual(['5', "'5'"]);
+    expect(comparableKeyTexts(keyPartText('05'), 'text')).toEqual(["'05'"]);
+    expect(comparableKeyTexts('abc', 'numeric')).toEqual(['abc']);
+  });
+
+  it('applies trimming and case folding to text only', () => {
+    const folded = encoding(['text'], { trim: true, caseFold: true });
+    expect(hex('  Alice ', folded)).toBe(hex('alice', folded));
+    expect(hex('Alice', encoding(['text']))).not.toBe(hex('alice', encoding(['text'])));
+  });
+
+  it('concatenates the parts of a composite key', () => {
+    const enc = encoding(['numeric', 'text']);
+    expect(hex(encodeCompositeKey(['7', 'x']), enc)).toBe(hex('7', encoding(['numeric'])) + hex('x', encoding(['text'])));
+  });
+
+  it('maps declared types to affinities', () => {
+    expect(columnAffinity('BIGINT')).toBe('numeric');
+    expect(columnAffinity('varchar(20)')).toBe('text');
+    expect(columnAffinity('')).toBe('none');
+    expect(columnAffinity('DECIMAL')).toBe('numeric');
+  });
+
+  it('round-trips hex', () => {
+    expect(bytesToHex(hexToBytes('00ff10')!)).toBe('00ff10');
+    expect(hexToBytes('0g')).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Keys travel through the app as text: a SQLite value per key part, joined by
+ * encodeCompositeKey. Key text keeps each value's storage class (keyPartText):
+ * blobs are written as x'..' hex literals, numbers as themselves, and text as
+ * itself unless it would read as a number, a blob or a string literal, in
+ * which case it is written as a SQL string literal ('0042'). Before hashing, a
+ * filter turns that text into canonical bytes, so equal SQLite values give
+ * equal fingerprints, values SQLite tells apart do not, and any backend
+ * following these rules builds the same filter from the same data.
+ *
+ * Each key part is read under its column's affinity (columnAffinity):
+ *   '..'     a string literal is TEXT, whatever the affinity
+ *   x'..'    a hex literal is a BLOB, whatever the affinity
+ *   numeric  other text that reads as a number is that number, else TEXT
+ *   text     other text is TEXT
+ *   none     as numeric (expressions, queries, undeclared and BLOB columns)
+ *
+ * and written as a type tag followed by its payload:
+ *   0x01 INTEGER  8 bytes, big-endian two's complement
+ *   0x02 REAL     8 bytes, big-endian IEEE 754; integral values in int64 range are written as INTEGER, so 1.0 = 1
+ *   0x03 TEXT     u32 big-endian byte length, UTF-8 (after optional trimming and lower-casing)
+ *   0x04 BLOB     u32 big-endian byte length, raw bytes
+ *
+ * Keys read from the database therefore hash by their storage class: in a
+ * column without affinity the text '1', the integer 1 and the blob x'01' are
+ * three keys. Keys typed by hand are read the same way, so the bare text 1
+ * there means the number.
+ *
+ * A composite key is the concatenation of its parts. Text that does not
+ * split into the expected number of parts is hashed as a single TEXT part,
+ * so it cannot match a stored key.
+ */
+import { Hash64, encodeUtf8, hashKeyBytes } from './hash';
+import { HashFunction, HashingOptions, KeyAffinity, KeyEncoding, KeyHashing } from '../types';
+
+const TAG_INTEGER = 0x01;
+const TAG_REAL = 0x02;
+const TAG_TEXT = 0x03;
+const TAG_BLOB = 0x04;
+
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const BLOB_PATTERN = /^[xX]'((?:[0-9a-fA-F]{2})*)'$/;
+const STRING_PATTERN = /^'((?:[^']|'')*)'$/;
+const INT64_LIMIT = 2 ** 63;
+
+export const HASH_FUNCTION_LABELS: Record<HashFunction, string> = {
+  murmur3: 'MurmurHash3 (x86_128, low 64 bits)',
+  xxhash64: 'xxHash64'
+};
+
+// Hashing of filters from earlier versions and of keys supplied without any
+export const TEXT_KEY_HASHING: KeyHashing = { hash: 'murmur3', seed: 0, encoding: null };
+
+export const DEFAULT_HASHING_OPTIONS: HashingOptions = { hash: 'murmur3', seed: 0, trim: false, caseFold: false };
+
+// Hashing of a new filter whose key parts have these affinities
+export const keyHashingFor = ({ hash, seed, trim, caseFold }: HashingOptions, affinities: KeyAffinity[]): KeyHashing =>
+  ({ hash, seed, encoding: { affinities, trim, caseFold } });
+
+/**
+ * Composite keys are encoded as their column values joined by '|', with '\'
+ * and '|' inside a value escaped by a backslash, so ("a|b", "c") and
+ * ("a", "b|c") stay distinct. Single-column keys are left as-is.
+ */
+export const encodeCompositeKey = (parts: string[]): string => {
+  if (parts.length === 1) return parts[0];
+  return parts.map(part => part.replace(/[\\|]/g, '\\$&')).join('|');
+};
+
+// Inverse of encodeCompositeKey; null if the key does not have `arity` parts
+export const decodeCompositeKey = (key: string, arity: number): string[] | null => {
+  if (arity === 1) return [key];
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < key.length; i++) {
+    const ch = key[i];
+    if (ch === '\\' && i + 1 < key.length) {
+      current += key[++i];
+    } else if (ch === '|') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.length === arity ? parts : null;
+};
+
+export const bytesToHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const hexToBytes = (hex: string): Uint8Array | null => {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) return null;
+  return Uint8Array.from({ length: hex.length / 2 }, (_, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+};
+
+const unquote = (literal: string): string => literal.replace(/''/g, "'");
+
+/**
+ * A SQLite value as key text: blobs as hex literals (x'00ff'), numbers as
+ * themselves, and text as itself unless it would read back as a number, a
+ * blob or a string literal, in which case it is written as a string literal.
+ */
+export const keyPartText = (value: unknown): string => {
+  if (value instanceof Uint8Array) return `x'${bytesToHex(value)}'`;
+  if (typeof value === 'string' && (NUMBER_PATTERN.test(value) || BLOB_PATTERN.test(value) || STRING_PATTERN.test(value))) {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  return String(value);
+};
+
+// Key text as a value to bind against a column of the given affinity, read as canonicalKey reads it:
+// hex literals are blobs, string literals their text, and numbers outside text columns numbers
+export const keyPartValue = (text: string, affinity: KeyAffinity = 'none'): string | number | Uint8Array => {
+  const blob = BLOB_PATTERN.exec(text);
+  if (blob) return hexToBytes(blob[1])!;
+  const literal = STRING_PATTERN.exec(text);
+  if (literal) return unquote(literal[1]);
+  return affinity !== 'text' && NUMBER_PATTERN.test(text) ? Number(text) : text;
+};
+
+/**
+ * The key texts a value may equal when SQL compares it with a key column of
+ * the given affinity, as a join does: a numeric column turns text that reads
+ * as a number into that number, and a column without affinity may hold either
+ * form, so both are returned. Text columns compare numbers as their text,
+ * which canonicalKey already does.
+ */
+export const comparableKeyTexts = (text: string, affinity: KeyAffinity): string[] => {
+  if (affinity === 'text') return [text];
+  const literal = STRING_PATTERN.exec(text);
+  const number = literal ? unquote(literal[1]) : text;
+  if (!NUMBER_PATTERN.test(number)) return [text];
+  if (affinity === 'numeric') return [number];
+  return literal ? [text, number] : [text, `'${number}'`];
+};
+
+// SQLite's affinity rules for a declared column type, merged into the three ways key text is read
+export const columnAffinity = (declaredType: string): KeyAffinity => {
+  const type = declaredType.toUpperCase();
+  if (type.includes('INT')) return 'numeric';
+  if (type.includes('CHAR') || type.includes('CLOB') || type.includes('TEXT')) return 'text';
+  if (type.includes('BLOB') || type === '') return 'none';
+  return 'numeric';
+};
+
+const tagged = (tag: number, payload: Uint8Array, withLength: boolean): Uint8Array => {
+  const bytes = new Uint8Array(1 + (withLength ? 4 : 0) + payload.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, tag);
+  if (withLength) view.setUint32(1, payload.length);
+  bytes.set(payload, withLength ? 5 : 1);
+  return bytes;
+};
+
+const numberBytes = (value: number): Uint8Array => {
+  const payload = new Uint8Array(8);
+  const view = new DataView(payload.buffer);
+  if (Number.isInteger(value) && Math.abs(value) < INT64_LIMIT) {
+    view.setBigInt64(0, BigInt(value));
+    return tagged(TAG_INTEGER, payload, false);
+  }
+  view.setFloat64(0, value);
+  return tagged(TAG_REAL, payload, false);
+};
+
+const textBytes = (text: string, { trim, caseFold }: KeyEncoding): Uint8Array => {
+  let value = trim ? text.trim() : text;
+  if (caseFold) value = value.toLowerCase();
+  return tagged(TAG_TEXT, encodeUtf8(value), true);
+};
+
+// One key part as written by keyPartText, read back with its storage class
+const partBytes = (text: string, affinity: KeyAffinity, encoding: KeyEncoding): Uint8Array => {
+  const literal = STRING_PATTERN.exec(text);
+  if (literal) return textBytes(unquote(literal[1]), encoding);
+  const blob = BLOB_PATTERN.exec(text);
+  if (blob) return tagged(TAG_BLOB, hexToBytes(blob[1])!, true);
+  if (affinity !== 'text' && NUMBER_PATTERN.test(text)) return numberBytes(Number(text));
+  return textBytes(text, encoding);
+};
+
+// The canonical bytes of key text under `encoding`
+export const canonicalKey = (key: string, encoding: KeyEncoding): Uint8Array => {
+  const arity = Math.max(1, encoding.affinities.length);
+  const parts = decodeCompositeKey(key, arity);
+  if (!parts) return textBytes(key, encoding);
+
+  const encoded = parts.map((part, i) => partBytes(part, encoding.affinities[i] ?? 'none', encoding));
+  const bytes = new Uint8Array(encoded.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of encoded) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// What a filter hashes for `key`: its canonical bytes, or its UTF-8 text without an encoding
+export const keyBytes = (key: string, encoding: KeyEncoding | null): Uint8Array =>
+  encoding ? canonicalKey(key, encoding) : encodeUtf8(key);
+
+// The 64-bit hash a filter with this hashing computes for `key`
+export const keyHash = (key: string, { hash, seed, encoding }: KeyHashing): Hash64 =>
+  hashKeyBytes(keyBytes(key, encoding), hash, seed);
+
+export const sameKeyEncoding = (a: KeyEncoding | null, b: KeyEncoding | null): boolean => {
+  if (!a || !b) return a === b;
+  return a.trim === b.trim && a.caseFold === b.caseFold && a.affinities.join() === b.affinities.join();
+};
+
+export const sameKeyHashing = (a: KeyHashing, b: KeyHashing): boolean =>
+  a.hash === b.hash && a.seed === b.seed && sameKeyEncoding(a.encoding, b.encoding);
+
+export const describeKeyEncoding = (encoding: KeyEncoding | null): string => {
+  if (!encoding) return 'key text';
+  const typed = `typed keys (${encoding.affinities.join(', ')})`;
+  return [typed, encoding.trim && 'trimmed', encoding.caseFold && 'case-insensitive'].filter(Boolean).join(', ');
+};
+
+export const describeKeyHashing = ({ hash, seed, encoding }: KeyHashing): string =>
+  `${HASH_FUNCTION_LABELS[hash]}, seed ${seed}, ${describeKeyEncoding(encoding)}`;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createKeyFileWriter, hashToHex, parseCsvRecords, parseKeyFile } from './keyFileFormat';
+import { encodeCompositeKey, keyHash, keyPartText } from './keyEncoding';
+import { KeyExportOptions, KeyFileFormat, KeyHashing } from '../types';
+
+// Key parts as sql.js returns them, including characters the text formats must escape
+const rows: any[][] = [
+  [1, 'plain'],
+  [2, 'comma, "quoted"'],
+  [3.5, 'pipe|and\\backslash'],
+  [new Uint8Array([0, 255]), 'blob part'],
+  ['42', "x'01'"],
+  [null, 'skipped: NULL key part']
+];
+const keyed = rows.filter(row => row.every(value => value !== null));
+const expectedKeys = keyed.map(row => encodeCompositeKey(row.map(keyPartText)));
+
+const write = async (options: KeyExportOptions, chunks: any[][][]): Promise<ArrayBuffer> => {
+  const writer = createKeyFileWriter(options);
+  const parts = [...writer.start(), ...chunks.flatMap(chunk => writer.rows(chunk)), ...writer.end()];
+  return new Blob(parts).arrayBuffer();
+};
+
+describe('key files', () => {
+  it.each<KeyFileFormat>(['csv', 'json', 'ndjson'])('round-trips composite keys as %s', async format => {
+    const buffer = await write({ format, header: true, extraColumns: [], hashing: null }, [rows.slice(0, 2), rows.slice(2)]);
+    expect(parseKeyFile(buffer, format, true).keys).toEqual(expectedKeys);
+  });
+
+  it('round-trips keys without line breaks as text', async () => {
+    const buffer = await write({ format: 'text', header: false, extraColumns: [], hashing: null }, [rows]);
+    expect(parseKeyFile(buffer, 'text').keys).toEqual(expectedKeys);
+  });
+
+  it('reads the key, not the extra columns', async () => {
+    const withExtras = keyed.map(row => [...row, 'extra, value']);
+    for (const format of ['csv', 'json', 'ndjson'] as const) {
+      const buffer = await write({ format, header: true, extraColumns: ['note'], hashing: null }, [withExtras]);
+      expect(parseKeyFile(buffer, format, true).keys).toEqual(expectedKeys);
+    }
+  });
+
+  it('round-trips fingerprints with their hashing', async () => {
+    const hashing: KeyHashing = { hash: 'xxhash64', seed: 7, encoding: { affinities: ['numeric', 'text'], trim: true, caseFold: false } };
+    const buffer = await write({ format: 'fingerprints', header: false, extraColumns: [], hashing }, [rows]);
+    const file = parseKeyFile(buffer, 'fingerprints');
+    expect(file.hashing).toEqual(hashing);
+    expect(file.keys).toEqual(expectedKeys.map(key => hashToHex(keyHash(key, hashing))));
+  });
+
+  it('rejects truncated fingerprint files', async () => {
+    const buffer = await write({ format: 'fingerprints', header: false, extraColumns: [], hashing: { hash: 'murmur3', seed: 0, encoding: null } }, [rows]);
+    expect(() => parseKeyFile(buffer.slice(0, buffer.byteLength - 3), 'fingerprints')).toThrow(/truncated/);
+  });
+
+  it('parses quoted CSV fields across lines', () => {
+    expect(parseCsvRecords('a,"b ""c""\nd"\r\n\ne,f')).toEqual([['a', 'b "c"\nd'], ['e', 'f']]);
+    expect(() => parseCsvRecords('"open')).toThrow(/unterminated/);
+  });
+});
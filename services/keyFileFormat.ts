@@ -0,0 +1,336 @@
+/**
+ * Key files written by Key Extraction and read back by Bulk Operations.
+ *
+ *   text          one key per line (keys containing line breaks do not survive)
+ *   csv           RFC 4180: a `key` column, then any extra columns; optional header line
+ *   json          array of typed keys, or of {"key": ..., <column>: ...} objects with extra columns
+ *   ndjson        one {"key": ..., <column>: ...} object per line
+ *   fingerprints  binary: each key's 64-bit hash under the filter's hash function
+ *
+ * In the JSON formats a key keeps its SQLite type: a single-column key is a
+ * number or string, a composite key is an array of its parts, and blobs are
+ * written as {"$blob": "<hex>"}. Reading turns them back into the same key
+ * text a filter build inserts (see encodeKeyRows), so text, CSV and JSON
+ * files of the same keys load identically.
+ *
+ * Fingerprint file (version 2). All integers are little-endian.
+ *
+ *   offset  size  field
+ *   0       4     magic "CQFK"
+ *   4       2     format version
+ *   6       1     hash function id (as in .cqf files, see cqfFormat.ts)
+ *   7       1     reserved (0)
+ *   8       4     hash seed
+ *   12      4     key encoding length in bytes
+ *   16      n     key encoding, UTF-8 JSON (KeyEncoding, or null for key text)
+ *   ...           zero padding to a multiple of 8
+ *                 key hashes (u64 each)
+ *
+ * Version 1 files have a 16-byte header without the key encoding and hold
+ * MurmurHash3 hashes of key text. A fingerprint file can only be applied to
+ * filters that hash keys the same way, and its keys cannot be recovered; Bulk
+ * Operations passes the hashes as 16 hex digits (hashToHex) with the file's
+ * KeyHashing, and the backend checks it.
+ */
+import { Hash64 } from './hash';
+import { HASH_FUNCTION_IDS, hashFunctionForId } from './cqfFormat';
+import { bytesToHex, encodeCompositeKey, hexToBytes, keyHash, keyPartText } from './keyEncoding';
+import { KeyEncoding, KeyExportOptions, KeyFile, KeyFileFormat, KeyHashing } from '../types';
+
+export const KEY_FILE_FORMATS: Record<KeyFileFormat, { label: string; extension: string; mimeType: string }> = {
+  text: { label: 'Text (one key per line)', extension: '.txt', mimeType: 'text/plain' },
+  csv: { label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+  json: { label: 'JSON array', extension: '.json', mimeType: 'application/json' },
+  ndjson: { label: 'NDJSON (one object per line)', extension: '.ndjson', mimeType: 'application/x-ndjson' },
+  fingerprints: { label: 'Fingerprints only (binary)', extension: '.cqfk', mimeType: 'application/octet-stream' }
+};
+
+// Formats that can carry columns besides the key
+export const supportsExtraColumns = (format: KeyFileFormat): boolean =>
+  format === 'csv' || format === 'json' || format === 'ndjson';
+
+const MAGIC = 'CQFK';
+const FINGERPRINT_FORMAT_VERSION = 2;
+const FINGERPRINT_HEADER_BYTES = 16;
+
+const align8 = (n: number) => Math.ceil(n / 8) * 8;
+
+// Quotes a CSV field when it contains a delimiter, quote or line break
+export const csvField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const hashToHex = ({ hi, lo }: Hash64): string =>
+  hi.toString(16).padStart(8, '0') + lo.toString(16).padStart(8, '0');
+
+export const hashFromHex = (hex: string): Hash64 => {
+  if (!/^[0-9a-f]{16}$/i.test(hex)) throw new Error(`Invalid key hash: ${hex} (expected 16 hex digits)`);
+  return { hi: parseInt(hex.slice(0, 8), 16), lo: parseInt(hex.slice(8), 16) };
+};
+
+// --- Writing ---
+
+// SQLite value as JSON
+const jsonValue = (value: any): unknown => value instanceof Uint8Array ? { $blob: bytesToHex(value) } : value;
+
+// Text form of an extra column for CSV; NULL is an empty field and blobs are hex
+const csvValue = (value: any): string => {
+  if (value === null) return '';
+  return csvField(value instanceof Uint8Array ? bytesToHex(value) : String(value));
+};
+
+/**
+ * Turns key rows, as read by sqliteEngine.scanKeyRows (the key's values,
+ * then `extraColumns`), into the parts of a key file, so the file can be
+ * assembled one chunk at a time. Rows with a NULL key part are skipped, as
+ * they are when building a filter.
+ */
+export interface KeyFileWriter {
+  start(): BlobPart[];
+  rows(rows: any[][]): BlobPart[];
+  end(): BlobPart[];
+}
+
+export const createKeyFileWriter = ({ format, header, extraColumns, hashing }: KeyExportOptions): KeyFileWriter => {
+  let written = 0;
+  // Keyed rows, split into key values and extra columns
+  const split = (rows: any[][]) => rows
+    .map(row => ({ key: row.slice(0, row.length - extraColumns.length), extras: row.slice(row.length - extraColumns.length) }))
+    .filter(({ key }) => key.every(value => value !== null));
+  const encodedKey = (key: any[]) => encodeCompositeKey(key.map(keyPartText));
+  const typedKey = (key: any[]) => key.length === 1 ? jsonValue(key[0]) : key.map(jsonValue);
+  const record = (key: any[], extras: any[]) => {
+    const object: Record<string, unknown> = { key: typedKey(key) };
+    extraColumns.forEach((col, i) => { object[col] = jsonValue(extras[i]); });
+    return object;
+  };
+  // Joins lines across chunks: `separator` goes before every line but the first
+  const lines = (items: string[], separator: string): BlobPart[] => {
+    if (items.length === 0) return [];
+    const text = (written > 0 ? separator : '') + items.join(separator);
+    written += items.length;
+    return [text];
+  };
+
+  switch (format) {
+    case 'text':
+      return {
+        start: () => [],
+        rows: rows => lines(split(rows).map(({ key }) => encodedKey(key)), '\n'),
+        end: () => []
+      };
+    case 'csv':
+      return {
+        start: () => header ? lines([['key', ...extraColumns].map(csvField).join(',')], '\n') : [],
+        rows: rows => lines(split(rows).map(({ key, extras }) => [csvField(encodedKey(key)), ...extras.map(csvValue)].join(',')), '\n'),
+        end: () => []
+      };
+    case 'json':
+      return {
+        start: () => ['['],
+        rows: rows => lines(split(rows).map(({ key, extras }) =>
+          JSON.stringify(extraColumns.length > 0 ? record(key, extras) : typedKey(key))), ',\n'),
+        end: () => [written > 0 ? ']\n' : ']']
+      };
+    case 'ndjson':
+      return {
+        start: () => [],
+        rows: rows => split(rows).map(({ key, extras }) => JSON.stringify(record(key, extras)) + '\n'),
+        end: () => []
+      };
+    case 'fingerprints': {
+      if (!hashing) throw new Error("A fingerprint export needs the hashing of the filters it is meant for");
+      return {
+        start: () => {
+          const encoding = new TextEncoder().encode(JSON.stringify(hashing.encoding));
+          const bytes = new Uint8Array(align8(FINGERPRINT_HEADER_BYTES + encoding.length));
+          const view = new DataView(bytes.buffer);
+          for (let i = 0; i < MAGIC.length; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+          view.setUint16(4, FINGERPRINT_FORMAT_VERSION, true);
+          view.setUint8(6, HASH_FUNCTION_IDS[hashing.hash]);
+          view.setUint32(8, hashing.seed >>> 0, true);
+          view.setUint32(12, encoding.length, true);
+          bytes.set(encoding, FINGERPRINT_HEADER_BYTES);
+          return [bytes];
+        },
+        rows: rows => {
+          const keys = split(rows);
+          const view = new DataView(new ArrayBuffer(keys.length * 8));
+          keys.forEach(({ key }, i) => {
+            const { hi, lo } = keyHash(encodedKey(key), hashing);
+            view.setUint32(i * 8, lo, true);
+            view.setUint32(i * 8 + 4, hi, true);
+          });
+          return [view.buffer];
+        },
+        end: () => []
+      };
+    }
+  }
+};
+
+// --- Reading ---
+
+// Picks the format from the file extension; anything unrecognised is read as text
+export const detectKeyFileFormat = (fileName: string): KeyFileFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.jsonl')) return 'ndjson';
+  const match = (Object.keys(KEY_FILE_FORMATS) as KeyFileFormat[])
+    .find(format => format !== 'text' && name.endsWith(KEY_FILE_FORMATS[format].extension));
+  return match ?? 'text';
+};
+
+// Reads a text key file (one key per line); also accepts CRLF line endings and skips blank lines
+export const parseKeyLines = (content: string): string[] => {
+  return content.split(/\r?\n/).filter(line => line !== '');
+};
+
+// RFC 4180 records: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseCsvRecords = (content: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') quoted = false;
+      else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      if (field !== '') throw new Error(`CSV line ${line}: unexpected quote inside an unquoted field`);
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      line++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (quoted) throw new Error(`CSV line ${line}: unterminated quoted field`);
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines are not keys
+  return records.filter(r => r.length > 1 || r[0] !== '');
+};
+
+// A JSON key value as the encoded key a filter stores
+const keyFromJson = (value: unknown, where: string): string => {
+  const part = (v: unknown): string => {
+    if (typeof v === 'string' || typeof v === 'number') return keyPartText(v);
+    if (typeof v === 'boolean') return String(v);
+    if (v && typeof v === 'object' && typeof (v as { $blob?: unknown }).$blob === 'string') {
+      const bytes = hexToBytes((v as { $blob: string }).$blob);
+      if (bytes) return keyPartText(bytes);
+    }
+    if (v === null) throw new Error(`${where}: NULL is not a key`);
+    throw new Error(`${where}: expected a string, number, {"$blob": hex} or an array of those`);
+  };
+  if (Array.isArray(value)) {
+    if (value.length === 0) throw new Error(`${where}: empty composite key`);
+    return encodeCompositeKey(value.map(part));
+  }
+  return part(value);
+};
+
+// Key of a JSON array item or NDJSON line: either the key itself or an object with a `key` field
+const keyFromJsonItem = (item: unknown, where: string): string => {
+  if (item && typeof item === 'object' && !Array.isArray(item) && !('$blob' in item)) {
+    if (!('key' in item)) throw new Error(`${where}: object has no "key" field`);
+    return keyFromJson((item as { key: unknown }).key, where);
+  }
+  return keyFromJson(item, where);
+};
+
+const parseFingerprints = (buffer: ArrayBuffer): KeyFile => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < FINGERPRINT_HEADER_BYTES) throw new Error('Not a fingerprint file: too short');
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== MAGIC) throw new Error('Not a fingerprint file: bad magic number');
+  const version = view.getUint16(4, true);
+  if (version !== 1 && version !== FINGERPRINT_FORMAT_VERSION) throw new Error(`Unsupported fingerprint file version ${version}`);
+  const hash = hashFunctionForId(view.getUint8(6));
+  const seed = view.getUint32(8, true);
+
+  let encoding: KeyEncoding | null = null;
+  let dataStart = FINGERPRINT_HEADER_BYTES;
+  if (version >= 2) {
+    const encodingLength = view.getUint32(12, true);
+    if (FINGERPRINT_HEADER_BYTES + encodingLength > buffer.byteLength) throw new Error('Corrupt fingerprint file: unexpected end of data');
+    encoding = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, FINGERPRINT_HEADER_BYTES, encodingLength)));
+    dataStart = align8(FINGERPRINT_HEADER_BYTES + encodingLength);
+  }
+  if ((buffer.byteLength - dataStart) % 8 !== 0) throw new Error('Corrupt fingerprint file: truncated hash');
+
+  const keys: string[] = [];
+  for (let at = dataStart; at < buffer.byteLength; at += 8) {
+    keys.push(hashToHex({ hi: view.getUint32(at + 4, true), lo: view.getUint32(at, true) }));
+  }
+  const hashing: KeyHashing = { hash, seed, encoding };
+  return { format: 'fingerprints', keys, hashing };
+};
+
+/**
+ * Reads a key file in any of the formats above. `header` says whether the
+ * first CSV line names the columns rather than holding a key; only the first
+ * CSV column is read. Malformed input is reported with its line or item.
+ */
+export const parseKeyFile = (buffer: ArrayBuffer, format: KeyFileFormat, header: boolean = false): KeyFile => {
+  if (format === 'fingerprints') return parseFingerprints(buffer);
+
+  const content = new TextDecoder().decode(buffer);
+  switch (format) {
+    case 'text':
+      return { format, keys: parseKeyLines(content), hashing: null };
+    case 'csv': {
+      const records = parseCsvRecords(content);
+      return { format, keys: (header ? records.slice(1) : records).map(r => r[0]), hashing: null };
+    }
+    case 'json': {
+      let items: unknown;
+      try {
+        items = JSON.parse(content);
+      } catch (error: any) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+      }
+      if (!Array.isArray(items)) throw new Error('JSON key file must be an array');
+      return { format, keys: items.map((item, i) => keyFromJsonItem(item, `Item ${i + 1}`)), hashing: null };
+    }
+    case 'ndjson': {
+      const keys: string[] = [];
+      content.split(/\r?\n/).forEach((line, i) => {
+        if (line.trim() === '') return;
+        let item: unknown;
+        try {
+          item = JSON.parse(line);
+        } catch (error: any) {
+          throw new Error(`Line ${i + 1}: ${error.message}`);
+        }
+        keys.push(keyFromJsonItem(item, `Line ${i + 1}`));
+      });
+      return { format, keys, hashing: null };
+    }
+  }
+};
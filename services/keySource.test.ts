@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { keyQuerySql, quoteIdentifier } from './keySource';
+
+describe('key queries', () => {
+  it('doubles quotes inside identifiers', () => {
+    expect(quoteIdentifier('say "hi"')).toBe('"say ""hi"""');
+  });
+
+  it('quotes table, key and extra column names', () => {
+    expect(keyQuerySql('my "table"', { kind: 'primaryKey', columns: ['a"b', 'c'] }, 'c > 1', undefined, ['x"; DROP TABLE t; --']))
+      .toBe('SELECT "a""b", "c", "x""; DROP TABLE t; --" FROM "my ""table""" WHERE c > 1');
+    expect(keyQuerySql('t', { kind: 'column', column: 'e"mail' }, null)).toBe('SELECT "e""mail" FROM "t"');
+  });
+});
@@ -0,0 +1,98 @@
+import { FilterSource, KeyAffinity, KeySource, TableInfo } from '../types';
+import { columnAffinity } from './keyEncoding';
+
+// Id of the database opened from the sidebar's upload; other open databases get their own
+export const MAIN_DATABASE = 'main';
+
+export const sourceDatabase = (source: FilterSource): string => source.database ?? MAIN_DATABASE;
+
+// Whether `source` reads `table`: the same table name in the same open database
+export const readsTable = (source: FilterSource, table: TableInfo): boolean =>
+  source.tableName === table.name && sourceDatabase(source) === table.database;
+
+// The key source of a table in the given database; the main database is left implicit, as in files from earlier versions
+export const tableSource = (table: TableInfo, keySource: KeySource, where: string | null): FilterSource =>
+  table.database === MAIN_DATABASE
+    ? { tableName: table.name, keySource, where }
+    : { database: table.database, tableName: table.name, keySource, where };
+
+// A table or column name as a SQL identifier, with embedded quotes doubled
+export const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+// SQL selecting the key value(s) of one row; primary keys may span several columns
+const keySelectSql = (keySource: Exclude<KeySource, { kind: 'query' }>): string => {
+  switch (keySource.kind) {
+    case 'primaryKey': return keySource.columns.map(quoteIdentifier).join(', ');
+    case 'column': return quoteIdentifier(keySource.column);
+    case 'rowid': return 'rowid';
+    case 'expression': return `(${keySource.expression})`;
+  }
+};
+
+// Full query returning one key per row for `keySource` over `tableName`;
+// `rowCondition` narrows a table source further, e.g. to a single row, and
+// `extraColumns` are selected after the key values
+export const keyQuerySql = (
+  tableName: string,
+  keySource: KeySource,
+  where: string | null,
+  rowCondition?: string,
+  extraColumns: string[] = []
+): string => {
+  if (keySource.kind === 'query') {
+    if (extraColumns.length > 0) throw new Error("Extra columns can only be read from a table key source");
+    return keySource.sql;
+  }
+  const conditions = [where, rowCondition].filter((c): c is string => !!c?.trim());
+  const clause = conditions.length === 0 ? ''
+    : conditions.length === 1 ? ` WHERE ${conditions[0]}`
+      : ` WHERE ${conditions.map(c => `(${c})`).join(' AND ')}`;
+  const extras = extraColumns.map(col => `, ${quoteIdentifier(col)}`).join('');
+  return `SELECT ${keySelectSql(keySource)}${extras} FROM ${quoteIdentifier(tableName)}${clause}`;
+};
+
+// Names of the values making up a key, used to label key inputs
+export const keySourceColumns = (keySource: KeySource | null): string[] => {
+  if (!keySource) return [];
+  switch (keySource.kind) {
+    case 'primaryKey': return keySource.columns;
+    case 'column': return [keySource.column];
+    case 'rowid': return ['rowid'];
+    case 'expression': return [keySource.expression];
+    case 'query': return [keySource.column];
+  }
+};
+
+// How each key part is read when canonicalizing keys (see keyEncoding.ts); `table` is the source table, if any
+export const keySourceAffinities = (keySource: KeySource, table: Pick<TableInfo, 'columns' | 'columnTypes'> | null): KeyAffinity[] => {
+  const affinityOf = (col: string) => {
+    const index = table ? table.columns.indexOf(col) : -1;
+    return index >= 0 ? columnAffinity(table!.columnTypes[index]) : 'none';
+  };
+  switch (keySource.kind) {
+    case 'primaryKey': return keySource.columns.map(affinityOf);
+    case 'column': return [affinityOf(keySource.column)];
+    case 'rowid': return ['numeric'];
+    case 'expression': return ['none'];
+    case 'query': return ['none'];
+  }
+};
+
+export const describeKeySource = (keySource: KeySource | null): string => {
+  if (!keySource) return 'supplied keys';
+  switch (keySource.kind) {
+    case 'primaryKey': return `PK (${keySource.columns.join(', ')})`;
+    case 'column': return keySource.column;
+    case 'rowid': return 'rowid';
+    case 'expression': return keySource.expression;
+    case 'query': return `${keySource.column} of query`;
+  }
+};
+
+// Filters over another open database are prefixed with its id, so a snapshot's filter does not replace the main one's
+export const defaultFilterName = (tableName: string, keySource: KeySource, database: string = MAIN_DATABASE): string => {
+  const prefix = database === MAIN_DATABASE ? '' : `${database}/`;
+  if (keySource.kind === 'query') return `${prefix}query.${keySource.column}`;
+  const label = keySource.kind === 'primaryKey' ? 'pk' : describeKeySource(keySource);
+  return `${prefix}${tableName}.${label}`;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CountingQuotientFilter } from './cqfEngine';
+import { serializeFilter } from './cqfFormat';
+import { createLocalBackend } from './localBackend';
+import { FilterProvenance, FilterSource } from '../types';
+
+const source: FilterSource = { tableName: 'events', keySource: null, where: null };
+const provenance: FilterProvenance = { ...source, filterName: 'events', createdAt: '2026-01-01T00:00:00.000Z', keyEncoding: null };
+
+const HIGH_COUNT = 2 ** 20;
+
+describe('grow policy', () => {
+  it('reports a filter whose counters cannot be expanded and leaves it unchanged', async () => {
+    // 3-bit remainders holding counts of 2^20: the next insert overflows, and so would the 2-bit expansion
+    const filter = new CountingQuotientFilter({ qbits: 6, rbits: 3 });
+    for (let i = 0; i < 17; i++) filter.insert(`k${i}`, HIGH_COUNT);
+    const backend = createLocalBackend();
+    await backend.importFilter(serializeFilter(filter, provenance));
+    const before = await backend.stats('events');
+
+    await expect(backend.insert('events', 'k17', HIGH_COUNT)).rejects.toThrow(/cannot expand: remainder bits exhausted/);
+    const after = await backend.stats('events');
+    expect(after).toMatchObject({ quotientBits: 6, remainderBits: 3, itemCount: before.itemCount, resizeCount: 0 });
+    expect((await backend.count('events', 'k16')).count).toBeGreaterThanOrEqual(HIGH_COUNT);
+  });
+
+  it('keeps every count while a small filter fills up with high counts', async () => {
+    const backend = createLocalBackend();
+    await backend.build('events', [], source);
+    const inserted: string[] = [];
+    for (let i = 0; i < 1000; i++) {
+      const before = await backend.stats('events');
+      try {
+        await backend.insert('events', `k${i}`, HIGH_COUNT + i);
+        inserted.push(`k${i}`);
+      } catch (error: any) {
+        expect(error.name).toBe('CqfFullError');
+        expect(await backend.stats('events')).toEqual(before);
+        break;
+      }
+    }
+    expect(inserted.length).toBeGreaterThan(100);
+    expect((await backend.stats('events')).resizeCount).toBeGreaterThan(0);
+    for (const [i, key] of inserted.entries()) {
+      expect((await backend.count('events', key)).count).toBeGreaterThanOrEqual(HIGH_COUNT + i);
+    }
+  });
+});
+
+describe('builds', () => {
+  it('sizes a build for the keys inserted after it', async () => {
+    const backend = createLocalBackend();
+    const keys = Array.from({ length: 20000 }, (_, i) => `k${i}`);
+    await backend.build('events', keys.slice(0, 100), source, undefined, keys.length);
+    const { results } = await backend.batch('events', 'insert', keys.slice(100), 1);
+    expect(results.every(r => r.ok)).toBe(true);
+    const stats = await backend.stats('events');
+    expect(stats).toMatchObject({ quotientBits: CountingQuotientFilter.quotientBitsFor(keys.length), itemCount: keys.length, resizeCount: 0 });
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * In-process backend: filters live in memory and are backed by the CQF engine
+ * in cqfEngine.ts, so answers are approximate: lookups can return false
+ * positives. Each filter has a resize policy deciding whether inserts past its
+ * load limit expand the filter or are refused, and hashes keys as chosen at
+ * build time (keyEncoding.ts).
+ * The reference server wraps this same backend.
+ */
+import { CountingQuotientFilter, CqfFullError, KeyInput } from './cqfEngine';
+import { serializeFilter, deserializeFilter } from './cqfFormat';
+import { combineFilters, compareFilters, missingFingerprints } from './cqfAlgebra';
+import { BuildResult, CqfBackend } from './cqfBackend';
+import { describeKeySource } from './keySource';
+import { hashFromHex } from './keyFileFormat';
+import { TEXT_KEY_HASHING, describeKeyEncoding, describeKeyHashing, keyBytes, sameKeyEncoding, sameKeyHashing } from './keyEncoding';
+import { CqfFilterState, FilterProvenance, FilterSource, FpProbeResult, KeyHashing, ResizeEvent, ResizePolicy } from '../types';
+
+// Remainder bits per slot; the FP rate is roughly loadFactor / 2^REMAINDER_BITS.
+const DEFAULT_REMAINDER_BITS = 8;
+
+export const DEFAULT_RESIZE_POLICY: ResizePolicy = { mode: 'grow', maxLoadFactor: 0.9 };
+
+interface FilterEntry {
+  filter: CountingQuotientFilter;
+  provenance: FilterProvenance;
+  lastProbe: FpProbeResult | null;
+  policy: ResizePolicy;
+  resizeCount: number;
+}
+
+const hashingOf = ({ filter, provenance }: FilterEntry): KeyHashing =>
+  ({ hash: filter.hash, seed: filter.seed, encoding: provenance.keyEncoding ?? null });
+
+// What the filter hashes for key text: its canonical bytes under the filter's key encoding
+const keyInput = (entry: FilterEntry, key: string): KeyInput => keyBytes(key, entry.provenance.keyEncoding ?? null);
+
+// An empty filter sized for `expectedKeys`, hashing keys as `hashing` says
+const newFilter = (expectedKeys: number, { hash, seed }: KeyHashing) => new CountingQuotientFilter({
+  qbits: CountingQuotientFilter.quotientBitsFor(expectedKeys),
+  rbits: DEFAULT_REMAINDER_BITS,
+  hash,
+  seed
+});
+
+const validatePolicy = (policy: ResizePolicy) => {
+  if (policy.mode !== 'grow' && policy.mode !== 'reject') {
+    throw new Error(`Invalid resize mode: ${policy.mode}`);
+  }
+  if (!(policy.maxLoadFactor > 0 && policy.maxLoadFactor <= 1)) {
+    throw new Error(`Invalid max load factor: ${policy.maxLoadFactor} (expected 0-1)`);
+  }
+};
+
+/**
+ * Swaps in a filter with twice the home slots (see CountingQuotientFilter.expanded).
+ * Each expansion takes a remainder bit, so large counts need more counter
+ * digits; once those no longer fit, the filter cannot grow and is left as is.
+ */
+const grow = (name: string, entry: FilterEntry): ResizeEvent => {
+  const before = entry.filter;
+  try {
+    entry.filter = before.expanded();
+  } catch (error) {
+    if (!(error instanceof CqfFullError)) throw error;
+    throw new CqfFullError(`Filter '${name}' cannot expand: remainder bits exhausted (its counters do not fit in 2^${before.qbits + 1} slots with ${before.rbits - 1}-bit remainders). Rebuild it with more capacity.`);
+  }
+  entry.resizeCount++;
+  return {
+    fromQuotientBits: before.qbits,
+    toQuotientBits: entry.filter.qbits,
+    toRemainderBits: entry.filter.rbits,
+    loadFactorBefore: before.loadFactor,
+    loadFactorAfter: entry.filter.loadFactor
+  };
+};
+
+/**
+ * Inserts under the entry's resize policy. `grow` expands when the slot array
+ * overflows or the load factor passes the limit; `reject` undoes an insert
+ * that would pass the limit. Returns the expansions performed. An insert that
+ * fails leaves the filter as it was, without the expansions tried for it.
+ */
+const insertWithPolicy = (name: string, entry: FilterEntry, key: KeyInput, count: number): ResizeEvent[] => {
+  const { policy } = entry;
+  if (policy.mode === 'reject') {
+    entry.filter.insert(key, count);
+    if (entry.filter.loadFactor > policy.maxLoadFactor) {
+      entry.filter.remove(key, count);
+      throw new Error(`Filter '${name}' is at its load limit (${policy.maxLoadFactor}): insert refused. Rebuild it with more capacity or set its resize policy to grow.`);
+    }
+    return [];
+  }
+
+  const { filter: original, resizeCount } = entry;
+  const resizes: ResizeEvent[] = [];
+  try {
+    while (true) {
+      try {
+        entry.filter.insert(key, count);
+        break;
+      } catch (error) {
+        if (!(error instanceof CqfFullError) || !entry.filter.canExpand) throw error;
+        resizes.push(grow(name, entry));
+      }
+    }
+  } catch (error) {
+    entry.filter = original;
+    entry.resizeCount = resizeCount;
+    throw error;
+  }
+  // Past the last possible expansion the filter keeps filling up to the hard limit
+  while (entry.filter.loadFactor > policy.maxLoadFactor && entry.filter.canExpand) {
+    try {
+      resizes.push(grow(name, entry));
+    } catch (error) {
+      if (!(error instanceof CqfFullError)) throw error;
+      break;
+    }
+  }
+  return resizes;
+};
+
+export interface LocalBackend extends CqfBackend {
+  /**
+   * Builds from keys arriving in chunks, inserting each chunk as it comes so
+   * only the filter is held in memory. The filter is sized for
+   * `expectedKeys` and grows if more arrive; it replaces any filter of that
+   * name only once the last chunk is in, so a failed or cancelled stream
+   * leaves the old one untouched.
+   */
+  buildFromChunks(
+    name: string,
+    source: FilterSource,
+    hashing: KeyHashing,
+    expectedKeys: number,
+    chunks: AsyncIterable<string[]>
+  ): Promise<BuildResult>;
+}
+
+const builtMessage = (name: string, keyCount: number, filter: CountingQuotientFilter): string =>
+  `CQF built successfully for ${name} with ${keyCount} keys (2^${filter.qbits} slots, ${filter.rbits}-bit remainders).`;
+
+const statsOf = ({ filter, provenance, lastProbe, policy, resizeCount }: FilterEntry): CqfFilterState => ({
+  isBuilt: true,
+  source: provenance,
+  itemCount: filter.size,
+  distinctCount: filter.distinct,
+  capacity: filter.nslots,
+  quotientBits: filter.qbits,
+  remainderBits: filter.rbits,
+  occupiedSlots: filter.usedSlots,
+  loadFactor: filter.loadFactor,
+  bitsPerElement: filter.distinct > 0 ? (filter.sizeInBytes * 8) / filter.distinct : 0,
+  sizeInBytes: filter.sizeInBytes,
+  theoreticalFpRate: filter.theoreticalFpRate,
+  measuredFpRate: lastProbe ? lastProbe.measuredFpRate : null,
+  probeCount: lastProbe ? lastProbe.probes : 0,
+  resizePolicy: policy,
+  resizeCount,
+  hashing: hashingOf({ filter, provenance, lastProbe, policy, resizeCount })
+});
+
+export const createLocalBackend = (): LocalBackend => {
+  // filter name -> filter
+  const filterStore: Map<string, FilterEntry> = new Map();
+
+  const getEntry = (name: string): FilterEntry => {
+    const entry = filterStore.get(name);
+    if (!entry) throw new Error(`Filter '${name}' has not been built`);
+    return entry;
+  };
+
+  // The engine checks hash functions and seeds; the keys must also have been encoded alike
+  const getComparable = (name: string, other: string): [FilterEntry, FilterEntry] => {
+    const a = getEntry(name);
+    const b = getEntry(other);
+    if (!sameKeyEncoding(a.provenance.keyEncoding ?? null, b.provenance.keyEncoding ?? null)) {
+      throw new Error(`Filters '${name}' and '${other}' are incompatible: keys are encoded differently (${describeKeyEncoding(a.provenance.keyEncoding ?? null)} vs ${describeKeyEncoding(b.provenance.keyEncoding ?? null)}).`);
+    }
+    return [a, b];
+  };
+
+  return {
+    kind: 'local',
+    label: 'In-browser',
+
+    ping: async () => {},
+
+    listFilters: async () => Array.from(filterStore.keys()),
+
+    build: async (name, keys, source, hashing = TEXT_KEY_HASHING, expectedKeys = 0) => {
+      const filter = newFilter(Math.max(keys.length, expectedKeys), hashing);
+      filter.load(keys.map(key => keyBytes(key, hashing.encoding)));
+      filterStore.set(name, {
+        filter,
+        provenance: { ...source, filterName: name, createdAt: new Date().toISOString(), keyEncoding: hashing.encoding },
+        lastProbe: null,
+        // A rebuild keeps the policy chosen for the previous filter of that name
+        policy: filterStore.get(name)?.policy ?? DEFAULT_RESIZE_POLICY,
+        resizeCount: 0
+      });
+
+      return { success: true, message: builtMessage(name, keys.length, filter) };
+    },
+
+    buildFromChunks: async (name, source, hashing, expectedKeys, chunks) => {
+      const entry: FilterEntry = {
+        filter: newFilter(expectedKeys, hashing),
+        provenance: { ...source, filterName: name, createdAt: new Date().toISOString(), keyEncoding: hashing.encoding },
+        lastProbe: null,
+        policy: DEFAULT_RESIZE_POLICY, // Grows past the estimate while building
+        resizeCount: 0
+      };
+      let keyCount = 0;
+      for await (const keys of chunks) {
+        for (const key of keys) insertWithPolicy(name, entry, keyInput(entry, key), 1);
+        keyCount += keys.length;
+      }
+      // A rebuild keeps the policy chosen for the previous filter of that name
+      entry.policy = filterStore.get(name)?.policy ?? DEFAULT_RESIZE_POLICY;
+      filterStore.set(name, entry);
+
+      return { success: true, message: builtMessage(name, keyCount, entry.filter) };
+    },
+
+    search: async (name, key) => {
+      const entry = getEntry(name);
+      return { found: entry.filter.contains(keyInput(entry, key)) };
+    },
+
+    insert: async (name, key, count) => {
+      const entry = getEntry(name);
+      const input = keyInput(entry, key);
+      const resizes = insertWithPolicy(name, entry, input, count);
+      return { success: true, count: entry.filter.count(input), resizes };
+    },
+
+    remove: async (name, key, count) => {
+      const entry = getEntry(name);
+      const input = keyInput(entry, key);
+      const removed = entry.filter.remove(input, count);
+      return { success: removed > 0, removed, count: entry.filter.count(input) };
+    },
+
+    count: async (name, key) => {
+      const entry = getEntry(name);
+      return { count: entry.filter.count(keyInput(entry, key)) };
+    },
+
+    batch: async (name, op, keys, count, hashing = null) => {
+      const entry = getEntry(name);
+      if (hashing && !sameKeyHashing(hashing, hashingOf(entry))) {
+        throw new Error(`Key hashes were computed with ${describeKeyHashing(hashing)}, but filter '${name}' uses ${describeKeyHashing(hashingOf(entry))}`);
+      }
+      const inputs: KeyInput[] = hashing ? keys.map(hashFromHex) : keys.map(key => keyInput(entry, key));
+      const resizes: ResizeEvent[] = [];
+      const results = inputs.map(key => {
+        try {
+          if (op === 'search') {
+            const current = entry.filter.count(key);
+            return { ok: true, found: current > 0, count: current };
+          }
+          if (op === 'insert') {
+            resizes.push(...insertWithPolicy(name, entry, key, count));
+            return { ok: true, found: true, count: entry.filter.count(key) };
+          }
+          const removed = entry.filter.remove(key, count);
+          return { ok: true, found: removed > 0, count: entry.filter.count(key) };
+        } catch (error: any) {
+          return { ok: false, found: false, count: 0, error: error.message };
+        }
+      });
+      return { results, resizes };
+    },
+
+    setResizePolicy: async (name, policy) => {
+      const entry = getEntry(name);
+      validatePolicy(policy);
+      entry.policy = { mode: policy.mode, maxLoadFactor: policy.maxLoadFactor };
+      return statsOf(entry);
+    },
+
+    stats: async (name) => statsOf(getEntry(name)),
+
+    probe: async (name, absentKeys) => {
+      const entry = getEntry(name);
+      if (absentKeys.length === 0) throw new Error("FP probe needs at least one absent key");
+
+      let falsePositives = 0;
+      for (const key of absentKeys) {
+        if (entry.filter.contains(keyInput(entry, key))) falsePositives++;
+      }
+
+      entry.lastProbe = {
+        probes: absentKeys.length,
+        falsePositives,
+        measuredFpRate: falsePositives / absentKeys.length
+      };
+      return entry.lastProbe;
+    },
+
+    combine: async (name, other, op, target) => {
+      const [a, b] = getComparable(name, other);
+      const filter = combineFilters(name, a.filter, other, b.filter, op);
+      const sources = [a.provenance, b.provenance];
+      const sameTable = sources[0].tableName === sources[1].tableName && sources[0].database === sources[1].database;
+      filterStore.set(target, {
+        filter,
+        provenance: {
+          // Keep the table when both sides come from it; the keys themselves are no longer extractable
+          ...(sameTable ? { database: sources[0].database } : {}),
+          tableName: sameTable ? sources[0].tableName : '',
+          keySource: null,
+          where: null,
+          filterName: target,
+          createdAt: new Date().toISOString(),
+          keyEncoding: sources[0].keyEncoding ?? null,
+          derivedFrom: { op, filters: [name, other] }
+        },
+        lastProbe: null,
+        policy: filterStore.get(target)?.policy ?? DEFAULT_RESIZE_POLICY,
+        resizeCount: 0
+      });
+
+      return {
+        success: true,
+        message: `CQF ${target} = ${op} of ${name} and ${other}: ${filter.distinct} distinct fingerprints, ${filter.size} keys (2^${filter.qbits} slots, ${filter.rbits}-bit remainders).`
+      };
+    },
+
+    compare: async (name, other) => {
+      const [a, b] = getComparable(name, other);
+      return compareFilters(name, a.filter, other, b.filter);
+    },
+
+    missing: async (name, other, limit) => {
+      const [a, b] = getComparable(name, other);
+      return missingFingerprints(name, a.filter, other, b.filter, limit);
+    },
+
+    slotWindow: async (name, from, count) => getEntry(name).filter.slotWindow(from, count),
+
+    locate: async (name, key) => {
+      const entry = getEntry(name);
+      return entry.filter.locate(keyInput(entry, key));
+    },
+
+    slotLayout: async (name) => getEntry(name).filter.slotLayout(),
+
+    exportFilter: async (name) => {
+      const { filter, provenance } = getEntry(name);
+      return serializeFilter(filter, provenance);
+    },
+
+    importFilter: async (buffer) => {
+      const { filter, provenance } = deserializeFilter(buffer);
+      filterStore.set(provenance.filterName, {
+        filter,
+        provenance,
+        lastProbe: null,
+        policy: DEFAULT_RESIZE_POLICY,
+        resizeCount: 0
+      });
+
+      return {
+        filterName: provenance.filterName,
+        tableName: provenance.tableName,
+        message: `CQF '${provenance.filterName}' loaded for ${provenance.tableName} [${describeKeySource(provenance.keySource)}] with ${filter.size} keys (built ${provenance.createdAt}).`
+      };
+    }
+  };
+};
@@ -0,0 +1,126 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as sqlite from './sqliteEngine';
+import { applyRowEdit } from './rowEditService';
+import { CqfFilterState, FilterSource } from '../types';
+
+// The worker's calls made in place: the engine for the database, a local backend for filters
+const { backend } = await vi.hoisted(async () => {
+  const { createLocalBackend } = await import('./localBackend');
+  return { backend: createLocalBackend() };
+});
+
+vi.mock('./dbService', async () => {
+  const engine = await import('./sqliteEngine');
+  return {
+    getRowKeys: async (...args: Parameters<typeof engine.getRowKeys>) => engine.getRowKeys(...args),
+    insertRow: async (...args: Parameters<typeof engine.insertRow>) => engine.insertRow(...args),
+    updateRow: async (...args: Parameters<typeof engine.updateRow>) => engine.updateRow(...args),
+    deleteRow: async (...args: Parameters<typeof engine.deleteRow>) => engine.deleteRow(...args),
+    withSavepoint: async <T>(action: () => Promise<T>): Promise<T> => {
+      engine.beginSavepoint();
+      try {
+        const result = await action();
+        engine.releaseSavepoint();
+        return result;
+      } catch (error) {
+        engine.rollbackSavepoint();
+        throw error;
+      }
+    }
+  };
+});
+
+vi.mock('./cqfService', () => ({
+  insertCQF: (name: string, key: string, count = 1) => backend.insert(name, key, count),
+  deleteCQF: (name: string, key: string, count = 1) => backend.remove(name, key, count)
+}));
+
+const table = { name: 'users', database: 'main', type: 'table' as const, rowCount: 2, pkColumns: ['id'], columns: ['id', 'team'], columnTypes: ['INTEGER', 'TEXT'] };
+const byId: FilterSource = { tableName: 'users', keySource: { kind: 'primaryKey', columns: ['id'] }, where: null };
+const byTeam: FilterSource = { tableName: 'users', keySource: { kind: 'column', column: 'team' }, where: null };
+const redOnly: FilterSource = { tableName: 'users', keySource: { kind: 'primaryKey', columns: ['id'] }, where: "team = 'red'" };
+
+let filters: Record<string, CqfFilterState>;
+
+const rows = () => sqlite.executeSql('SELECT id, team FROM users ORDER BY id').statements[0].rows;
+const count = async (name: string, key: string) => (await backend.count(name, key)).count;
+
+beforeAll(async () => {
+  const require = createRequire(import.meta.url);
+  const dir = path.dirname(require.resolve('sql.js/dist/sql-wasm.js'));
+  const SQL = await require(path.join(dir, 'sql-wasm.js'))({ wasmBinary: await readFile(path.join(dir, 'sql-wasm.wasm')) });
+  sqlite.createDatabase(SQL);
+});
+
+beforeEach(async () => {
+  sqlite.executeSql(`
+    DROP TABLE IF EXISTS users;
+    CREATE TABLE users(id INTEGER PRIMARY KEY, team TEXT);
+    INSERT INTO users VALUES (1, 'red'), (2, 'red');
+  `);
+  await backend.build('users.id', ['1', '2'], byId);
+  await backend.build('users.team', ['red', 'red'], byTeam);
+  await backend.build('users.red', ['1', '2'], redOnly);
+  filters = {
+    'users.id': await backend.stats('users.id'),
+    'users.team': await backend.stats('users.team'),
+    'users.red': await backend.stats('users.red')
+  };
+});
+
+describe('row edits', () => {
+  it('moves a changed key between the keys of every filter on the table', async () => {
+    const result = await applyRowEdit(table, { kind: 'update', locator: { id: 2 }, values: { id: 3, team: 'blue' } }, filters);
+
+    expect(result.locator).toEqual({ id: 3 });
+    expect(rows()).toEqual([[1, 'red'], [3, 'blue']]);
+    expect(result.filters.map(({ filterName, removedKeys, insertedKeys }) => ({ filterName, removedKeys, insertedKeys }))).toEqual([
+      { filterName: 'users.id', removedKeys: ['2'], insertedKeys: ['3'] },
+      { filterName: 'users.team', removedKeys: ['red'], insertedKeys: ['blue'] },
+      // The row no longer passes the WHERE clause
+      { filterName: 'users.red', removedKeys: ['2'], insertedKeys: [] }
+    ]);
+    expect([await count('users.id', '2'), await count('users.id', '3')]).toEqual([0, 1]);
+  });
+
+  it('decrements the counts of a deleted row', async () => {
+    await applyRowEdit(table, { kind: 'delete', locator: { id: 1 } }, filters);
+
+    expect(rows()).toEqual([[2, 'red']]);
+    expect(await count('users.team', 'red')).toBe(1);
+    expect(await count('users.id', '1')).toBe(0);
+  });
+
+  it('adds the keys of an inserted row', async () => {
+    const result = await applyRowEdit(table, { kind: 'insert', values: { team: 'red' } }, filters);
+
+    expect(result.locator).toEqual({ id: 3 });
+    expect(await count('users.team', 'red')).toBe(3);
+    expect(await count('users.red', '3')).toBe(1);
+  });
+
+  it('rolls back the row and the filters already updated when a filter update fails', async () => {
+    const missing: CqfFilterState = { ...filters['users.id'], source: { ...filters['users.id'].source, where: 'id > 0' } };
+    await expect(applyRowEdit(table, { kind: 'update', locator: { id: 2 }, values: { id: 3 } }, { ...filters, 'users.gone': missing }))
+      .rejects.toThrow(/^Edit rolled back: updating the filters failed/);
+
+    expect(rows()).toEqual([[1, 'red'], [2, 'red']]);
+    expect([await count('users.id', '2'), await count('users.id', '3')]).toEqual([1, 0]);
+    expect([await count('users.red', '2'), await count('users.red', '3')]).toEqual([1, 0]);
+  });
+
+  it('reports query filters that mention the table as not maintained', async () => {
+    const query = (sql: string): CqfFilterState => ({ ...filters['users.id'], source: { ...filters['users.id'].source, tableName: '', keySource: { kind: 'query', sql, column: 'id' } } });
+    const result = await applyRowEdit(table, { kind: 'delete', locator: { id: 2 } }, {
+      quoted: query('SELECT id FROM "users" WHERE team = \'red\''),
+      joined: query('SELECT o.id FROM orders o JOIN users u ON u.id = o.user_id'),
+      other: query('SELECT id FROM users_archive'),
+      column: query('SELECT users_id AS id FROM audit')
+    });
+    expect(result.unmaintained).toEqual(['quoted', 'joined']);
+    expect(result.filters).toEqual([]);
+  });
+});
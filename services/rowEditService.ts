@@ -0,0 +1,96 @@
+/**
+ * Row edits from the table browser. Each edit changes SQLite and every filter
+ * built on the edited table together: the keys the row contributed before the
+ * edit are deleted from the filter and the keys it contributes afterwards are
+ * inserted, so a changed primary key becomes a delete plus an insert. If a
+ * filter update fails, the filter updates already made are undone and the
+ * database change is rolled back.
+ */
+import { CqfFilterState, FilterMaintenance, RowEdit, RowEditResult, RowLocator, TableInfo } from '../types';
+import { deleteRow, getRowKeys, insertRow, updateRow, withSavepoint } from './dbService';
+import { deleteCQF, insertCQF } from './cqfService';
+import { MAIN_DATABASE, readsTable } from './keySource';
+
+// Query sources are re-run in full on rebuild; a mention of the table is the best guess at a dependency
+const queryReadsTable = (sql: string, tableName: string): boolean =>
+  new RegExp(`(^|[^\\w$])"?${tableName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"?($|[^\\w$])`, 'i').test(sql);
+
+// Keys in `a` that are not matched one-for-one in `b`
+const subtractKeys = (a: string[], b: string[]): string[] => {
+  const remaining = [...b];
+  return a.filter(key => {
+    const i = remaining.indexOf(key);
+    if (i < 0) return true;
+    remaining.splice(i, 1);
+    return false;
+  });
+};
+
+const applyToDatabase = async (table: TableInfo, edit: RowEdit): Promise<RowLocator | null> => {
+  switch (edit.kind) {
+    case 'insert': return insertRow(table, edit.values);
+    case 'update': return updateRow(table, edit.locator, edit.values);
+    case 'delete':
+      await deleteRow(table, edit.locator);
+      return null;
+  }
+};
+
+export const applyRowEdit = async (
+  table: TableInfo,
+  edit: RowEdit,
+  filters: Record<string, CqfFilterState>
+): Promise<RowEditResult> => {
+  const names = Object.keys(filters);
+  const maintained = names.filter(name => {
+    const { source } = filters[name];
+    return readsTable(source, table) && !!source.keySource && source.keySource.kind !== 'query';
+  });
+  // Query sources run against the main database, the only one that can be edited
+  const unmaintained = names.filter(name => {
+    const { keySource } = filters[name].source;
+    return table.database === MAIN_DATABASE && keySource?.kind === 'query' && queryReadsTable(keySource.sql, table.name);
+  });
+
+  return withSavepoint(async () => {
+    const before = new Map<string, string[]>();
+    for (const name of maintained) {
+      before.set(name, edit.kind === 'insert' ? [] : await getRowKeys(filters[name].source, edit.locator));
+    }
+    const locator = await applyToDatabase(table, edit);
+
+    const updates: FilterMaintenance[] = [];
+    const undo: (() => Promise<unknown>)[] = [];
+    try {
+      for (const name of maintained) {
+        const oldKeys = before.get(name)!;
+        const newKeys = locator ? await getRowKeys(filters[name].source, locator) : [];
+        const update: FilterMaintenance = {
+          filterName: name,
+          removedKeys: subtractKeys(oldKeys, newKeys),
+          insertedKeys: subtractKeys(newKeys, oldKeys),
+          missingKeys: [],
+          resizes: []
+        };
+        for (const key of update.removedKeys) {
+          const { removed } = await deleteCQF(name, key);
+          if (removed === 0) update.missingKeys.push(key);
+          else undo.push(() => insertCQF(name, key));
+        }
+        for (const key of update.insertedKeys) {
+          const { resizes } = await insertCQF(name, key);
+          update.resizes.push(...resizes);
+          undo.push(() => deleteCQF(name, key));
+        }
+        updates.push(update);
+      }
+    } catch (error: any) {
+      for (const revert of undo.reverse()) {
+        await revert().catch(() => undefined);
+      }
+      throw new Error(`Edit rolled back: updating the filters failed: ${error?.message ?? error}`);
+    }
+
+    return { locator, filters: updates, unmaintained };
+  });
+};
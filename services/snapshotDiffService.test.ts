@@ -0,0 +1,85 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import * as sqlite from './sqliteEngine';
+import { TEXT_KEY_HASHING } from './keyEncoding';
+import type { DbWorkerRequest, DbWorkerResponse } from './dbWorkerProtocol';
+import { CqfFilterState, FilterSource } from '../types';
+
+// The database worker run in this thread: the page's Worker posts straight to its message handler
+const scope: { onmessage: ((event: { data: DbWorkerRequest }) => void) | null; postMessage(message: DbWorkerResponse): void } = {
+  onmessage: null,
+  postMessage: message => page.onmessage?.({ data: message })
+};
+const page: { onmessage: ((event: { data: DbWorkerResponse }) => void) | null } = { onmessage: null };
+vi.stubGlobal('self', scope);
+vi.stubGlobal('Worker', class {
+  constructor() { return Object.assign(page, { onerror: null, postMessage: (data: DbWorkerRequest) => scope.onmessage!({ data }) }); }
+});
+await import('./dbWorker');
+const { runSnapshotDiff } = await import('./snapshotDiffService');
+const { buildCQFFromSource, getCQFStats } = await import('./cqfService');
+const { getTables } = await import('./dbService');
+
+const SNAPSHOT = 'tonight';
+const source: FilterSource = { tableName: 'users', keySource: { kind: 'column', column: 'id' }, where: null };
+
+const fillUsers = (from: number, to: number) => sqlite.executeSql(`
+  CREATE TABLE users(id INTEGER);
+  WITH RECURSIVE c(i) AS (SELECT ${from} UNION ALL SELECT i + 1 FROM c WHERE i < ${to}) INSERT INTO users SELECT i FROM c;
+`);
+
+let filter: CqfFilterState;
+
+beforeAll(async () => {
+  const require = createRequire(import.meta.url);
+  const dir = path.dirname(require.resolve('sql.js/dist/sql-wasm.js'));
+  const SQL = await require(path.join(dir, 'sql-wasm.js'))({ wasmBinary: await readFile(path.join(dir, 'sql-wasm.wasm')) });
+  // Tonight's snapshot lost ids 1-2500 and gained 5001-10000
+  sqlite.createDatabase(SQL);
+  fillUsers(2501, 10000);
+  const tonight = sqlite.exportDatabase();
+  sqlite.createDatabase(SQL);
+  fillUsers(1, 5000);
+  sqlite.openDatabase(SQL, tonight.buffer as ArrayBuffer, SNAPSHOT);
+
+  await buildCQFFromSource('users.id', source, TEXT_KEY_HASHING);
+  filter = await getCQFStats('users.id');
+});
+
+describe('snapshot diffs', () => {
+  it('finds added and removed keys, and corrects the estimates with the exact sample', async () => {
+    const [table] = await getTables(SNAPSHOT);
+    const result = await runSnapshotDiff('users.id', filter, table, 10000);
+
+    expect(result.base).toEqual({ database: 'main', tableName: 'users', keyCount: 5000 });
+    expect(result.target).toEqual({ database: SNAPSHOT, tableName: 'users', keyCount: 7500 });
+    // No false negatives: every key ruled out really changed, and every change is ruled out or possibly shared
+    expect(result.added.every(key => Number(key) > 5000)).toBe(true);
+    expect(result.removed.every(key => Number(key) <= 2500)).toBe(true);
+    expect(result.added.length + result.possiblyShared.length).toBe(7500);
+    // Every possibly shared key was checked, so the estimates are exact whatever the false-positive count
+    expect(result.targetSample).toEqual({ size: result.possiblyShared.length, confirmed: 2500 });
+    expect(result.baseSample.confirmed).toBe(2500);
+    expect(result.baseSample.size).toBe(5000 - result.removed.length);
+    expect(result).toMatchObject({ estimatedAdded: 5000, estimatedRemoved: 2500, estimatedShared: 2500 });
+  });
+
+  it('scales the false positives of a partial sample to every possibly shared key', async () => {
+    const [table] = await getTables(SNAPSHOT);
+    const result = await runSnapshotDiff('users.id', filter, table, 100);
+
+    expect(result.targetSample.size).toBe(100);
+    const rate = result.targetSample.confirmed / 100;
+    expect(result.estimatedShared).toBe(Math.round(result.possiblyShared.length * rate));
+    expect(result.estimatedAdded).toBe(Math.round(result.added.length + result.possiblyShared.length * (1 - rate)));
+    // Each estimate is rounded on its own
+    expect(Math.abs(result.estimatedAdded + result.estimatedShared - 7500)).toBeLessThanOrEqual(1);
+  });
+
+  it('refuses a table in the filter\'s own database', async () => {
+    const [table] = await getTables();
+    await expect(runSnapshotDiff('users.id', filter, table, 100)).rejects.toThrow(/another open database/);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Snapshot diffs: the keys of a filter's source table in one open database
+ * (the base) against the same key source over a table in another (the
+ * target), e.g. last night's snapshot against tonight's. Filters have no
+ * false negatives, so a key one side's filter rules out is definitely not on
+ * that side: target keys the filter rules out were added, and base keys a
+ * filter built over the target rules out were removed. The rest are possibly
+ * shared; a random sample of them is looked up exactly to estimate how many
+ * are false positives, and the counts are corrected with that rate.
+ */
+import { CqfFilterState, FilterSource, SnapshotDiffResult, SnapshotDiffSample, TableInfo } from '../types';
+import { lookupKeys, probeSnapshotKeys, streamKeys } from './dbService';
+import { JobOptions } from './dbWorkerClient';
+import { batchCQF } from './cqfService';
+import { csvField } from './keyFileFormat';
+import { keySourceColumns, sourceDatabase, tableSource } from './keySource';
+
+export const DEFAULT_DIFF_SAMPLE_SIZE = 1000;
+
+// Up to `size` distinct items in random order (partial Fisher-Yates shuffle)
+const randomSample = <T>(items: T[], size: number): T[] => {
+  const pool = items.slice();
+  const count = Math.min(size, pool.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
+
+// Fraction of the possibly shared keys that really are, judged by the sample; all of them when nothing was sampled
+const confirmedRate = ({ size, confirmed }: SnapshotDiffSample): number => (size > 0 ? confirmed / size : 1);
+
+/** The filter's key source, WHERE clause included, over `table`. */
+export const targetSourceFor = (filter: CqfFilterState, table: TableInfo): FilterSource => {
+  const { keySource, where } = filter.source;
+  if (!keySource || keySource.kind === 'query') {
+    throw new Error(`Filter '${filter.source.filterName}' is not built over a table, so it has no matching table to diff`);
+  }
+  if (keySource.kind === 'column' || keySource.kind === 'primaryKey') {
+    const missing = keySourceColumns(keySource).filter(col => !table.columns.includes(col));
+    if (missing.length > 0) throw new Error(`${table.name} has no column ${missing.join(', ')} to read keys from`);
+  }
+  return tableSource(table, keySource, where);
+};
+
+/**
+ * Diffs the keys of `filterName`'s source against the same key source over
+ * `table` in another open database. `sampleSize` possibly shared keys on each
+ * side are checked exactly. Target keys are read and probed a chunk at a
+ * time; progress counts the rows of each side scanned.
+ */
+export const runSnapshotDiff = async (
+  filterName: string,
+  filter: CqfFilterState,
+  table: TableInfo,
+  sampleSize: number,
+  options: JobOptions = {}
+): Promise<SnapshotDiffResult> => {
+  const base = filter.source;
+  const target = targetSourceFor(filter, table);
+  if (sourceDatabase(base) === sourceDatabase(target)) throw new Error('Pick a table in another open database than the filter\'s');
+  const started = performance.now();
+
+  // Target side: probe the filter itself, wherever it lives
+  const seen = new Set<string>();
+  const added: string[] = [];
+  const possiblyShared: string[] = [];
+  for await (const chunk of streamKeys(target, 'Target rows scanned and probed', options)) {
+    const fresh = chunk.filter(key => !seen.has(key) && !!seen.add(key));
+    const run = await batchCQF(filterName, 'search', fresh, 1);
+    if (run.failed > 0) throw new Error(`${run.failed} probes failed: ${run.results.find(r => !r.ok)?.error}`);
+    fresh.forEach((key, i) => (run.results[i].found ? possiblyShared : added).push(key));
+  }
+  const targetChecked = randomSample(possiblyShared, sampleSize);
+  const targetSample = { size: targetChecked.length, confirmed: (await lookupKeys(base, targetChecked)).size };
+
+  // Base side: the worker builds a filter over the target with the same hashing
+  const probe = await probeSnapshotKeys(base, target, filter.hashing, sampleSize, options);
+  const baseSample = { size: probe.sample.length, confirmed: (await lookupKeys(target, probe.sample)).size };
+
+  return {
+    filterName,
+    base: { database: sourceDatabase(base), tableName: base.tableName, keyCount: probe.keyCount },
+    target: { database: table.database, tableName: table.name, keyCount: seen.size },
+    added,
+    removed: probe.removed,
+    possiblyShared,
+    targetSample,
+    baseSample,
+    estimatedAdded: Math.round(added.length + possiblyShared.length * (1 - confirmedRate(targetSample))),
+    estimatedRemoved: Math.round(probe.removed.length + probe.possiblyShared * (1 - confirmedRate(baseSample))),
+    estimatedShared: Math.round(possiblyShared.length * confirmedRate(targetSample)),
+    elapsedMs: performance.now() - started
+  };
+};
+
+// One CSV row per key: added, removed or possibly_shared
+export const generateSnapshotDiffCsv = (result: SnapshotDiffResult): string => {
+  const lines = ['key,change'];
+  for (const key of result.added) lines.push(`${csvField(key)},added`);
+  for (const key of result.removed) lines.push(`${csvField(key)},removed`);
+  for (const key of result.possiblyShared) lines.push(`${csvField(key)},possibly_shared`);
+  return lines.join('\n');
+};
@@ -0,0 +1,91 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { countSemiJoin, createDatabase, executeSql, getTableRows, isQueryStatement, lookupKeys } from './sqliteEngine';
+import { keyPartText } from './keyEncoding';
+import { FilterSource, TableInfo } from '../types';
+
+beforeAll(async () => {
+  const require = createRequire(import.meta.url);
+  const dir = path.dirname(require.resolve('sql.js/dist/sql-wasm.js'));
+  const SQL = await require(path.join(dir, 'sql-wasm.js'))({ wasmBinary: await readFile(path.join(dir, 'sql-wasm.wasm')) });
+  createDatabase(SQL);
+  executeSql(`
+    CREATE TABLE t(a, b BLOB, c INTEGER, d TEXT);
+    INSERT INTO t VALUES (5, 6, 7, '8'), ('05', x'0a', 70, '08');
+  `);
+});
+
+const source = (column: string): FilterSource => ({ tableName: 't', keySource: { kind: 'column', column }, where: null });
+const found = (column: string, keys: string[]) => [...lookupKeys(source(column), keys)];
+
+describe('key lookups', () => {
+  it('matches numbers in untyped and BLOB columns', () => {
+    expect(found('a', ['5', '5.0'])).toEqual(['5', '5.0']);
+    expect(found('b', ['6'])).toEqual(['6']);
+    expect(found('c', ['7', '7.0'])).toEqual(['7', '7.0']);
+    expect(lookupKeys({ tableName: 't', keySource: { kind: 'rowid' }, where: null }, ['1', '3'])).toEqual(new Set(['1']));
+  });
+
+  it('keeps text, blobs and numbers apart as the table stores them', () => {
+    expect(found('a', [keyPartText('05'), keyPartText('5'), '05'])).toEqual(["'05'", '05']);
+    expect(found('b', [keyPartText(new Uint8Array([10])), '10'])).toEqual(["x'0a'"]);
+    expect(found('d', ['8', '08', keyPartText('08')])).toEqual(['8', '08', "'08'"]);
+  });
+});
+
+describe('console statements', () => {
+  it('tells writes from reads by the statement, not by its result columns', () => {
+    const { statements, error } = executeSql(`
+      CREATE TABLE w(id INTEGER PRIMARY KEY, v);
+      INSERT INTO w(v) VALUES ('x'), ('y');
+      UPDATE w SET v = 'z' WHERE id = 1 RETURNING id;
+      DELETE FROM w WHERE id = 2 RETURNING *;
+      SELECT id FROM w;
+      WITH ids AS (SELECT id FROM w) SELECT id FROM ids;
+      VALUES (1);
+      PRAGMA table_info(w);
+      EXPLAIN SELECT 1;
+      -- comment
+      SELECT v FROM w;
+    `);
+    expect(error).toBeNull();
+    expect(statements.map(s => s.readOnly)).toEqual([false, false, false, false, true, true, true, true, true, true]);
+    expect(statements.map(s => s.rowsModified).slice(1, 4)).toEqual([2, 1, 1]);
+    expect(statements.map(isQueryStatement)).toEqual([false, false, false, false, true, true, true, false, false, true]);
+
+    // Transaction control and ATTACH write nothing themselves, so they are refused rather than passed as reads
+    for (const refused of ['BEGIN', 'COMMIT', 'END TRANSACTION', 'ROLLBACK', 'SAVEPOINT s', 'RELEASE s', "ATTACH ':memory:' AS aux", 'DETACH aux']) {
+      const run = executeSql(`DELETE FROM w; /* then */ ${refused}; SELECT 1`);
+      expect(run.statements.map(s => s.readOnly), refused).toEqual([false]);
+      expect(run.error, refused).toMatchObject({ statementIndex: 1, message: `${refused.split(' ')[0]} is not supported in the console` });
+    }
+  });
+});
+
+describe('table pages', () => {
+  it('pages a table without a primary key by rowid within repeated sort values', () => {
+    executeSql(`
+      CREATE TABLE p(v, n);
+      INSERT INTO p VALUES ('b', 1), ('a', 2), ('b', 3), ('a', 4), ('b', 5);
+    `);
+    const table: TableInfo = { name: 'p', database: 'main', type: 'table', rowCount: 5, pkColumns: [], columns: ['v', 'n'], columnTypes: ['', ''] };
+    const page = (offset: number) => getTableRows(table, { sort: { column: 'v', direction: 'desc' }, filters: {}, offset, limit: 2 });
+    expect([...page(0), ...page(2), ...page(4)]).toEqual([['b', 1], ['b', 3], ['b', 5], ['a', 2], ['a', 4]]);
+  });
+});
+
+describe('semi-joins', () => {
+  it('joins against the key column of a query returning several columns', () => {
+    executeSql(`
+      CREATE TABLE u(id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE o(user_id INTEGER);
+      INSERT INTO u VALUES (1, 'a'), (2, 'b');
+      INSERT INTO o VALUES (1), (2), (2), (3);
+    `);
+    const source: FilterSource = { tableName: '', keySource: { kind: 'query', sql: 'SELECT id, name FROM u;', column: 'id' }, where: null };
+    expect(countSemiJoin('o', 'user_id', source)).toBe(3);
+    expect(countSemiJoin('o', 'user_id', { tableName: 'u', keySource: { kind: 'column', column: 'id' }, where: 'id > 1' })).toBe(2);
+  });
+});
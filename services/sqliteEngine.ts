@@ -0,0 +1,564 @@
+/**
+ * Synchronous SQLite access over sql.js. Runs inside the database worker
+ * (dbWorker.ts); the page reaches it through the async wrappers in
+ * dbService.ts. `SQL` is the namespace returned by sql.js's initSqlJs.
+ *
+ * Several databases can be open at once, each under an id: the main one
+ * (MAIN_DATABASE), which can be edited and queried from the SQL console, and
+ * others opened next to it to compare snapshots, which are only read. Tables
+ * and key sources name the database they belong to.
+ */
+import { TableInfo, FilterSource, TableQuery, SqlRunResult, SqlStatementResult, SqlErrorInfo, RowLocator, RowValues, ImportTablePlan } from '../types';
+import { MAIN_DATABASE, keyQuerySql, keySourceAffinities, quoteIdentifier, sourceDatabase } from './keySource';
+import { encodeCompositeKey, decodeCompositeKey, keyPartText, keyPartValue } from './keyEncoding';
+
+// Database id -> sql.js Database
+const databases = new Map<string, any>();
+
+const dbFor = (database: string = MAIN_DATABASE): any => {
+  const db = databases.get(database);
+  if (!db) throw new Error(database === MAIN_DATABASE ? "No database loaded" : `Database '${database}' is not open`);
+  return db;
+};
+
+// Opening the main database closes every open database; another id replaces only that one
+export const openDatabase = (SQL: any, fileBuffer: ArrayBuffer, database: string = MAIN_DATABASE) => {
+  closeDatabase(database === MAIN_DATABASE ? undefined : database);
+  databases.set(database, new SQL.Database(new Uint8Array(fileBuffer)));
+};
+
+// An empty database, to be filled from an imported CSV, JSON or .sql file
+export const createDatabase = (SQL: any, database: string = MAIN_DATABASE) => {
+  closeDatabase(database === MAIN_DATABASE ? undefined : database);
+  databases.set(database, new SQL.Database());
+};
+
+export const listTables = (database: string = MAIN_DATABASE): { name: string; type: 'table' | 'view' }[] => {
+  const db = databases.get(database);
+  if (!db) return [];
+  const result = db.exec("SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'");
+  if (result.length === 0) return [];
+  return result[0].values.map(([name, type]: [string, 'table' | 'view']) => ({ name, type }));
+};
+
+export const countRows = (tableName: string, database: string = MAIN_DATABASE): number => {
+  return dbFor(database).exec(`SELECT COUNT(*) FROM ${quoteIdentifier(tableName)}`)[0].values[0][0] as number;
+};
+
+// Counting the rows scans the whole table for views and tables without an index
+export const describeTable = (tableName: string, type: 'table' | 'view', database: string = MAIN_DATABASE): TableInfo => {
+  const db = dbFor(database);
+  const rowCount = countRows(tableName, database);
+
+  // Get Schema to find PK
+  const schemaResult = db.exec(`PRAGMA table_info(${quoteIdentifier(tableName)})`);
+  const columns = schemaResult[0].values; // [cid, name, type, notnull, dflt_value, pk]
+
+  // pk flag is the column's 1-based position in the primary key (0 = not part of it)
+  const pkNames = columns
+    .filter((col: any[]) => col[5] > 0)
+    .sort((a: any[], b: any[]) => a[5] - b[5])
+    .map((col: any[]) => col[1] as string);
+  const allColNames = columns.map((col: any[]) => col[1]);
+  const allColTypes = columns.map((col: any[]) => col[2] as string);
+
+  return {
+    name: tableName,
+    database,
+    type,
+    rowCount,
+    pkColumns: pkNames,
+    columns: allColNames,
+    columnTypes: allColTypes
+  };
+};
+
+export const getTables = (database: string = MAIN_DATABASE): TableInfo[] =>
+  listTables(database).map(({ name, type }) => describeTable(name, type, database));
+
+// Runs a parameterized query and returns its rows as arrays
+const queryRows = (db: any, sql: string, params: any[]): any[][] => {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows: any[][] = [];
+    while (stmt.step()) rows.push(stmt.get());
+    return rows;
+  } finally {
+    stmt.free();
+  }
+};
+
+// Column filters match as case-insensitive substrings of the value's text form
+const filterClause = (filters: TableQuery['filters']): { where: string; params: string[] } => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  for (const [column, value] of Object.entries(filters)) {
+    if (!value) continue;
+    conditions.push(`CAST(${quoteIdentifier(column)} AS TEXT) LIKE ? ESCAPE '\\'`);
+    params.push(`%${value.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  return { where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+export const countTableRows = (table: TableInfo, filters: TableQuery['filters']): number => {
+  const db = databases.get(table.database);
+  if (!db) return 0;
+  try {
+    const { where, params } = filterClause(filters);
+    return queryRows(db, `SELECT COUNT(*) FROM ${quoteIdentifier(table.name)}${where}`, params)[0][0] as number;
+  } catch (e) {
+    console.error("Error counting table rows", e);
+    return 0;
+  }
+};
+
+/**
+ * Fetches one window of rows in `table.columns` order. The primary key, or the
+ * rowid of a table without one, is appended to the sort order as a tie-breaker
+ * so pages never overlap. Views have neither: their pages are only stable when
+ * the sorted column has no repeated values. Errors are thrown to the caller.
+ */
+export const getTableRows = (table: TableInfo, query: TableQuery): any[][] => {
+  const db = databases.get(table.database);
+  if (!db) return [];
+  const { where, params } = filterClause(query.filters);
+  const order = query.sort ? [`${quoteIdentifier(query.sort.column)} ${query.sort.direction === 'desc' ? 'DESC' : 'ASC'}`] : [];
+  const tieBreakers = table.pkColumns.length > 0 ? table.pkColumns.map(quoteIdentifier) : table.type === 'table' ? ['rowid'] : [];
+  for (const col of tieBreakers) {
+    if (col !== (query.sort && quoteIdentifier(query.sort.column))) order.push(col);
+  }
+  const orderBy = order.length > 0 ? ` ORDER BY ${order.join(', ')}` : '';
+  const columnList = table.columns.map(quoteIdentifier).join(', ');
+  return queryRows(
+    db,
+    `SELECT ${columnList} FROM ${quoteIdentifier(table.name)}${where}${orderBy} LIMIT ? OFFSET ?`,
+    [...params, query.limit, query.offset]
+  );
+};
+
+// Encodes key rows, skipping any with a NULL part
+export const encodeKeyRows = (rows: any[][]): string[] => {
+  const keys: string[] = [];
+  for (const row of rows) {
+    if (row.some(value => value === null)) continue;
+    keys.push(encodeCompositeKey(row.map(keyPartText)));
+  }
+  return keys;
+};
+
+// Rows a scan of `source` visits, NULL keys included: an upper bound on its key count
+export const countKeyRows = (source: FilterSource): number => {
+  const { tableName, keySource, where } = source;
+  if (!keySource) throw new Error("Filter has no key source to extract from");
+  if (keySource.kind !== 'query' && !where?.trim()) return countRows(tableName, sourceDatabase(source));
+  const keySql = keyQuerySql(tableName, keySource, where).replace(/;\s*$/, '');
+  return queryRows(dbFor(sourceDatabase(source)), `SELECT COUNT(*) FROM (${keySql})`, [])[0][0] as number;
+};
+
+// Names of the columns a query returns, read from its prepared statement without running it
+export const queryColumns = (sql: string, database: string = MAIN_DATABASE): string[] => {
+  const stmt = dbFor(database).prepare(sql);
+  try {
+    return stmt.getColumnNames();
+  } finally {
+    stmt.free();
+  }
+};
+
+/**
+ * Reads one row per matching row of `source`, stepping a prepared statement
+ * and yielding up to `chunkSize` rows at a time, so memory stays bounded by
+ * the chunk however large the table. Each row holds the key's values, typed
+ * as SQLite returns them, followed by `extraColumns`; encodeKeyRows turns the
+ * key values into keys. Expressions and WHERE clauses are user input, so
+ * errors are thrown with SQLite's message.
+ */
+export function* scanKeyRows(
+  source: FilterSource,
+  extraColumns: string[] = [],
+  chunkSize: number = 10000
+): Generator<any[][]> {
+  const { tableName, keySource, where } = source;
+  const db = dbFor(sourceDatabase(source));
+  if (!keySource) throw new Error("Filter has no key source to extract from");
+
+  const stmt = db.prepare(keyQuerySql(tableName, keySource, where, undefined, extraColumns));
+  try {
+    let rows: any[][] = [];
+    while (stmt.step()) {
+      rows.push(stmt.get());
+      if (rows.length === chunkSize) {
+        yield rows;
+        rows = [];
+      }
+    }
+    if (rows.length > 0) yield rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+// Returns the subset of (encoded) `keys` that `source` would extract from the table
+export const getExistingKeys = (source: FilterSource, keys: string[]): Set<string> => {
+  // Compared as encoded strings, so expression results match exactly what was inserted
+  const wanted = new Set(keys);
+  const existing = new Set<string>();
+  for (const rows of scanKeyRows(source)) {
+    for (const key of encodeKeyRows(rows)) {
+      if (wanted.has(key)) existing.add(key);
+    }
+  }
+  return existing;
+};
+
+/**
+ * Like getExistingKeys, but looks up each key with an indexed equality query
+ * instead of scanning the whole source, so the cost grows with `keys` rather
+ * than with the table. Expression and query sources fall back to the scan.
+ */
+export const lookupKeys = (source: FilterSource, keys: string[]): Set<string> => {
+  const { tableName, keySource, where } = source;
+  if (!keySource || keySource.kind === 'expression' || keySource.kind === 'query') {
+    return getExistingKeys(source, keys);
+  }
+  const db = dbFor(sourceDatabase(source));
+
+  const columns = keySource.kind === 'primaryKey'
+    ? keySource.columns.map(quoteIdentifier)
+    : [keySource.kind === 'rowid' ? 'rowid' : quoteIdentifier(keySource.column)];
+  // Keys are bound with the types their text reads as under each column's affinity, so
+  // numbers match in untyped and BLOB columns, where SQLite does not convert text
+  const schema: any[][] = db.exec(`PRAGMA table_info(${quoteIdentifier(tableName)})`)[0]?.values ?? []; // [cid, name, type, ...]
+  const affinities = keySourceAffinities(keySource, { columns: schema.map(col => col[1]), columnTypes: schema.map(col => col[2]) });
+  const conditions = columns.map(col => `${col} = ?`);
+  if (where?.trim()) conditions.push(`(${where})`);
+
+  const existing = new Set<string>();
+  const stmt = db.prepare(`SELECT 1 FROM ${quoteIdentifier(tableName)} WHERE ${conditions.join(' AND ')} LIMIT 1`);
+  try {
+    for (const key of keys) {
+      const parts = decodeCompositeKey(key, columns.length);
+      if (!parts) continue; // Not a valid encoding, so no row can match
+      stmt.bind(parts.map((part, i) => keyPartValue(part, affinities[i])));
+      if (stmt.step()) existing.add(key);
+      stmt.reset();
+    }
+  } finally {
+    stmt.free();
+  }
+  return existing;
+};
+
+/**
+ * Plain-SQL semi-join: rows of `tableName` whose `column` appears among the
+ * keys of `source`. Used as the baseline for filter-accelerated join checks.
+ * One statement cannot read two open databases, so both are in the main one.
+ */
+export const countSemiJoin = (tableName: string, column: string, source: FilterSource): number => {
+  const db = dbFor();
+  if (sourceDatabase(source) !== MAIN_DATABASE) throw new Error("A SQL semi-join needs both tables in the main database");
+  if (!source.keySource) throw new Error("Filter has no key source to join against");
+
+  const keySql = keyQuerySql(source.tableName, source.keySource, source.where).replace(/;\s*$/, '');
+  // A query may return other columns next to its key column
+  const keyColumn = source.keySource.kind === 'query' ? quoteIdentifier(source.keySource.column) : '*';
+  const result = db.exec(`SELECT COUNT(*) FROM ${quoteIdentifier(tableName)} WHERE ${quoteIdentifier(column)} IN (SELECT ${keyColumn} FROM (${keySql}))`);
+  return result[0].values[0][0] as number;
+};
+
+// Matches the row identified by `locator`; IS compares NULLs as equal
+const locatorClause = (locator: RowLocator): { sql: string; params: any[] } => {
+  const columns = Object.keys(locator);
+  if (columns.length === 0) throw new Error("Row locator is empty");
+  return {
+    sql: columns.map(col => `${col === 'rowid' ? 'rowid' : quoteIdentifier(col)} IS ?`).join(' AND '),
+    params: columns.map(col => locator[col])
+  };
+};
+
+/**
+ * Identifies a row shown in the table browser: by its primary key, or for
+ * tables without one by the rowid of the first row with exactly these values.
+ */
+export const getRowLocator = (table: TableInfo, row: any[]): RowLocator => {
+  const db = dbFor(table.database);
+  if (table.pkColumns.length > 0) {
+    return Object.fromEntries(table.pkColumns.map(col => [col, row[table.columns.indexOf(col)]]));
+  }
+  const match = locatorClause(Object.fromEntries(table.columns.map((col, i) => [col, row[i]])));
+  const found = queryRows(db, `SELECT rowid FROM ${quoteIdentifier(table.name)} WHERE ${match.sql} LIMIT 1`, match.params);
+  if (found.length === 0) throw new Error(`Row no longer exists in ${table.name}`);
+  return { rowid: found[0][0] };
+};
+
+// Keys the located row contributes to a table key source: none if it fails the WHERE clause or the key is NULL
+export const getRowKeys = (source: FilterSource, locator: RowLocator): string[] => {
+  const { tableName, keySource, where } = source;
+  const db = dbFor(sourceDatabase(source));
+  if (!keySource || keySource.kind === 'query') throw new Error("Only table key sources can be read per row");
+  const match = locatorClause(locator);
+  return encodeKeyRows(queryRows(db, keyQuerySql(tableName, keySource, where, match.sql), match.params));
+};
+
+const isWithoutRowid = (db: any, tableName: string): boolean => {
+  const sql = queryRows(db, "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?", [tableName])[0]?.[0];
+  return typeof sql === 'string' && /\)\s*without\s+rowid\b/i.test(sql);
+};
+
+// Returns the table's database; databases opened for comparison are read-only
+const assertEditable = (table: TableInfo): any => {
+  if (table.database !== MAIN_DATABASE) throw new Error(`${table.name} is in a database opened for comparison; only the main database can be edited`);
+  if (table.type !== 'table') throw new Error(`${table.name} is a view; only tables can be edited`);
+  return dbFor();
+};
+
+/**
+ * Inserts a row; columns missing from `values` get their defaults. Returns the
+ * new row's locator, read back so auto-assigned keys are included.
+ */
+export const insertRow = (table: TableInfo, values: RowValues): RowLocator => {
+  const db = assertEditable(table);
+  const columns = Object.keys(values);
+  const sql = columns.length === 0
+    ? `INSERT INTO ${quoteIdentifier(table.name)} DEFAULT VALUES`
+    : `INSERT INTO ${quoteIdentifier(table.name)} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+  db.run(sql, columns.map(col => values[col]));
+
+  if (isWithoutRowid(db, table.name)) {
+    return Object.fromEntries(table.pkColumns.map(col => [col, values[col]]));
+  }
+  const rowid = queryRows(db, 'SELECT last_insert_rowid()', [])[0][0];
+  if (table.pkColumns.length === 0) return { rowid };
+  const pk = queryRows(db, `SELECT ${table.pkColumns.map(quoteIdentifier).join(', ')} FROM ${quoteIdentifier(table.name)} WHERE rowid = ?`, [rowid])[0];
+  return Object.fromEntries(table.pkColumns.map((col, i) => [col, pk[i]]));
+};
+
+// Sets `values` on the located row and returns its locator afterwards (the primary key may have changed)
+export const updateRow = (table: TableInfo, locator: RowLocator, values: RowValues): RowLocator => {
+  const db = assertEditable(table);
+  const columns = Object.keys(values);
+  if (columns.length === 0) return locator;
+  const match = locatorClause(locator);
+  db.run(
+    `UPDATE ${quoteIdentifier(table.name)} SET ${columns.map(col => `${quoteIdentifier(col)} = ?`).join(', ')} WHERE ${match.sql}`,
+    [...columns.map(col => values[col]), ...match.params]
+  );
+  if (db.getRowsModified() === 0) throw new Error(`Row no longer exists in ${table.name}`);
+  return Object.fromEntries(Object.keys(locator).map(col => [col, col in values ? values[col] : locator[col]]));
+};
+
+export const deleteRow = (table: TableInfo, locator: RowLocator) => {
+  const db = assertEditable(table);
+  const match = locatorClause(locator);
+  db.run(`DELETE FROM ${quoteIdentifier(table.name)} WHERE ${match.sql}`, match.params);
+  if (db.getRowsModified() === 0) throw new Error(`Row no longer exists in ${table.name}`);
+};
+
+// Savepoint around a row edit and the filter updates depending on it (see dbService.withSavepoint)
+export const beginSavepoint = () => {
+  dbFor().run('SAVEPOINT edit');
+};
+
+export const releaseSavepoint = () => {
+  dbFor().run('RELEASE edit');
+};
+
+export const rollbackSavepoint = () => {
+  const db = dbFor();
+  db.run('ROLLBACK TO edit');
+  db.run('RELEASE edit');
+};
+
+// The main database, including edits, as SQLite file bytes
+export const exportDatabase = (): Uint8Array => {
+  return dbFor().export();
+};
+
+// Rows kept per statement in the SQL console; building a filter re-runs the query in full
+export const MAX_RESULT_ROWS = 10000;
+
+// Best-effort location of an error: the token SQLite complains about, else the statement start
+const locateSqlError = (sql: string, message: string, statementIndex: number, statementStart: number, statementEnd: number): SqlErrorInfo => {
+  let offset = statementStart;
+  const token = message.match(/near "([^"]*)"/)?.[1] ?? message.match(/no such (?:table|column): (\S+)/)?.[1];
+  if (token) {
+    const found = sql.slice(statementStart, statementEnd).indexOf(token);
+    if (found >= 0) offset = statementStart + found;
+  }
+  const before = sql.slice(0, offset).split('\n');
+  return { message, statementIndex, offset, line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+// Leading whitespace and comments, which SQLite skips before the first keyword
+const LEADING_TRIVIA = /^(?:\s+|--[^\n]*(?:\n|$)|\/\*[\s\S]*?(?:\*\/|$))*/;
+
+const firstKeyword = (sql: string): string =>
+  sql.replace(LEADING_TRIVIA, '').match(/^[A-Za-z]+/)?.[0].toUpperCase() ?? '';
+
+/**
+ * Statements the console refuses. A run can land inside an open row-edit
+ * savepoint (see dbTurns.ts), which transaction control would end or unwind,
+ * and none of these opens a write transaction, so they would pass as read-only
+ * while deciding whether the writes around them stick. ATTACH and DETACH
+ * change which database a table name reaches behind the schema the page shows.
+ */
+const CONSOLE_REFUSED = ['BEGIN', 'COMMIT', 'END', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'ATTACH', 'DETACH'];
+
+/**
+ * Whether a prepared statement leaves the database as it is, decided from its
+ * bytecode before it runs (sql.js does not export sqlite3_stmt_readonly): a
+ * statement that writes opens a write transaction or vacuums.
+ */
+const isReadOnlyStatement = (db: any, sql: string): boolean => {
+  if (firstKeyword(sql) === 'EXPLAIN') return true;
+  const [program] = db.exec(`EXPLAIN ${sql}`);
+  if (!program) return true;
+  const opcode = program.columns.indexOf('opcode');
+  const p2 = program.columns.indexOf('p2');
+  return !program.values.some((op: any[]) => (op[opcode] === 'Transaction' && op[p2] !== 0) || op[opcode] === 'Vacuum');
+};
+
+// Read-only statements that return rows of the database, the ones a filter can be built from
+export const isQueryStatement = (statement: SqlStatementResult): boolean =>
+  statement.readOnly && ['SELECT', 'WITH', 'VALUES'].includes(firstKeyword(statement.sql));
+
+/**
+ * Runs every statement in `sql` in order and stops at the first error (or
+ * refused statement). Results of the statements that completed are returned
+ * alongside the error.
+ */
+export const executeSql = (sql: string): SqlRunResult => {
+  const db = dbFor();
+
+  const started = performance.now();
+  const statements: SqlStatementResult[] = [];
+  const iterator = db.iterateStatements(sql);
+  let error: SqlErrorInfo | null = null;
+
+  while (true) {
+    const remaining: string = iterator.getRemainingSQL();
+    const statementStart = sql.length - remaining.length + (remaining.length - remaining.trimStart().length);
+    let stmt: any;
+    try {
+      const next = iterator.next();
+      if (next.done) break;
+      stmt = next.value;
+    } catch (e: any) {
+      // Prepare failed; the statement runs up to the next ';' at most
+      const end = sql.indexOf(';', statementStart);
+      error = locateSqlError(sql, e.message, statements.length, statementStart, end < 0 ? sql.length : end);
+      break;
+    }
+
+    const statementEnd = sql.length - iterator.getRemainingSQL().length;
+    const text = sql.slice(statementStart, statementEnd).trim();
+    try {
+      const keyword = firstKeyword(text);
+      if (CONSOLE_REFUSED.includes(keyword)) throw new Error(`${keyword} is not supported in the console`);
+      const readOnly = isReadOnlyStatement(db, text.replace(/;$/, ''));
+      const rows: any[][] = [];
+      let truncated = false;
+      while (stmt.step()) {
+        if (rows.length < MAX_RESULT_ROWS) rows.push(stmt.get());
+        else truncated = true;
+      }
+      const columns: string[] = stmt.getColumnNames();
+      statements.push({
+        sql: text,
+        columns,
+        rows,
+        readOnly,
+        rowsModified: readOnly ? 0 : db.getRowsModified(),
+        truncated
+      });
+    } catch (e: any) {
+      error = locateSqlError(sql, e.message, statements.length, statementStart, statementEnd);
+      break;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  return { statements, error, elapsedMs: performance.now() - started };
+};
+
+// --- Importing ---
+
+// Statements run between two progress reports of runScript
+const SCRIPT_CHUNK = 1000;
+
+// Creates the table of an import plan in the main database, typed and keyed as the preview left it
+export const createImportedTable = ({ tableName, columns, primaryKey }: ImportTablePlan) => {
+  const definitions = columns.map(col => `${quoteIdentifier(col.name)} ${col.type}${col.name === primaryKey ? ' PRIMARY KEY' : ''}`);
+  dbFor().run(`CREATE TABLE ${quoteIdentifier(tableName)} (${definitions.join(', ')})`);
+};
+
+/**
+ * Inserts rows of an import plan in one transaction; column affinity turns
+ * numeric text into numbers. `firstRow` is the 1-based number of the first
+ * row in the file, so a rejected row (e.g. a duplicate primary key) can be
+ * named.
+ */
+export const insertImportedRows = (tableName: string, columnCount: number, rows: unknown[][], firstRow: number) => {
+  const db = dbFor();
+  const stmt = db.prepare(`INSERT INTO ${quoteIdentifier(tableName)} VALUES (${new Array(columnCount).fill('?').join(', ')})`);
+  db.run('BEGIN');
+  try {
+    rows.forEach((row, i) => {
+      try {
+        stmt.run(row);
+      } catch (error: any) {
+        throw new Error(`Row ${firstRow + i}: ${error.message}`);
+      }
+    });
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  } finally {
+    stmt.free();
+  }
+};
+
+/**
+ * Runs a script such as a .sql dump in the main database statement by
+ * statement, yielding how many characters of it have run every few
+ * statements. The first failing statement stops it with its line.
+ */
+export function* runScript(sql: string): Generator<number> {
+  const db = dbFor();
+  const iterator = db.iterateStatements(sql);
+  let count = 0;
+  while (true) {
+    const remaining: string = iterator.getRemainingSQL();
+    const statementStart = sql.length - remaining.length + (remaining.length - remaining.trimStart().length);
+    let stmt: any;
+    try {
+      const next = iterator.next();
+      if (next.done) return;
+      stmt = next.value;
+    } catch (e: any) {
+      const end = sql.indexOf(';', statementStart);
+      const { line } = locateSqlError(sql, e.message, count, statementStart, end < 0 ? sql.length : end);
+      throw new Error(`Line ${line}: ${e.message}`);
+    }
+    try {
+      while (stmt.step());
+    } catch (e: any) {
+      const { line } = locateSqlError(sql, e.message, count, statementStart, sql.length - iterator.getRemainingSQL().length);
+      throw new Error(`Line ${line}: ${e.message}`);
+    } finally {
+      stmt.free();
+    }
+    if (++count % SCRIPT_CHUNK === 0) yield sql.length - iterator.getRemainingSQL().length;
+  }
+}
+
+// Closes one database, or every open database when `database` is left out
+export const closeDatabase = (database?: string) => {
+  for (const id of database === undefined ? Array.from(databases.keys()) : [database]) {
+    databases.get(id)?.close();
+    databases.delete(id);
+  }
+};
\ No newline at end of file
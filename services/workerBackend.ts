@@ -0,0 +1,38 @@
+/**
+ * The in-browser backend as seen from the page. Its filters live in the
+ * database worker (a localBackend there), next to the database they are built
+ * from; each operation is a message to the worker.
+ */
+import { CqfBackend } from './cqfBackend';
+import { callWorker } from './dbWorkerClient';
+import { BackendMethod } from './dbWorkerProtocol';
+
+export const createWorkerBackend = (): CqfBackend => {
+  const call = <K extends BackendMethod>(method: K, ...args: Parameters<CqfBackend[K]>) =>
+    callWorker('backend', [method, args]) as ReturnType<CqfBackend[K]>;
+
+  return {
+    kind: 'local',
+    label: 'In-browser',
+    ping: () => call('ping'),
+    listFilters: () => call('listFilters'),
+    // Builds from a database go through cqfService.buildCQFFromSource, which streams keys inside the worker
+    build: (name, keys, source, hashing, expectedKeys) => call('build', name, keys, source, hashing, expectedKeys),
+    search: (name, key) => call('search', name, key),
+    insert: (name, key, count) => call('insert', name, key, count),
+    remove: (name, key, count) => call('remove', name, key, count),
+    count: (name, key) => call('count', name, key),
+    batch: (name, op, keys, count, hashing) => call('batch', name, op, keys, count, hashing),
+    setResizePolicy: (name, policy) => call('setResizePolicy', name, policy),
+    stats: (name) => call('stats', name),
+    probe: (name, absentKeys) => call('probe', name, absentKeys),
+    combine: (name, other, op, target) => call('combine', name, other, op, target),
+    compare: (name, other) => call('compare', name, other),
+    missing: (name, other, limit) => call('missing', name, other, limit),
+    slotWindow: (name, from, count) => call('slotWindow', name, from, count),
+    locate: (name, key) => call('locate', name, key),
+    slotLayout: (name) => call('slotLayout', name),
+    exportFilter: (name) => call('exportFilter', name),
+    importFilter: (buffer) => call('importFilter', buffer)
+  };
+};
@@ -0,0 +1,162 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { appendJournal } from './journal';
+import { DEFAULT_RESIZE_POLICY } from './localBackend';
+import { deleteWorkspace, listWorkspaces, loadWorkspace, saveWorkspace } from './workspaceStore';
+import { JournalEntry, WorkspaceState } from '../types';
+
+const bytes = (...values: number[]): ArrayBuffer => new Uint8Array(values).buffer;
+
+const stateOf = (id: string, filters: string[], savedAt = '2026-01-01T00:00:00.000Z'): WorkspaceState => ({
+  id,
+  name: `Workspace ${id}`,
+  savedAt,
+  dbFileName: 'shop.db',
+  filters: filters.map(name => ({ name, policy: DEFAULT_RESIZE_POLICY })),
+  console: [],
+  sqlHistory: [],
+  divergedFilters: {}
+});
+
+const journalOf = (filterName: string, keys: string[]): JournalEntry[] =>
+  appendJournal([], filterName, 'users', keys.map(key => ({
+    origin: 'playground', op: 'insert', key, keyHash: false, amount: 1,
+    result: { ok: true, found: true, count: 1 }, latencyMs: null
+  })));
+
+const journalBytes = (entries: JournalEntry[]): number => new TextEncoder().encode(JSON.stringify(entries)).byteLength;
+
+// Removes one stored file behind the store's back, as a browser clearing part of the origin's data would
+const deleteStoredFile = (key: [string, string]): Promise<void> => new Promise((resolve, reject) => {
+  const request = indexedDB.open('cqf-manager');
+  request.onsuccess = () => {
+    const tx = request.result.transaction('files', 'readwrite');
+    tx.objectStore('files').delete(key);
+    tx.oncomplete = () => { request.result.close(); resolve(); };
+    tx.onerror = () => reject(tx.error);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+beforeEach(async () => {
+  for (const { id } of await listWorkspaces()) await deleteWorkspace(id);
+});
+
+describe('saveWorkspace and loadWorkspace', () => {
+  it('round-trips the state, database, filters and journals', async () => {
+    const journal = journalOf('users.id', ['7', '8']);
+    const summary = await saveWorkspace(stateOf('w1', ['users.id']), {
+      database: bytes(1, 2, 3, 4),
+      filters: { 'users.id': bytes(9, 9) },
+      journals: { 'users.id': journal }
+    });
+    expect(summary).toMatchObject({ id: 'w1', filterCount: 1, hasDatabase: true });
+
+    const { state, files } = await loadWorkspace('w1');
+    expect(state).toEqual(stateOf('w1', ['users.id']));
+    expect([...new Uint8Array(files.database!)]).toEqual([1, 2, 3, 4]);
+    expect([...new Uint8Array(files.filters['users.id'])]).toEqual([9, 9]);
+    expect(files.journals['users.id']).toEqual(journal);
+  });
+
+  it('counts journals in the workspace size', async () => {
+    const journal = journalOf('users.id', ['1', '2', '3', '4', '5']);
+    const summary = await saveWorkspace(stateOf('w1', ['users.id']), {
+      database: bytes(1, 2, 3, 4),
+      filters: { 'users.id': bytes(9, 9) },
+      journals: { 'users.id': journal }
+    });
+    expect(summary.sizeBytes).toBe(4 + 2 + journalBytes(journal));
+
+    // An unchanged journal keeps the size it was saved with
+    const resaved = await saveWorkspace(stateOf('w1', ['users.id']), {
+      database: undefined,
+      filters: {},
+      journals: { 'users.id': null }
+    });
+    expect(resaved.sizeBytes).toBe(summary.sizeBytes);
+    expect((await listWorkspaces())[0].sizeBytes).toBe(summary.sizeBytes);
+  });
+
+  it('keeps the files of unchanged filters and removes those of dropped filters', async () => {
+    const journalA = journalOf('a', ['1']);
+    await saveWorkspace(stateOf('w1', ['a', 'b']), {
+      database: bytes(1),
+      filters: { a: bytes(1), b: bytes(2) },
+      journals: { a: journalA, b: journalOf('b', ['2']) }
+    });
+    // 'a' changed, 'b' was dropped, 'c' is new; the database is unchanged
+    const summary = await saveWorkspace(stateOf('w1', ['a', 'c']), {
+      database: undefined,
+      filters: { a: bytes(1, 1), c: bytes(3) },
+      journals: { a: null, c: journalOf('c', ['3']) }
+    });
+    expect(summary.filterCount).toBe(2);
+
+    const { files } = await loadWorkspace('w1');
+    expect([...new Uint8Array(files.database!)]).toEqual([1]);
+    expect(Object.keys(files.filters).sort()).toEqual(['a', 'c']);
+    expect([...new Uint8Array(files.filters.a)]).toEqual([1, 1]);
+    expect(Object.keys(files.journals).sort()).toEqual(['a', 'c']);
+    expect(files.journals.a).toEqual(journalA);
+  });
+
+  it('refuses to keep filter and journal files that were never saved', async () => {
+    await saveWorkspace(stateOf('w1', ['a']), { database: null, filters: { a: bytes(1) }, journals: {} });
+    await expect(saveWorkspace(stateOf('w1', ['a', 'b']), { database: undefined, filters: {}, journals: {} }))
+      .rejects.toThrow("Filter 'b' has no saved file in this workspace");
+    await expect(saveWorkspace(stateOf('w1', ['a']), { database: undefined, filters: {}, journals: { a: null } }))
+      .rejects.toThrow("Journal of 'a' has no saved copy in this workspace");
+  });
+
+  it('drops the database file when the workspace no longer has one', async () => {
+    await saveWorkspace(stateOf('w1', []), { database: bytes(1, 2), filters: {}, journals: {} });
+    const summary = await saveWorkspace(stateOf('w1', []), { database: null, filters: {}, journals: {} });
+    expect(summary).toMatchObject({ hasDatabase: false, sizeBytes: 0 });
+    expect((await loadWorkspace('w1')).files.database).toBeNull();
+  });
+
+  it('reports files missing from storage', async () => {
+    const files = { database: bytes(1), filters: { a: bytes(1) }, journals: { a: journalOf('a', ['1']) } };
+    await saveWorkspace(stateOf('w1', ['a']), files);
+    await deleteStoredFile(['w1', 'journal:a']);
+    await expect(loadWorkspace('w1')).rejects.toThrow("Workspace 'Workspace w1' is missing the journal of 'a'");
+
+    await saveWorkspace(stateOf('w1', ['a']), files);
+    await deleteStoredFile(['w1', 'filter:a']);
+    await expect(loadWorkspace('w1')).rejects.toThrow("Workspace 'Workspace w1' is missing filter 'a'");
+
+    await saveWorkspace(stateOf('w1', ['a']), files);
+    await deleteStoredFile(['w1', 'database']);
+    await expect(loadWorkspace('w1')).rejects.toThrow("Workspace 'Workspace w1' is missing its database file");
+
+    await expect(loadWorkspace('nope')).rejects.toThrow('Workspace no longer exists');
+  });
+});
+
+describe('listWorkspaces and deleteWorkspace', () => {
+  it('lists the most recently saved first', async () => {
+    await saveWorkspace(stateOf('old', [], '2026-01-01T00:00:00.000Z'), { database: null, filters: {}, journals: {} });
+    await saveWorkspace(stateOf('new', [], '2026-03-01T00:00:00.000Z'), { database: null, filters: {}, journals: {} });
+    await saveWorkspace(stateOf('mid', [], '2026-02-01T00:00:00.000Z'), { database: null, filters: {}, journals: {} });
+    expect((await listWorkspaces()).map(({ id }) => id)).toEqual(['new', 'mid', 'old']);
+  });
+
+  it("deletes every file of one workspace and none of another's", async () => {
+    const files = () => ({ database: bytes(1), filters: { a: bytes(1) }, journals: { a: journalOf('a', ['1']) } });
+    await saveWorkspace(stateOf('w1', ['a']), files());
+    // Ids that share a prefix must stay outside the deleted key range
+    await saveWorkspace(stateOf('w10', ['a']), files());
+    await deleteWorkspace('w1');
+
+    expect((await listWorkspaces()).map(({ id }) => id)).toEqual(['w10']);
+    await expect(loadWorkspace('w1')).rejects.toThrow('Workspace no longer exists');
+    const { files: kept } = await loadWorkspace('w10');
+    expect(Object.keys(kept.filters)).toEqual(['a']);
+    expect(kept.journals.a).toHaveLength(1);
+
+    // Saving under the deleted id again starts from nothing
+    await expect(saveWorkspace(stateOf('w1', ['a']), { database: undefined, filters: {}, journals: {} }))
+      .rejects.toThrow("Filter 'a' has no saved file in this workspace");
+  });
+});
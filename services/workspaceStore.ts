@@ -0,0 +1,202 @@
+/**
+ * Saved workspaces in IndexedDB. Workspace state (filter names and policies,
+ * operation log, SQL history) lives in one store; the database file, each
+ * serialized filter and each filter's operation journal live in another,
+ * keyed by [workspace id, part], so the recent-workspaces list never reads the
+ * large files.
+ */
+import { JournalEntry, StorageUsage, WorkspaceState, WorkspaceSummary } from '../types';
+
+const DB_NAME = 'cqf-manager';
+const DB_VERSION = 1;
+const WORKSPACES = 'workspaces';
+const FILES = 'files';
+const DATABASE_PART = 'database';
+const filterPart = (name: string) => `filter:${name}`;
+const journalPart = (name: string) => `journal:${name}`;
+
+interface WorkspaceRecord extends WorkspaceState {
+  databaseBytes: number | null; // null when the workspace has no database
+  filterBytes: Record<string, number>;
+  journalEntries?: Record<string, number>; // Missing in workspaces saved by earlier versions, which kept no journals
+  journalBytes?: Record<string, number>; // Size of each journal as JSON; missing in workspaces saved before it was recorded
+}
+
+export interface WorkspaceFiles {
+  database: ArrayBuffer | null;
+  filters: Record<string, ArrayBuffer>; // Filter name -> .cqf file
+  journals: Record<string, JournalEntry[]>; // Filter name -> operation journal
+}
+
+let openPromise: Promise<IDBDatabase> | null = null;
+
+const openStore = (): Promise<IDBDatabase> => {
+  if (!openPromise) {
+    openPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(WORKSPACES, { keyPath: 'id' });
+        request.result.createObjectStore(FILES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open workspace storage'));
+    });
+    // Allow a retry after a failed open (e.g. storage blocked in private mode)
+    openPromise.catch(() => { openPromise = null; });
+  }
+  return openPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('Workspace transaction aborted'));
+});
+
+const sum = (sizes: Record<string, number> = {}): number => Object.values(sizes).reduce((total, bytes) => total + bytes, 0);
+
+// Journals are stored as objects; their JSON text is a close measure of the space they take
+const journalSize = (entries: JournalEntry[]): number => new TextEncoder().encode(JSON.stringify(entries)).byteLength;
+
+const summaryOf = (record: WorkspaceRecord): WorkspaceSummary => ({
+  id: record.id,
+  name: record.name,
+  savedAt: record.savedAt,
+  sizeBytes: (record.databaseBytes ?? 0) + sum(record.filterBytes) + sum(record.journalBytes),
+  filterCount: record.filters.length,
+  hasDatabase: record.databaseBytes !== null
+});
+
+// Most recently saved first
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const db = await openStore();
+  const records = await requestResult(db.transaction(WORKSPACES).objectStore(WORKSPACES).getAll()) as WorkspaceRecord[];
+  return records.map(summaryOf).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/**
+ * Writes the workspace, replacing what was saved under its id. Pass
+ * `database: undefined` to keep the stored database file when it has not
+ * changed. `files.filters` holds the filters changed since the last save;
+ * the other filters in `state.filters` keep their stored files, and files of
+ * filters no longer listed are removed. `files.journals` lists every journal,
+ * with null for those unchanged since the last save.
+ */
+export const saveWorkspace = async (
+  state: WorkspaceState,
+  files: {
+    database: ArrayBuffer | null | undefined;
+    filters: Record<string, ArrayBuffer>;
+    journals: Record<string, JournalEntry[] | null>;
+  }
+): Promise<WorkspaceSummary> => {
+  const db = await openStore();
+  const previous = await requestResult(db.transaction(WORKSPACES).objectStore(WORKSPACES).get(state.id)) as WorkspaceRecord | undefined;
+  const unsaved = state.filters.find(({ name }) => !files.filters[name] && previous?.filterBytes[name] === undefined);
+  if (unsaved) throw new Error(`Filter '${unsaved.name}' has no saved file in this workspace`);
+  const unsavedJournal = Object.keys(files.journals).find(name => !files.journals[name] && previous?.journalEntries?.[name] === undefined);
+  if (unsavedJournal) throw new Error(`Journal of '${unsavedJournal}' has no saved copy in this workspace`);
+
+  const tx = db.transaction([WORKSPACES, FILES], 'readwrite');
+  const fileStore = tx.objectStore(FILES);
+  const filterBytes: Record<string, number> = {};
+  for (const { name } of state.filters) {
+    const buffer = files.filters[name];
+    if (buffer) {
+      fileStore.put(buffer, [state.id, filterPart(name)]);
+      filterBytes[name] = buffer.byteLength;
+    } else {
+      filterBytes[name] = previous!.filterBytes[name];
+    }
+  }
+  for (const name of Object.keys(previous?.filterBytes ?? {})) {
+    if (!(name in filterBytes)) fileStore.delete([state.id, filterPart(name)]);
+  }
+  const journalEntries: Record<string, number> = {};
+  const journalBytes: Record<string, number> = {};
+  for (const [name, entries] of Object.entries(files.journals)) {
+    if (entries) {
+      fileStore.put(entries, [state.id, journalPart(name)]);
+      journalEntries[name] = entries.length;
+      journalBytes[name] = journalSize(entries);
+    } else {
+      journalEntries[name] = previous!.journalEntries![name];
+      journalBytes[name] = previous!.journalBytes?.[name] ?? 0;
+    }
+  }
+  for (const name of Object.keys(previous?.journalEntries ?? {})) {
+    if (!(name in journalEntries)) fileStore.delete([state.id, journalPart(name)]);
+  }
+
+  let databaseBytes = previous?.databaseBytes ?? null;
+  if (files.database === null) {
+    fileStore.delete([state.id, DATABASE_PART]);
+    databaseBytes = null;
+  } else if (files.database !== undefined) {
+    fileStore.put(files.database, [state.id, DATABASE_PART]);
+    databaseBytes = files.database.byteLength;
+  }
+
+  const record: WorkspaceRecord = { ...state, databaseBytes, filterBytes, journalEntries, journalBytes };
+  tx.objectStore(WORKSPACES).put(record);
+  await transactionDone(tx);
+  return summaryOf(record);
+};
+
+export const loadWorkspace = async (id: string): Promise<{ state: WorkspaceState; files: WorkspaceFiles }> => {
+  const db = await openStore();
+  const tx = db.transaction([WORKSPACES, FILES]);
+  const record = await requestResult(tx.objectStore(WORKSPACES).get(id)) as WorkspaceRecord | undefined;
+  if (!record) throw new Error('Workspace no longer exists');
+
+  const fileStore = tx.objectStore(FILES);
+  const database = record.databaseBytes === null
+    ? null
+    : await requestResult(fileStore.get([id, DATABASE_PART])) as ArrayBuffer | undefined;
+  if (database === undefined) throw new Error(`Workspace '${record.name}' is missing its database file`);
+
+  const filters: Record<string, ArrayBuffer> = {};
+  for (const name of Object.keys(record.filterBytes)) {
+    const buffer = await requestResult(fileStore.get([id, filterPart(name)])) as ArrayBuffer | undefined;
+    if (!buffer) throw new Error(`Workspace '${record.name}' is missing filter '${name}'`);
+    filters[name] = buffer;
+  }
+
+  const journals: Record<string, JournalEntry[]> = {};
+  for (const name of Object.keys(record.journalEntries ?? {})) {
+    const entries = await requestResult(fileStore.get([id, journalPart(name)])) as JournalEntry[] | undefined;
+    if (!entries) throw new Error(`Workspace '${record.name}' is missing the journal of '${name}'`);
+    journals[name] = entries;
+  }
+
+  const { databaseBytes: _, filterBytes: __, journalEntries: ___, journalBytes: ____, ...state } = record;
+  return { state, files: { database, filters, journals } };
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const db = await openStore();
+  const tx = db.transaction([WORKSPACES, FILES], 'readwrite');
+  tx.objectStore(WORKSPACES).delete(id);
+  // Every [id, part] key sorts between [id] and [id, []] (arrays sort after strings)
+  tx.objectStore(FILES).delete(IDBKeyRange.bound([id], [id, []]));
+  await transactionDone(tx);
+};
+
+// null when the browser does not report storage estimates
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+};
+
+export const createWorkspaceId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -1,8 +1,18 @@
 export interface TableInfo {
   name: string;
+  database: string; // Id of the open database holding the table (see OpenDatabase)
+  type: 'table' | 'view';
   rowCount: number;
-  pkColumn: string | null;
+  pkColumns: string[]; // Ordered by position in the PRIMARY KEY; empty if none
   columns: string[];
+  columnTypes: string[]; // Declared types, parallel to columns; '' when undeclared
+}
+
+// A database opened next to the main one; read-only, and not saved with workspaces
+export interface OpenDatabase {
+  id: string;
+  fileName: string;
+  tables: TableInfo[];
 }
 
 export interface TableData {
@@ -10,20 +20,464 @@ export interface TableData {
   rows: any[][];
 }
 
+export interface SqlStatementResult extends TableData {
+  sql: string;
+  readOnly: boolean; // Left the database unchanged, judged from the statement rather than its output
+  rowsModified: number; // For statements that are not read-only
+  truncated: boolean; // Rows beyond MAX_RESULT_ROWS were dropped
+}
+
+export interface SqlErrorInfo {
+  message: string;
+  statementIndex: number;
+  offset: number; // Into the submitted SQL text
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface SqlRunResult {
+  statements: SqlStatementResult[]; // Statements that completed before any error
+  error: SqlErrorInfo | null;
+  elapsedMs: number;
+}
+
+export interface SqlHistoryEntry {
+  sql: string;
+  ranAt: string; // ISO timestamp
+  ok: boolean;
+}
+
+// A workspace as saved in IndexedDB; the database and filter files are stored separately (see workspaceStore.ts)
+export interface WorkspaceState {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  dbFileName: string | null; // null when no database was loaded
+  filters: { name: string; policy: ResizePolicy }[];
+  console: string[]; // Operation log, newest first
+  sqlHistory: SqlHistoryEntry[];
+  divergedFilters: Record<string, string>;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  savedAt: string;
+  sizeBytes: number; // Database, filter files and journals
+  filterCount: number;
+  hasDatabase: boolean;
+}
+
+// Origin-wide, as reported by the browser
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export interface TableSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// One window of a table in the browser grid
+export interface TableQuery {
+  sort: TableSort | null;
+  filters: Record<string, string>; // column -> substring to match; empty values are ignored
+  offset: number;
+  limit: number;
+}
+
 export interface CqfFilterState {
   isBuilt: boolean;
-  itemCount: number;
-  falsePositiveRate: number; // Simulated metric
-  capacity: number;
+  source: FilterProvenance;
+  itemCount: number; // Total multiplicity
+  distinctCount: number;
+  capacity: number; // Home slots (2^qbits)
+  quotientBits: number;
+  remainderBits: number;
+  occupiedSlots: number;
+  loadFactor: number;
+  bitsPerElement: number;
+  sizeInBytes: number;
+  theoreticalFpRate: number;
+  measuredFpRate: number | null; // From the latest FP probe, if any
+  probeCount: number;
+  resizePolicy: ResizePolicy;
+  resizeCount: number; // Expansions since the filter was built or loaded
+  hashing: KeyHashing;
+}
+
+export type HashFunction = 'murmur3' | 'xxhash64';
+
+// SQLite type affinity of a key part, from its column's declared type; decides how key text is read
+export type KeyAffinity = 'numeric' | 'text' | 'none';
+
+// Canonical form of keys before hashing (see keyEncoding.ts)
+export interface KeyEncoding {
+  affinities: KeyAffinity[]; // One per key part
+  trim: boolean; // TEXT: ignore leading and trailing whitespace
+  caseFold: boolean; // TEXT: compare case-insensitively
+}
+
+// How keys become fingerprints; chosen when a filter is built and recorded with it
+export interface KeyHashing {
+  hash: HashFunction;
+  seed: number;
+  encoding: KeyEncoding | null; // null: keys hashed as their UTF-8 text, as filters from earlier versions are
+}
+
+// Hashing picked in the builder; key part affinities are added from the key source at build time
+export interface HashingOptions {
+  hash: HashFunction;
+  seed: number;
+  trim: boolean;
+  caseFold: boolean;
+}
+
+// What an insert does once the load factor would pass `maxLoadFactor`
+export interface ResizePolicy {
+  mode: 'grow' | 'reject'; // grow: double the home slots; reject: refuse the insert
+  maxLoadFactor: number;
+}
+
+export interface ResizeEvent {
+  fromQuotientBits: number;
+  toQuotientBits: number;
+  toRemainderBits: number;
+  loadFactorBefore: number;
+  loadFactorAfter: number;
+}
+
+// Identifies one row: primary key values, or { rowid } for tables without a primary key
+export type RowLocator = Record<string, any>;
+
+// Column values to write; columns left out keep their value (or default, on insert)
+export type RowValues = Record<string, any>;
+
+export type RowEdit =
+  | { kind: 'insert'; values: RowValues }
+  | { kind: 'update'; locator: RowLocator; values: RowValues }
+  | { kind: 'delete'; locator: RowLocator };
+
+// Keys a row edit removed from and inserted into one filter
+export interface FilterMaintenance {
+  filterName: string;
+  removedKeys: string[];
+  insertedKeys: string[];
+  missingKeys: string[]; // Keys of the old row the filter did not hold, i.e. it had already diverged
+  resizes: ResizeEvent[];
+}
+
+export interface RowEditResult {
+  locator: RowLocator | null; // The row after the edit; null once deleted
+  filters: FilterMaintenance[];
+  unmaintained: string[]; // Query-built filters that may read the table but cannot be updated per row
+}
+
+// What a filter's keys are extracted from, per row of the source table
+export type KeySource =
+  | { kind: 'primaryKey'; columns: string[] } // Composite keys are encoded with encodeCompositeKey
+  | { kind: 'column'; column: string }
+  | { kind: 'rowid' }
+  | { kind: 'expression'; expression: string } // Any SQL expression, e.g. lower(email)
+  | { kind: 'query'; sql: string; column: string }; // Single-column result set of a query
+
+export interface FilterSource {
+  database?: string; // Open database the keys are read from; absent for the main database
+  tableName: string; // Empty for query key sources
+  keySource: KeySource | null; // null when the keys were supplied directly
+  where: string | null; // Optional SQL condition restricting the rows
+}
+
+// Where a filter's keys came from; stored in exported filter files
+export interface FilterProvenance extends FilterSource {
+  filterName: string;
+  createdAt: string; // ISO timestamp of the build
+  keyEncoding?: KeyEncoding | null; // Missing in files from earlier versions, which hashed key text
+  derivedFrom?: { op: SetOperation; filters: [string, string] }; // Set only on filters combined from two others
+}
+
+// union sums counts, intersection keeps the smaller count, difference subtracts B's counts from A's
+export type SetOperation = 'union' | 'intersection' | 'difference';
+
+// Overlap of two filters; "fingerprints" are exact, "estimated" values correct for collisions
+export interface FilterComparison {
+  filterA: string;
+  filterB: string;
+  fingerprintBits: number;
+  distinctA: number;
+  distinctB: number;
+  sharedFingerprints: number;
+  onlyInA: number; // Fingerprints of A that B does not store
+  onlyInB: number;
+  estimatedIntersection: number; // Distinct keys in both
+  estimatedDifference: number; // Distinct keys in A but not B
+}
+
+export interface StoredFingerprint {
+  fingerprint: string; // Hex of the full quotient+remainder bits
+  count: number;
+}
+
+export interface FingerprintListing {
+  fingerprints: StoredFingerprint[]; // At most the requested limit, in slot order
+  total: number;
+}
+
+export interface FpProbeResult {
+  probes: number;
+  falsePositives: number;
+  measuredFpRate: number;
+}
+
+// One slot of a filter's slot array, as drawn by the slot visualizer
+export interface SlotInfo {
+  occupied: boolean; // occupieds bit: some stored key has this as its home slot
+  runend: boolean; // runends bit: the last slot of a run
+  value: number; // Remainder or counter digit as stored; 0 when empty
+  kind: 'empty' | 'remainder' | 'counter'; // counter: a digit encoding the count of the remainder before it
+  quotient: number | null; // Home slot of the run this slot belongs to
+  count: number | null; // On remainder slots: the count decoded for that remainder
+}
+
+export interface SlotWindow {
+  from: number; // Index of slots[0]
+  slots: SlotInfo[];
+  homeSlots: number; // 2^q; slots past these are the overflow area
+  totalSlots: number;
+}
+
+// Where a key's fingerprint lives, whether or not it is stored
+export interface KeyLocation {
+  quotient: number; // Home slot
+  remainder: number;
+  run: [number, number] | null; // First and last slot of the home slot's run, if it has one
+  cluster: [number, number] | null; // The contiguous used slots an insert at the home slot would rewrite
+  slots: [number, number] | null; // The remainder and its counter digits, if the fingerprint is stored
+  count: number;
+}
+
+// Shape of the slot array: histograms index lengths in slots (index 0 unused)
+export interface SlotLayoutStats {
+  runLengths: number[];
+  clusterLengths: number[];
+  meanShift: number; // Mean distance from a run's home slot to its first slot
+  maxShift: number;
+  meanInsertSpan: number; // Expected used slots an insert at a random home slot has to rewrite
+  counterSlots: number; // Slots holding counter digits rather than remainders
+}
+
+export type BatchOp = 'search' | 'insert' | 'delete';
+
+export interface BatchKeyResult {
+  ok: boolean; // false if the filter rejected the operation for this key
+  found: boolean; // search: probably present; insert: inserted; delete: something was removed
+  count: number; // Multiplicity after the operation
+  error?: string;
+}
+
+export interface BatchRun {
+  filterName: string;
+  op: BatchOp;
+  keys: string[];
+  hashing: KeyHashing | null; // Set when the keys are key hashes from a fingerprint file
+  results: BatchKeyResult[]; // Parallel to keys
+  resizes: ResizeEvent[];
+  found: number;
+  notFound: number;
+  failed: number;
+  elapsedMs: number;
+}
+
+export type KeyFileFormat = 'text' | 'csv' | 'json' | 'ndjson' | 'fingerprints';
+
+export interface KeyExportOptions {
+  format: KeyFileFormat;
+  header: boolean; // CSV: first line names the columns
+  extraColumns: string[]; // Table columns written after each key (CSV and JSON formats)
+  hashing: KeyHashing | null; // Fingerprints: hashing of the filters the file is meant for
+}
+
+// A key file read back for bulk operations
+export interface KeyFile {
+  format: KeyFileFormat;
+  keys: string[]; // Fingerprint files: each key's 64-bit hash as 16 hex digits
+  hashing: KeyHashing | null; // Set for fingerprint files
+}
+
+// Files the database upload accepts besides SQLite images; each becomes an in-memory database
+export type DataFileFormat = 'csv' | 'json' | 'sql';
+
+export type ImportColumnType = 'INTEGER' | 'REAL' | 'TEXT' | 'BLOB';
+
+export interface ImportColumn {
+  name: string;
+  type: ImportColumnType; // Declared type of the created column; starts as the inferred one
+  inferredType: ImportColumnType;
+}
+
+// A CSV or JSON file read into rows, with the table to create for it; the preview edits the table name, types and PK
+export interface ImportTablePlan {
+  fileName: string;
+  format: Exclude<DataFileFormat, 'sql'>;
+  tableName: string;
+  columns: ImportColumn[];
+  primaryKey: string | null; // null: rowid only
+  rows: unknown[][]; // Column values in `columns` order; null for missing values
+}
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+}
+
+// Progress of a long database-worker job; `total` is null when it is not known in advance
+export interface JobProgress {
+  label: string; // What is being counted, e.g. 'Scanning rows'
+  done: number;
+  total: number | null;
+}
+
+export type BenchmarkStructure = 'cqf' | 'bloom' | 'cuckoo' | 'set';
+
+export interface BenchmarkOptions {
+  targetFpRate: number; // Every filter is sized for this false-positive rate
+  probeCount: number; // Keys known to be absent, looked up to measure the FP rate
+}
+
+// One data structure, built from the key set and exercised once
+export interface BenchmarkMeasurement {
+  structure: BenchmarkStructure;
+  label: string;
+  parameters: string; // How it was sized, e.g. 'q=17, r=7'
+  bytes: number;
+  memoryEstimated: boolean; // The exact Set's footprint cannot be measured, only estimated
+  bitsPerKey: number;
+  buildMs: number; // Creating it and inserting every key, one at a time
+  insertsPerSec: number;
+  lookupsPerSec: number; // Present and absent keys together
+  deletesPerSec: number | null; // null: deletion is not supported
+  measuredFpRate: number;
+  failedInserts: number; // Keys the structure refused, e.g. a cuckoo filter out of room
+  falseNegatives: number; // Inserted keys not found afterwards; only failed inserts should cause these
+}
+
+export interface BenchmarkResult {
+  source: string; // The key source benchmarked, as described in the UI
+  keyCount: number; // Distinct keys
+  options: BenchmarkOptions;
+  startedAt: string;
+  measurements: BenchmarkMeasurement[];
+}
+
+export type JournalOp = 'build' | 'search' | 'insert' | 'delete' | 'count';
+
+// What issued the operation; builds, imports and combines start the filter over
+export type JournalOrigin = 'build' | 'import' | 'combine' | 'playground' | 'batch' | 'row-edit';
+
+export interface JournalResult {
+  ok: boolean; // false if the filter rejected the operation
+  found: boolean; // search: probably present; insert: inserted; delete: something was removed; count: count > 0
+  count: number | null; // Multiplicity after the operation (keys in the filter for builds); null if not reported
+  error?: string;
+}
+
+// One filter operation, as recorded in the operation journal
+export interface JournalEntry {
+  seq: number; // Position in the filter's journal, from 1
+  timestamp: string; // ISO timestamp
+  table: string | null; // Source table of the filter; null for detached and query filters
+  filterName: string;
+  origin: JournalOrigin;
+  op: JournalOp;
+  key: string; // Empty for builds
+  keyHash: boolean; // The key is a key hash from a fingerprint file
+  amount: number; // Copies inserted or deleted; 1 for the other operations
+  result: JournalResult;
+  latencyMs: number | null; // Batch entries share their run's average; null when not timed
+}
+
+export interface JournalReplayEntry {
+  seq: number;
+  result: JournalResult | null; // null when the entry was skipped
+  matches: boolean;
+}
+
+export interface JournalReplay {
+  filterName: string;
+  replayedAt: string;
+  fromSeq: number; // First entry replayed: the one after the last build, or the first kept
+  entries: JournalReplayEntry[];
+  matched: number;
+  different: number;
+  skipped: number; // Row edits, already in the rebuilt filter
+  elapsedMs: number;
+}
+
+export interface JoinVerification {
+  trueMatches: number;
+  falsePositives: number;
+  verified: boolean[]; // Parallel to JoinCheckResult.values; false for definite misses
+  verifyMs: number; // Exact lookups of the probable matches only
+  sqlJoinMs: number; // The same semi-join as plain SQL, for comparison
+  sqlJoinMatches: number;
+}
+
+// Values of one column probed against another table's filter
+export interface JoinCheckResult {
+  tableName: string;
+  column: string;
+  filterName: string;
+  values: string[]; // Non-NULL column values, one per row
+  probablyMatches: boolean[]; // Parallel to values
+  probableMatches: number;
+  definiteMisses: number;
+  probeMs: number;
+  verification: JoinVerification | null;
+}
+
+// Base side of a snapshot diff, probed in the worker against a filter over the target
+export interface SnapshotKeyProbe {
+  keyCount: number; // Distinct base keys
+  removed: string[]; // Ruled out by the filter over the target: definitely not in it
+  possiblyShared: number;
+  sample: string[]; // Random possibly shared keys, for an exact check
+}
+
+export interface SnapshotDiffSample {
+  size: number; // Possibly shared keys looked up exactly in the other snapshot
+  confirmed: number; // Of those, keys really there
+}
+
+// Keys of the same key source in two open databases: the filter's (base) and the table probed against it (target)
+export interface SnapshotDiffResult {
+  filterName: string;
+  base: { database: string; tableName: string; keyCount: number };
+  target: { database: string; tableName: string; keyCount: number };
+  added: string[]; // In the target, definitely not in the base
+  removed: string[]; // In the base, definitely not in the target
+  possiblyShared: string[]; // Target keys the filter reports present; some are false positives
+  targetSample: SnapshotDiffSample; // Possibly shared target keys looked up in the base
+  baseSample: SnapshotDiffSample; // Possibly shared base keys looked up in the target
+  estimatedAdded: number; // Corrected with the samples' false-positive rates
+  estimatedRemoved: number;
+  estimatedShared: number;
+  elapsedMs: number;
 }
 
 export interface DbServiceError {
   message: string;
+  code?: 'timeout' | 'network' | 'http' | 'protocol';
+  status?: number; // HTTP status, when the backend answered
 }
 
-// Global definition for sql.js loaded via script tag
-declare global {
-  interface Window {
-    initSqlJs: (config: { locateFile: (filename: string) => string }) => Promise<any>;
-  }
-}
\ No newline at end of file
+export type BackendConfig =
+  | { kind: 'local' }
+  | { kind: 'http'; baseUrl: string; timeoutMs: number };
+
+export interface BackendStatus {
+  state: 'connected' | 'checking' | 'disconnected';
+  label: string;
+  error?: string;
+  latencyMs?: number;
+}